@@ -1,24 +1,6 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { app, db, auth, isFirebaseValid } from './firebase';
-import { 
-  doc, 
-  setDoc, 
-  getDoc, 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  getDocs, 
-  query,
-  orderBy,
-  where,
-  serverTimestamp,
-  Timestamp,
-  writeBatch,
-  limit,
-  startAfter,
-} from 'firebase/firestore';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { auth, isFirebaseValid } from './firebase';
 import { onAuthStateChanged, User as FirebaseAuthUser, updateProfile, signOut } from 'firebase/auth';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -34,12 +16,29 @@ import VocabPractice from './components/VocabPractice';
 import VocabPracticeDetailView from './components/VocabPracticeDetailView';
 import Rehearsal from './components/Rehearsal';
 import RehearsalReport from './components/RehearsalReport';
+import RehearsalTrends from './components/RehearsalTrends';
+import ClozePractice from './components/ClozePractice';
 import ProfileView from './components/ProfileView';
-
-import { ViewState, DiaryEntry, ChatMessage, RehearsalEvaluation, DiaryIteration, AdvancedVocab, PracticeRecord, InspirationFragment, UserProfile } from './types';
-import { analyzeDiaryEntry, analyzeDiaryEntryStream, enrichFragment } from './services/geminiService';
-import { stripRuby, weaveRubyMarkdown, detectLanguage } from './utils/textHelpers';
-import { calculateDiff } from './utils/diffHelper';
+import MockMigrationModal from './components/MockMigrationModal';
+
+import { ViewState, DiaryEntry, DiaryAnalysis, RehearsalResult, DiaryIteration, AdvancedVocab, PracticeRecord, PracticeRetention, InspirationFragment, UserProfile, LearnerProfile, UsageFeature, SrsState } from './types';
+import { analyzeDiaryEntry, analyzeDiaryEntryProgressive, enrichFragment } from './services/geminiService';
+import { detectLanguageScores, CONFIDENT_DETECTION } from './utils/textHelpers';
+import { DEFAULT_LANGUAGES, getLanguage } from './utils/languages';
+import { planVocabInsertion, isDuplicateVocab, boostParentMastery, DEFAULT_PRACTICE_RETENTION, prependPractice, RECENT_PRACTICES_KEPT } from './utils/vocabHelpers';
+import { buildReviewQueue, scheduleReview, gradeFromPractice } from './utils/srsScheduler';
+import { ClozeItem, withClozeReview } from './utils/cloze';
+import { createRepositories, PageCursor, PracticePage } from './services/repositories';
+import { createLLMProvider, createMeteredProvider, describeLLMError, setLLMProvider } from './services/llm';
+import { BudgetExceededError, createUsageTracker, UsageSnapshot } from './services/usageService';
+import { exportBackupBundle, listAllEntries, parseBackupBundle, restoreBackupBundle, ImportMode } from './services/backupService';
+import { buildAnkiPackage } from './services/ankiExportService';
+import { loadLearnerProfiles, rebuildLearnerProfiles, recordCorrections } from './services/learnerProfileService';
+import { hasMockData, isMigrationDismissed, dismissMigration, previewMockMigration, migrateMockData, MockMigrationPreview } from './services/mockMigrationService';
+import { enqueueAnalysis, listQueuedAnalyses, recordFailedAttempt, removeQueuedAnalysis, resetQueueBackoff, QueuedAnalysis } from './services/analysisQueue';
+import { deleteRecording } from './services/recordingService';
+import { downloadFile, fileDateStamp } from './utils/downloadHelpers';
+import { USAGE_BUDGETS, UsagePlan } from './utils/usageAccounting';
 import { Toaster, toast } from 'react-hot-toast';
 
 const AVATAR_SEEDS = [
@@ -53,20 +52,37 @@ const AVATAR_SEEDS = [
   { seed: 'Buster', label: '极简主义者' },
 ];
 
-const DEFAULT_LANGS = ['English', 'Japanese', 'French', 'Spanish', 'German'];
-const FREE_DAILY_LIMIT = 2; // Non-pro daily limit for diary analysis
+const ENTRIES_PAGE_SIZE = 12;
+const PRACTICE_PAGE_SIZE = 20;
+
+// Auto-correct the language when the text is clearly in another one; when unsure, ask if allowed to
+const resolveAnalysisLanguage = (text: string, language: string, askIfUnsure = false) => {
+  const detected = detectLanguageScores(text);
+  if (detected.language === language || detected.confidence < CONFIDENT_DETECTION / 2) return language;
+  if (detected.confidence >= CONFIDENT_DETECTION) return detected.language;
+  const { nameZh } = getLanguage(detected.language);
+  return askIfUnsure && window.confirm(`这段文字看起来更像${nameZh}，要按${nameZh}处理吗？`) ? detected.language : language;
+};
 
 const App: React.FC = () => {
   const [user, setUser] = useState<{ uid: string, isMock: boolean } & UserProfile | null>(null);
   const [isAuthInitializing, setIsAuthInitializing] = useState(true); 
   const [view, setView] = useState<ViewState>('dashboard');
+  // Where the rehearsal trends view was opened from, for its back button
+  const [trendsOrigin, setTrendsOrigin] = useState<ViewState>('dashboard');
   const [entries, setEntries] = useState<DiaryEntry[]>([]);
-  const [lastEntryDoc, setLastEntryDoc] = useState<any>(null);
+  // Every entry, not just the pages History has loaded; fetched when a view needs the whole archive
+  const [allEntries, setAllEntries] = useState<DiaryEntry[] | null>(null);
+  const [entriesCursor, setEntriesCursor] = useState<PageCursor | null>(null);
   const [hasMoreEntries, setHasMoreEntries] = useState(true);
   const [isFetchingMoreEntries, setIsFetchingMoreEntries] = useState(false);
   const [fragments, setFragments] = useState<InspirationFragment[]>([]);
   const [currentEntry, setCurrentEntry] = useState<DiaryEntry | null>(null); 
   const [currentEntryIterations, setCurrentEntryIterations] = useState<DiaryIteration[]>([]); 
+  const [learnerProfiles, setLearnerProfiles] = useState<Record<string, LearnerProfile>>({});
+  const [streamingReview, setStreamingReview] = useState<{ analysis: DiaryAnalysis; language: string } | null>(null);
+  const [iteratingEntryId, setIteratingEntryId] = useState<string | null>(null);
+  const [queuedAnalyses, setQueuedAnalyses] = useState<QueuedAnalysis[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [analyzingId, setAnalyzingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -75,6 +91,10 @@ const App: React.FC = () => {
   const [summaryPrompt, setSummaryPrompt] = useState<string>('');
   const [isReviewingExisting, setIsReviewingExisting] = useState(false); 
   const [showProModal, setShowProModal] = useState(false);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [isMigrationOpen, setIsMigrationOpen] = useState(false);
+  const [migrationPreview, setMigrationPreview] = useState<MockMigrationPreview | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
 
 
   const [allAdvancedVocab, setAllAdvancedVocab] = useState<AdvancedVocab[]>([]); 
@@ -91,50 +111,32 @@ const App: React.FC = () => {
   const [editPhoto, setEditPhoto] = useState('');
   const [isAvatarPickerOpen, setIsAvatarPickerOpen] = useState(false);
 
-  const preferredLanguages = useMemo(() => user?.preferredLanguages || DEFAULT_LANGS, [user]);
+  const preferredLanguages = useMemo(() => user?.preferredLanguages || DEFAULT_LANGUAGES, [user]);
+  const practiceRetention = user?.practiceRetention || DEFAULT_PRACTICE_RETENTION;
 
-  const fetchEntries = useCallback(async (userId: string, isFirstPage: boolean = false) => {
-    if (!db || isFetchingMoreEntries || (!isFirstPage && !hasMoreEntries)) return;
+  const repos = useMemo(() => user ? createRepositories(user.uid, user.isMock) : null, [user?.uid, user?.isMock]);
+
+  const fetchEntries = useCallback(async (isFirstPage: boolean = false) => {
+    if (!repos || isFetchingMoreEntries || (!isFirstPage && !hasMoreEntries)) return;
 
     setIsFetchingMoreEntries(true);
     try {
-      const diaryEntriesColRef = collection(db, 'users', userId, 'diaryEntries');
-      let diaryEntriesQuery = query(
-        diaryEntriesColRef, 
-        orderBy('timestamp', 'desc'), 
-        limit(12)
-      );
-
-      if (!isFirstPage && lastEntryDoc) {
-        diaryEntriesQuery = query(
-          diaryEntriesColRef, 
-          orderBy('timestamp', 'desc'), 
-          startAfter(lastEntryDoc),
-          limit(12)
-        );
-      }
-
-      const diaryEntriesSnapshot = await getDocs(diaryEntriesQuery);
-      const newEntries = diaryEntriesSnapshot.docs.map(d => ({ 
-        ...d.data(), 
-        id: d.id, 
-        timestamp: (d.data().timestamp as Timestamp).toMillis() 
-      })) as DiaryEntry[];
+      const page = await repos.diary.listEntries(ENTRIES_PAGE_SIZE, isFirstPage ? null : entriesCursor);
 
       if (isFirstPage) {
-        setEntries(newEntries);
+        setEntries(page.entries);
       } else {
-        setEntries(prev => [...prev, ...newEntries]);
+        setEntries(prev => [...prev, ...page.entries]);
       }
 
-      setLastEntryDoc(diaryEntriesSnapshot.docs[diaryEntriesSnapshot.docs.length - 1] || null);
-      setHasMoreEntries(diaryEntriesSnapshot.docs.length === 12);
+      setEntriesCursor(page.cursor);
+      setHasMoreEntries(page.hasMore);
     } catch (e) {
       console.error("Error fetching entries:", e);
     } finally {
       setIsFetchingMoreEntries(false);
     }
-  }, [lastEntryDoc, hasMoreEntries, isFetchingMoreEntries]);
+  }, [repos, entriesCursor, hasMoreEntries, isFetchingMoreEntries]);
 
   const loadUserData = useCallback(async (userId: string, isMock: boolean) => {
     // Avoid re-loading if already loading or if we already have data for this user
@@ -142,63 +144,28 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-      if (!db || isMock) {
-        const localEntries = localStorage.getItem(`linguist_entries_${userId}`);
-        if (localEntries) setEntries(JSON.parse(localEntries));
-        setHasMoreEntries(false); 
-        const localVocab = localStorage.getItem(`linguist_vocab_${userId}`);
-        if (localVocab) setAllAdvancedVocab(JSON.parse(localVocab));
-        const localFragments = localStorage.getItem(`linguist_fragments_${userId}`);
-        if (localFragments) setFragments(JSON.parse(localFragments));
-        const localProfile = localStorage.getItem(`linguist_profile_${userId}`);
-        if (localProfile) {
-          const profile = JSON.parse(localProfile);
-          setUser(prev => prev ? { iterationDay: 0, preferredLanguages: DEFAULT_LANGS, isPro: false, dailyUsageCount: 0, ...prev, ...profile } : null);
-        }
-      } else {
-        const userDocRef = doc(db, 'users', userId);
-        const userDocSnap = await getDoc(userDocRef);
-        if (userDocSnap.exists()) {
-          const data = userDocSnap.data();
-          if (data.profile) {
-             setUser(prev => prev ? { iterationDay: 0, preferredLanguages: DEFAULT_LANGS, isPro: false, dailyUsageCount: 0, ...prev, ...data.profile } : null);
-          }
-        }
-        
-        // Initial fetch of entries - we use a direct call here instead of the memoized fetchEntries 
-        // to avoid dependency loops if fetchEntries is unstable
-        const diaryEntriesColRef = collection(db, 'users', userId, 'diaryEntries');
-        const diaryEntriesQuery = query(diaryEntriesColRef, orderBy('timestamp', 'desc'), limit(12));
-        const diaryEntriesSnapshot = await getDocs(diaryEntriesQuery);
-        const initialEntries = diaryEntriesSnapshot.docs.map(d => ({ 
-            ...d.data(), 
-            id: d.id, 
-            timestamp: (d.data().timestamp as Timestamp).toMillis() 
-        })) as DiaryEntry[];
-        
-        setEntries(initialEntries);
-        setLastEntryDoc(diaryEntriesSnapshot.docs[diaryEntriesSnapshot.docs.length - 1] || null);
-        setHasMoreEntries(diaryEntriesSnapshot.docs.length === 12);
-
-        const fragmentsColRef = collection(db, 'users', userId, 'fragments');
-        const fragmentsQuery = query(fragmentsColRef, orderBy('timestamp', 'desc'));
-        const fragmentsSnapshot = await getDocs(fragmentsQuery);
-        setFragments(fragmentsSnapshot.docs.map(d => ({
-            ...d.data(),
-            id: d.id, 
-            timestamp: (d.data().timestamp as Timestamp).toMillis(),
-            fragmentType: d.data().fragmentType || 'transient'
-        })) as InspirationFragment[]);
-
-        const advancedVocabColRef = collection(db, 'users', userId, 'advancedVocab');
-        const vocabSnapshot = await getDocs(advancedVocabColRef);
-        const vocabItems = vocabSnapshot.docs.map(vDoc => ({
-          ...vDoc.data(),
-          id: vDoc.id,
-          timestamp: (vDoc.data().timestamp as Timestamp)?.toMillis() || Date.now()
-        })) as AdvancedVocab[];
-        setAllAdvancedVocab(vocabItems);
+      // Build the repositories here rather than reading the memoized ones
+      // to avoid dependency loops while the user object is still settling
+      const repositories = createRepositories(userId, isMock);
+
+      const profile = await repositories.profile.getProfile();
+      if (profile) {
+        setUser(prev => prev ? { iterationDay: 0, preferredLanguages: DEFAULT_LANGUAGES, isPro: false, ...prev, ...profile } : null);
       }
+
+      const page = await repositories.diary.listEntries(ENTRIES_PAGE_SIZE);
+      setEntries(page.entries);
+      setEntriesCursor(page.cursor);
+      setHasMoreEntries(page.hasMore);
+
+      setFragments(await repositories.fragments.listFragments());
+      setAllAdvancedVocab(await repositories.vocab.listVocab());
+      setQueuedAnalyses(await listQueuedAnalyses(userId));
+
+      // Building a missing profile reads the whole diary, so don't hold up the first render for it
+      loadLearnerProfiles(repositories, profile?.preferredLanguages || DEFAULT_LANGUAGES)
+        .then(setLearnerProfiles)
+        .catch(e => console.error("Error loading learner profiles:", e));
     } catch (e) {
       console.error("Error loading user data:", e);
       setError("无法加载数据。");
@@ -207,6 +174,11 @@ const App: React.FC = () => {
     }
   }, []); // Empty deps to keep it stable
 
+  // Load and save failures are set here; show them rather than dropping them
+  useEffect(() => {
+    if (error) toast.error(error);
+  }, [error]);
+
   useEffect(() => {
     if (!auth) {
       setIsAuthInitializing(false);
@@ -221,9 +193,8 @@ const App: React.FC = () => {
           photoURL: userPhotoURL,
           isMock: false,
           iterationDay: 0,
-          preferredLanguages: DEFAULT_LANGS,
-          isPro: false,
-          dailyUsageCount: 0
+          preferredLanguages: DEFAULT_LANGUAGES,
+          isPro: false
         };
         setUser(userData);
         localStorage.setItem('last_user_id', firebaseUser.uid);
@@ -232,6 +203,8 @@ const App: React.FC = () => {
         setEntries([]);
         setAllAdvancedVocab([]);
         setFragments([]);
+        setQueuedAnalyses([]);
+        setLearnerProfiles({});
       }
       setIsAuthInitializing(false);
     });
@@ -245,23 +218,67 @@ const App: React.FC = () => {
     }
   }, [user?.uid, user?.isMock, loadUserData]);
 
-  const handleLoadMoreEntries = useCallback(() => {
-    if (user) {
-      fetchEntries(user.uid);
+  const handleOpenMigration = useCallback(async () => {
+    if (!repos) return;
+    setMigrationPreview(null);
+    setIsMigrationOpen(true);
+    try {
+      setMigrationPreview(await previewMockMigration(repos));
+    } catch (e) {
+      console.error("Failed to preview demo data:", e);
+      setIsMigrationOpen(false);
+      toast.error('无法读取本机演示数据。');
     }
-  }, [user, fetchEntries]);
+  }, [repos]);
 
-  const updateUserQuota = useCallback(async (count: number, date: string) => {
-    if (!user) return;
-    const update = { dailyUsageCount: count, lastUsageDate: date };
-    setUser(prev => prev ? { ...prev, ...update } : null);
-    if (!db || user.isMock) {
-       const profile = JSON.parse(localStorage.getItem(`linguist_profile_${user.uid}`) || '{}');
-       localStorage.setItem(`linguist_profile_${user.uid}`, JSON.stringify({ ...profile, ...update }));
-    } else {
-       await updateDoc(doc(db, 'users', user.uid), { profile: { ...user, ...update } });
+  // Offer to bring demo data along the first time a real account signs in on this device
+  useEffect(() => {
+    if (user && !user.isMock && repos && hasMockData() && !isMigrationDismissed(user.uid)) {
+      handleOpenMigration();
     }
-  }, [user]);
+  }, [user?.uid, user?.isMock, repos]);
+
+  const handleConfirmMigration = async () => {
+    if (!user || !repos) return;
+    setIsMigrating(true);
+    try {
+      const summary = await migrateMockData(repos);
+      await rebuildLearnerProfiles(repos, Array.from(new Set([...preferredLanguages, ...Object.keys(learnerProfiles)])));
+      await loadUserData(user.uid, user.isMock);
+      setIsMigrationOpen(false);
+      const merged = summary.skipped > 0 ? `，合并 ${summary.skipped} 条重复记录` : '';
+      toast.success(`已迁移 ${summary.entries} 篇日记、${summary.vocab} 件珍宝、${summary.fragments} 条碎片${merged}`);
+    } catch (e) {
+      console.error("Demo data migration failed:", e);
+      toast.error('迁移失败，本机数据已保留，请稍后重试。');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const handleDismissMigration = () => {
+    if (user) dismissMigration(user.uid);
+    setIsMigrationOpen(false);
+  };
+
+  // Trends and cloze drills cover every entry, however far History has been scrolled
+  useEffect(() => {
+    if (!repos || (view !== 'rehearsal_trends' && view !== 'cloze_practice')) return;
+    let cancelled = false;
+    setAllEntries(null);
+    listAllEntries(repos)
+      .then(list => { if (!cancelled) setAllEntries(list); })
+      .catch(e => {
+        console.error("Failed to load all entries:", e);
+        toast.error('载入全部记录失败，仅显示已加载的部分。');
+        if (!cancelled) setAllEntries(entries);
+      });
+    return () => { cancelled = true; };
+  }, [view, repos]);
+
+  const handleLoadMoreEntries = useCallback(() => {
+    fetchEntries();
+  }, [fetchEntries]);
 
   const isProEffective = useMemo(() => {
     if (!user) return false;
@@ -270,77 +287,37 @@ const App: React.FC = () => {
     return true;
   }, [user]);
 
-  const checkQuota = useCallback(() => {
-    if (!user) return false;
-    if (isProEffective) return true;
-    
-    const today = new Date().toDateString();
-    if (user.lastUsageDate !== today) {
-      // Reset count for new day
-      updateUserQuota(0, today);
-      return true;
-    }
-    
-    if ((user.dailyUsageCount || 0) >= FREE_DAILY_LIMIT) {
-      setShowProModal(true);
-      return false;
-    }
-    return true;
-  }, [user, isProEffective, updateUserQuota]);
+  // Read through a ref so the tracker sees Pro activation without being rebuilt
+  const usagePlanRef = useRef<UsagePlan>('free');
+  usagePlanRef.current = isProEffective ? 'pro' : 'free';
 
-  const incrementQuota = useCallback(() => {
-    if (!user || isProEffective) return;
-    const nextCount = (user.dailyUsageCount || 0) + 1;
-    updateUserQuota(nextCount, new Date().toDateString());
-  }, [user, isProEffective, updateUserQuota]);
+  const usageTracker = useMemo(() => repos ? createUsageTracker(repos.usage, () => usagePlanRef.current, setUsage) : null, [repos]);
 
-  const handleActivatePro = async (inputCode: string): Promise<boolean> => {
-    if (!user) return false;
+  // Every AI call goes through the tracker, which enforces the budgets and records usage
+  useEffect(() => {
+    const provider = createLLMProvider(!!user?.isMock);
+    setLLMProvider(usageTracker ? createMeteredProvider(provider, usageTracker) : provider);
+    usageTracker?.load().catch(e => console.error("Error loading usage:", e));
+  }, [user?.isMock, usageTracker]);
 
-    if (!db || user.isMock) {
-      const STATIC_CODES = ['MUSEUM2025', 'LINGUIST_PRO'];
-      if (STATIC_CODES.includes(inputCode.toUpperCase())) {
-        const proData = { isPro: true, proExpiry: Date.now() + 30 * 24 * 60 * 60 * 1000 };
-        setUser(prev => prev ? { ...prev, ...proData } : null);
-        const profile = JSON.parse(localStorage.getItem(`linguist_profile_${user.uid}`) || '{}');
-        localStorage.setItem(`linguist_profile_${user.uid}`, JSON.stringify({ ...profile, ...proData }));
-        return true;
-      }
-      return false;
-    }
+  /**
+   * Whether `feature` has budget left, once the stored usage has loaded. Free users who run
+   * out are offered Pro instead.
+   */
+  const checkBudget = useCallback(async (feature: UsageFeature) => {
+    await usageTracker?.ready();
+    const overrun = usageTracker?.overrun(feature);
+    if (!overrun) return true;
+    if (isProEffective) toast.error(new BudgetExceededError(overrun).userMessage);
+    else setShowProModal(true);
+    return false;
+  }, [usageTracker, isProEffective]);
 
+  const handleActivatePro = async (inputCode: string): Promise<boolean> => {
+    if (!user || !repos) return false;
     try {
-      const q = query(
-        collection(db, 'activationCodes'), 
-        where('code', '==', inputCode.trim()),
-        where('status', '==', 'active')
-      );
-      const querySnapshot = await getDocs(q);
-
-      if (querySnapshot.empty) return false;
-
-      const codeDoc = querySnapshot.docs[0];
-      const codeData = codeDoc.data();
-      
-      let durationDays = 30;
-      if (codeData.membershipType === 'pro_365d') durationDays = 365;
-      else if (codeData.membershipType === 'pro_7d') durationDays = 7;
-
-      const proExpiry = Date.now() + durationDays * 24 * 60 * 60 * 1000;
-      const proData = { isPro: true, proExpiry };
-
-      const batch = writeBatch(db);
-      
-      batch.update(codeDoc.ref, { 
-        status: 'used', 
-        usedBy: user.uid,
-        usedAt: serverTimestamp() 
-      });
-      
-      const userRef = doc(db, 'users', user.uid);
-      batch.set(userRef, { profile: { ...user, ...proData } }, { merge: true });
-
-      await batch.commit();
+      const proData = await repos.profile.activatePro(inputCode);
+      if (!proData) return false;
       setUser(prev => prev ? { ...prev, ...proData } : null);
       return true;
     } catch (e) {
@@ -350,210 +327,56 @@ const App: React.FC = () => {
   };
 
   const handleSaveFragment = async (content: string, language: string, type: 'transient' | 'seed', predefinedMeaning?: string, predefinedUsage?: string) => {
-    if (!user || !content.trim()) return;
+    if (!user || !repos || !content.trim()) return;
     const fragmentData = { content, meaning: predefinedMeaning || "", usage: predefinedUsage || "", language, fragmentType: type };
-    if (!db || user.isMock) {
-      const newFragment: InspirationFragment = { ...fragmentData, id: uuidv4(), timestamp: Date.now() };
-      setFragments(prev => [newFragment, ...prev]);
-      const local = JSON.parse(localStorage.getItem(`linguist_fragments_${user.uid}`) || '[]');
-      localStorage.setItem(`linguist_fragments_${user.uid}`, JSON.stringify([newFragment, ...local]));
-    } else {
-      const docRef = await addDoc(collection(db, 'users', user.uid, 'fragments'), { ...fragmentData, timestamp: serverTimestamp() });
-      const newFragment: InspirationFragment = { ...fragmentData, id: docRef.id, timestamp: Date.now() };
-      setFragments(prev => [newFragment, ...prev]);
-    }
+    const newFragment = await repos.fragments.addFragment(fragmentData);
+    setFragments(prev => [newFragment, ...prev]);
   };
 
   const handlePromoteToSeed = async (id: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setFragments(prev => prev.map(f => f.id === id ? { ...f, fragmentType: 'seed' } : f));
-    if (!db || user.isMock) {
-      const local = JSON.parse(localStorage.getItem(`linguist_fragments_${user.uid}`) || '[]');
-      localStorage.setItem(`linguist_fragments_${user.uid}`, JSON.stringify(local.map((f: any) => f.id === id ? { ...f, fragmentType: 'seed' } : f)));
-    } else {
-      await updateDoc(doc(db, 'users', user.uid, 'fragments', id), { fragmentType: 'seed' });
-    }
+    await repos.fragments.updateFragment(id, { fragmentType: 'seed' });
   };
 
     const handleDeleteFragment = useCallback(async (id: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setFragments(prev => prev.filter(f => f.id !== id));
-    if (!db || user.isMock) {
-      const local = JSON.parse(localStorage.getItem(`linguist_fragments_${user.uid}`) || '[]');
-      localStorage.setItem(`linguist_fragments_${user.uid}`, JSON.stringify(local.filter((f: any) => f.id !== id)));
-    } else {
-      await deleteDoc(doc(db, 'users', user.uid, 'fragments', id));
-    }
-  }, [user]);
+    await repos.fragments.deleteFragments([id]);
+  }, [user, repos]);
 
     const handleSaveDraft = useCallback(async (text: string, language: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setIsLoading(true);
     try {
       const draft: Omit<DiaryEntry, 'id'> = { timestamp: Date.now(), date: new Date().toLocaleDateString('zh-CN', { year: 'numeric', month: 'long', day: 'numeric' }), originalText: text, language, type: 'diary', iterationCount: 0 };
-      if (!db || user.isMock) {
-        const finalDraft = { ...draft, id: uuidv4() } as DiaryEntry;
-        const updatedEntries = [finalDraft, ...entries];
-        setEntries(updatedEntries);
-        localStorage.setItem(`linguist_entries_${user.uid}`, JSON.stringify(updatedEntries));
-      } else {
-        const docRef = await addDoc(collection(db, 'users', user.uid, 'diaryEntries'), { ...draft, timestamp: serverTimestamp() });
-        const finalDraft = { ...draft, id: docRef.id } as DiaryEntry;
-        setEntries(prev => [finalDraft, ...prev]);
-      }
+      const finalDraft = await repos.diary.addEntry(draft);
+      setEntries(prev => [finalDraft, ...prev]);
       setView('history');
     } catch (e) { setError("保存草稿失败。"); } finally { setIsLoading(false); }
-  }, [user, entries]);
+  }, [user, repos]);
 
     const handleSaveManualVocab = async (vocab: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>) => {
-    if (!user) return;
-    const normalizedNewWord = stripRuby(vocab.word).trim().toLowerCase();
-    const isExisting = allAdvancedVocab.some(v => stripRuby(v.word).trim().toLowerCase() === normalizedNewWord && v.language === vocab.language);
-    if (isExisting) {
+    if (!user || !repos) return;
+    if (isDuplicateVocab(allAdvancedVocab, vocab.word, vocab.language)) {
       alert("该词汇已在馆藏中。");
       return;
     }
-
-    const cleanWord = normalizedNewWord;
-
-    const potentialParents = allAdvancedVocab
-      .filter(v => v.language === vocab.language)
-      .filter(v => {
-        const cleanExisting = stripRuby(v.word).toLowerCase().trim();
-        return cleanWord.includes(cleanExisting) && cleanWord !== cleanExisting;
-      })
-      .sort((a, b) => stripRuby(b.word).length - stripRuby(a.word).length);
-    
-    const parentId = potentialParents[0]?.id;
-
-    if (!db || user.isMock) {
-      const newVocab: AdvancedVocab = { ...vocab, id: uuidv4(), mastery: 0, practices: [], timestamp: Date.now(), parentId };
-      
-      const currentVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      
-      const listWithUpdatedChildren = currentVocab.map((v: AdvancedVocab) => {
-        if (v.language === vocab.language && !v.parentId) {
-          const cleanExisting = stripRuby(v.word).toLowerCase().trim();
-          if (cleanExisting.includes(cleanWord) && cleanExisting !== cleanWord) {
-            return { ...v, parentId: newVocab.id };
-          }
-        }
-        return v;
-      });
-
-      const finalVocabList = [newVocab, ...listWithUpdatedChildren];
-      
-      setAllAdvancedVocab(finalVocabList);
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(finalVocabList));
-    } else {
-      const dataToSave: { [key: string]: any } = { ...vocab, mastery: 0, timestamp: serverTimestamp() };
-      if (parentId) dataToSave.parentId = parentId;
-      const docRef = await addDoc(collection(db, 'users', user.uid, 'advancedVocab'), dataToSave);
-      
-      const childrenToUpdate = allAdvancedVocab.filter(v => 
-        v.language === vocab.language && 
-        !v.parentId && 
-        stripRuby(v.word).toLowerCase().trim().includes(cleanWord) && 
-        stripRuby(v.word).toLowerCase().trim() !== cleanWord
-      );
-
-      if (childrenToUpdate.length > 0) {
-        const batch = writeBatch(db);
-        for (const child of childrenToUpdate) {
-          batch.update(doc(db, 'users', user.uid, 'advancedVocab', child.id), { parentId: docRef.id });
-        }
-        await batch.commit();
-      }
-      
-      await loadUserData(user.uid, false);
-    }
+    await handleBulkSaveVocab([vocab]);
   };
 
     const handleBulkSaveVocab = async (vocabs: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>[]) => {
-    if (!user) return;
-    
-    const newVocabsToProcess: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>[] = [];
-    const existingWords = new Set(allAdvancedVocab.map(v => stripRuby(v.word).trim().toLowerCase() + v.language));
-
-    for (const v of vocabs) {
-      const normalized = stripRuby(v.word).trim().toLowerCase();
-      if (!existingWords.has(normalized + v.language)) {
-        newVocabsToProcess.push(v);
-        existingWords.add(normalized + v.language); 
-      }
-    }
+    if (!user || !repos) return;
 
-    if (newVocabsToProcess.length === 0) return;
-
-    if (!db || user.isMock) {
-      let currentVocabList = [...allAdvancedVocab];
-      for (const v of newVocabsToProcess) {
-        const cleanWord = stripRuby(v.word).trim().toLowerCase();
-        const potentialParents = currentVocabList
-          .filter(ov => ov.language === v.language)
-          .filter(ov => {
-            const cleanExisting = stripRuby(ov.word).toLowerCase().trim();
-            return cleanWord.includes(cleanExisting) && cleanWord !== cleanExisting;
-          })
-          .sort((a, b) => stripRuby(b.word).length - stripRuby(a.word).length);
-        
-        const parentId = potentialParents[0]?.id;
-        const newVocab: AdvancedVocab = { ...v, id: uuidv4(), mastery: 0, practices: [], timestamp: Date.now(), parentId };
-        
-        currentVocabList = currentVocabList.map((ov: AdvancedVocab) => {
-          if (ov.language === v.language && !ov.parentId) {
-            const cleanExisting = stripRuby(ov.word).toLowerCase().trim();
-            if (cleanExisting.includes(cleanWord) && cleanExisting !== cleanWord) {
-              return { ...ov, parentId: newVocab.id };
-            }
-          }
-          return ov;
-        });
-        currentVocabList = [newVocab, ...currentVocabList];
-      }
-      setAllAdvancedVocab(currentVocabList);
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(currentVocabList));
-    } else {
-      const batch = writeBatch(db);
-      const vocabColRef = collection(db, 'users', user.uid, 'advancedVocab');
-      
-      for (const v of newVocabsToProcess) {
-        const cleanWord = stripRuby(v.word).trim().toLowerCase();
-        const potentialParents = allAdvancedVocab
-          .filter(ov => ov.language === v.language)
-          .filter(ov => {
-            const cleanExisting = stripRuby(ov.word).toLowerCase().trim();
-            return cleanWord.includes(cleanExisting) && cleanWord !== cleanExisting;
-          })
-          .sort((a, b) => stripRuby(b.word).length - stripRuby(a.word).length);
-        
-        const parentId = potentialParents[0]?.id;
-        const newDocRef = doc(vocabColRef);
-        
-        const dataToSave: any = { ...v, mastery: 0, timestamp: serverTimestamp() };
-        if (parentId) dataToSave.parentId = parentId;
-        
-        batch.set(newDocRef, dataToSave);
-
-        const childrenToUpdate = allAdvancedVocab.filter(ov => 
-          ov.language === v.language && 
-          !ov.parentId && 
-          stripRuby(ov.word).toLowerCase().trim().includes(cleanWord) && 
-          stripRuby(ov.word).toLowerCase().trim() !== cleanWord
-        );
+    const plan = planVocabInsertion(allAdvancedVocab, vocabs, repos.vocab.newId);
+    if (plan.created.length === 0) return;
 
-        for (const child of childrenToUpdate) {
-          batch.update(doc(db, 'users', user.uid, 'advancedVocab', child.id), { parentId: newDocRef.id });
-        }
-      }
-      
-      await batch.commit();
-      await loadUserData(user.uid, false);
-    }
+    await repos.vocab.saveVocabs(plan.created, plan.relinked);
+    setAllAdvancedVocab(plan.next);
   };
 
   const handleBulkPromoteFragments = async (fragmentIds: string[]) => {
-    if (!user || promotingFragmentId) return;
+    if (!user || !repos || promotingFragmentId) return;
     
     setPromotingFragmentId('bulk');
     const toastId = toast.loading(`正在批量升级 ${fragmentIds.length} 项记录...`);
@@ -579,8 +402,7 @@ const App: React.FC = () => {
           }
         }
 
-        const detectedLang = detectLanguage(fragment.content);
-        const finalLang = (fragment.language === 'English' && detectedLang === 'Japanese') ? 'Japanese' : fragment.language;
+        const finalLang = resolveAnalysisLanguage(fragment.content, fragment.language);
 
         vocabsToSave.push({
           word: fragment.content,
@@ -595,20 +417,8 @@ const App: React.FC = () => {
 
       if (vocabsToSave.length > 0) {
         await handleBulkSaveVocab(vocabsToSave);
-        
-        if (!db || user.isMock) {
-          setFragments(prev => prev.filter(f => !idsToDelete.has(f.id)));
-          const currentFragments = JSON.parse(localStorage.getItem(`linguist_fragments_${user.uid}`) || '[]');
-          const filteredFragments = currentFragments.filter((f: any) => !idsToDelete.has(f.id));
-          localStorage.setItem(`linguist_fragments_${user.uid}`, JSON.stringify(filteredFragments));
-        } else {
-          const batch = writeBatch(db);
-          idsToDelete.forEach(id => {
-            batch.delete(doc(db, 'users', user.uid, 'fragments', id));
-          });
-          await batch.commit();
-          await loadUserData(user.uid, false);
-        }
+        await repos.fragments.deleteFragments(Array.from(idsToDelete));
+        setFragments(prev => prev.filter(f => !idsToDelete.has(f.id)));
       }
       
       toast.success('批量升级成功！', { id: toastId });
@@ -644,8 +454,7 @@ const App: React.FC = () => {
         }
       }
 
-      const detectedLang = detectLanguage(fragment.content);
-      const finalLang = (fragment.language === 'English' && detectedLang === 'Japanese') ? 'Japanese' : fragment.language;
+      const finalLang = resolveAnalysisLanguage(fragment.content, fragment.language, true);
 
       const vocab: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'> = {
         word: fragment.content,
@@ -667,104 +476,225 @@ const App: React.FC = () => {
     }
   };
 
-    const handleAnalyze = useCallback(async (text: string, language: string, usedFragmentIds: string[]) => {
-    if (!user) return;
-    if (!checkQuota()) return;
+  /**
+   * Stores a rewrite as a new version of an existing entry. The entry itself always
+   * mirrors the latest version; the first rewrite also preserves the original as version 1,
+   * even when it was a draft that never got an analysis.
+   */
+  const saveEntryIteration = async (entry: DiaryEntry, text: string, language: string, analysis: DiaryAnalysis) => {
+    if (!repos) throw new Error("Repositories are not ready.");
+    const existing = await repos.diary.listIterations(entry.id);
+    const history = [...existing];
+
+    if (existing.length === 0) {
+      const firstVersion: DiaryIteration = { id: uuidv4(), text: entry.originalText, timestamp: entry.timestamp, ...(entry.analysis ? { analysis: entry.analysis } : {}) };
+      await repos.diary.addIteration(entry.id, firstVersion);
+      history.push(firstVersion);
+    }
 
-    setIsLoading(true);
-    setError(null);
+    const now = Date.now();
+    const iteration: DiaryIteration = { id: uuidv4(), text, timestamp: now, analysis };
+    await repos.diary.addIteration(entry.id, iteration);
+    history.push(iteration);
 
-    // Auto-correct language if it's clearly Japanese but set to English
-    const detectedLang = detectLanguage(text);
-    const finalLanguage = (language === 'English' && detectedLang === 'Japanese') ? 'Japanese' : language;
-    
+    const patch: Partial<DiaryEntry> = { originalText: text, language, analysis, iterationCount: (entry.iterationCount || 0) + 1, lastIteratedAt: now };
+    await repos.diary.updateEntry(entry.id, patch);
+    return { entry: { ...entry, ...patch }, iterations: history };
+  };
+
+  /**
+   * Adds a new entry's analysis to the learner profile. A failure here never blocks saving the entry.
+   */
+  const updateLearnerProfile = async (language: string, analysis: DiaryAnalysis, timestamp: number) => {
+    if (!repos) return;
     try {
-      const historyContext = entries.filter(e => e.language === finalLanguage && e.analysis).slice(0, 3);
-      
-      const analysis = await analyzeDiaryEntry(text, finalLanguage, historyContext);
+      const profile = await recordCorrections(repos, language, analysis.corrections || [], timestamp);
+      setLearnerProfiles(prev => ({ ...prev, [language]: profile }));
+    } catch (e) {
+      console.error("Failed to update learner profile:", e);
+    }
+  };
 
-      const clientTimestamp = Date.now();
-      const newEntrySkeleton: Omit<DiaryEntry, 'id'> = {
-        timestamp: clientTimestamp,
-        date: new Date(clientTimestamp).toLocaleDateString('zh-CN', { year: 'numeric', month: 'long', day: 'numeric' }),
-        originalText: text,
+  /**
+   * Rebuilds the profiles from the stored entries after an analysis was replaced, moved to another
+   * language or deleted, since its old corrections cannot be taken back out of the running totals.
+   */
+  const refreshLearnerProfiles = async (languages: string[]) => {
+    if (!repos) return;
+    try {
+      const profiles = await rebuildLearnerProfiles(repos, Array.from(new Set(languages)));
+      setLearnerProfiles(prev => ({ ...prev, ...profiles }));
+    } catch (e) {
+      console.error("Failed to rebuild learner profile:", e);
+    }
+  };
+
+  /**
+   * Persists a finished analysis: harvests its gems, consumes the fragments used while
+   * writing, and saves it as a new entry or as a new version of `iteratingEntry`.
+   */
+  const commitAnalysis = async (text: string, language: string, usedFragmentIds: string[], analysis: DiaryAnalysis, iteratingEntry?: DiaryEntry, writtenAt: number = Date.now()) => {
+    if (!repos) throw new Error("Repositories are not ready.");
+
+    if (analysis.advancedVocab.length > 0) {
+      await handleBulkSaveVocab(analysis.advancedVocab.map(v => ({
+        word: v.word,
+        meaning: v.meaning,
+        usage: v.usage,
+        level: v.level,
         language,
-        type: 'diary',
-        analysis,
-        iterationCount: 0
-      };
+        timestamp: Date.now()
+      })));
+    }
 
-      incrementQuota();
+    if (usedFragmentIds.length > 0) {
+      const idsToDelete = new Set(usedFragmentIds);
+      await repos.fragments.deleteFragments(usedFragmentIds);
+      setFragments(prev => prev.filter(f => !idsToDelete.has(f.id)));
+    }
 
-      const vocabItemsToSave = analysis.advancedVocab.filter(v => {
-        const normalizedNewWord = stripRuby(v.word).trim().toLowerCase();
-        return !allAdvancedVocab.some(existing => {
-          const normalizedExistingWord = stripRuby(existing.word).trim().toLowerCase();
-          return normalizedExistingWord === normalizedNewWord && existing.language === language;
-        });
-      }).map(v => {
-        const normalizedNewWord = stripRuby(v.word).trim().toLowerCase();
-        const potentialParents = allAdvancedVocab
-          .filter(existing => existing.language === language)
-          .filter(existing => {
-            const cleanExisting = stripRuby(existing.word).toLowerCase().trim();
-            return normalizedNewWord.includes(cleanExisting) && normalizedNewWord !== cleanExisting;
-          })
-          .sort((a, b) => stripRuby(b.word).length - stripRuby(a.word).length);
-        
-        const parentId = potentialParents[0]?.id;
-        return { ...v, id: uuidv4(), mastery: 0, language, practices: [], timestamp: Date.now(), parentId };
-      });
+    if (iteratingEntry) {
+      const result = await saveEntryIteration(iteratingEntry, text, language, analysis);
+      setEntries(prev => prev.map(e => e.id === result.entry.id ? result.entry : e));
+      await refreshLearnerProfiles([language, iteratingEntry.language]);
+      return result;
+    }
 
-      if (vocabItemsToSave.length > 0) {
-        await handleBulkSaveVocab(vocabItemsToSave.map(v => ({
-          word: v.word,
-          meaning: v.meaning,
-          usage: v.usage,
-          level: v.level,
-          language: v.language,
-          timestamp: v.timestamp
-        })));
-      }
+    const newEntrySkeleton: Omit<DiaryEntry, 'id'> = {
+      timestamp: writtenAt,
+      date: new Date(writtenAt).toLocaleDateString('zh-CN', { year: 'numeric', month: 'long', day: 'numeric' }),
+      originalText: text,
+      language,
+      type: 'diary',
+      analysis,
+      iterationCount: 0
+    };
+    const finalEntry = await repos.diary.addEntry(newEntrySkeleton);
+    setEntries(prev => [finalEntry, ...prev]);
+    await updateLearnerProfile(language, analysis, writtenAt);
+    return { entry: finalEntry, iterations: [] as DiaryIteration[] };
+  };
 
-      if (usedFragmentIds.length > 0) {
-        if (!db || user.isMock) {
-          const idsToDelete = new Set(usedFragmentIds);
-          setFragments(prev => prev.filter(f => !idsToDelete.has(f.id)));
-          const currentFragments = JSON.parse(localStorage.getItem(`linguist_fragments_${user.uid}`) || '[]');
-          const filteredFragments = currentFragments.filter((f: any) => !idsToDelete.has(f.id));
-          localStorage.setItem(`linguist_fragments_${user.uid}`, JSON.stringify(filteredFragments));
-        } else {
-          const batch = writeBatch(db);
-          usedFragmentIds.forEach(id => {
-            batch.delete(doc(db, 'users', user.uid, 'fragments', id));
-          });
-          await batch.commit();
-        }
-      }
+    const handleAnalyze = useCallback(async (text: string, language: string, usedFragmentIds: string[]) => {
+    if (!user || !repos) return;
+    if (!(await checkBudget('analysis'))) return;
 
-      if (!db || user.isMock) {
-        const finalEntry = { ...newEntrySkeleton, id: uuidv4() } as DiaryEntry;
-        const updatedEntries = [finalEntry, ...entries];
-        setEntries(updatedEntries);
-        setCurrentEntry(finalEntry);
-        localStorage.setItem(`linguist_entries_${user.uid}`, JSON.stringify(updatedEntries));
-      } else {
-        const docRef = await addDoc(collection(db, 'users', user.uid, 'diaryEntries'), { ...newEntrySkeleton, timestamp: serverTimestamp() });
-        const finalEntry = { ...newEntrySkeleton, id: docRef.id } as DiaryEntry;
-        setEntries(prev => [finalEntry, ...prev]);
-        setCurrentEntry(finalEntry);
-      }
+    setIsLoading(true);
+    setError(null);
+
+    const finalLanguage = resolveAnalysisLanguage(text, language, true);
+    let analysis: DiaryAnalysis | undefined;
+    
+    try {
+      if (!navigator.onLine) throw new Error("Offline");
+
+      const historyContext = entries.filter(e => e.language === finalLanguage && e.analysis).slice(0, 3);
+
+      // Review opens straight away and fills in as the response streams. Leaving it stops the
+      // updates; the entry is still saved when the stream completes.
+      setStreamingReview({ analysis: { modifiedText: '', diffedText: '', overallFeedback: '', corrections: [], advancedVocab: [], transitionSuggestions: [] }, language: finalLanguage });
       setIsReviewingExisting(false);
       setView('review');
+      analysis = await analyzeDiaryEntryProgressive(text, finalLanguage, historyContext, learnerProfiles[finalLanguage], partial => setStreamingReview(prev => prev && { analysis: partial, language: finalLanguage }));
+
+      const iteratingEntry = iteratingEntryId ? entries.find(e => e.id === iteratingEntryId) : undefined;
+      const { entry, iterations } = await commitAnalysis(text, finalLanguage, usedFragmentIds, analysis, iteratingEntry);
+      setCurrentEntry(entry);
+      setCurrentEntryIterations(iterations);
+      setIteratingEntryId(null);
+      setStreamingReview(null);
     } catch (error: any) {
-      if (window.confirm("AI 分析失败。是否要将该内容作为草稿暂存到收藏馆？")) {
+      console.error("Analysis failed, queueing for retry:", error);
+      setStreamingReview(null);
+      try {
+        // A finished analysis that failed to save is kept, so the retry only saves it
+        // Queued under the language already settled on, so the retry does not decide differently
+        const queued = await enqueueAnalysis({ uid: user.uid, text, language: finalLanguage, usedFragmentIds, iteratingEntryId, analysis }, error?.message);
+        setQueuedAnalyses(prev => [...prev, queued]);
+        setIteratingEntryId(null);
+        toast(navigator.onLine ? 'AI 分析暂时失败，已加入待分析队列，稍后自动重试。' : '当前离线，日记已加入待分析队列，联网后自动完成分析。', { icon: '⏳' });
+        setView('history');
+      } catch (queueError) {
+        // IndexedDB unavailable (e.g. private browsing): keep the text as a draft instead
+        console.error("Failed to queue analysis:", queueError);
         handleSaveDraft(text, language);
       }
     } finally {
       setIsLoading(false);
     }
-  }, [user, entries, allAdvancedVocab, checkQuota, incrementQuota, handleSaveDraft, handleDeleteFragment, loadUserData]);
+  }, [user, repos, entries, allAdvancedVocab, learnerProfiles, iteratingEntryId, checkBudget, handleSaveDraft]);
+
+  useEffect(() => {
+    if (view !== 'review') setStreamingReview(null);
+  }, [view]);
+
+  const isProcessingQueueRef = useRef(false);
+
+  /**
+   * Retries the oldest due queued analysis. One item per run so each retry sees the
+   * state left by the previous one; the scheduling effect below picks up the rest.
+   */
+  const processNextQueuedAnalysis = async () => {
+    if (!user || !repos || isProcessingQueueRef.current || !navigator.onLine) return;
+    const item = queuedAnalyses.find(q => q.nextAttemptAt <= Date.now());
+    if (!item) return;
+
+    isProcessingQueueRef.current = true;
+    let analysis = item.analysis;
+    try {
+      // A kept analysis was produced in the queued language; only a fresh one re-checks it
+      const finalLanguage = analysis ? item.language : resolveAnalysisLanguage(item.text, item.language);
+      if (!analysis) {
+        const historyContext = entries.filter(e => e.language === finalLanguage && e.analysis).slice(0, 3);
+        analysis = await analyzeDiaryEntry(item.text, finalLanguage, historyContext, learnerProfiles[finalLanguage]);
+      }
+      const iteratingEntry = item.iteratingEntryId ? entries.find(e => e.id === item.iteratingEntryId) : undefined;
+      const { entry } = await commitAnalysis(item.text, finalLanguage, item.usedFragmentIds, analysis, iteratingEntry, item.createdAt);
+      await removeQueuedAnalysis(item.id);
+      toast.success(`${entry.date} 的日记已完成分析并入馆`);
+    } catch (e: any) {
+      console.error("Queued analysis failed:", e);
+      await recordFailedAttempt({ ...item, analysis }, e?.message || String(e)).catch(() => {});
+    } finally {
+      isProcessingQueueRef.current = false;
+      setQueuedAnalyses(await listQueuedAnalyses(user.uid));
+    }
+  };
+
+  const processQueueRef = useRef(processNextQueuedAnalysis);
+  processQueueRef.current = processNextQueuedAnalysis;
+
+  useEffect(() => {
+    if (queuedAnalyses.length === 0) return;
+    const nextAttemptAt = Math.min(...queuedAnalyses.map(q => q.nextAttemptAt));
+    const timer = setTimeout(() => processQueueRef.current(), Math.max(0, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [queuedAnalyses]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const uid = user.uid;
+    const handleOnline = async () => {
+      await resetQueueBackoff(uid).catch(() => {});
+      setQueuedAnalyses(await listQueuedAnalyses(uid));
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user?.uid]);
+
+  const handleRetryQueuedAnalyses = async () => {
+    if (!user) return;
+    await resetQueueBackoff(user.uid).catch(() => {});
+    setQueuedAnalyses(await listQueuedAnalyses(user.uid));
+  };
+
+  const handleQueuedToDraft = async (id: string) => {
+    const item = queuedAnalyses.find(q => q.id === id);
+    if (!item) return;
+    await handleSaveDraft(item.text, item.language);
+    await removeQueuedAnalysis(id);
+    setQueuedAnalyses(prev => prev.filter(q => q.id !== id));
+  };
 
   const handleRetryFailedGems = useCallback(async (failedItems: { word: string; meaning: string; usage: string; }[]) => {
     if (!user || !currentEntry) return;
@@ -790,7 +720,7 @@ const App: React.FC = () => {
       toast.success('失败词条已重新分析并入馆！');
 
       // Update currentEntry and entries to reflect the changes
-      if (currentEntry) {
+      if (currentEntry?.rehearsal) {
         const updatedRecommendedGems = (currentEntry.rehearsal?.recommendedGems || []).filter(gem => 
           !failedItems.some(failed => failed.word === gem.word)
         );
@@ -808,7 +738,7 @@ const App: React.FC = () => {
 
     } catch (e) {
       console.error('Failed to retry gems:', e);
-      toast.error('重新分析失败。');
+      toast.error(describeLLMError(e, '重新分析失败。'));
     } finally {
       setIsLoading(false);
     }
@@ -819,45 +749,80 @@ const App: React.FC = () => {
 
 
     const handleAnalyzeExistingEntry = useCallback(async (entry: DiaryEntry) => {
-    if (!user) return;
-    if (!checkQuota()) return;
+    if (!user || !repos) return;
+    if (!(await checkBudget('analysis'))) return;
     setAnalyzingId(entry.id);
     try {
       const historyContext = entries.filter(e => e.language === entry.language && e.analysis && e.id !== entry.id).slice(0, 3);
-      const analysis = await analyzeDiaryEntry(entry.originalText, entry.language, historyContext);
-      incrementQuota();
+      const analysis = await analyzeDiaryEntry(entry.originalText, entry.language, historyContext, learnerProfiles[entry.language]);
       const updatedEntry = { ...entry, analysis };
-      if (!db || user.isMock) {
-        const updatedEntries = entries.map(e => e.id === entry.id ? updatedEntry : e);
-        setEntries(updatedEntries);
-        localStorage.setItem(`linguist_entries_${user.uid}`, JSON.stringify(updatedEntries));
-      } else {
-        await updateDoc(doc(db, 'users', user.uid, 'diaryEntries', entry.id), { analysis });
-        setEntries(prev => prev.map(e => e.id === entry.id ? updatedEntry : e));
-      }
+      await repos.diary.updateEntry(entry.id, { analysis });
+      setEntries(prev => prev.map(e => e.id === entry.id ? updatedEntry : e));
+      if (entry.analysis) await refreshLearnerProfiles([entry.language]);
+      else await updateLearnerProfile(entry.language, analysis, entry.lastIteratedAt || entry.timestamp);
       setCurrentEntry(updatedEntry);
       setIsReviewingExisting(true);
       setView('review');
-    } catch (e) { setError("分析失败。"); } finally { setAnalyzingId(null); }
-  }, [user, entries, checkQuota, incrementQuota]);
+    } catch (e) { setError(describeLLMError(e, "分析失败。")); } finally { setAnalyzingId(null); }
+  }, [user, repos, entries, learnerProfiles, checkBudget]);
 
   const handleUpdateEntryLanguage = async (id: string, language: string) => {
-    if (!user) return;
-    const updatedEntries = entries.map(e => e.id === id ? { ...e, language } : e);
-    setEntries(updatedEntries);
-    if (!db || user.isMock) {
-      localStorage.setItem(`linguist_entries_${user.uid}`, JSON.stringify(updatedEntries));
-    } else {
-      await updateDoc(doc(db, 'users', user.uid, 'diaryEntries', id), { language });
-    }
+    if (!user || !repos) return;
+    const previous = entries.find(e => e.id === id);
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, language } : e));
+    await repos.diary.updateEntry(id, { language });
+    if (previous?.analysis?.corrections?.length) await refreshLearnerProfiles([previous.language, language]);
+  };
+
+  const handleShadowingProgress = async (id: string, completedSentences: string[]) => {
+    if (!user || !repos) return;
+    const shadowing = { completedSentences, updatedAt: Date.now() };
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, shadowing } : e));
+    setCurrentEntry(prev => prev?.id === id ? { ...prev, shadowing } : prev);
+    await repos.diary.updateEntry(id, { shadowing });
+  };
+
+  const handleClozeReview = async (item: ClozeItem, srs: SrsState) => {
+    if (!user || !repos) return;
+    const entry = (allEntries || entries).find(e => e.id === item.entryId);
+    if (!entry) return;
+    const clozeReviews = withClozeReview(entry.clozeReviews, item, srs);
+    setEntries(prev => prev.map(e => e.id === item.entryId ? { ...e, clozeReviews } : e));
+    setAllEntries(prev => prev && prev.map(e => e.id === item.entryId ? { ...e, clozeReviews } : e));
+    await repos.diary.updateEntry(item.entryId, { clozeReviews });
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+    if (!user || !repos) return;
+    const entry = entries.find(e => e.id === id);
+    setEntries(prev => prev.filter(e => e.id !== id));
+    await repos.diary.deleteEntry(id);
+    if (entry?.rehearsal?.recording) await deleteRecording(entry.rehearsal.recording.id);
+    if (entry?.analysis?.corrections?.length) await refreshLearnerProfiles([entry.language]);
   };
 
-  const handleStartIteration = (entry: DiaryEntry) => {
+  const handleStartIteration = async (entry: DiaryEntry) => {
     setCurrentEntry(entry);
-    setCurrentEntryIterations([]); 
+    setIteratingEntryId(entry.id);
     setPrefilledEditorText(entry.analysis?.modifiedText || entry.originalText);
     setChatLanguage(entry.language);
     setView('editor');
+    setCurrentEntryIterations(repos && entry.iterationCount ? await repos.diary.listIterations(entry.id) : []);
+  };
+
+  const handleOpenEntry = async (entry: DiaryEntry) => {
+    setCurrentEntry(entry);
+    setCurrentEntryIterations([]);
+    setIsReviewingExisting(true);
+    setView(entry.type === 'rehearsal' ? 'rehearsal_report' : 'review');
+    if (repos && entry.iterationCount) {
+      setCurrentEntryIterations(await repos.diary.listIterations(entry.id));
+    }
+  };
+
+  const handleOpenRehearsalTrends = (from: ViewState) => {
+    setTrendsOrigin(from);
+    setView('rehearsal_trends');
   };
 
   const recommendedIteration = useMemo(() => {
@@ -865,24 +830,15 @@ const App: React.FC = () => {
     const today = new Date();
     if (today.getDay() !== user.iterationDay) return null;
     const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-    const candidate = entries.find(e => e.type === 'diary' && e.analysis && e.timestamp < weekAgo && (e.iterationCount || 0) < 3);
+    const candidate = entries.find(e => e.type === 'diary' && e.analysis && e.timestamp < weekAgo && (e.lastIteratedAt || 0) < weekAgo && (e.iterationCount || 0) < 3);
     return candidate || null;
   }, [entries, user]);
 
   const handleStartSmartReview = (mode: 'single' | 'combo') => {
-    const needingReview = allAdvancedVocab.filter(v => (v.mastery || 0) < 5);
-    if (needingReview.length === 0) { alert("所有馆藏珍宝均已达到巅峰。"); return; }
-    
-    const sorted = [...needingReview].sort((a, b) => {
-      const masteryA = a.mastery || 0;
-      const masteryB = b.mastery || 0;
-      if (masteryA === 0 && masteryB !== 0) return -1;
-      if (masteryB === 0 && masteryA !== 0) return 1;
-      const timeA = a.lastReviewTimestamp || a.timestamp;
-      const timeB = b.lastReviewTimestamp || b.timestamp;
-      if (timeA !== timeB) return timeA - timeB;
-      return masteryA - masteryB;
-    });
+    if (!allAdvancedVocab.some(v => (v.mastery || 0) < 5)) { alert("所有馆藏珍宝均已达到巅峰。"); return; }
+
+    const sorted = buildReviewQueue(allAdvancedVocab);
+    if (sorted.length === 0) { toast.success("今日到期的珍宝已全部复习完毕。"); return; }
 
     const finalQueue: string[][] = [];
     const usedIds = new Set<string>();
@@ -915,219 +871,182 @@ const App: React.FC = () => {
     setSelectedVocabForPracticeId(finalQueue[0].join(','));
     setIsPracticeActive(true);
     setView('vocab_practice');
-    setShowPracticeModeModal(false);
   };
 
-  const handleUpdateMastery = async (vocabId: string, word: string, newMastery: number, record?: PracticeRecord, aiSummary?: string) => {
-    if (!user) return;
+  const handleUpdateMastery = async (vocabId: string, _word: string, newMastery: number, record?: PracticeRecord, aiSummary?: string) => {
+    if (!user || !repos) return;
     const now = Date.now();
     
     const vocabToUpdate = allAdvancedVocab.find(v => v.id === vocabId);
-    const parentId = vocabToUpdate?.parentId;
-
-    setAllAdvancedVocab(prev => {
-      let next = prev.map(v => {
-        if (v.id === vocabId) {
-          let updatedPractices = v.practices || [];
-          if (record) {
-            const isSimple = record.originalAttempt && record.originalAttempt.length < 30;
-            updatedPractices = updatedPractices.filter(p => {
-              if (isSimple && p.originalAttempt && p.originalAttempt.length < 30) {
-                const similarity = p.originalAttempt.toLowerCase() === record.originalAttempt?.toLowerCase();
-                if (similarity) return false;
-              }
-              return true;
-            });
-            updatedPractices = [record, ...updatedPractices].slice(0, 5);
-          }
+    const parent = vocabToUpdate?.parentId ? allAdvancedVocab.find(v => v.id === vocabToUpdate.parentId) : undefined;
+    const boostedParentMastery = parent ? boostParentMastery(parent.mastery) : undefined;
 
-          return { 
-            ...v, 
-            mastery: newMastery, 
-            lastReviewTimestamp: now,
-            practices: updatedPractices,
-            aiSummary: aiSummary || v.aiSummary
-          };
-        }
-        return v;
-      });
+    const patch: Partial<AdvancedVocab> = { mastery: newMastery, lastReviewTimestamp: now };
+    if (aiSummary) patch.aiSummary = aiSummary;
+    if (record) patch.srs = scheduleReview(vocabToUpdate?.srs, gradeFromPractice(record.status), now);
 
-      if (parentId) {
-        next = next.map(v => {
-          if (v.id === parentId) {
-            const currentMastery = v.mastery || 0;
-            const boostedMastery = Math.min(5, Number((currentMastery + 0.2).toFixed(2)));
-            return { ...v, mastery: boostedMastery };
-          }
-          return v;
-        });
+    setAllAdvancedVocab(prev => prev.map(v => {
+      if (v.id === vocabId) {
+        return { ...v, ...patch, practices: record ? prependPractice(v.practices, record, RECENT_PRACTICES_KEPT) : v.practices };
       }
-      return next;
-    });
-    
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      let updated = localVocab.map((v: any) => {
-        if (v.id === vocabId) {
-          let updatedPractices = v.practices || [];
-          if (record) {
-            const isSimple = record.originalAttempt && record.originalAttempt.length < 30;
-            updatedPractices = updatedPractices.filter((p: any) => {
-              if (isSimple && p.originalAttempt && p.originalAttempt.length < 30) {
-                if (p.originalAttempt.toLowerCase() === record.originalAttempt?.toLowerCase()) return false;
-              }
-              return true;
-            });
-            updatedPractices = [record, ...updatedPractices].slice(0, 5);
-          }
-          return { 
-            ...v, 
-            mastery: newMastery, 
-            lastReviewTimestamp: now,
-            practices: updatedPractices,
-            aiSummary: aiSummary || v.aiSummary
-          };
-        }
-        return v;
-      });
-
-      if (parentId) {
-        updated = updated.map((v: any) => v.id === parentId ? { ...v, mastery: Math.min(5, Number(((v.mastery || 0) + 0.2).toFixed(2))) } : v);
+      if (parent && v.id === parent.id) {
+        return { ...v, mastery: boostedParentMastery };
       }
+      return v;
+    }));
 
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      const vocabDocRef = doc(db, 'users', user.uid, 'advancedVocab', vocabId);
-      await updateDoc(vocabDocRef, { 
-        mastery: newMastery,
-        lastReviewTimestamp: now,
-        aiSummary: aiSummary || null
-      });
-      // Note: Full practice history is stored in subcollection, but local state is pruned.
-      // For simplicity, we don't delete from Firestore here, just let the local state be the "curated" view.
-      if (record) { await addDoc(collection(vocabDocRef, 'practices'), { ...record, timestamp: serverTimestamp() }); }
-
-      if (parentId) {
-        const parentDocRef = doc(db, 'users', user.uid, 'advancedVocab', parentId);
-        const parentSnap = await getDoc(parentDocRef);
-        if (parentSnap.exists()) {
-          const currentParentMastery = parentSnap.data().mastery || 0;
-          await updateDoc(parentDocRef, { mastery: Math.min(5, currentParentMastery + 0.2) });
-        }
+    await repos.vocab.updateVocab(vocabId, patch);
+    if (record) {
+      await repos.vocab.addPractice(vocabId, record);
+      await prunePracticeHistory(vocabId, practiceRetention);
+    }
+    if (parent) await repos.vocab.updateVocab(parent.id, { mastery: boostedParentMastery });
+  };
+
+  /**
+   * Applies the retention policy to one gem in the store and in local state.
+   * Resolves to the number of records removed.
+   */
+  const prunePracticeHistory = async (vocabId: string, retention: PracticeRetention): Promise<number> => {
+    if (!repos || retention.mode === 'all') return 0;
+    const removed = new Set(await repos.vocab.prunePractices(vocabId, retention));
+    if (removed.size > 0) {
+      setAllAdvancedVocab(prev => prev.map(v => v.id === vocabId ? { ...v, practices: v.practices?.filter(p => !removed.has(p.id)) } : v));
+    }
+    return removed.size;
+  };
+
+  const handleLoadPractices = useCallback(async (vocabId: string, cursor?: PageCursor | null): Promise<PracticePage> => {
+    if (!repos) return { practices: [], cursor: null, hasMore: false };
+    return repos.vocab.listPracticePage(vocabId, PRACTICE_PAGE_SIZE, cursor);
+  }, [repos]);
+
+  const handleSetPracticeRetention = async (retention: PracticeRetention) => {
+    if (!user || !repos) return;
+    setUser(prev => prev ? { ...prev, practiceRetention: retention } : null);
+    await repos.profile.updateProfile({ practiceRetention: retention });
+    if (retention.mode === 'all') return;
+
+    const toastId = toast.loading('正在按新策略整理打磨记录...');
+    try {
+      let removed = 0;
+      for (const v of allAdvancedVocab) {
+        removed += await prunePracticeHistory(v.id, retention);
       }
+      toast.success(removed > 0 ? `已清理 ${removed} 条过期打磨记录` : '没有需要清理的打磨记录', { id: toastId });
+    } catch (e) {
+      console.error("Failed to apply practice retention:", e);
+      toast.error('整理打磨记录失败，请重试。', { id: toastId });
     }
   };
 
   const handleDeleteVocab = async (vocabId: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setAllAdvancedVocab(prev => prev.filter(v => v.id !== vocabId));
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(localVocab.filter((v: any) => v.id !== vocabId)));
-    } else { await deleteDoc(doc(db, 'users', user.uid, 'advancedVocab', vocabId)); }
+    await repos.vocab.deleteVocab(vocabId);
   };
 
   const handleSaveProfile = async () => {
-    if (!user) return;
+    if (!user || !repos) return;
     setIsLoading(true);
     try {
       const profile = { displayName: editName, photoURL: editPhoto };
-      if (!db || user.isMock) {
-        localStorage.setItem(`linguist_profile_${user.uid}`, JSON.stringify({ ...user, ...profile }));
-        setUser(prev => prev ? { ...prev, ...profile } : null);
-      } else {
-        await updateProfile(auth.currentUser!, profile);
-        await updateDoc(doc(db, 'users', user.uid), { profile: { ...user, ...profile } });
-        setUser(prev => prev ? { ...prev, ...profile } : null);
+      if (!user.isMock && auth?.currentUser) {
+        await updateProfile(auth.currentUser, profile);
       }
+      await repos.profile.updateProfile(profile);
+      setUser(prev => prev ? { ...prev, ...profile } : null);
     } catch (e) { setError("更新档案失败。"); } finally { setIsLoading(false); }
   };
 
   const handleSetIterationDay = async (day: number) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setUser(prev => prev ? { ...prev, iterationDay: day } : null);
-    if (!db || user.isMock) {
-       const profile = JSON.parse(localStorage.getItem(`linguist_profile_${user.uid}`) || '{}');
-       localStorage.setItem(`linguist_profile_${user.uid}`, JSON.stringify({ ...profile, iterationDay: day }));
-    } else { await updateDoc(doc(db, 'users', user.uid), { 'profile.iterationDay': day }); }
+    await repos.profile.updateProfile({ iterationDay: day });
   };
 
   const handleSetPreferredLanguages = async (langs: string[]) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setUser(prev => prev ? { ...prev, preferredLanguages: langs } : null);
-    if (!db || user.isMock) {
-       const profile = JSON.parse(localStorage.getItem(`linguist_profile_${user.uid}`) || '{}');
-       localStorage.setItem(`linguist_profile_${user.uid}`, JSON.stringify({ ...profile, preferredLanguages: langs }));
-    } else { await updateDoc(doc(db, 'users', user.uid), { 'profile.preferredLanguages': langs }); }
+    await repos.profile.updateProfile({ preferredLanguages: langs });
+  };
+
+  const handleExportData = async () => {
+    if (!repos) return;
+    const toastId = toast.loading('正在打包馆藏...');
+    try {
+      const bundle = await exportBackupBundle(repos);
+      downloadFile(JSON.stringify(bundle, null, 2), `linguist-diary-backup-${fileDateStamp()}.json`, 'application/json');
+      toast.success(`已导出 ${bundle.entries.length} 篇日记、${bundle.vocab.length} 件珍宝`, { id: toastId });
+    } catch (e) {
+      console.error("Export failed:", e);
+      toast.error('导出失败，请重试。', { id: toastId });
+    }
+  };
+
+  const handleImportData = async (raw: string, mode: ImportMode): Promise<boolean> => {
+    if (!user || !repos) return false;
+    const toastId = toast.loading('正在恢复馆藏...');
+    try {
+      const bundle = parseBackupBundle(raw);
+      const summary = await restoreBackupBundle(repos, bundle, mode);
+      await rebuildLearnerProfiles(repos, Array.from(new Set([...preferredLanguages, ...Object.keys(learnerProfiles)])));
+      await loadUserData(user.uid, user.isMock);
+      const skipped = summary.skipped > 0 ? `，跳过 ${summary.skipped} 条重复记录` : '';
+      toast.success(`已导入 ${summary.entries} 篇日记、${summary.vocab} 件珍宝、${summary.fragments} 条碎片${skipped}`, { id: toastId });
+      return true;
+    } catch (e: any) {
+      console.error("Import failed:", e);
+      toast.error(e?.message || '导入失败，请重试。', { id: toastId });
+      return false;
+    }
+  };
+
+  const handleExportAnki = async (vocabIds: string[]) => {
+    if (!repos || vocabIds.length === 0) return;
+    const idSet = new Set(vocabIds);
+    const vocab = allAdvancedVocab.filter(v => idSet.has(v.id));
+    const toastId = toast.loading(`正在打包 ${vocab.length} 件珍宝...`);
+    try {
+      const ankiPackage = await buildAnkiPackage(vocab, vocabId => repos.vocab.listPractices(vocabId));
+      downloadFile(ankiPackage.blob, `linguist-diary-anki-${fileDateStamp()}.zip`, 'application/zip');
+      toast.success(`已导出 ${ankiPackage.noteCount} 张卡片，含 ${ankiPackage.audioCount} 段音频`, { id: toastId });
+    } catch (e) {
+      console.error("Anki export failed:", e);
+      toast.error('导出失败，请重试。', { id: toastId });
+    }
   };
 
   const handleUpdateVocabLanguage = async (vocabId: string, language: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setAllAdvancedVocab(prev => prev.map(v => v.id === vocabId ? { ...v, language } : v));
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      const updated = localVocab.map((v: any) => v.id === vocabId ? { ...v, language } : v);
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      await updateDoc(doc(db, 'users', user.uid, 'advancedVocab', vocabId), { language });
-    }
+    await repos.vocab.updateVocab(vocabId, { language });
   };
 
   const handleBulkUpdateVocabLanguage = async (vocabIds: string[], language: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setAllAdvancedVocab(prev => prev.map(v => vocabIds.includes(v.id) ? { ...v, language } : v));
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      const updated = localVocab.map((v: any) => vocabIds.includes(v.id) ? { ...v, language } : v);
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      const batch = writeBatch(db);
-      vocabIds.forEach(id => {
-        batch.update(doc(db, 'users', user.uid, 'advancedVocab', id), { language });
-      });
-      await batch.commit();
-    }
+    await repos.vocab.updateVocabs(vocabIds, { language });
     toast.success(`已更新 ${vocabIds.length} 个词汇的语种`);
   };
 
   const handleLinkVocab = async (vocabIds: string[], parentId: string | null) => {
-    if (!user) return;
+    if (!user || !repos) return;
     setAllAdvancedVocab(prev => prev.map(v => vocabIds.includes(v.id) ? { ...v, parentId: parentId || undefined } : v));
-    
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      const updated = localVocab.map((v: any) => vocabIds.includes(v.id) ? { ...v, parentId: parentId || undefined } : v);
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      const batch = writeBatch(db);
-      vocabIds.forEach(id => {
-        batch.update(doc(db, 'users', user.uid, 'advancedVocab', id), { parentId: parentId || null });
-      });
-      await batch.commit();
-    }
+    await repos.vocab.updateVocabs(vocabIds, { parentId: parentId || undefined });
     toast.success(parentId ? `已成功建立关联` : `已解除关联`);
   };
 
   const handleMarkAsMastered = async (vocabId: string) => {
-    if (!user) return;
+    if (!user || !repos) return;
     const now = Date.now();
     setAllAdvancedVocab(prev => prev.map(v => v.id === vocabId ? { ...v, mastery: 5.0, lastReviewTimestamp: now } : v));
-    
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      const updated = localVocab.map((v: any) => v.id === vocabId ? { ...v, mastery: 5.0, lastReviewTimestamp: now } : v);
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      await updateDoc(doc(db, 'users', user.uid, 'advancedVocab', vocabId), { 
-        mastery: 5.0,
-        lastReviewTimestamp: now
-      });
-    }
+    await repos.vocab.updateVocab(vocabId, { mastery: 5.0, lastReviewTimestamp: now });
     toast.success(`已标记为满级，该词将不再出现在练习中`);
   };
 
-  const handleSaveRehearsal = async (rehearsalData: RehearsalEvaluation) => {
-    if (!user) return;
+  const handleSaveRehearsal = async (rehearsalData: RehearsalResult) => {
+    if (!user || !repos) return;
 
     const newEntry: Omit<DiaryEntry, 'id'> = {
       timestamp: rehearsalData.timestamp,
@@ -1139,21 +1058,13 @@ const App: React.FC = () => {
       iterationCount: 0
     };
 
-    if (!db || user.isMock) {
-      const finalEntry = { ...newEntry, id: uuidv4() } as DiaryEntry;
-      const updatedEntries = [finalEntry, ...entries];
-      setEntries(updatedEntries);
-      localStorage.setItem(`linguist_entries_${user.uid}`, JSON.stringify(updatedEntries));
-    } else {
-      const entryToSave = { ...newEntry, timestamp: serverTimestamp() };
-      const docRef = await addDoc(collection(db, 'users', user.uid, 'diaryEntries'), entryToSave);
-      const finalEntry = { ...newEntry, id: docRef.id } as DiaryEntry;
-      setEntries(prev => [finalEntry, ...prev]);
-    }
+    const finalEntry = await repos.diary.addEntry(newEntry);
+    setEntries(prev => [finalEntry, ...prev]);
   };
 
   const handleViewChange = (v: ViewState, vocabId?: string, isPracticeActive?: boolean, prefill?: string) => {
     setView(v);
+    setIteratingEntryId(null);
     if (vocabId) setSelectedVocabForPracticeId(vocabId);
     if (isPracticeActive !== undefined) setIsPracticeActive(isPracticeActive);
     if (v === 'editor' && prefill) {
@@ -1165,31 +1076,11 @@ const App: React.FC = () => {
   };
 
     const handleDeletePractice = async (vocabId: string, practiceId: string) => {
-    if (!user) return;
-
-    setAllAdvancedVocab(prev => prev.map(v => {
-      if (v.id === vocabId) {
-        return { ...v, practices: v.practices?.filter(p => p.id !== practiceId) };
-      }
-      return v;
-    }));
-
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      const updated = localVocab.map((v: AdvancedVocab) => {
-        if (v.id === vocabId) {
-          return { ...v, practices: v.practices?.filter(p => p.id !== practiceId) };
-        }
-        return v;
-      });
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      await deleteDoc(doc(db, 'users', user.uid, 'advancedVocab', vocabId, 'practices', practiceId));
-    }
+    await handleBatchDeletePractices(vocabId, [practiceId]);
   };
 
   const handleBatchDeletePractices = async (vocabId: string, practiceIds: string[]) => {
-    if (!user) return;
+    if (!user || !repos) return;
 
     setAllAdvancedVocab(prev => prev.map(v => {
       if (v.id === vocabId) {
@@ -1198,23 +1089,7 @@ const App: React.FC = () => {
       return v;
     }));
 
-    if (!db || user.isMock) {
-      const localVocab = JSON.parse(localStorage.getItem(`linguist_vocab_${user.uid}`) || '[]');
-      const updated = localVocab.map((v: AdvancedVocab) => {
-        if (v.id === vocabId) {
-          return { ...v, practices: v.practices?.filter(p => !practiceIds.includes(p.id)) };
-        }
-        return v;
-      });
-      localStorage.setItem(`linguist_vocab_${user.uid}`, JSON.stringify(updated));
-    } else {
-      const batch = writeBatch(db);
-      practiceIds.forEach(pid => {
-        const docRef = doc(db, 'users', user.uid, 'advancedVocab', vocabId, 'practices', pid);
-        batch.delete(docRef);
-      });
-      await batch.commit();
-    }
+    await repos.vocab.deletePractices(vocabId, practiceIds);
   };
 
   const handleLogout = async () => {
@@ -1224,7 +1099,7 @@ const App: React.FC = () => {
   };
 
   const handleLogin = (userData: { uid: string, displayName: string, photoURL: string }, isMock: boolean) => {
-    const fullUser = { ...userData, isMock, iterationDay: 0, preferredLanguages: DEFAULT_LANGS, isPro: false, dailyUsageCount: 0 };
+    const fullUser = { ...userData, isMock, iterationDay: 0, preferredLanguages: DEFAULT_LANGUAGES, isPro: false };
     setUser(fullUser);
     loadUserData(userData.uid, isMock);
   };
@@ -1239,6 +1114,10 @@ const App: React.FC = () => {
     </div>
   );
 
+  const ArchiveLoading = () => (
+    <div className="py-24 text-center text-slate-400 text-xs font-bold uppercase tracking-widest animate-pulse">载入全部记录中...</div>
+  );
+
   if (!user) return <AuthView auth={auth} isFirebaseValid={isFirebaseValid} onLogin={handleLogin} />;
 
   const ProUpgradeModal = () => {
@@ -1271,7 +1150,7 @@ const App: React.FC = () => {
            <div className="p-8 space-y-6">
              <div className="space-y-4">
                 <p className="text-xs text-slate-500 leading-relaxed text-center">
-                  作为标准馆长，您每天拥有 <b>{FREE_DAILY_LIMIT} 次</b> 智能校对机会。升级至 Pro 馆长，解锁无限灵感。
+                  作为标准馆长，您每天拥有 <b>{USAGE_BUDGETS.free.analysis?.dailyCalls} 次</b> 智能校对机会。升级至 Pro 馆长，解锁无限灵感。
                 </p>
                 <div className="grid grid-cols-2 gap-3">
                   <div className="bg-indigo-50/50 p-3 rounded-2xl border border-indigo-100 flex items-center space-x-2">
@@ -1325,9 +1204,11 @@ const App: React.FC = () => {
     <div>
       <Toaster position="bottom-center" toastOptions={{ duration: 3000 }} />
       <Layout activeView={view} onViewChange={handleViewChange} user={user} onLogout={handleLogout} isMenuOpen={isMenuOpen} setIsMenuOpen={setIsMenuOpen}>
-      {view === 'dashboard' && <Dashboard onNewEntry={() => setView('editor')} onStartReview={handleStartSmartReview} entries={entries} allAdvancedVocab={allAdvancedVocab} recommendedIteration={recommendedIteration} onStartIteration={handleStartIteration} onSaveFragment={handleSaveFragment} fragments={fragments} onPromoteFragment={handlePromoteFragment} />}
+      {view === 'dashboard' && <Dashboard onNewEntry={() => handleViewChange('editor')} onStartReview={handleStartSmartReview} entries={entries} allAdvancedVocab={allAdvancedVocab} recommendedIteration={recommendedIteration} onStartIteration={handleStartIteration} onSaveFragment={handleSaveFragment} fragments={fragments} onPromoteFragment={handlePromoteFragment} learnerProfiles={learnerProfiles} preferredLanguages={preferredLanguages} onOpenRehearsalTrends={() => handleOpenRehearsalTrends('dashboard')} onStartCloze={() => setView('cloze_practice')} />}
       {view === 'editor' && <Editor onAnalyze={handleAnalyze} onSaveDraft={handleSaveDraft} isLoading={isLoading} initialText={prefilledEditorText} initialLanguage={chatLanguage} summaryPrompt={summaryPrompt} fragments={fragments} onDeleteFragment={handleDeleteFragment} preferredLanguages={preferredLanguages} />}
-      {view === 'review' && currentEntry && <Review analysis={currentEntry.analysis!} language={currentEntry.language} iterations={currentEntryIterations} allAdvancedVocab={allAdvancedVocab} onSave={() => setView('history')} onBack={() => setView('history')} onSaveManualVocab={handleSaveManualVocab} isExistingEntry={isReviewingExisting} />}
+      {view === 'review' && (streamingReview
+        ? <Review analysis={streamingReview.analysis} language={streamingReview.language} iterations={[]} allAdvancedVocab={allAdvancedVocab} onSave={() => setView('history')} onBack={() => setView('history')} isStreaming />
+        : currentEntry && <Review analysis={currentEntry.analysis!} language={currentEntry.language} iterations={currentEntryIterations} allAdvancedVocab={allAdvancedVocab} onSave={() => setView('history')} onBack={() => setView('history')} isExistingEntry={isReviewingExisting} shadowedSentences={currentEntry.shadowing?.completedSentences} onShadowingProgress={sentences => handleShadowingProgress(currentEntry.id, sentences)} />)}
       {/* // FIX: Updated function name from handleUpdateLanguage to handleUpdateEntryLanguage */}
       {view === 'history' && (
         <History 
@@ -1335,25 +1216,28 @@ const App: React.FC = () => {
           isAnalyzingId={analyzingId} 
           onAnalyzeDraft={handleAnalyzeExistingEntry} 
           onUpdateLanguage={handleUpdateEntryLanguage} 
-          onSelect={(e) => { setCurrentEntry(e); setIsReviewingExisting(true); setView(e.type === 'rehearsal' ? 'rehearsal_report' : 'review'); }} 
-          onDelete={(id) => { if (!user.isMock && db) deleteDoc(doc(db, 'users', user.uid, 'diaryEntries', id)); setEntries(prev => prev.filter(e => e.id !== id)); }} 
+          onSelect={handleOpenEntry} 
+          onDelete={handleDeleteEntry} 
           onRewrite={(e) => { handleStartIteration(e); }} 
           preferredLanguages={preferredLanguages} 
           isMenuOpen={isMenuOpen} 
           hasMore={hasMoreEntries} 
           onLoadMore={handleLoadMoreEntries} 
           isLoadingMore={isFetchingMoreEntries} 
+          queuedAnalyses={queuedAnalyses}
+          onRetryQueued={handleRetryQueuedAnalyses}
+          onQueuedToDraft={handleQueuedToDraft}
+          onOpenRehearsalTrends={() => handleOpenRehearsalTrends('history')}
         />
       )}
-      {view === 'chat' && <ChatEditor onFinish={(msgs, lang, summary) => { setChatLanguage(lang); setPrefilledEditorText(''); setSummaryPrompt(summary); setView('editor'); }} allGems={allAdvancedVocab} preferredLanguages={preferredLanguages} />}
-      {view === 'vocab_list' && <VocabListView allAdvancedVocab={allAdvancedVocab} fragments={fragments} onViewChange={handleViewChange} onUpdateMastery={handleUpdateMastery} onDeleteVocab={handleDeleteVocab} onDeleteFragment={handleDeleteFragment} onPromoteFragment={handlePromoteFragment} onPromoteToSeed={handlePromoteToSeed} onBulkPromoteFragments={handleBulkPromoteFragments} isMenuOpen={isMenuOpen} onBulkUpdateLanguage={handleBulkUpdateVocabLanguage} onLinkVocab={handleLinkVocab} onMarkAsMastered={handleMarkAsMastered} promotingFragmentId={promotingFragmentId} />}
+      {view === 'chat' && <ChatEditor onFinish={(_msgs, lang, summary) => { setChatLanguage(lang); setPrefilledEditorText(''); setSummaryPrompt(summary); setIteratingEntryId(null); setView('editor'); }} allGems={allAdvancedVocab} preferredLanguages={preferredLanguages} />}
+      {view === 'vocab_list' && <VocabListView allAdvancedVocab={allAdvancedVocab} fragments={fragments} onViewChange={handleViewChange} onUpdateMastery={handleUpdateMastery} onDeleteVocab={handleDeleteVocab} onDeleteFragment={handleDeleteFragment} onPromoteFragment={handlePromoteFragment} onPromoteToSeed={handlePromoteToSeed} onBulkPromoteFragments={handleBulkPromoteFragments} isMenuOpen={isMenuOpen} onBulkUpdateLanguage={handleBulkUpdateVocabLanguage} onLinkVocab={handleLinkVocab} onMarkAsMastered={handleMarkAsMastered} onExportAnki={handleExportAnki} onLoadPractices={handleLoadPractices} promotingFragmentId={promotingFragmentId} />}
       {view === 'vocab_practice' && selectedVocabForPracticeId && (
         <VocabPractice 
           selectedVocabId={selectedVocabForPracticeId} 
           allAdvancedVocab={allAdvancedVocab} 
           onUpdateMastery={handleUpdateMastery} 
           onBackToVocabList={() => { setView('vocab_list'); setIsPracticeActive(false); }} 
-          onViewChange={handleViewChange} 
           onSaveFragment={handleSaveFragment} 
           isPracticeActive={isPracticeActive} 
           queueProgress={practiceQueue.length > 0 ? { current: queueIndex + 1, total: practiceQueue.length } : undefined} 
@@ -1379,13 +1263,21 @@ const App: React.FC = () => {
           preferredLanguages={preferredLanguages} 
           onDeletePractice={handleDeletePractice} 
           onBatchDeletePractices={handleBatchDeletePractices} 
+          onLoadPractices={handleLoadPractices}
         />
       )}
-      {view === 'rehearsal' && <Rehearsal allAdvancedVocab={allAdvancedVocab} preferredLanguages={preferredLanguages} onSaveRehearsal={handleSaveRehearsal} onSaveVocab={handleSaveManualVocab} onBulkSaveVocab={handleBulkSaveVocab} setView={setView} />}
-      {view === 'rehearsal_report' && currentEntry?.rehearsal && <RehearsalReport evaluation={currentEntry.rehearsal} language={currentEntry.language} date={currentEntry.date} onBack={() => setView('history')} onBulkSaveVocab={handleBulkSaveVocab} onRetryFailed={handleRetryFailedGems} isArchived={true} existingVocab={allAdvancedVocab} />}
-      {view === 'profile' && <ProfileView user={user} editName={editName} setEditName={setEditName} editPhoto={editPhoto} setEditPhoto={setEditPhoto} isAvatarPickerOpen={isAvatarPickerOpen} setIsAvatarPickerOpen={setIsAvatarPickerOpen} avatarSeeds={AVATAR_SEEDS} onSaveProfile={handleSaveProfile} isLoading={isLoading} iterationDay={user.iterationDay ?? 0} onSetIterationDay={handleSetIterationDay} preferredLanguages={preferredLanguages} onSetPreferredLanguages={handleSetPreferredLanguages} onActivatePro={handleActivatePro} />}
+      {view === 'rehearsal' && <Rehearsal allAdvancedVocab={allAdvancedVocab} preferredLanguages={preferredLanguages} onSaveRehearsal={handleSaveRehearsal} onBulkSaveVocab={handleBulkSaveVocab} setView={setView} />}
+      {view === 'rehearsal_report' && currentEntry?.rehearsal && <RehearsalReport evaluation={currentEntry.rehearsal} language={currentEntry.language} date={currentEntry.date} onBack={() => setView('history')} onBulkSaveVocab={handleBulkSaveVocab} onRetryFailed={handleRetryFailedGems} isArchived={true} existingVocab={allAdvancedVocab} shadowedSentences={currentEntry.shadowing?.completedSentences} onShadowingProgress={sentences => handleShadowingProgress(currentEntry.id, sentences)} />}
+      {view === 'cloze_practice' && (allEntries
+        ? <ClozePractice entries={allEntries} onReview={handleClozeReview} onOpenEntry={handleOpenEntry} onBack={() => setView('dashboard')} />
+        : <ArchiveLoading />)}
+      {view === 'rehearsal_trends' && (allEntries
+        ? <RehearsalTrends entries={allEntries} onBack={() => setView(trendsOrigin)} onOpenEntry={handleOpenEntry} />
+        : <ArchiveLoading />)}
+      {view === 'profile' && <ProfileView user={user} editName={editName} setEditName={setEditName} editPhoto={editPhoto} setEditPhoto={setEditPhoto} isAvatarPickerOpen={isAvatarPickerOpen} setIsAvatarPickerOpen={setIsAvatarPickerOpen} avatarSeeds={AVATAR_SEEDS} onSaveProfile={handleSaveProfile} isLoading={isLoading} iterationDay={user.iterationDay ?? 0} onSetIterationDay={handleSetIterationDay} preferredLanguages={preferredLanguages} onSetPreferredLanguages={handleSetPreferredLanguages} practiceRetention={practiceRetention} onSetPracticeRetention={handleSetPracticeRetention} onActivatePro={handleActivatePro} usage={usage} usagePlan={isProEffective ? 'pro' : 'free'} onExportData={handleExportData} onImportData={handleImportData} onMigrateDemoData={!user.isMock && hasMockData() ? handleOpenMigration : undefined} />}
       
       {showProModal && <ProUpgradeModal />}
+      {isMigrationOpen && <MockMigrationModal preview={migrationPreview} isMigrating={isMigrating} onConfirm={handleConfirmMigration} onDismiss={handleDismissMigration} />}
     </Layout>
     </div>
   );
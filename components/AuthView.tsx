@@ -7,6 +7,7 @@ import {
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword 
 } from 'firebase/auth';
+import { DEMO_USER_ID } from '../services/mockMigrationService';
 
 interface AuthViewProps {
   auth: Auth | null;
@@ -102,7 +103,7 @@ const AuthView: React.FC<AuthViewProps> = ({ auth, isFirebaseValid, onLogin }) =
 
   const handleDemoLogin = () => {
     onLogin({
-      uid: 'demo_user',
+      uid: DEMO_USER_ID,
       displayName: '演示馆长 (Local)',
       photoURL: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Felix'
     }, true);
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { ChatMessage, AdvancedVocab } from '../types';
 import { getChatFollowUp, generateChatSummaryPrompt, generateDailyMuses } from '../services/geminiService';
+import { LANGUAGES, LanguageInfo, languagesFor } from '../utils/languages';
 
 interface ChatEditorProps {
   onFinish: (transcript: ChatMessage[], language: string, summaryPrompt: string) => void;
@@ -22,16 +23,8 @@ interface MuseCard {
   icon: string;
 }
 
-const LANGUAGES = [
-  { code: 'English', label: 'English', flag: '🇬🇧', starters: { morning: "Good morning! What's your goal?", day: "How's your day?", evening: "Good evening. Thoughts?", night: "Quiet night, isn't it?" } },
-  { code: 'Japanese', label: '日本語', flag: '🇯🇵', starters: { morning: "おはようございます！", day: "こんにちは！", evening: "こんばんは。", night: "おやすみなさい。" } },
-  { code: 'French', label: 'Français', flag: '🇫🇷', starters: { morning: "Bonjour !", day: "Salut !", evening: "Bonsoir.", night: "Bonne nuit." } },
-  { code: 'Spanish', label: 'Español', flag: '🇪🇸', starters: { morning: "¡Buenos días!", day: "¡Hola!", evening: "Buenas noches.", night: "Buenas noches." } },
-  { code: 'German', label: 'Deutsch', flag: '🇩🇪', starters: { morning: "Guten Morgen!", day: "Hallo!", evening: "Guten Abend.", night: "Gute Nacht." } },
-];
-
 const ChatEditor: React.FC<ChatEditorProps> = ({ onFinish, allGems, preferredLanguages }) => {
-  const filteredLangs = useMemo(() => LANGUAGES.filter(l => preferredLanguages.includes(l.code)), [preferredLanguages]);
+  const filteredLangs = useMemo(() => languagesFor(preferredLanguages), [preferredLanguages]);
   const [language, setLanguage] = useState(filteredLangs[0] || LANGUAGES[0]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
@@ -47,7 +40,7 @@ const ChatEditor: React.FC<ChatEditorProps> = ({ onFinish, allGems, preferredLan
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const [sessionGems, setSessionGems] = useState<AdvancedVocab[]>([]);
-  const [gemMissions, setGemMissions] = useState<Record<string, GemMission>>({});
+  const [, setGemMissions] = useState<Record<string, GemMission>>({});
   const [usedGems, setUsedGems] = useState<Set<string>>(new Set());
 
   const stripRuby = (text: string) => {
@@ -122,7 +115,7 @@ const ChatEditor: React.FC<ChatEditorProps> = ({ onFinish, allGems, preferredLan
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
   }, [messages, isTyping]);
 
-  const handleLanguageChange = (lang: typeof LANGUAGES[0]) => {
+  const handleLanguageChange = (lang: LanguageInfo) => {
     setLanguage(lang);
   };
 
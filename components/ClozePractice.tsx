@@ -0,0 +1,232 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { DiaryEntry, SrsState } from '../types';
+import { judgeClozeAnswer } from '../services/geminiService';
+import { describeLLMError } from '../services/llm';
+import { buildClozeItems, buildClozeQueue, checkClozeAnswer, ClozeItem } from '../utils/cloze';
+import { ReviewGrade, scheduleReview } from '../utils/srsScheduler';
+import { getLanguage } from '../utils/languages';
+
+interface ClozePracticeProps {
+  entries: DiaryEntry[];
+  onReview: (item: ClozeItem, srs: SrsState) => Promise<void>;
+  onOpenEntry: (entry: DiaryEntry) => void;
+  onBack: () => void;
+}
+
+interface ClozeOutcome {
+  answer: string;
+  grade: ReviewGrade;
+  /** The AI's verdict on a near miss. */
+  feedback?: string;
+}
+
+const CATEGORY_LABELS: Record<ClozeItem['category'], string> = {
+  Grammar: '语法',
+  Vocabulary: '词汇',
+  Style: '文风',
+  Spelling: '拼写',
+};
+
+const ClozePractice: React.FC<ClozePracticeProps> = ({ entries, onReview, onOpenEntry, onBack }) => {
+  // The queue is fixed when the session starts, so answering does not reshuffle it
+  const [queue] = useState<ClozeItem[]>(() => buildClozeQueue(buildClozeItems(entries)));
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [isJudging, setIsJudging] = useState(false);
+  const [outcomes, setOutcomes] = useState<ClozeOutcome[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const item = queue[index];
+  const outcome = outcomes[index];
+  const isFinished = queue.length > 0 && index >= queue.length;
+
+  useEffect(() => inputRef.current?.focus(), [index]);
+
+  const nextDue = useMemo(() => {
+    if (queue.length > 0) return null;
+    const dues = buildClozeItems(entries).map(i => i.srs?.due).filter((due): due is number => due !== undefined);
+    return dues.length > 0 ? Math.min(...dues) : null;
+  }, [queue, entries]);
+
+  const record = async (result: ClozeOutcome) => {
+    setOutcomes(prev => [...prev, result]);
+    try {
+      await onReview(item, scheduleReview(item.srs, result.grade));
+    } catch (e) {
+      console.error('Failed to save cloze review:', e);
+      toast.error('复习进度保存失败。');
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!item || outcome || isJudging || !answer.trim()) return;
+    const verdict = checkClozeAnswer(answer, item);
+    if (verdict !== 'near') {
+      await record({ answer, grade: verdict === 'correct' ? 'good' : 'again' });
+      return;
+    }
+    setIsJudging(true);
+    try {
+      const judged = await judgeClozeAnswer(`${item.before}___${item.after}`, item.answer, item.original, answer, item.language);
+      // An accepted alternative still counts as a hard recall, so the expected phrase comes back sooner
+      await record({ answer, grade: judged.isCorrect ? 'hard' : 'again', feedback: judged.feedback });
+    } catch (e) {
+      toast.error(describeLLMError(e, 'AI 判定失败，本题按未答对处理。'));
+      await record({ answer, grade: 'again' });
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
+  const handleNext = () => {
+    setAnswer('');
+    setIndex(i => i + 1);
+  };
+
+  const openEntry = (entryId: string) => {
+    const entry = entries.find(e => e.id === entryId);
+    if (entry) onOpenEntry(entry);
+  };
+
+  const header = (
+    <header>
+      <button onClick={onBack} className="text-slate-400 hover:text-indigo-600 text-[10px] font-black uppercase tracking-widest mb-1 flex items-center group">
+        <span className="mr-1 group-hover:-translate-x-1 transition-transform">←</span> 返回 BACK
+      </button>
+      <h2 className="text-3xl md:text-4xl font-black text-slate-900 serif-font tracking-tight">纠错填空 Cloze Drills</h2>
+      <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.2em] mt-1 opacity-70">From Your Own Corrections</p>
+    </header>
+  );
+
+  if (queue.length === 0) {
+    return (
+      <div className="w-full max-w-4xl mx-auto pt-6 md:pt-10 px-4 md:px-8 pb-32 space-y-8">
+        {header}
+        <div className="py-24 text-center bg-white rounded-[3rem] border border-dashed border-slate-200 space-y-2">
+          <p className="text-slate-400 text-sm italic">
+            {nextDue === null ? '还没有可练习的修改。分析几篇日记后，这里会用您自己的修改出题。' : '今天的填空都已完成。'}
+          </p>
+          {nextDue !== null && <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">下次到期 NEXT DUE · {new Date(nextDue).toLocaleDateString()}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    const passed = outcomes.filter(o => o.grade !== 'again').length;
+    return (
+      <div className="w-full max-w-4xl mx-auto pt-6 md:pt-10 px-4 md:px-8 pb-32 space-y-8 animate-in fade-in duration-700">
+        {header}
+        <div className="bg-slate-900 rounded-[3rem] p-10 md:p-14 text-white shadow-2xl flex items-baseline justify-between">
+          <h3 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em]">本轮结果 SESSION</h3>
+          <div className="flex items-baseline space-x-2">
+            <span className="text-6xl font-black serif-font">{passed}</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">/ {queue.length} 答对 CORRECT</span>
+          </div>
+        </div>
+        <div className="bg-white p-8 md:p-12 rounded-[3rem] border border-slate-200 shadow-xl space-y-4">
+          {queue.map((q, i) => (
+            <div key={i} className="flex items-start space-x-4 pb-4 border-b border-slate-50 last:border-none last:pb-0">
+              <span className={`w-7 h-7 shrink-0 rounded-xl flex items-center justify-center text-[10px] font-black ${outcomes[i]?.grade === 'again' ? 'bg-rose-50 text-rose-500' : 'bg-emerald-50 text-emerald-600'}`}>
+                {outcomes[i]?.grade === 'again' ? '✕' : '✓'}
+              </span>
+              <p className="flex-1 text-base leading-relaxed serif-font text-slate-700">
+                {q.before}<span className="font-bold text-indigo-600 underline decoration-2 underline-offset-4">{q.answer}</span>{q.after}
+              </p>
+            </div>
+          ))}
+        </div>
+        <button onClick={onBack} className="w-full py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50 transition-colors">结束练习 FINISH</button>
+      </div>
+    );
+  }
+
+  const language = getLanguage(item.language);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto pt-6 md:pt-10 px-4 md:px-8 pb-32 space-y-8">
+      {header}
+
+      <div className="flex space-x-1.5">
+        {queue.map((_, i) => (
+          <span key={i} className={`h-1.5 flex-1 rounded-full ${i === index ? 'bg-indigo-600' : !outcomes[i] ? 'bg-slate-100' : outcomes[i].grade === 'again' ? 'bg-rose-300' : 'bg-emerald-300'}`}></span>
+        ))}
+      </div>
+
+      <div className="bg-white p-8 md:p-12 rounded-[3rem] border border-slate-200 shadow-xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <span className="px-2 py-1 bg-indigo-50 text-indigo-600 text-[9px] font-black rounded-lg uppercase tracking-widest">{CATEGORY_LABELS[item.category] || item.category}</span>
+            <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{language.flag} {item.entryDate}</span>
+            {(item.srs?.lapses || 0) > 0 && <span className="text-[9px] font-black text-rose-400 uppercase tracking-widest">错过 {item.srs!.lapses} 次</span>}
+          </div>
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{index + 1} / {queue.length}</span>
+        </div>
+
+        <p className="text-xl md:text-2xl leading-[2.2] serif-font text-slate-800">
+          {item.before}
+          {outcome ? (
+            <span className={`font-bold px-1 rounded ${outcome.grade === 'again' ? 'text-rose-500 bg-rose-50' : 'text-emerald-600 bg-emerald-50'}`}>{item.answer}</span>
+          ) : (
+            <input
+              ref={inputRef}
+              value={answer}
+              onChange={e => setAnswer(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleCheck(); }}
+              disabled={isJudging}
+              style={{ width: `${Math.max(4, Array.from(item.answer).length + 2)}ch` }}
+              className="inline-block mx-1 px-2 py-0.5 border-b-2 border-indigo-300 bg-indigo-50/50 rounded-t-lg text-indigo-700 font-bold focus:outline-none focus:border-indigo-600 disabled:opacity-60"
+            />
+          )}
+          {item.after}
+        </p>
+
+        {item.original && (
+          <p className="text-[11px] text-slate-400">
+            <span className="font-black uppercase tracking-widest text-[9px] mr-2">当时写的 YOU WROTE</span>
+            <span className="line-through decoration-rose-300 serif-font">{item.original}</span>
+          </p>
+        )}
+
+        {outcome && (
+          <div className={`p-6 rounded-2xl space-y-3 ${outcome.grade === 'again' ? 'bg-rose-50/60' : 'bg-emerald-50/60'}`}>
+            <p className={`text-[10px] font-black uppercase tracking-widest ${outcome.grade === 'again' ? 'text-rose-500' : 'text-emerald-600'}`}>
+              {outcome.grade === 'good' ? '✓ 完全正确 CORRECT' : outcome.grade === 'hard' ? '✓ 可以接受 ACCEPTED' : `✕ 您的答案：${outcome.answer.trim() || '（空）'}`}
+            </p>
+            {outcome.feedback && <p className="text-sm text-slate-600 leading-relaxed">{outcome.feedback}</p>}
+            <p className="text-sm text-slate-500 leading-relaxed italic">{item.explanation}</p>
+            <button onClick={() => openEntry(item.entryId)} className="text-[9px] font-black text-indigo-500 uppercase tracking-widest hover:underline">查看原日记 OPEN ENTRY →</button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        {outcome ? (
+          <button onClick={handleNext} className="flex-1 bg-indigo-600 text-white py-6 rounded-3xl font-black text-base shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all active:scale-95">
+            {index === queue.length - 1 ? '📊 查看结果 RESULTS' : '下一题 NEXT →'}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => record({ answer: '', grade: 'again' })}
+              disabled={isJudging}
+              className="flex-1 py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              显示答案 REVEAL
+            </button>
+            <button
+              onClick={handleCheck}
+              disabled={isJudging || !answer.trim()}
+              className="flex-[2] bg-indigo-600 text-white py-6 rounded-3xl font-black text-base shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50"
+            >
+              {isJudging ? 'AI 判定中...' : '核对 CHECK'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClozePractice;
@@ -1,8 +1,12 @@
 
 import React, { useState, useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { DiaryEntry, AdvancedVocab, InspirationFragment } from '../types';
-import { renderRuby, detectLanguage } from '../utils/textHelpers';
+import { DiaryEntry, AdvancedVocab, InspirationFragment, LearnerProfile } from '../types';
+import { renderRuby, stripRuby, detectLanguageScores, CONFIDENT_DETECTION } from '../utils/textHelpers';
+import { getLanguage } from '../utils/languages';
+import { forecastDue } from '../utils/srsScheduler';
+import { patternTrend } from '../utils/learnerProfile';
+import { buildClozeItems, isClozeDue } from '../utils/cloze';
 
 interface DashboardProps {
   onNewEntry: () => void;
@@ -15,6 +19,9 @@ interface DashboardProps {
   onPromoteFragment?: (id: string) => Promise<void>;
   fragments?: InspirationFragment[];
   preferredLanguages?: string[];
+  learnerProfiles?: Record<string, LearnerProfile>;
+  onOpenRehearsalTrends?: () => void;
+  onStartCloze?: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
@@ -27,12 +34,17 @@ const Dashboard: React.FC<DashboardProps> = ({
   onSaveFragment,
   onPromoteFragment,
   fragments = [],
-  preferredLanguages = ['English']
+  preferredLanguages = ['English'],
+  learnerProfiles = {},
+  onOpenRehearsalTrends,
+  onStartCloze
 }) => {
   const [fragmentText, setFragmentText] = useState('');
   const [fragmentType, setFragmentType] = useState<'transient' | 'seed'>('transient');
   const [isSavingFragment, setIsSavingFragment] = useState(false);
+  const [languageChoices, setLanguageChoices] = useState<string[] | null>(null);
   const [isReviewMenuOpen, setIsReviewMenuOpen] = useState(false);
+  const [profileLanguage, setProfileLanguage] = useState<string | null>(null);
 
   // Daily Spotlight: Choose a high-mastery gem or a polished sentence from history
   const spotlight = useMemo(() => {
@@ -93,7 +105,6 @@ const Dashboard: React.FC<DashboardProps> = ({
 
     const cols: { date: Date; count: number }[][] = [];
     const labels: { text: string; index: number }[] = [];
-    let lastMonth = -1;
 
     // 53 weeks to cover 365+ days
     for (let w = 0; w < 53; w++) {
@@ -128,6 +139,30 @@ const Dashboard: React.FC<DashboardProps> = ({
     return { columns: cols, monthLabels: labels };
   }, [entries]);
 
+  const reviewForecast = useMemo(() => {
+    return forecastDue(allAdvancedVocab, 7).map((bucket, i) => ({
+      name: i === 0 ? '今天' : new Date(bucket.date).toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' }),
+      count: bucket.count
+    }));
+  }, [allAdvancedVocab]);
+
+  const cloze = useMemo(() => {
+    const items = buildClozeItems(entries);
+    return { total: items.length, due: items.filter(item => isClozeDue(item)).length };
+  }, [entries]);
+
+  const errorProfile = useMemo(() => {
+    const languages = Object.values(learnerProfiles)
+      .filter(p => p.patterns.some(pattern => pattern.count >= 2))
+      .sort((a, b) => b.correctionCount - a.correctionCount)
+      .map(p => p.language);
+    const language = profileLanguage && languages.includes(profileLanguage) ? profileLanguage : languages[0];
+    const patterns = language
+      ? learnerProfiles[language].patterns.filter(p => p.count >= 2).slice(0, 5).map(p => ({ ...p, trend: patternTrend(p) }))
+      : [];
+    return { languages, language, patterns };
+  }, [learnerProfiles, profileLanguage]);
+
   const stats = useMemo(() => {
     const total = entries.length;
     const rehearsalCount = entries.filter(e => e.type === 'rehearsal').length;
@@ -144,13 +179,19 @@ const Dashboard: React.FC<DashboardProps> = ({
 
   const BAR_COLORS = ['#f1f5f9', '#e0e7ff', '#818cf8', '#4f46e5', '#3730a3', '#f59e0b'];
 
-  const handleCaptureFragment = async () => {
+  const handleCaptureFragment = async (chosenLanguage?: string) => {
     if (!fragmentText.trim() || isSavingFragment) return;
+    // Auto-detect language, and ask when the fragment is too short or mixed to tell
+    const detected = detectLanguageScores(fragmentText);
+    if (!chosenLanguage && detected.confidence < CONFIDENT_DETECTION) {
+      const choices = [...detected.candidates.slice(0, 3).map(c => c.language), ...preferredLanguages];
+      setLanguageChoices(Array.from(new Set(choices)).slice(0, 5));
+      return;
+    }
     setIsSavingFragment(true);
+    setLanguageChoices(null);
     try {
-      // Auto-detect language
-      const lang = detectLanguage(fragmentText);
-      await onSaveFragment(fragmentText, lang, fragmentType); 
+      await onSaveFragment(fragmentText, chosenLanguage || detected.language, fragmentType); 
       setFragmentText('');
     } finally {
       setIsSavingFragment(false);
@@ -273,14 +314,14 @@ const Dashboard: React.FC<DashboardProps> = ({
           <input 
             type="text" 
             value={fragmentText}
-            onChange={(e) => setFragmentText(e.target.value)}
+            onChange={(e) => { setFragmentText(e.target.value); setLanguageChoices(null); }}
             onKeyDown={(e) => e.key === 'Enter' && handleCaptureFragment()}
             placeholder={fragmentType === 'transient' ? "捕捉一个引子..." : "捕捉一个生词种子..."} 
             className="flex-1 bg-slate-50 border-none rounded-xl px-4 py-2.5 text-xs serif-font text-slate-700 focus:ring-2 focus:ring-indigo-500/10"
             disabled={isSavingFragment}
           />
           <button 
-            onClick={handleCaptureFragment}
+            onClick={() => handleCaptureFragment()}
             disabled={!fragmentText.trim() || isSavingFragment}
             className={`w-10 h-10 rounded-xl flex items-center justify-center shadow-md active:scale-95 disabled:opacity-50 transition-all ${isSavingFragment ? 'bg-indigo-400' : 'bg-indigo-600 text-white'}`}
           >
@@ -291,6 +332,20 @@ const Dashboard: React.FC<DashboardProps> = ({
             )}
           </button>
         </div>
+        {languageChoices && (
+          <div className="flex flex-wrap items-center gap-1.5 mt-3 relative z-10 animate-in fade-in duration-300">
+            <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest mr-1">语种不确定，请选择 LANGUAGE?</span>
+            {languageChoices.map(code => (
+              <button
+                key={code}
+                onClick={() => handleCaptureFragment(code)}
+                className="px-2 py-1 rounded-lg bg-white border border-slate-200 text-[9px] font-black text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+              >
+                {getLanguage(code).flag} {getLanguage(code).nameZh}
+              </button>
+            ))}
+          </div>
+        )}
       </section>
       
       {/* Seed Fragments Section */}
@@ -363,13 +418,20 @@ const Dashboard: React.FC<DashboardProps> = ({
           <h3 className="text-2xl font-black text-slate-900 serif-font mt-0.5">{stats.total}</h3>
         </div>
         
-        <div className="bg-white p-5 rounded-[1.5rem] border border-slate-200 shadow-sm">
-          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">演练记录</p>
+        <button
+          onClick={onOpenRehearsalTrends}
+          disabled={!onOpenRehearsalTrends}
+          className="bg-white p-5 rounded-[1.5rem] border border-slate-200 shadow-sm text-left hover:border-indigo-200 transition-all group disabled:hover:border-slate-200"
+        >
+          <div className="flex items-center justify-between">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">演练记录</p>
+            {onOpenRehearsalTrends && <span className="text-[8px] font-black text-indigo-400 uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-opacity">趋势 📈</span>}
+          </div>
           <div className="flex items-baseline space-x-1.5">
             <h3 className="text-2xl font-black text-slate-900 serif-font mt-0.5">{stats.rehearsalCount}</h3>
             <span className="text-amber-500 text-[10px]">✨</span>
           </div>
-        </div>
+        </button>
 
         <div className="bg-white p-5 rounded-[1.5rem] border border-slate-200 shadow-sm flex flex-col justify-between md:col-span-1 col-span-2">
           <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">馆藏珍宝</p>
@@ -377,6 +439,102 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       </div>
 
+      {allAdvancedVocab.length > 0 && (
+        <section className="bg-white p-6 rounded-[1.8rem] md:rounded-[2.2rem] border border-slate-200 shadow-sm h-auto">
+          <div className="flex items-center justify-between mb-6">
+            <h4 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">复习日程 REVIEW FORECAST</h4>
+            <button
+              onClick={() => onStartReview('single')}
+              disabled={reviewForecast[0].count === 0}
+              className="flex items-baseline space-x-1.5 text-indigo-600 disabled:text-slate-300 hover:underline"
+            >
+              <span className="text-2xl font-black serif-font">{reviewForecast[0].count}</span>
+              <span className="text-[9px] font-black uppercase tracking-widest">今日到期 DUE →</span>
+            </button>
+          </div>
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={reviewForecast} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 9, fontWeight: 700, fill: '#94a3b8'}} dy={8} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#cbd5e1'}} />
+                <Tooltip 
+                  cursor={{ fill: '#f8fafc' }}
+                  formatter={(value: number) => [`${value} 件`, '到期']}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontSize: '10px', fontWeight: 'bold' }}
+                />
+                <Bar dataKey="count" radius={[6, 6, 0, 0]} barSize={24}>
+                  {reviewForecast.map((_, index) => (
+                    <Cell key={`due-${index}`} fill={index === 0 ? '#4f46e5' : '#c7d2fe'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      )}
+
+      {cloze.total > 0 && onStartCloze && (
+        <section className="bg-white p-6 rounded-[1.8rem] md:rounded-[2.2rem] border border-slate-200 shadow-sm h-auto flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h4 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">纠错填空 CLOZE DRILLS</h4>
+            <p className="text-[10px] text-slate-400 mt-1">用您日记里的 {cloze.total} 处修改出题，答错的会更快再出现。</p>
+          </div>
+          <button
+            onClick={onStartCloze}
+            disabled={cloze.due === 0}
+            className="flex items-baseline space-x-1.5 text-indigo-600 disabled:text-slate-300 hover:underline shrink-0"
+          >
+            <span className="text-2xl font-black serif-font">{cloze.due}</span>
+            <span className="text-[9px] font-black uppercase tracking-widest">今日到期 DUE →</span>
+          </button>
+        </section>
+      )}
+
+      {errorProfile.patterns.length > 0 && (
+        <section className="bg-white p-6 rounded-[1.8rem] md:rounded-[2.2rem] border border-slate-200 shadow-sm h-auto">
+          <div className="flex items-center justify-between mb-6">
+            <h4 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">常见错误 ERROR PROFILE</h4>
+            {errorProfile.languages.length > 1 && (
+              <div className="bg-slate-100 p-1 rounded-xl flex items-center shadow-inner">
+                {errorProfile.languages.map(lang => (
+                  <button
+                    key={lang}
+                    onClick={() => setProfileLanguage(lang)}
+                    className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${errorProfile.language === lang ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {lang}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="space-y-3">
+            {errorProfile.patterns.map(pattern => {
+              const { change, thisMonth } = pattern.trend;
+              return (
+                <div key={pattern.key} className="flex items-center justify-between p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-slate-800 serif-font truncate">{pattern.label}</p>
+                    {pattern.examples[0] && (
+                      <p className="text-[10px] text-slate-400 truncate mt-0.5">
+                        <span className="line-through">{stripRuby(pattern.examples[0].original)}</span> → <span className="text-emerald-600">{stripRuby(pattern.examples[0].improved)}</span>
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right shrink-0 ml-4">
+                    <p className="text-lg font-black text-slate-900 serif-font leading-none">{pattern.count}<span className="text-[9px] text-slate-400 ml-0.5">次</span></p>
+                    <p className={`text-[8px] font-black uppercase tracking-widest mt-1 ${change === null ? 'text-slate-400' : change <= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
+                      {change === null ? `本月 ${thisMonth} 次` : change === 0 ? '与上月持平' : `本月${change < 0 ? '下降' : '上升'} ${Math.abs(change)}%`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       <section className="bg-white p-6 rounded-[1.8rem] md:rounded-[2.2rem] border border-slate-200 shadow-sm overflow-hidden h-auto">
         <div className="flex items-center justify-between mb-6">
           <h4 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">年度足迹 ANNUAL FOOTPRINT</h4>
@@ -441,7 +599,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                 contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontSize: '10px', fontWeight: 'bold' }}
               />
               <Bar dataKey="count" radius={[6, 6, 0, 0]} barSize={32}>
-                {masteryData.map((entry, index) => (
+                {masteryData.map((_, index) => (
                   <Cell key={`cell-${index}`} fill={BAR_COLORS[index]} />
                 ))}
               </Bar>
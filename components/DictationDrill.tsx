@@ -0,0 +1,219 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { AdvancedVocab } from '../types';
+import { playSmartSpeech } from '../services/audioService';
+import { retryEvaluationForGems } from '../services/geminiService';
+import { describeLLMError } from '../services/llm';
+import { DictationResult, dictationSentences, DICTATION_PLAYS_PER_SENTENCE, scoreDictation } from '../utils/dictation';
+import { parseDiffMarkup, refineDiffSegments, renderDiffHtml } from '../utils/diffHelper';
+
+interface DictationDrillProps {
+  source: string;
+  language: string;
+  onBulkSaveVocab: (vocabs: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>[]) => Promise<void>;
+  existingVocab: AdvancedVocab[];
+  onExit: () => void;
+}
+
+const DictationDrill: React.FC<DictationDrillProps> = ({ source, language, onBulkSaveVocab, existingVocab, onExit }) => {
+  const sentences = useMemo(() => dictationSentences(source, language), [source, language]);
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<string[]>(() => sentences.map(() => ''));
+  const [plays, setPlays] = useState<number[]>(() => sentences.map(() => 0));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [result, setResult] = useState<DictationResult | null>(null);
+  const [selectedWords, setSelectedWords] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => () => audioSourceRef.current?.stop(), []);
+  useEffect(() => inputRef.current?.focus(), [index]);
+
+  const remaining = DICTATION_PLAYS_PER_SENTENCE - (plays[index] || 0);
+
+  const handlePlay = async () => {
+    if (isPlaying || remaining <= 0) return;
+    setPlays(prev => prev.map((count, i) => i === index ? count + 1 : count));
+    const audioSource = await playSmartSpeech(sentences[index], language, `dictation-${index}`, () => setIsPlaying(true), () => setIsPlaying(false));
+    if (audioSource) {
+      audioSourceRef.current = audioSource;
+      return;
+    }
+    // A play that produced no audio does not count against the limit
+    setPlays(prev => prev.map((count, i) => i === index ? Math.max(0, count - 1) : count));
+    toast.error('音频生成失败，本次播放不计次数。');
+  };
+
+  const goTo = (next: number) => {
+    audioSourceRef.current?.stop();
+    audioSourceRef.current = null;
+    setIndex(next);
+  };
+
+  const handleCheck = () => {
+    audioSourceRef.current?.stop();
+    const graded = scoreDictation(sentences, answers, language);
+    const known = new Set(existingVocab.filter(v => v.language === language).map(v => v.word.toLowerCase()));
+    setResult(graded);
+    setSelectedWords(new Set(graded.missedWords.map(w => w.word).filter(word => !known.has(word.toLowerCase()))));
+  };
+
+  const handleSaveGems = async () => {
+    if (!result || selectedWords.size === 0) return;
+    const missed = result.missedWords.filter(w => selectedWords.has(w.word));
+    setIsSaving(true);
+    try {
+      // The gem prompt fills in meanings; the sentence the word was heard in is its usage
+      const explained = await retryEvaluationForGems(missed.map(w => ({ word: w.word })), language);
+      await onBulkSaveVocab(missed.map(w => ({
+        word: w.word,
+        meaning: explained.find(e => e.word === w.word)?.meaning || '',
+        usage: w.sentence,
+        language,
+        level: 'Intermediate' as const,
+        timestamp: Date.now()
+      })));
+      toast.success(`已收藏 ${missed.length} 个听写难点`);
+      setSelectedWords(new Set());
+    } catch (e) {
+      toast.error(describeLLMError(e, '收藏失败，请重试。'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderDiff = (diff: string) => {
+    const segments = refineDiffSegments(parseDiffMarkup(diff), { charLevel: true });
+    const html = renderDiffHtml(segments, {
+      add: 'text-emerald-600 font-bold bg-emerald-50 px-1 rounded mx-0.5',
+      rem: 'text-rose-400 line-through opacity-60 mx-0.5',
+      char: 'underline decoration-2 underline-offset-4',
+    });
+    return <p className="text-lg leading-[2.2] serif-font text-slate-800" dangerouslySetInnerHTML={{ __html: html }} />;
+  };
+
+  if (sentences.length === 0) {
+    return (
+      <div className="max-w-3xl mx-auto bg-white p-12 rounded-[3rem] border border-slate-200 shadow-xl text-center space-y-6">
+        <p className="text-slate-400 text-sm italic">原文中没有可听写的句子。</p>
+        <button onClick={onExit} className="px-6 py-3 border-2 border-slate-200 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50">返回 BACK</button>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-700">
+        <div className="bg-slate-900 rounded-[3rem] p-10 md:p-14 text-white shadow-2xl relative overflow-hidden flex flex-col md:flex-row md:items-center justify-between gap-8">
+          <div className="absolute top-0 right-0 w-96 h-96 bg-indigo-500/10 rounded-full blur-3xl -mr-48 -mt-48 pointer-events-none"></div>
+          <div className="relative z-10">
+            <h3 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em] mb-2">听写结果 DICTATION RESULT</h3>
+            <p className="text-sm text-slate-400">{sentences.length} 句 · 不计大小写与标点</p>
+          </div>
+          <div className="relative z-10 flex items-baseline space-x-2">
+            <span className="text-6xl font-black serif-font">{result.accuracy}</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">% 准确率 ACCURACY</span>
+          </div>
+        </div>
+
+        <div className="bg-white p-8 md:p-12 rounded-[3rem] border border-slate-200 shadow-xl space-y-6">
+          {result.sentences.map((s, i) => (
+            <div key={i} className="flex items-start space-x-4 pb-6 border-b border-slate-50 last:border-none last:pb-0">
+              <span className="w-7 h-7 shrink-0 rounded-xl bg-slate-100 text-slate-400 flex items-center justify-center text-[10px] font-black">{i + 1}</span>
+              <div className="flex-1">{renderDiff(s.diff)}</div>
+            </div>
+          ))}
+        </div>
+
+        {result.missedWords.length > 0 && (
+          <div className="bg-white p-8 md:p-12 rounded-[3rem] border border-amber-100 shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h4 className="text-[10px] font-black text-amber-500 uppercase tracking-widest">听错的词 MISHEARD WORDS</h4>
+              <button
+                onClick={handleSaveGems}
+                disabled={isSaving || selectedWords.size === 0}
+                className="px-6 py-2 bg-amber-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-amber-100 disabled:opacity-50"
+              >
+                {isSaving ? '收藏中...' : `收藏为珍宝 COLLECT (${selectedWords.size})`}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {result.missedWords.map(({ word }) => (
+                <button
+                  key={word}
+                  onClick={() => setSelectedWords(prev => {
+                    const next = new Set(prev);
+                    if (next.has(word)) next.delete(word); else next.add(word);
+                    return next;
+                  })}
+                  className={`px-4 py-2 rounded-xl border-2 text-sm font-bold serif-font transition-all ${selectedWords.has(word) ? 'bg-amber-50 border-amber-400 text-amber-700' : 'bg-white border-slate-100 text-slate-400'}`}
+                >
+                  {word}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button onClick={onExit} className="w-full py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50 transition-colors">结束听写 FINISH</button>
+      </div>
+    );
+  }
+
+  const isLast = index === sentences.length - 1;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-700">
+      <div className="bg-white p-10 md:p-14 rounded-[3rem] border border-slate-200 shadow-xl flex flex-col items-center text-center space-y-6">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">第 {index + 1} / {sentences.length} 句 SENTENCE</span>
+        <button
+          onClick={handlePlay}
+          disabled={isPlaying || remaining <= 0}
+          className={`w-24 h-24 rounded-[2rem] flex items-center justify-center text-4xl transition-all active:scale-95 disabled:opacity-40 ${isPlaying ? 'bg-indigo-600 text-white shadow-2xl shadow-indigo-200 animate-pulse' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+        >
+          🎧
+        </button>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${remaining > 0 ? 'text-indigo-500' : 'text-rose-400'}`}>
+          {remaining > 0 ? `还可播放 ${remaining} 次 PLAYS LEFT` : '播放次数已用完 NO PLAYS LEFT'}
+        </span>
+        <div className="flex space-x-1.5">
+          {sentences.map((_, i) => (
+            <span key={i} className={`w-2 h-2 rounded-full ${i === index ? 'bg-indigo-600' : answers[i].trim() ? 'bg-indigo-200' : 'bg-slate-100'}`}></span>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-[3rem] shadow-xl overflow-hidden focus-within:ring-8 focus-within:ring-indigo-500/5 transition-all">
+        <div className="bg-slate-50 px-10 py-5 border-b border-slate-100">
+          <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">写下听到的内容 WHAT YOU HEARD</span>
+        </div>
+        <textarea
+          ref={inputRef}
+          value={answers[index]}
+          onChange={e => setAnswers(prev => prev.map((a, i) => i === index ? e.target.value : a))}
+          onKeyDown={e => {
+            if (e.key !== 'Enter' || e.shiftKey) return;
+            e.preventDefault();
+            if (isLast) handleCheck(); else goTo(index + 1);
+          }}
+          placeholder="听完后在这里输入，按 Enter 进入下一句..."
+          className="w-full h-40 border-none focus:ring-0 p-10 text-lg md:text-xl leading-relaxed serif-font resize-none bg-transparent placeholder:text-slate-200 no-scrollbar"
+        />
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <button onClick={onExit} className="flex-1 py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50 transition-colors">放弃听写 DISCARD</button>
+        <button onClick={() => goTo(index - 1)} disabled={index === 0} className="flex-1 py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-50 transition-colors disabled:opacity-40">← 上一句 PREV</button>
+        <button
+          onClick={() => isLast ? handleCheck() : goTo(index + 1)}
+          className="flex-[2] bg-indigo-600 text-white py-6 rounded-3xl font-black text-base shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center justify-center space-x-3 active:scale-95"
+        >
+          {isLast ? <span>📊 核对听写 CHECK</span> : <><span>下一句 NEXT</span><span className="text-2xl">→</span></>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DictationDrill;
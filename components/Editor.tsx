@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { InspirationFragment } from '../types';
 import { generateDailyMuses } from '../services/geminiService';
+import { getLanguage, languagesFor } from '../utils/languages';
 
 interface EditorProps {
   onAnalyze: (text: string, language: string, usedFragmentIds: string[]) => void;
@@ -22,14 +23,6 @@ interface MuseCard {
   icon: string;
 }
 
-const LANGUAGES = [
-  { code: 'English', label: 'English', flag: '🇬🇧' },
-  { code: 'Japanese', label: '日本語', flag: '🇯🇵' },
-  { code: 'French', label: 'Français', flag: '🇫🇷' },
-  { code: 'Spanish', label: 'Español', flag: '🇪🇸' },
-  { code: 'German', label: 'Deutsch', flag: '🇩🇪' },
-];
-
 const CURATOR_WISDOM = [
   "正在查阅馆藏辞海，为您寻找更精准的措辞...",
   "正在对比母语者的表达习惯，雕琢句子的灵魂...",
@@ -105,7 +98,7 @@ const Editor: React.FC<EditorProps> = ({ onAnalyze, onSaveDraft, isLoading, init
   };
 
   const filteredLanguages = useMemo(() => {
-    return LANGUAGES.filter(l => preferredLanguages.includes(l.code));
+    return languagesFor(preferredLanguages);
   }, [preferredLanguages]);
 
   const filteredFragments = useMemo(() => {
@@ -315,6 +308,8 @@ const Editor: React.FC<EditorProps> = ({ onAnalyze, onSaveDraft, isLoading, init
             <textarea
               value={text}
               onChange={(e) => setText(e.target.value)}
+              dir={getLanguage(language).direction}
+              lang={getLanguage(language).locale}
               placeholder={quotedFragment ? "" : "在此开启您的撰写之旅..."}
               className={`flex-1 w-full border-none focus:ring-0 p-8 md:p-14 text-lg md:text-2xl leading-relaxed serif-font resize-none bg-transparent placeholder:text-slate-200 z-10 ${quotedFragment ? 'pt-24 md:pt-32' : ''}`}
               disabled={isLoading}
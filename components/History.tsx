@@ -1,7 +1,9 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { DiaryEntry } from '../types';
-import { renderRuby } from '../utils/textHelpers'; 
+import { QueuedAnalysis } from '../services/analysisQueue';
+import { renderRuby } from '../utils/textHelpers';
+import { languagesFor } from '../utils/languages';
 
 interface HistoryProps {
   entries: DiaryEntry[];
@@ -16,22 +18,19 @@ interface HistoryProps {
   hasMore?: boolean;
   onLoadMore?: () => void;
   isLoadingMore?: boolean;
+  queuedAnalyses?: QueuedAnalysis[];
+  onRetryQueued?: () => void;
+  onQueuedToDraft?: (id: string) => void;
+  onOpenRehearsalTrends?: () => void;
 }
 
-const LANGUAGES = [
-  { code: 'English', label: 'English', flag: '🇬🇧' },
-  { code: 'Japanese', label: '日本語', flag: '🇯🇵' },
-  { code: 'French', label: 'Français', flag: '🇫🇷' },
-  { code: 'Spanish', label: 'Español', flag: '🇪🇸' },
-  { code: 'German', label: 'Deutsch', flag: '🇩🇪' },
-];
-
-const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrite, onAnalyzeDraft, onUpdateLanguage, isAnalyzingId, preferredLanguages, isMenuOpen, hasMore, onLoadMore, isLoadingMore }) => {
+const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrite, onAnalyzeDraft, onUpdateLanguage, isAnalyzingId, preferredLanguages, isMenuOpen, hasMore, onLoadMore, isLoadingMore, queuedAnalyses = [], onRetryQueued, onQueuedToDraft, onOpenRehearsalTrends }) => {
   const [viewMode, setViewMode] = useState<'list' | 'calendar'>('calendar');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedLanguage, setSelectedLanguage] = useState('All');
   const [fixingEntryId, setFixingEntryId] = useState<string | null>(null);
   const [isScrolled, setIsScrolled] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -54,6 +53,16 @@ const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrit
     return () => observer.disconnect();
   }, [hasMore, isLoadingMore, onLoadMore, viewMode]);
 
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     setIsScrolled(e.currentTarget.scrollTop > 10);
   };
@@ -115,7 +124,7 @@ const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrit
   }, [entries, preferredLanguages]);
 
   const fixLanguages = useMemo(() => {
-    return LANGUAGES.filter(l => preferredLanguages.includes(l.code));
+    return languagesFor(preferredLanguages);
   }, [preferredLanguages]);
 
   // Calendar Grid Generation
@@ -142,7 +151,6 @@ const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrit
     const iterCount = entry.iterationCount || 0;
     const isRehearsal = entry.type === 'rehearsal';
     const isDraft = !isRehearsal && !entry.analysis;
-    const isAnalyzing = isAnalyzingId === entry.id;
 
     return (
       <div 
@@ -294,7 +302,54 @@ const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrit
     );
   };
 
-  if (entries.length === 0) return (
+  const renderQueuePanel = () => (
+    <section className="bg-amber-50/60 border border-amber-200 rounded-[2rem] p-6 space-y-4 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <span className="text-xl">⏳</span>
+          <div>
+            <h3 className="text-sm font-black text-slate-800 serif-font">待分析队列 <span className="text-amber-600">{queuedAnalyses.length}</span></h3>
+            <p className="text-[9px] font-black text-amber-600/70 uppercase tracking-widest mt-0.5">
+              {isOnline ? '联网后自动重试 AUTO RETRY' : '离线中，等待网络 OFFLINE'}
+            </p>
+          </div>
+        </div>
+        {onRetryQueued && (
+          <button 
+            onClick={onRetryQueued} 
+            disabled={!isOnline}
+            className="px-4 py-2 bg-white border border-amber-200 text-amber-700 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-100 disabled:opacity-40 transition-colors shrink-0"
+          >
+            立即重试
+          </button>
+        )}
+      </div>
+      <div className="space-y-2">
+        {queuedAnalyses.map(q => (
+          <div key={q.id} className="bg-white rounded-2xl p-4 border border-amber-100 flex items-center justify-between gap-4">
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-slate-700 serif-font truncate">{q.text}</p>
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                {q.language} · {new Date(q.createdAt).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · 已尝试 {q.attempts} 次
+                {isOnline && ` · 下次 ${new Date(q.nextAttemptAt).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}`}
+              </p>
+            </div>
+            {onQueuedToDraft && (
+              <button 
+                onClick={() => onQueuedToDraft(q.id)}
+                className="p-2 text-[9px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-700 transition-colors shrink-0"
+                title="放弃分析，保存为草稿"
+              >
+                转为草稿
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+
+  if (entries.length === 0 && queuedAnalyses.length === 0) return (
     <div className="flex flex-col items-center justify-center h-full text-center space-y-6 animate-in fade-in zoom-in duration-700">
       <div className="w-28 h-28 bg-white rounded-[2.5rem] shadow-xl flex items-center justify-center text-5xl mb-4 border border-slate-100">🏛️</div>
       <div>
@@ -343,7 +398,7 @@ const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrit
               </div>
             </div>
 
-            <div className="flex justify-start">
+            <div className="flex justify-between items-center">
               <div className="flex bg-slate-100 p-1.5 rounded-2xl border border-slate-200 shadow-inner">
                 <button 
                   onClick={() => setViewMode('list')}
@@ -358,11 +413,21 @@ const History: React.FC<HistoryProps> = ({ entries, onSelect, onDelete, onRewrit
                   日历
                 </button>
               </div>
+              {onOpenRehearsalTrends && entries.some(e => e.type === 'rehearsal') && (
+                <button
+                  onClick={onOpenRehearsalTrends}
+                  className="px-5 py-2.5 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase tracking-widest text-indigo-600 shadow-sm hover:border-indigo-200 transition-all"
+                >
+                  📈 演练趋势 TRENDS
+                </button>
+              )}
             </div>
           </div>
         </div>
       </header>
 
+      {queuedAnalyses.length > 0 && renderQueuePanel()}
+
       {viewMode === 'list' ? (
         <div className="space-y-16">
           {(Object.entries(groupedEntries) as [string, DiaryEntry[]][]).map(([monthYear, monthEntries]) => (
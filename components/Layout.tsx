@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { ViewState } from '../types';
 
 interface LayoutProps {
@@ -12,7 +12,7 @@ interface LayoutProps {
   setIsMenuOpen: (open: boolean) => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeView, onViewChange, user, onLogout, isMenuOpen, setIsMenuOpen }) => {
+const Layout: React.FC<LayoutProps> = ({ children, activeView, onViewChange, user, isMenuOpen, setIsMenuOpen }) => {
   const getNavLinkClass = (viewName: ViewState | ViewState[]) => {
     const isActive = Array.isArray(viewName)
       ? viewName.includes(activeView)
@@ -63,8 +63,8 @@ const Layout: React.FC<LayoutProps> = ({ children, activeView, onViewChange, use
           <NavItem view="dashboard" label="主页 / Dashboard" icon="🏠" />
           <NavItem view="editor" label="撰写 / Editor" icon="✍️" />
           <NavItem view="chat" label="启发对话 / Guided Chat" icon="💬" />
-          <NavItem view={['rehearsal', 'rehearsal_report']} label="展厅演练 / Rehearsal" icon="🎤" />
-          <NavItem view={['vocab_list', 'vocab_practice', 'vocab_practice_detail']} label="珍宝与足迹 / Vocab & Practice" icon="💎" />
+          <NavItem view={['rehearsal', 'rehearsal_report', 'rehearsal_trends']} label="展厅演练 / Rehearsal" icon="🎤" />
+          <NavItem view={['vocab_list', 'vocab_practice', 'vocab_practice_detail', 'cloze_practice']} label="珍宝与足迹 / Vocab & Practice" icon="💎" />
           <NavItem view="history" label="收藏馆 / History" icon="🏛️" />
         </nav>
 
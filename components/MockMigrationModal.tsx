@@ -0,0 +1,98 @@
+
+import React from 'react';
+import { MockMigrationPreview } from '../services/mockMigrationService';
+import { renderRuby, stripRuby } from '../utils/textHelpers';
+
+interface MockMigrationModalProps {
+  preview: MockMigrationPreview | null;
+  isMigrating: boolean;
+  onConfirm: () => void;
+  onDismiss: () => void;
+}
+
+const MockMigrationModal: React.FC<MockMigrationModalProps> = ({ preview, isMigrating, onConfirm, onDismiss }) => {
+  const stats = preview ? [
+    { label: '日记', value: preview.entries, icon: '📜' },
+    { label: '珍宝', value: preview.vocab, icon: '💎' },
+    { label: '打磨记录', value: preview.practices, icon: '🛠️' },
+    { label: '灵感碎片', value: preview.fragments, icon: '✨' },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300" onClick={() => !isMigrating && onDismiss()}></div>
+      <div className="relative bg-white w-full max-w-md rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 slide-in-from-bottom-10 duration-500 max-h-full flex flex-col">
+        <div className="bg-slate-900 p-8 text-center relative overflow-hidden shrink-0">
+          <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/10 rounded-full blur-3xl -mr-16 -mt-16"></div>
+          <div className="w-16 h-16 bg-indigo-600 rounded-2xl mx-auto flex items-center justify-center text-3xl mb-4 shadow-xl">🚚</div>
+          <h3 className="text-xl font-black text-white serif-font">发现本机演示馆藏</h3>
+          <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mt-2">MIGRATE DEMO COLLECTION</p>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto no-scrollbar">
+          {!preview ? (
+            <div className="py-8 flex justify-center">
+              <div className="w-8 h-8 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-slate-500 leading-relaxed text-center">
+                以下内容来自演示模式，目前只保存在这台设备上。迁移后将同步至您的云端账户，并从本机移除。
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                {stats.map(stat => (
+                  <div key={stat.label} className="bg-indigo-50/50 p-3 rounded-2xl border border-indigo-100 flex items-center space-x-3">
+                    <span className="text-lg">{stat.icon}</span>
+                    <div>
+                      <p className="text-lg font-black text-slate-900 leading-none">{stat.value}</p>
+                      <p className="text-[9px] font-black uppercase text-slate-500 mt-1">{stat.label}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {preview.sampleEntries.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">最近的日记 RECENT ENTRIES</p>
+                  {preview.sampleEntries.map(entry => (
+                    <div key={entry.id} className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+                      <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{entry.date} · {entry.language}</p>
+                      <p className="text-xs text-slate-700 serif-font truncate mt-1">{stripRuby(entry.originalText)}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {preview.duplicateVocab.length > 0 && (
+                <div className="bg-amber-50 border border-amber-100 rounded-2xl p-4">
+                  <p className="text-[9px] font-black text-amber-600 uppercase tracking-widest mb-2">{preview.duplicateVocab.length} 件珍宝已在云端馆藏中，将自动合并</p>
+                  <p className="text-xs text-amber-700 serif-font leading-relaxed" dangerouslySetInnerHTML={{ __html: preview.duplicateVocab.slice(0, 8).map(renderRuby).join('、') + (preview.duplicateVocab.length > 8 ? ' …' : '') }} />
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="space-y-3">
+            <button
+              onClick={onConfirm}
+              disabled={!preview || isMigrating}
+              className="w-full bg-indigo-600 text-white py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-700 disabled:opacity-50 active:scale-[0.98] transition-all flex items-center justify-center"
+            >
+              {isMigrating ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : '迁移至我的账户 MIGRATE'}
+            </button>
+            <button
+              onClick={onDismiss}
+              disabled={isMigrating}
+              className="w-full py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600 transition-colors"
+            >
+              暂不迁移
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockMigrationModal;
@@ -1,6 +1,10 @@
 
-import React, { useState } from 'react';
-import { UserProfile } from '../types';
+import React, { useState, useRef } from 'react';
+import { PracticeRetention, UserProfile } from '../types';
+import { ImportMode } from '../services/backupService';
+import { UsageSnapshot } from '../services/usageService';
+import { LANGUAGES } from '../utils/languages';
+import { emptyTotals, USAGE_BUDGETS, USAGE_FEATURES, UsagePlan } from '../utils/usageAccounting';
 
 interface ProfileViewProps {
   user: { uid: string } & UserProfile;
@@ -17,19 +21,30 @@ interface ProfileViewProps {
   onSetIterationDay: (day: number) => void;
   preferredLanguages: string[];
   onSetPreferredLanguages: (langs: string[]) => void;
+  practiceRetention: PracticeRetention;
+  onSetPracticeRetention: (retention: PracticeRetention) => void;
   onActivatePro: (code: string) => Promise<boolean>;
+  /** Today's and this month's AI usage; null until it has loaded. */
+  usage: UsageSnapshot | null;
+  usagePlan: UsagePlan;
+  onExportData: () => Promise<void>;
+  onImportData: (raw: string, mode: ImportMode) => Promise<boolean>;
+  /** Present only when demo data is waiting on this device. */
+  onMigrateDemoData?: () => void;
 }
 
 const DAYS = ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'];
 
-const ALL_LANG_ARRAY = [
-  { code: 'English', label: 'English', flag: '🇬🇧' },
-  { code: 'Japanese', label: '日语', flag: '🇯🇵' },
-  { code: 'French', label: '法语', flag: '🇫🇷' },
-  { code: 'Spanish', label: '西语', flag: '🇪🇸' },
-  { code: 'German', label: '德语', flag: '🇩🇪' },
+const RETENTION_OPTIONS: { retention: PracticeRetention; label: string }[] = [
+  { retention: { mode: 'all', value: 0 }, label: '全部保留' },
+  { retention: { mode: 'count', value: 20 }, label: '最近 20 条' },
+  { retention: { mode: 'count', value: 50 }, label: '最近 50 条' },
+  { retention: { mode: 'days', value: 90 }, label: '最近 90 天' },
+  { retention: { mode: 'days', value: 365 }, label: '最近一年' },
 ];
 
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}K` : String(tokens);
+
 const ProfileView: React.FC<ProfileViewProps> = ({
   user,
   editName,
@@ -45,14 +60,24 @@ const ProfileView: React.FC<ProfileViewProps> = ({
   onSetIterationDay,
   preferredLanguages,
   onSetPreferredLanguages,
-  onActivatePro
+  practiceRetention,
+  onSetPracticeRetention,
+  onActivatePro,
+  usage,
+  usagePlan,
+  onExportData,
+  onImportData,
+  onMigrateDemoData
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isLearningPrefsOpen, setIsLearningPrefsOpen] = useState(false);
-  const [isAdminOpen, setIsAdminOpen] = useState(false);
   const [passcode, setPasscode] = useState('');
   const [activationStatus, setActivationStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [showInputForPro, setShowInputForPro] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isTransferring, setIsTransferring] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleStartEdit = () => {
     setEditName(user.displayName);
@@ -81,6 +106,12 @@ const ProfileView: React.FC<ProfileViewProps> = ({
     onSetPreferredLanguages(next);
   };
 
+  const handleSelectRetention = (retention: PracticeRetention) => {
+    if (retention.mode === practiceRetention.mode && retention.value === practiceRetention.value) return;
+    if (retention.mode !== 'all' && !window.confirm(`超出「${RETENTION_OPTIONS.find(o => o.retention === retention)?.label}」范围的打磨记录将被永久删除，确定吗？`)) return;
+    onSetPracticeRetention(retention);
+  };
+
   const handleActivate = async () => {
     if (!passcode.trim()) return;
     setActivationStatus('loading');
@@ -96,6 +127,23 @@ const ProfileView: React.FC<ProfileViewProps> = ({
     }
   };
 
+  const handleExport = async () => {
+    setIsTransferring(true);
+    await onExportData();
+    setIsTransferring(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (importMode === 'replace' && !window.confirm("覆盖导入将先清空当前账户的全部日记、珍宝与碎片，确定继续吗？")) return;
+    setIsTransferring(true);
+    const success = await onImportData(await file.text(), importMode);
+    setIsTransferring(false);
+    if (success) setIsBackupOpen(false);
+  };
+
   const isProExpired = user.isPro && user.proExpiry && user.proExpiry < Date.now();
   const isProActive = user.isPro && !isProExpired;
 
@@ -243,6 +291,45 @@ const ProfileView: React.FC<ProfileViewProps> = ({
           </section>
         )}
 
+        {usage && (
+          <section className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-lg">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h4 className="text-xl font-black serif-font text-slate-900">AI 用量账本</h4>
+                <p className="text-slate-400 text-[10px] uppercase font-black tracking-widest mt-1">AI Usage · {usagePlan === 'pro' ? 'PRO' : 'FREE'}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-lg font-black text-slate-900">${USAGE_FEATURES.reduce((sum, f) => sum + (usage.month.features[f.id]?.costUsd || 0), 0).toFixed(3)}</p>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">本月估算成本 EST. COST</p>
+              </div>
+            </div>
+            <div className="space-y-4">
+              {USAGE_FEATURES.map(feature => {
+                const today = usage.day.features[feature.id] || emptyTotals();
+                const month = usage.month.features[feature.id] || emptyTotals();
+                const budget = USAGE_BUDGETS[usagePlan][feature.id] || {};
+                const monthTokens = month.inputTokens + month.outputTokens;
+                const share = budget.monthlyTokens
+                  ? monthTokens / budget.monthlyTokens
+                  : budget.dailyCalls ? today.calls / budget.dailyCalls : 0;
+                return (
+                  <div key={feature.id}>
+                    <div className="flex items-baseline justify-between text-[10px] font-black uppercase tracking-widest">
+                      <span className="text-slate-600">{feature.label}</span>
+                      <span className="text-slate-400">
+                        今日 {today.calls}{budget.dailyCalls !== undefined ? ` / ${budget.dailyCalls}` : ''} 次 · 本月 {formatTokens(monthTokens)}{budget.monthlyTokens !== undefined ? ` / ${formatTokens(budget.monthlyTokens)}` : ''} tokens
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-slate-100 rounded-full mt-2 overflow-hidden">
+                      <div className={`h-full rounded-full ${share >= 1 ? 'bg-rose-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, share * 100)}%` }}></div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         <button 
           onClick={() => setIsLearningPrefsOpen(true)}
           className="w-full bg-white p-8 rounded-[2.5rem] text-slate-900 border border-slate-100 flex items-center justify-between shadow-lg hover:shadow-xl transition-all group overflow-hidden relative"
@@ -260,6 +347,39 @@ const ProfileView: React.FC<ProfileViewProps> = ({
           </div>
         </button>
 
+        <button 
+          onClick={() => setIsBackupOpen(true)}
+          className="w-full bg-white p-8 rounded-[2.5rem] text-slate-900 border border-slate-100 flex items-center justify-between shadow-lg hover:shadow-xl transition-all group overflow-hidden relative"
+        >
+          <div className="absolute top-0 right-0 w-32 h-32 bg-slate-50 rounded-bl-full -mr-10 -mt-10 transition-transform group-hover:scale-110 pointer-events-none"></div>
+          <div className="flex items-center space-x-5 relative z-10">
+            <div className="w-14 h-14 bg-slate-100 rounded-2xl flex items-center justify-center text-2xl">📦</div>
+            <div className="text-left">
+              <h4 className="text-xl font-black serif-font">馆藏备份与迁移</h4>
+              <p className="text-slate-400 text-[10px] uppercase font-black tracking-widest mt-1">Backup & Restore</p>
+            </div>
+          </div>
+          <div className="flex flex-col items-end relative z-10">
+            <span className="text-2xl text-indigo-600 group-hover:translate-x-2 transition-transform">→</span>
+          </div>
+        </button>
+
+        {onMigrateDemoData && (
+          <button 
+            onClick={onMigrateDemoData}
+            className="w-full bg-indigo-50 p-6 rounded-[2.5rem] text-slate-900 border border-indigo-100 flex items-center justify-between shadow-sm hover:shadow-lg transition-all group"
+          >
+            <div className="flex items-center space-x-5">
+              <div className="w-12 h-12 bg-white rounded-2xl flex items-center justify-center text-xl shadow-sm">🚚</div>
+              <div className="text-left">
+                <h4 className="text-base font-black serif-font">迁移本机演示数据</h4>
+                <p className="text-indigo-400 text-[10px] uppercase font-black tracking-widest mt-1">Migrate Demo Collection</p>
+              </div>
+            </div>
+            <span className="text-2xl text-indigo-600 group-hover:translate-x-2 transition-transform">→</span>
+          </button>
+        )}
+
         {isEditing && isAvatarPickerOpen && (
           <div className="bg-white p-8 rounded-[3rem] border border-slate-200 shadow-xl animate-in fade-in slide-in-from-bottom-4 duration-500">
             <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-6 text-center">选择馆长化身 SELECT AVATAR</h3>
@@ -306,7 +426,7 @@ const ProfileView: React.FC<ProfileViewProps> = ({
                     <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em]">馆藏语种分馆分派 GEMS ARCHIVE BRANCHES</h4>
                   </div>
                   <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3">
-                    {ALL_LANG_ARRAY.map((lang) => {
+                    {LANGUAGES.map((lang) => {
                       const isActive = preferredLanguages.includes(lang.code);
                       return (
                         <button
@@ -319,7 +439,7 @@ const ProfileView: React.FC<ProfileViewProps> = ({
                           }`}
                         >
                           <span className="text-2xl mb-1.5">{lang.flag}</span>
-                          <span className="text-[9px] font-black uppercase tracking-tighter">{lang.label}</span>
+                          <span className="text-[9px] font-black uppercase tracking-tighter">{lang.nameZh}</span>
                         </button>
                       );
                     })}
@@ -347,6 +467,27 @@ const ProfileView: React.FC<ProfileViewProps> = ({
                     </div>
                   </div>
                 </section>
+
+                <section>
+                  <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em] mb-6">打磨记录保留策略 PRACTICE RETENTION</h4>
+                  <div className="bg-slate-50 p-6 rounded-[2rem] border border-slate-100 space-y-4">
+                    <div className="flex flex-wrap gap-1.5">
+                      {RETENTION_OPTIONS.map(option => {
+                        const isActive = option.retention.mode === practiceRetention.mode && option.retention.value === practiceRetention.value;
+                        return (
+                          <button 
+                            key={option.label}
+                            onClick={() => handleSelectRetention(option.retention)}
+                            className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase transition-all ${isActive ? 'bg-indigo-600 text-white shadow-md scale-105' : 'bg-white text-slate-400 border border-slate-100 hover:bg-slate-50'}`}
+                          >
+                            {option.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <p className="text-[10px] text-slate-400 leading-relaxed">每件珍宝独立计算，云端与本地记录遵循同一策略。</p>
+                  </div>
+                </section>
               </div>
 
               <footer className="p-8 border-t border-slate-50 shrink-0 bg-slate-50/30">
@@ -361,6 +502,70 @@ const ProfileView: React.FC<ProfileViewProps> = ({
         </div>
       )}
 
+      {isBackupOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300">
+           <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => !isTransferring && setIsBackupOpen(false)}></div>
+           
+           <div className="relative w-full max-w-xl bg-white rounded-[3rem] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 slide-in-from-bottom-10 duration-500 max-h-full">
+              <header className="p-8 border-b border-slate-50 flex items-center justify-between shrink-0">
+                 <div className="flex items-center space-x-4">
+                   <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center text-xl shadow-inner">📦</div>
+                   <div>
+                     <h3 className="text-xl font-black serif-font text-slate-900">馆藏备份与迁移</h3>
+                     <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-0.5">Backup & Restore</p>
+                   </div>
+                 </div>
+                 <button onClick={() => setIsBackupOpen(false)} disabled={isTransferring} className="w-10 h-10 rounded-full hover:bg-slate-50 flex items-center justify-center text-slate-300 transition-colors">✕</button>
+              </header>
+
+              <div className="flex-1 overflow-y-auto no-scrollbar p-8 space-y-10">
+                <section>
+                  <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em] mb-4">导出全部馆藏 EXPORT EVERYTHING</h4>
+                  <p className="text-xs text-slate-500 leading-relaxed mb-5">日记及其分析、迭代版本与复述记录，珍宝及完整打磨历史，灵感碎片和学习设定，将打包为一个 JSON 文件。</p>
+                  <button
+                    onClick={handleExport}
+                    disabled={isTransferring}
+                    className="w-full bg-indigo-600 text-white py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-700 disabled:opacity-50 active:scale-[0.98] transition-all"
+                  >
+                    ⬇️ 下载备份 EXPORT
+                  </button>
+                </section>
+
+                <section>
+                  <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em] mb-4">从备份恢复 IMPORT</h4>
+                  <div className="grid grid-cols-2 gap-3 mb-5">
+                    {([
+                      { mode: 'merge', label: '合并导入', hint: '保留现有内容，跳过重复项' },
+                      { mode: 'replace', label: '覆盖导入', hint: '清空当前账户后再导入' }
+                    ] as { mode: ImportMode; label: string; hint: string }[]).map(option => (
+                      <button
+                        key={option.mode}
+                        onClick={() => setImportMode(option.mode)}
+                        className={`p-4 rounded-[1.5rem] border-2 text-left transition-all active:scale-95 ${
+                          importMode === option.mode
+                            ? (option.mode === 'replace' ? 'bg-rose-50 border-rose-500 text-rose-700' : 'bg-indigo-50 border-indigo-600 text-indigo-700')
+                            : 'bg-slate-50 border-transparent text-slate-400'
+                        }`}
+                      >
+                        <p className="text-xs font-black">{option.label}</p>
+                        <p className="text-[9px] font-bold mt-1 opacity-70">{option.hint}</p>
+                      </button>
+                    ))}
+                  </div>
+                  <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isTransferring}
+                    className="w-full bg-slate-900 text-white py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] shadow-xl disabled:opacity-50 active:scale-[0.98] transition-all flex items-center justify-center"
+                  >
+                    {isTransferring ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : '⬆️ 选择备份文件 IMPORT'}
+                  </button>
+                </section>
+              </div>
+           </div>
+        </div>
+      )}
+
     </div>
   );
 };
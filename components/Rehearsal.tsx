@@ -2,64 +2,64 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { RefreshCw } from 'lucide-react';
-import { RehearsalEvaluation, AdvancedVocab, ViewState } from '../types';
-import { generatePracticeArtifact, evaluateRetelling, generateDiaryAudio, generateWeavedArtifact, retryEvaluationForGems } from '../services/geminiService';
+import { RehearsalResult, AdvancedVocab, ViewState } from '../types';
+import { generatePracticeArtifact, evaluateRetelling, generateDiaryAudio, generateWeavedArtifact, retryEvaluationForGems, transcribeRetelling } from '../services/geminiService';
+import { describeLLMError } from '../services/llm';
+import { ActiveRecording, blobToBase64, isRecordingSupported, MAX_RECORDING_MS, RecordedAudio, saveRecording, startRecording } from '../services/recordingService';
 import { decode, decodeAudioData } from '../utils/audioHelpers';
+import { LANGUAGES, languagesFor } from '../utils/languages';
+import { DIFFICULTIES, TOPICS } from '../utils/rehearsalOptions';
 import RehearsalReport from './RehearsalReport';
-
-const LANGUAGES = [
-  { code: 'English', label: 'English', flag: '🇬🇧' },
-  { code: 'Japanese', label: '日本語', flag: '🇯🇵' },
-  { code: 'French', label: 'Français', flag: '🇫🇷' },
-  { code: 'Spanish', label: 'Español', flag: '🇪🇸' },
-  { code: 'German', label: 'Deutsch', flag: '🇩🇪' },
-];
-
-const DIFFICULTIES = [
-  { id: 'Beginner', label: '初级', icon: '🌱' },
-  { id: 'Intermediate', label: '中级', icon: '🌿' },
-  { id: 'Advanced', label: '高级', icon: '🌳' },
-];
-
-const TOPICS = [
-  { id: 'Random', label: '随机', icon: '🎲' },
-  { id: 'Daily', label: '生活', icon: '🏠' },
-  { id: 'Travel', label: '旅行', icon: '✈️' },
-  { id: 'Work', label: '职场', icon: '💼' },
-  { id: 'Culture', label: '文化', icon: '🎨' },
-  { id: 'News', label: '新闻', icon: '🌍' },
-];
+import DictationDrill from './DictationDrill';
 
 interface RehearsalProps {
-  onSaveRehearsal: (evaluation: RehearsalEvaluation) => void;
-  onSaveVocab: (vocab: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>) => void;
+  onSaveRehearsal: (result: RehearsalResult) => void;
   onBulkSaveVocab: (vocabs: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>[]) => Promise<void>;
   setView: (view: ViewState) => void;
   allAdvancedVocab?: AdvancedVocab[];
   preferredLanguages: string[];
 }
 
-const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onBulkSaveVocab, setView, allAdvancedVocab = [], preferredLanguages = [] }) => {
-  const filteredLangs = useMemo(() => LANGUAGES.filter(l => (preferredLanguages ?? []).includes(l.code)), [preferredLanguages]);
-  const [mode, setMode] = useState<'normal' | 'weave'>('normal');
+const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onBulkSaveVocab, setView, allAdvancedVocab = [], preferredLanguages = [] }) => {
+  const filteredLangs = useMemo(() => languagesFor(preferredLanguages ?? []), [preferredLanguages]);
+  const [mode, setMode] = useState<'normal' | 'weave' | 'dictation'>('normal');
   const [language, setLanguage] = useState(filteredLangs[0] || LANGUAGES[0]);
   const [difficulty, setDifficulty] = useState(DIFFICULTIES[1]);
   const [topic, setTopic] = useState(TOPICS[0]);
   const [keywords, setKeywords] = useState('');
+  const [pastedSource, setPastedSource] = useState('');
   const [sourceText, setSourceText] = useState('');
   const [userRetelling, setUserRetelling] = useState('');
-  const [evaluation, setEvaluation] = useState<RehearsalEvaluation | null>(null);
+  const [evaluation, setEvaluation] = useState<RehearsalResult | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [showSource, setShowSource] = useState(true);
   const [isPlaying, setIsPlaying] = useState<string | null>(null);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
-  const [viewMode, setViewMode] = useState<'diff' | 'final'>('diff');
   const [shuffleSeed, setShuffleSeed] = useState(0);
   const [isEditingSource, setIsEditingSource] = useState(false);
   const [tempSourceText, setTempSourceText] = useState('');
+  const [activeRecording, setActiveRecording] = useState<ActiveRecording | null>(null);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  // The recording the current retelling was transcribed from, saved with its evaluation
+  const [spokenAudio, setSpokenAudio] = useState<RecordedAudio | null>(null);
 
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const activeRecordingRef = useRef<ActiveRecording | null>(null);
+  const canRecord = useMemo(() => isRecordingSupported(), []);
+
+  useEffect(() => {
+    activeRecordingRef.current = activeRecording;
+    if (!activeRecording) return;
+    const startedAt = Date.now();
+    setRecordingSeconds(0);
+    const timer = setInterval(() => setRecordingSeconds(Math.floor((Date.now() - startedAt) / 1000)), 500);
+    return () => clearInterval(timer);
+  }, [activeRecording]);
+
+  // Leaving the page mid-recording releases the microphone
+  useEffect(() => () => activeRecordingRef.current?.stop(), []);
 
   // Helper to convert HTML ruby to editable [K](R) format
   const toEditable = (text: string) => {
@@ -115,27 +115,16 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
     return <span dangerouslySetInnerHTML={{ __html: html }} />;
   };
 
-  const renderDiffText = (diff?: string) => {
-    if (!diff) return null;
-    let processed = diff.replace(/\[(.*?)\]\((.*?)\)/g, '<ruby>$1<rt>$2</rt></ruby>');
-    processed = processed
-      .replace(/<add>(.*?)<\/add>/g, '<span class="text-emerald-400 font-bold bg-emerald-500/10 px-1 rounded mx-0.5">$1</span>')
-      .replace(/<rem>(.*?)<\/rem>/g, '<span class="text-rose-400 line-through opacity-60 mx-0.5">$1</span>');
-    return <div className="leading-[2.5] text-lg md:text-xl text-slate-100 serif-font italic" dangerouslySetInnerHTML={{ __html: processed }} />;
-  };
-
-  const getGrade = (score: number) => {
-    const s = Math.round(score || 0);
-    if (s >= 90) return { label: 'S', color: 'text-indigo-400', bg: 'bg-indigo-500/10' };
-    if (s >= 80) return { label: 'A', color: 'text-emerald-400', bg: 'bg-emerald-500/10' };
-    if (s >= 70) return { label: 'B', color: 'text-orange-400', bg: 'bg-orange-500/10' };
-    return { label: 'C', color: 'text-slate-400', bg: 'bg-slate-500/10' };
-  };
-
   const handleGenerate = async () => {
     setIsGenerating(true);
     setEvaluation(null);
     setUserRetelling('');
+    setSpokenAudio(null);
+    if (mode === 'dictation' && pastedSource.trim()) {
+      setSourceText(pastedSource.trim());
+      setIsGenerating(false);
+      return;
+    }
     try {
       let art = "";
       if (mode === 'weave') {
@@ -173,30 +162,67 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
       setEvaluation(newEvaluation);
 
     } catch (e) {
-      alert("重试失败，请稍后再次尝试。");
+      alert(describeLLMError(e, "重试失败，请稍后再次尝试。"));
     } finally {
       setIsEvaluating(false);
     }
   };
 
+  const handleToggleRecording = async () => {
+    if (activeRecording) {
+      activeRecording.stop();
+      return;
+    }
+    let recording: ActiveRecording;
+    try {
+      recording = await startRecording();
+    } catch (e) {
+      alert("无法使用麦克风，请检查浏览器权限，或改为文字复述。");
+      return;
+    }
+    setActiveRecording(recording);
+    try {
+      const audio = await recording.finished;
+      setActiveRecording(null);
+      setIsTranscribing(true);
+      const transcript = await transcribeRetelling(await blobToBase64(audio.blob), audio.mimeType, language.code);
+      if (!transcript) return alert("没有听清录音内容，请再试一次。");
+      setUserRetelling(transcript);
+      setSpokenAudio(audio);
+    } catch (e) {
+      alert(describeLLMError(e, "录音转写失败，请重试或改为文字复述。"));
+    } finally {
+      setActiveRecording(null);
+      setIsTranscribing(false);
+    }
+  };
+
+  const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
   const handleEvaluate = async () => {
     if (userRetelling.length < 10) return alert("请写下更完整的复述内容。");
     setIsEvaluating(true);
     try {
       const result = await evaluateRetelling(sourceText, userRetelling, language.code);
-      const fullResult: RehearsalEvaluation = {
+      // A recording that cannot be stored should not cost the learner their evaluation
+      const recording = spokenAudio
+        ? await saveRecording(spokenAudio).catch(e => { console.error("Failed to save recording:", e); return null; })
+        : null;
+      const fullResult: RehearsalResult = {
         ...result,
-        id: `temp-${Date.now()}`,
         timestamp: Date.now(),
         sourceText,
         userRetelling,
         language: language.code,
-        mode: mode
+        mode: mode,
+        // Weave sources are built from gems, not from a difficulty and topic
+        ...(mode === 'normal' ? { difficulty: difficulty.id, topic: topic.id } : {}),
+        ...(recording ? { recording } : {})
       };
       setEvaluation(fullResult);
       onSaveRehearsal(fullResult);
     } catch (e) {
-      alert("评估失败。");
+      alert(describeLLMError(e, "评估失败。"));
     } finally {
       setIsEvaluating(false);
     }
@@ -216,7 +242,7 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
 
     try {
       const cleanText = textToPlay.replace(/\[(.*?)\]\(.*?\)/g, '$1');
-      const base64Audio = await generateDiaryAudio(cleanText);
+      const base64Audio = await generateDiaryAudio(cleanText, language.code);
       setIsAudioLoading(false);
 
       if (!base64Audio) {
@@ -264,6 +290,12 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
             >
               馆藏织网模式 ✨
             </button>
+            <button 
+              onClick={() => setMode('dictation')}
+              className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === 'dictation' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-100' : 'text-slate-400 hover:text-emerald-600'}`}
+            >
+              听写模式 🎧
+            </button>
           </div>
         )}
       </header>
@@ -284,7 +316,7 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
                     ))}
                   </div>
                 </section>
-                {mode === 'normal' && (
+                {mode !== 'weave' && (
                   <section>
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-4">难度等级 DIFFICULTY</label>
                     <div className="flex gap-2">
@@ -292,6 +324,7 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
                         <button key={d.id} onClick={() => setDifficulty(d)} className={`flex-1 py-2 rounded-xl border-2 transition-all flex flex-col items-center justify-center space-y-1 ${difficulty.id === d.id ? 'bg-amber-500 border-amber-500 text-white shadow-lg shadow-amber-100' : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'}`}>
                           <span className="text-base">{d.icon}</span>
                           <span className="text-[10px] font-black uppercase tracking-tighter">{d.label}</span>
+                          <span className={`text-[8px] font-bold tracking-tighter ${difficulty.id === d.id ? 'text-white/70' : 'text-slate-300'}`}>{language.difficultyLabels[d.id]}</span>
                         </button>
                       ))}
                     </div>
@@ -368,6 +401,14 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
                           <textarea value={keywords} onChange={(e) => setKeywords(e.target.value)} placeholder="指定一个或多个词汇..." className="w-full bg-transparent border-none focus:ring-0 text-sm italic serif-font text-slate-700 resize-none h-20" />
                         </div>
                       </div>
+                      {mode === 'dictation' && (
+                        <div className="mt-6">
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-4">或粘贴原文 PASTE SOURCE</label>
+                          <div className="bg-slate-50 border border-slate-100 rounded-2xl p-4 focus-within:ring-2 focus-within:ring-emerald-500/20 transition-all">
+                            <textarea value={pastedSource} onChange={(e) => setPastedSource(e.target.value)} placeholder="粘贴后将直接听写这段文字，不再生成..." className="w-full bg-transparent border-none focus:ring-0 text-sm italic serif-font text-slate-700 resize-none h-20" />
+                          </div>
+                        </div>
+                      )}
                     </section>
                   </div>
                 )}
@@ -375,14 +416,22 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
                 <button 
                   onClick={handleGenerate} 
                   disabled={isGenerating || (mode === 'weave' && weavingGems.length === 0)} 
-                  className={`w-full mt-10 py-6 rounded-3xl font-black text-lg shadow-2xl transition-all flex items-center justify-center space-x-3 active:scale-95 group ${mode === 'weave' ? 'bg-indigo-600 shadow-indigo-100' : 'bg-slate-900 shadow-slate-200'} text-white`}
+                  className={`w-full mt-10 py-6 rounded-3xl font-black text-lg shadow-2xl transition-all flex items-center justify-center space-x-3 active:scale-95 group ${mode === 'weave' ? 'bg-indigo-600 shadow-indigo-100' : mode === 'dictation' ? 'bg-emerald-600 shadow-emerald-100' : 'bg-slate-900 shadow-slate-200'} text-white`}
                 >
-                  {isGenerating ? <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <><span className="text-xl">{mode === 'weave' ? '🕸️' : '✨'}</span><span>{mode === 'weave' ? '开始织网演练' : '开启常规演练'} START</span></>}
+                  {isGenerating ? <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <><span className="text-xl">{mode === 'weave' ? '🕸️' : mode === 'dictation' ? '🎧' : '✨'}</span><span>{mode === 'weave' ? '开始织网演练' : mode === 'dictation' ? '开始听写' : '开启常规演练'} START</span></>}
                 </button>
               </div>
             </div>
           </div>
         </div>
+      ) : mode === 'dictation' ? (
+        <DictationDrill
+          source={sourceText}
+          language={language.code}
+          onBulkSaveVocab={onBulkSaveVocab}
+          existingVocab={allAdvancedVocab}
+          onExit={() => setSourceText('')}
+        />
       ) : !evaluation ? (
         <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-700">
            <div className="bg-white p-10 md:p-14 rounded-[3rem] border border-slate-200 shadow-xl relative overflow-hidden min-h-[220px]">
@@ -447,14 +496,32 @@ const Rehearsal: React.FC<RehearsalProps> = ({ onSaveRehearsal, onSaveVocab, onB
            <div className="bg-white border border-slate-200 rounded-[3rem] shadow-xl overflow-hidden focus-within:ring-8 focus-within:ring-indigo-500/5 transition-all">
              <div className="bg-slate-50 px-10 py-5 border-b border-slate-100 flex items-center justify-between">
                 <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">您的复述内容 YOUR RETELLING</span>
-                <span className="text-[10px] font-black text-slate-300 tracking-widest">{userRetelling.length} CHARS</span>
+                <div className="flex items-center space-x-4">
+                  {canRecord && (
+                    <button
+                      onClick={handleToggleRecording}
+                      disabled={isTranscribing || isEvaluating}
+                      title={activeRecording ? '停止录音并转写' : `口述复述，最长 ${MAX_RECORDING_MS / 60000} 分钟`}
+                      className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50 ${activeRecording ? 'bg-rose-500 text-white shadow-lg shadow-rose-100 animate-pulse' : 'bg-white border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200'}`}
+                    >
+                      {isTranscribing ? (
+                        <><div className="w-3 h-3 border-2 border-slate-300 border-t-indigo-600 rounded-full animate-spin"></div><span>转写中 TRANSCRIBING</span></>
+                      ) : activeRecording ? (
+                        <><span>⏹</span><span>{formatSeconds(recordingSeconds)} 停止 STOP</span></>
+                      ) : (
+                        <><span>🎙️</span><span>口述 SPEAK</span></>
+                      )}
+                    </button>
+                  )}
+                  <span className="text-[10px] font-black text-slate-300 tracking-widest">{spokenAudio ? '🎙️ ' : ''}{userRetelling.length} CHARS</span>
+                </div>
              </div>
-             <textarea value={userRetelling} onChange={(e) => setUserRetelling(e.target.value)} placeholder="请尽可能准确地复述刚才看到的内容..." className="w-full h-80 border-none focus:ring-0 p-10 md:p-14 text-lg md:text-xl leading-relaxed serif-font resize-none bg-transparent placeholder:text-slate-200 no-scrollbar" />
+             <textarea value={userRetelling} onChange={(e) => setUserRetelling(e.target.value)} readOnly={!!activeRecording || isTranscribing} placeholder={canRecord ? "请尽可能准确地复述刚才看到的内容，或点击「口述」说出来..." : "请尽可能准确地复述刚才看到的内容..."} className="w-full h-80 border-none focus:ring-0 p-10 md:p-14 text-lg md:text-xl leading-relaxed serif-font resize-none bg-transparent placeholder:text-slate-200 no-scrollbar" />
            </div>
 
            <div className="flex flex-col sm:flex-row gap-4">
-             <button onClick={() => setSourceText('')} className="flex-1 py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50 transition-colors">放弃这次演练 DISCARD</button>
-             <button onClick={handleEvaluate} disabled={isEvaluating || userRetelling.length < 10} className="flex-[2] bg-indigo-600 text-white py-6 rounded-3xl font-black text-base shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center justify-center space-x-3 active:scale-95 disabled:opacity-50">
+             <button onClick={() => { setSourceText(''); setSpokenAudio(null); }} className="flex-1 py-6 border-2 border-slate-200 rounded-3xl text-[12px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-50 transition-colors">放弃这次演练 DISCARD</button>
+             <button onClick={handleEvaluate} disabled={isEvaluating || !!activeRecording || isTranscribing || userRetelling.length < 10} className="flex-[2] bg-indigo-600 text-white py-6 rounded-3xl font-black text-base shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center justify-center space-x-3 active:scale-95 disabled:opacity-50">
                {isEvaluating ? <div className="w-8 h-8 border-4 border-white/30 border-t-white rounded-full animate-spin"></div> : <><span>📊 评估表现 EVALUATE PERFORMANCE</span><span className="text-2xl">→</span></>}
              </button>
            </div>
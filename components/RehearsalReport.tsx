@@ -1,10 +1,12 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { RehearsalEvaluation, AdvancedVocab } from '../types';
-import { generateDiaryAudio } from '../services/geminiService';
 import { getAudioWithCache } from '../services/audioService';
+import { getRecording } from '../services/recordingService';
 import { decode, decodeAudioData } from '../utils/audioHelpers';
+import { parseDiffMarkup, refineDiffSegments, renderDiffHtml } from '../utils/diffHelper';
 import toast from 'react-hot-toast';
+import ShadowingTrainer from './ShadowingTrainer';
 
 interface RehearsalReportProps {
   evaluation: RehearsalEvaluation;
@@ -15,16 +17,46 @@ interface RehearsalReportProps {
   onRetryFailed?: (failedItems: { word: string; meaning: string; usage: string; }[]) => void;
   isArchived?: boolean;
   existingVocab: AdvancedVocab[];
+  shadowedSentences?: string[];
+  /** Saves shadowing progress. Without it, progress lasts until the trainer is closed. */
+  onShadowingProgress?: (completedSentences: string[]) => void;
 }
 
-const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language, date, onBack, onBulkSaveVocab, onRetryFailed, isArchived = false, existingVocab }) => {
+const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language, date, onBack, onBulkSaveVocab, onRetryFailed, isArchived = false, existingVocab, shadowedSentences, onShadowingProgress }) => {
   const [isPlaying, setIsPlaying] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'diff' | 'final'>('diff');
-  const [savedGems, setSavedGems] = useState<Set<string>>(new Set());
   const [isGemModalOpen, setIsGemModalOpen] = useState(false);
   const [selectedGemsInModal, setSelectedGemsInModal] = useState<Set<string>>(new Set());
   const [isSavingGems, setIsSavingGems] = useState(false);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [isShadowing, setIsShadowing] = useState(false);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const recordingAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  const recordingId = evaluation?.recording?.id;
+  useEffect(() => {
+    setRecordingUrl(null);
+    if (!recordingId) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getRecording(recordingId).then(blob => {
+      if (cancelled || !blob) return;
+      url = URL.createObjectURL(blob);
+      setRecordingUrl(url);
+    });
+    return () => {
+      cancelled = true;
+      recordingAudioRef.current?.pause();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [recordingId]);
+
+  const stopRecordingPlayback = () => {
+    if (!recordingAudioRef.current) return false;
+    recordingAudioRef.current.pause();
+    recordingAudioRef.current = null;
+    return true;
+  };
 
   const renderRuby = (text?: string) => {
     if (!text || typeof text !== 'string') return null;
@@ -34,15 +66,20 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
 
   const renderDiffText = (diff?: string) => {
     if (!diff || typeof diff !== 'string') return null;
-    let processed = diff.replace(/\[(.*?)\]\((.*?)\)/g, '<ruby>$1<rt>$2</rt></ruby>');
-    processed = processed
-      .replace(/<add>(.*?)<\/add>/g, '<span class="text-emerald-400 font-bold bg-emerald-500/10 px-1 rounded mx-0.5">$1</span>')
-      .replace(/<rem>(.*?)<\/rem>/g, '<span class="text-rose-400 line-through opacity-60 mx-0.5">$1</span>');
+    const segments = refineDiffSegments(parseDiffMarkup(diff), { charLevel: true, detectMoves: true });
+    const processed = renderDiffHtml(segments, {
+      add: 'text-emerald-400 font-bold bg-emerald-500/10 px-1 rounded mx-0.5',
+      rem: 'text-rose-400 line-through opacity-60 mx-0.5',
+      moveFrom: 'text-amber-400/70 line-through decoration-dashed mx-0.5',
+      moveTo: 'text-amber-300 font-bold bg-amber-500/10 px-1 rounded mx-0.5',
+      char: 'underline decoration-2 underline-offset-4',
+    }, text => text.replace(/\[(.*?)\]\((.*?)\)/g, '<ruby>$1<rt>$2</rt></ruby>'));
     return <div className="leading-[2.5] text-lg md:text-xl text-slate-100 serif-font italic" dangerouslySetInnerHTML={{ __html: processed }} />;
   };
 
   const handlePlayAudio = async (textToPlay: string, id: string) => {
     if (!textToPlay) return;
+    stopRecordingPlayback();
     if (audioSourceRef.current) {
       audioSourceRef.current.stop();
       audioSourceRef.current = null;
@@ -51,7 +88,7 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
     setIsPlaying(id);
     try {
       const cleanText = textToPlay.replace(/\[(.*?)\]\(.*?\)/g, '$1');
-      const base64Audio = await getAudioWithCache(cleanText);
+      const base64Audio = await getAudioWithCache(cleanText, language);
       if (!base64Audio) { setIsPlaying(null); return; }
       const bytes = decode(base64Audio);
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -65,6 +102,29 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
     } catch (e) { setIsPlaying(null); }
   };
 
+  const handlePlayRecording = () => {
+    if (!recordingUrl) return;
+    if (audioSourceRef.current) {
+      audioSourceRef.current.onended = null;
+      audioSourceRef.current.stop();
+      audioSourceRef.current = null;
+    }
+    if (stopRecordingPlayback() && isPlaying === 'recording') { setIsPlaying(null); return; }
+    const audio = new Audio(recordingUrl);
+    audio.onended = () => {
+      recordingAudioRef.current = null;
+      setIsPlaying(null);
+    };
+    audio.play().catch(() => setIsPlaying(null));
+    recordingAudioRef.current = audio;
+    setIsPlaying('recording');
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
   const getGrade = (score: number) => {
     const s = Math.round(score || 0);
     if (s >= 90) return { label: 'S', color: 'text-indigo-400', bg: 'bg-indigo-500/10' };
@@ -105,7 +165,13 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
             <div className="bg-white/5 p-8 rounded-[2.5rem] border border-white/5 relative group">
               <div className="flex items-center justify-between mb-4">
                 <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">源文物对照 SOURCE ARTIFACT</h4>
-                <button onClick={() => handlePlayAudio(evaluation.sourceText || "", 'source')} className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${isPlaying === 'source' ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:text-white'}`}>{isPlaying === 'source' ? '⏹' : '🎧'}</button>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => setIsShadowing(true)} disabled={!evaluation.sourceText} title="跟读训练 SHADOWING" className="h-10 px-3 rounded-xl flex items-center space-x-1.5 bg-white/5 text-slate-400 hover:text-white transition-all disabled:opacity-30">
+                    <span>🗣️</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest">跟读</span>
+                  </button>
+                  <button onClick={() => handlePlayAudio(evaluation.sourceText || "", 'source')} className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${isPlaying === 'source' ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:text-white'}`}>{isPlaying === 'source' ? '⏹' : '🎧'}</button>
+                </div>
               </div>
               <p className="text-base md:text-lg text-slate-400 leading-[1.8] serif-font italic opacity-60">“ {renderRuby(evaluation.sourceText || "")} ”</p>
             </div>
@@ -118,6 +184,17 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
                     <button onClick={() => setViewMode('diff')} className={`px-4 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${viewMode === 'diff' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}>对比</button>
                     <button onClick={() => setViewMode('final')} className={`px-4 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${viewMode === 'final' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}>最终</button>
                   </div>
+                  {evaluation.recording && (
+                    <button
+                      onClick={handlePlayRecording}
+                      disabled={!recordingUrl}
+                      title={recordingUrl ? `我的录音 MY RECORDING · ${formatDuration(evaluation.recording.durationMs)}` : '录音只保存在录制它的设备上'}
+                      className={`h-10 px-3 rounded-xl flex items-center space-x-1.5 transition-all disabled:opacity-30 ${isPlaying === 'recording' ? 'bg-rose-500 text-white shadow-lg' : 'bg-white/5 text-slate-400 hover:text-white'}`}
+                    >
+                      <span>{isPlaying === 'recording' ? '⏹' : '🎙️'}</span>
+                      <span className="text-[9px] font-black tracking-widest">{formatDuration(evaluation.recording.durationMs)}</span>
+                    </button>
+                  )}
                   <button onClick={() => handlePlayAudio(evaluation.suggestedVersion || "", 'suggested')} className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${isPlaying === 'suggested' ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white/5 text-slate-400 hover:text-white'}`}>{isPlaying === 'suggested' ? '⏹' : '🎧'}</button>
                 </div>
               </div>
@@ -250,13 +327,6 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
 
                     if (gemsToSave.length > 0) {
                       await onBulkSaveVocab(gemsToSave);
-                      
-                      const savedWords = gemsToSave.map(g => g.word);
-                      setSavedGems(prev => {
-                        const next = new Set(prev);
-                        savedWords.forEach(w => next.add(w));
-                        return next;
-                      });
                     }
                     
                     toast.success('珍宝收藏成功！', { id: toastId });
@@ -277,6 +347,16 @@ const RehearsalReport: React.FC<RehearsalReportProps> = ({ evaluation, language,
           </div>
         </div>
       )}
+
+      {isShadowing && (
+        <ShadowingTrainer
+          text={evaluation.sourceText || ''}
+          language={language}
+          completedSentences={shadowedSentences}
+          onProgress={onShadowingProgress}
+          onClose={() => setIsShadowing(false)}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { DiaryEntry } from '../types';
+import { getLanguage } from '../utils/languages';
+import { DIFFICULTIES, TOPICS } from '../utils/rehearsalOptions';
+import { groupTrends, personalBests, rehearsalPoints, RehearsalPoint, ROLLING_WINDOW, TrendDimension, withRollingAverages } from '../utils/rehearsalTrends';
+
+interface RehearsalTrendsProps {
+  entries: DiaryEntry[];
+  onBack: () => void;
+  onOpenEntry: (entry: DiaryEntry) => void;
+}
+
+const DIMENSIONS: { id: TrendDimension; label: string }[] = [
+  { id: 'language', label: '语言' },
+  { id: 'difficulty', label: '难度' },
+  { id: 'topic', label: '主题' },
+];
+
+const groupLabel = (dimension: TrendDimension, key: string | null): string => {
+  if (key === null) return '未记录';
+  if (dimension === 'language') {
+    const language = getLanguage(key);
+    return `${language.flag} ${language.nameZh}`;
+  }
+  const option = (dimension === 'difficulty' ? DIFFICULTIES : TOPICS).find(o => o.id === key);
+  return option ? `${option.icon} ${option.label}` : key;
+};
+
+const RehearsalTrends: React.FC<RehearsalTrendsProps> = ({ entries, onBack, onOpenEntry }) => {
+  const [dimension, setDimension] = useState<TrendDimension>('language');
+  // undefined shows every rehearsal; null is the group that did not record the dimension
+  const [selectedKey, setSelectedKey] = useState<string | null | undefined>(undefined);
+
+  const points = useMemo(() => rehearsalPoints(entries), [entries]);
+  const groups = useMemo(() => groupTrends(points, dimension), [points, dimension]);
+  const filtered = useMemo(
+    () => selectedKey === undefined ? points : points.filter(p => p[dimension] === selectedKey),
+    [points, dimension, selectedKey]
+  );
+  const trend = useMemo(() => withRollingAverages(filtered).map((p, i) => ({
+    ...p,
+    name: `#${i + 1}`,
+    date: new Date(p.timestamp).toLocaleDateString(),
+  })), [filtered]);
+  const bests = useMemo(() => personalBests(filtered), [filtered]);
+  const latest = trend[trend.length - 1];
+
+  const handleDimension = (id: TrendDimension) => {
+    setDimension(id);
+    setSelectedKey(undefined);
+  };
+
+  const openPoint = (point: RehearsalPoint | null) => {
+    const entry = point && entries.find(e => e.id === point.entryId);
+    if (entry) onOpenEntry(entry);
+  };
+
+  const bestCard = (label: string, point: RehearsalPoint | null, score: 'accuracy' | 'quality', color: string) => (
+    <button
+      onClick={() => openPoint(point)}
+      disabled={!point}
+      className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm text-left hover:border-indigo-200 transition-all disabled:hover:border-slate-200"
+    >
+      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+      <div className={`text-3xl font-black serif-font mt-2 ${color}`}>{point ? point[score] : '—'}</div>
+      <span className="text-[9px] font-bold text-slate-300">{point ? new Date(point.timestamp).toLocaleDateString() : ''}</span>
+    </button>
+  );
+
+  return (
+    <div className="w-full max-w-6xl mx-auto pt-6 md:pt-10 px-4 md:px-8 pb-32 space-y-8">
+      <header>
+        <button onClick={onBack} className="text-slate-400 hover:text-indigo-600 text-[10px] font-black uppercase tracking-widest mb-1 flex items-center group">
+          <span className="mr-1 group-hover:-translate-x-1 transition-transform">←</span> 返回 BACK
+        </button>
+        <h2 className="text-3xl md:text-4xl font-black text-slate-900 serif-font tracking-tight">演练趋势 Rehearsal Trends</h2>
+        <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.2em] mt-1 opacity-70">Accuracy & Quality Over Time</p>
+      </header>
+
+      {points.length === 0 ? (
+        <div className="py-24 text-center bg-white rounded-[3rem] border border-dashed border-slate-200">
+          <p className="text-slate-400 text-sm italic">还没有已评估的演练。完成一次展厅演练后，这里会显示您的成绩走势。</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">近 {ROLLING_WINDOW} 次准确度 ACCURACY</span>
+              <div className="text-3xl font-black serif-font mt-2 text-indigo-600">{latest ? latest.accuracyAverage : '—'}</div>
+              <span className="text-[9px] font-bold text-slate-300">{filtered.length} 次演练</span>
+            </div>
+            <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">近 {ROLLING_WINDOW} 次表达 QUALITY</span>
+              <div className="text-3xl font-black serif-font mt-2 text-emerald-600">{latest ? latest.qualityAverage : '—'}</div>
+              <span className="text-[9px] font-bold text-slate-300">{filtered.length} 次演练</span>
+            </div>
+            {bestCard('最佳准确度 BEST ACCURACY', bests.accuracy, 'accuracy', 'text-indigo-600')}
+            {bestCard('最佳表达 BEST QUALITY', bests.quality, 'quality', 'text-emerald-600')}
+          </div>
+
+          <section className="bg-white p-6 md:p-8 rounded-[2.2rem] border border-slate-200 shadow-sm">
+            <div className="flex items-center justify-between mb-6">
+              <h4 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">成绩走势 SCORE TREND</h4>
+              {selectedKey !== undefined && (
+                <button onClick={() => setSelectedKey(undefined)} className="text-[9px] font-black text-indigo-500 uppercase tracking-widest hover:underline">
+                  {groupLabel(dimension, selectedKey)} ✕
+                </button>
+              )}
+            </div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend} margin={{ top: 5, right: 10, left: -25, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 9, fontWeight: 700, fill: '#94a3b8'}} dy={8} />
+                  <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#cbd5e1'}} />
+                  <Tooltip
+                    labelFormatter={(_, payload) => payload?.[0]?.payload?.date || ''}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontSize: '10px', fontWeight: 'bold' }}
+                  />
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: '10px', fontWeight: 700 }} />
+                  <Line type="monotone" dataKey="accuracy" name="准确度" stroke="#a5b4fc" strokeWidth={1} dot={{ r: 3 }} />
+                  <Line type="monotone" dataKey="accuracyAverage" name={`准确度 · ${ROLLING_WINDOW} 次均值`} stroke="#4f46e5" strokeWidth={3} dot={false} />
+                  <Line type="monotone" dataKey="quality" name="表达" stroke="#6ee7b7" strokeWidth={1} dot={{ r: 3 }} />
+                  <Line type="monotone" dataKey="qualityAverage" name={`表达 · ${ROLLING_WINDOW} 次均值`} stroke="#059669" strokeWidth={3} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+
+          <section className="bg-white p-6 md:p-8 rounded-[2.2rem] border border-slate-200 shadow-sm">
+            <div className="flex items-center justify-between mb-6">
+              <h4 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">分类对比 BREAKDOWN</h4>
+              <div className="bg-slate-100 p-1 rounded-xl flex items-center shadow-inner">
+                {DIMENSIONS.map(d => (
+                  <button
+                    key={d.id}
+                    onClick={() => handleDimension(d.id)}
+                    className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${dimension === d.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              {groups.map(group => (
+                <button
+                  key={group.key ?? 'none'}
+                  onClick={() => setSelectedKey(selectedKey === group.key ? undefined : group.key)}
+                  className={`w-full grid grid-cols-12 items-center gap-2 px-4 py-3 rounded-2xl border text-left transition-all ${selectedKey === group.key ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50/50 border-transparent hover:border-slate-200'}`}
+                >
+                  <span className="col-span-4 text-xs font-bold text-slate-700 truncate">{groupLabel(dimension, group.key)}</span>
+                  <span className="col-span-2 text-[10px] font-black text-slate-400">{group.count} 次</span>
+                  <span className="col-span-3 text-[10px] font-black text-indigo-600">准确 {group.averageAccuracy} <span className="text-slate-300">/ 最佳 {group.bestAccuracy}</span></span>
+                  <span className="col-span-3 text-[10px] font-black text-emerald-600">表达 {group.averageQuality} <span className="text-slate-300">/ 最佳 {group.bestQuality}</span></span>
+                </button>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RehearsalTrends;
@@ -1,8 +1,14 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { DiaryAnalysis, DiaryIteration, Correction, AdvancedVocab } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { DiaryAnalysis, DiaryIteration, AdvancedVocab } from '../types';
 import { playSmartSpeech } from '../services/audioService';
-import { renderRuby, stripRuby, weaveRuby } from '../utils/textHelpers';
+import { renderRuby, stripRuby, validateReadingPairs, weaveRuby, weaveRubyMarkdown } from '../utils/textHelpers';
+import { locateCorrections } from '../utils/correctionSpans';
+import { DiffHtmlClasses, parseDiffMarkup, refineDiffSegments, renderDiffHtml } from '../utils/diffHelper';
+import { getLanguage } from '../utils/languages';
+import ShadowingTrainer from './ShadowingTrainer';
+
+const DIFF_CLASSES: DiffHtmlClasses = { add: 'diff-add', rem: 'diff-rem', moveFrom: 'diff-move-from', moveTo: 'diff-move-to', char: 'diff-char' };
 
 interface ReviewProps {
   analysis: DiaryAnalysis;
@@ -11,48 +17,119 @@ interface ReviewProps {
   allAdvancedVocab?: AdvancedVocab[];
   onSave: () => void;
   onBack: () => void;
-  onSaveManualVocab?: (vocab: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>) => void;
   isExistingEntry?: boolean;
+  /** The analysis is still arriving: show what exists so far, without the diff. */
+  isStreaming?: boolean;
+  shadowedSentences?: string[];
+  /** Saves shadowing progress. Without it, progress lasts until the trainer is closed. */
+  onShadowingProgress?: (completedSentences: string[]) => void;
 }
 
-const Review: React.FC<ReviewProps> = ({ analysis, language, iterations, allAdvancedVocab, onSave, onBack, onSaveManualVocab, isExistingEntry }) => {
+const Review: React.FC<ReviewProps> = ({ analysis: latestAnalysis, language, iterations, allAdvancedVocab, onSave, onBack, isExistingEntry, isStreaming, shadowedSentences, onShadowingProgress }) => {
   const [activeTab, setActiveTab] = useState<'overall' | 'corrections' | 'vocab' | 'history'>('overall');
+  const [selectedIterationId, setSelectedIterationId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'diff' | 'final'>('diff');
   const [isPlaying, setIsPlaying] = useState<string | null>(null); 
   const [isAudioLoading, setIsAudioLoading] = useState(false);
   const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
-  const [showFurigana, setShowFurigana] = useState(language === 'Japanese');
+  const { rubyScheme, direction, locale } = getLanguage(language);
+  const furigana = rubyScheme === 'furigana';
+  const [showFurigana, setShowFurigana] = useState(furigana);
+  const [focusedCorrection, setFocusedCorrection] = useState<number | null>(null);
+  const [hoveredCorrection, setHoveredCorrection] = useState<{ index: number; top: number; left: number } | null>(null);
+  const [isShadowing, setIsShadowing] = useState(false);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const manuscriptRef = useRef<HTMLDivElement>(null);
+
+  // The other tabs show the version picked in the history tab, or the latest one
+  const selectedIteration = iterations.find(it => it.id === selectedIterationId);
+  const analysis = selectedIteration?.analysis || latestAnalysis;
+
+  // Entries saved before corrections carried spans get them resolved on the fly
+  const corrections = useMemo(() => {
+    if (isStreaming || !analysis.diffedText || analysis.corrections.every(c => c.diffSpan)) return analysis.corrections;
+    return locateCorrections(analysis.diffedText, analysis.corrections);
+  }, [analysis, isStreaming]);
+
+  const readingIssues = useMemo(
+    () => furigana && !isStreaming ? validateReadingPairs(analysis.readingPairs) : [],
+    [analysis, furigana, isStreaming]
+  );
+  const localReadingCount = (analysis.readingPairs || []).filter(p => p.source === 'local').length;
+
+  /**
+   * Renders diffedText, underlining the stretch each correction covers when `marked` is set.
+   * Changed words show their character edits and reordered phrases show as moves, unless a mark cuts through them.
+   */
+  const renderManuscriptHtml = (target: DiaryAnalysis, marked: typeof corrections = []) => {
+    const format = (text: string) => showFurigana && furigana && target.readingPairs
+      ? weaveRuby(text, target.readingPairs || [], language)
+      : text.replace(/\[(.*?)\]\((.*?)\)/g, '$1');
+    const marks = marked.map((c, index) => ({ index, span: c.diffSpan })).filter(m => m.span);
+    const segments = refineDiffSegments(parseDiffMarkup(target.diffedText), { charLevel: true, detectMoves: true });
+
+    return segments.map(segment => {
+      const cuts = new Set([segment.start, segment.end]);
+      marks.forEach(({ span }) => [span!.start, span!.end].forEach(at => { if (at > segment.start && at < segment.end) cuts.add(at); }));
+      const bounds = Array.from(cuts).sort((a, b) => a - b);
+
+      return bounds.slice(0, -1).map((from, i) => {
+        const to = bounds[i + 1];
+        const piece = bounds.length === 2 ? segment : { type: segment.type, text: target.diffedText.slice(from, to) };
+        const html = renderDiffHtml([piece], DIFF_CLASSES, format);
+        const mark = marks.find(({ span }) => span!.start <= from && to <= span!.end);
+        if (!mark) return html;
+        const active = mark.index === focusedCorrection ? ' correction-mark-active' : '';
+        return `<span class="correction-mark${active}" data-correction="${mark.index}">${html}</span>`;
+      }).join('');
+    }).join('');
+  };
+
+  const correctionAt = (target: EventTarget): number | null => {
+    const mark = (target as HTMLElement).closest?.('[data-correction]');
+    return mark ? Number(mark.getAttribute('data-correction')) : null;
+  };
+
+  const handleManuscriptHover = (e: React.MouseEvent) => {
+    const index = correctionAt(e.target);
+    if (index === null || !manuscriptRef.current) { setHoveredCorrection(null); return; }
+    const mark = (e.target as HTMLElement).closest('[data-correction]')!.getBoundingClientRect();
+    const container = manuscriptRef.current.getBoundingClientRect();
+    setHoveredCorrection({ index, top: mark.bottom - container.top + 8, left: Math.max(0, Math.min(mark.left - container.left, container.width - 288)) });
+  };
+
+  const handleManuscriptClick = (e: React.MouseEvent) => {
+    const index = correctionAt(e.target);
+    if (index === null) return;
+    setHoveredCorrection(null);
+    setFocusedCorrection(index);
+    setActiveTab('corrections');
+  };
+
+  const jumpToText = (index: number) => {
+    setFocusedCorrection(index);
+    setViewMode('diff');
+    setActiveTab('overall');
+  };
+
+  // Bring the focused correction into view on whichever side we just switched to
+  useEffect(() => {
+    if (focusedCorrection === null) return;
+    const selector = activeTab === 'corrections' ? `#correction-card-${focusedCorrection}` : `[data-correction="${focusedCorrection}"]`;
+    document.querySelector(selector)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedCorrection, activeTab]);
 
   const renderTextContent = () => {
+    if (isStreaming) {
+      if (!analysis.modifiedText) return <span className="text-slate-300 animate-pulse">AI 正在审阅您的文稿…</span>;
+      const text = weaveRuby(analysis.modifiedText, analysis.readingPairs || [], language);
+      return <span className="leading-[3.5rem] text-slate-900"><span dangerouslySetInnerHTML={{ __html: text }} /><span className="inline-block w-0.5 h-6 bg-indigo-500 ml-1 align-middle animate-pulse"></span></span>;
+    }
     if (viewMode === 'final') {
       const text = weaveRuby(analysis.modifiedText, analysis.readingPairs || [], language);
       return <span className="leading-[3.5rem] text-slate-900" dangerouslySetInnerHTML={{ __html: text }} />;
     }
-
-    let processed = analysis.diffedText;
-    
-    if (showFurigana && language === 'Japanese' && analysis.readingPairs) {
-      const parts = processed.split(/(<add>.*?<\/add>|<rem>.*?<\/rem>)/g);
-      processed = parts.map(part => {
-        if (part.startsWith('<add>')) {
-          const inner = part.replace(/<\/?add>/g, '');
-          return `<add>${weaveRuby(inner, analysis.readingPairs || [], language)}</add>`;
-        } else if (part.startsWith('<rem>')) {
-          const inner = part.replace(/<\/?rem>/g, '');
-          return `<rem>${weaveRuby(inner, analysis.readingPairs || [], language)}</rem>`;
-        }
-        return weaveRuby(part, analysis.readingPairs || [], language);
-      }).join('');
-    } else {
-      processed = processed.replace(/\[(.*?)\]\((.*?)\)/g, '$1');
-    }
-
-    processed = processed
-      .replace(/<add>(.*?)<\/add>/g, '<span class="diff-add">$1</span>')
-      .replace(/<rem>(.*?)<\/rem>/g, '<span class="diff-rem">$1</span>');
-      
-    return <span className="leading-[3.5rem]" dangerouslySetInnerHTML={{ __html: processed }} />;
+    return <span className="leading-[3.5rem]" dangerouslySetInnerHTML={{ __html: renderManuscriptHtml(analysis, corrections) }} />;
   };
 
   const handlePlayAudio = async (textToPlay: string, id: string) => {
@@ -105,27 +182,34 @@ const Review: React.FC<ReviewProps> = ({ analysis, language, iterations, allAdva
           </button>
           <div className="flex items-center justify-between md:block">
             <h2 className="text-2xl md:text-3xl font-black text-slate-900 serif-font tracking-tight">AI 审阅报告 <span className="text-indigo-600">AI Review</span></h2>
-            {!isExistingEntry && (
+            {!isExistingEntry && !isStreaming && (
               <button onClick={onSave} className="md:hidden bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black shadow-lg active:scale-95 transition-all">存入收藏 EXHIBIT</button>
             )}
           </div>
         </div>
         <div className="flex items-center space-x-3">
-          <div className="bg-slate-100 p-1 rounded-xl flex items-center shadow-inner">
-            <button 
-              onClick={() => setViewMode('diff')}
-              className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all ${viewMode === 'diff' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
-            >
-              修改对比
-            </button>
-            <button 
-              onClick={() => setViewMode('final')}
-              className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all ${viewMode === 'final' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
-            >
-              定稿全文
-            </button>
-          </div>
-          {language === 'Japanese' && (
+          {isStreaming ? (
+            <div className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-indigo-50 border border-indigo-100">
+              <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+              <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest">审阅中 STREAMING</span>
+            </div>
+          ) : (
+            <div className="bg-slate-100 p-1 rounded-xl flex items-center shadow-inner">
+              <button 
+                onClick={() => setViewMode('diff')}
+                className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all ${viewMode === 'diff' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                修改对比
+              </button>
+              <button 
+                onClick={() => setViewMode('final')}
+                className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all ${viewMode === 'final' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                定稿全文
+              </button>
+            </div>
+          )}
+          {furigana && (
             <button 
               onClick={() => setShowFurigana(!showFurigana)}
               className={`flex items-center space-x-2 px-3 py-2 rounded-xl border text-[10px] font-black uppercase transition-all ${showFurigana ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-100 text-slate-400'}`}
@@ -142,7 +226,7 @@ const Review: React.FC<ReviewProps> = ({ analysis, language, iterations, allAdva
           { id: 'corrections', label: '衔接逻辑', icon: '🔗' },
           { id: 'vocab', label: '表达进阶', icon: '💎' },
           { id: 'history', label: '迭代历史', icon: '🔄' },
-        ].filter(t => t.id !== 'history' || iterations.length > 0).map(tab => (
+        ].filter(t => t.id !== 'history' || iterations.length > 1).map(tab => (
           <button 
             key={tab.id}
             onClick={() => setActiveTab(tab.id as any)} 
@@ -162,9 +246,9 @@ const Review: React.FC<ReviewProps> = ({ analysis, language, iterations, allAdva
                 <div className="flex items-center space-x-4">
                   <div className="w-1 h-6 bg-indigo-600 rounded-full"></div>
                   <h3 className="text-[10px] font-black text-slate-900 uppercase tracking-[0.2em]">
-                    {viewMode === 'diff' ? 'MANUSCRIPT DIFF' : 'FINAL ARTIFACT'}
+                    {isStreaming ? 'DRAFTING' : viewMode === 'diff' ? 'MANUSCRIPT DIFF' : 'FINAL ARTIFACT'}
                   </h3>
-                  {viewMode === 'diff' && (
+                  {viewMode === 'diff' && !isStreaming && (
                     <div className="flex items-center space-x-3 ml-2">
                        <div className="flex items-center space-x-1">
                           <span className="w-3 h-3 bg-red-100 border border-red-200 rounded"></span>
@@ -177,31 +261,87 @@ const Review: React.FC<ReviewProps> = ({ analysis, language, iterations, allAdva
                     </div>
                   )}
                 </div>
-                <button onClick={() => handlePlayAudio(analysis.modifiedText, 'modifiedText')} className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${isPlaying === 'modifiedText' ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-400'}`}>
-                  {isAudioLoading && isPlaying === 'modifiedText' ? (
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                  ) : isPlaying === 'modifiedText' ? '⏹' : '🎧'}
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => setIsShadowing(true)} disabled={isStreaming} title="跟读训练 SHADOWING" className="h-10 px-3 disabled:opacity-30 rounded-xl flex items-center space-x-1.5 bg-slate-50 text-slate-400 hover:text-indigo-600 transition-all">
+                    <span>🗣️</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest">跟读</span>
+                  </button>
+                  <button onClick={() => handlePlayAudio(analysis.modifiedText, 'modifiedText')} disabled={isStreaming} className={`w-10 h-10 disabled:opacity-30 rounded-xl flex items-center justify-center transition-all ${isPlaying === 'modifiedText' ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-400'}`}>
+                    {isAudioLoading && isPlaying === 'modifiedText' ? (
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    ) : isPlaying === 'modifiedText' ? '⏹' : '🎧'}
+                  </button>
+                </div>
               </header>
-              <div className="manuscript-grid relative">
-                <p className="text-xl md:text-2xl text-slate-800 leading-[3.5rem] serif-font">
+              <div
+                ref={manuscriptRef}
+                className="manuscript-grid relative"
+                onMouseOver={handleManuscriptHover}
+                onMouseLeave={() => setHoveredCorrection(null)}
+                onClick={handleManuscriptClick}
+              >
+                <p className="text-xl md:text-2xl text-slate-800 leading-[3.5rem] serif-font" dir={direction} lang={locale}>
                   {renderTextContent()}
                 </p>
+                {hoveredCorrection && corrections[hoveredCorrection.index] && (
+                  <div
+                    className="absolute z-20 w-72 bg-slate-900 text-white p-4 rounded-2xl shadow-2xl pointer-events-none animate-in fade-in duration-200"
+                    style={{ top: hoveredCorrection.top, left: hoveredCorrection.left }}
+                  >
+                    <span className="text-[8px] font-black uppercase tracking-widest text-indigo-300">{corrections[hoveredCorrection.index].category}</span>
+                    <p className="text-xs leading-relaxed mt-1">{corrections[hoveredCorrection.index].explanation}</p>
+                    <p className="text-[8px] font-black uppercase tracking-widest text-slate-500 mt-2">点击查看详情 CLICK FOR DETAILS</p>
+                  </div>
+                )}
               </div>
             </div>
             <div className="bg-indigo-50/50 p-8 rounded-[2rem] border border-indigo-100 max-h-96 overflow-y-auto">
               <h3 className="text-[10px] font-black text-indigo-900 uppercase tracking-widest mb-4 flex items-center space-x-2"><span>💡</span><span>馆长点评</span></h3>
-              <p className="text-indigo-800/80 text-base md:text-lg leading-relaxed serif-font italic">“ {analysis.overallFeedback} ”</p>
+              {analysis.overallFeedback || !isStreaming ? (
+                <p className="text-indigo-800/80 text-base md:text-lg leading-relaxed serif-font italic">“ {analysis.overallFeedback} ”</p>
+              ) : (
+                <div className="h-4 w-2/3 bg-indigo-100 rounded-full animate-pulse"></div>
+              )}
             </div>
+            {(readingIssues.length > 0 || localReadingCount > 0) && (
+              <div className="bg-amber-50/60 p-6 rounded-[2rem] border border-amber-100">
+                <h3 className="text-[10px] font-black text-amber-900 uppercase tracking-widest mb-4 flex items-center space-x-2"><span>あ</span><span>读音校对 READINGS</span></h3>
+                {readingIssues.length > 0 && (
+                  <ul className="space-y-2 mb-3">
+                    {readingIssues.map((issue, i) => (
+                      <li key={i} className="flex flex-wrap items-baseline gap-x-3 text-sm text-amber-900">
+                        <span className="serif-font font-bold text-base">{issue.kanji}</span>
+                        <span className="text-amber-700">标注为「{issue.reading}」</span>
+                        <span className="text-[9px] font-black uppercase tracking-widest text-amber-500">
+                          {issue.reason === 'okurigana' ? '送假名不符' : '与词典不符'}{issue.expected ? ` · 词典读音「${issue.expected}」` : ''}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {localReadingCount > 0 && (
+                  <p className="text-[9px] font-black uppercase tracking-widest text-amber-500">另有 {localReadingCount} 个词的读音由本地词典补全 FILLED LOCALLY</p>
+                )}
+              </div>
+            )}
           </div>
         )}
 
+        {(activeTab === 'corrections' || activeTab === 'vocab') && isStreaming && (activeTab === 'corrections' ? analysis.corrections : analysis.advancedVocab).length === 0 && (
+          <div className="py-16 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest animate-pulse">AI 正在整理… WAITING</div>
+        )}
+
         {activeTab === 'corrections' && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-in fade-in duration-500">
-            {analysis.corrections.map((c, index) => (
-              <div key={index} className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm relative group/card">
+            {corrections.map((c, index) => (
+              <div key={index} id={`correction-card-${index}`} className={`bg-white p-6 rounded-3xl border shadow-sm relative group/card transition-all ${focusedCorrection === index ? 'border-indigo-300 ring-2 ring-indigo-500/10' : 'border-slate-100'}`}>
                 <div className="flex items-center justify-between mb-4">
-                  <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase ${c.category === 'Grammar' ? 'bg-blue-100 text-blue-700' : 'bg-slate-100'}`}>{c.category}</span>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase ${c.category === 'Grammar' ? 'bg-blue-100 text-blue-700' : 'bg-slate-100'}`}>{c.category}</span>
+                    {c.diffSpan && !isStreaming && (
+                      <button onClick={() => jumpToText(index)} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline">在原文中定位 ↗</button>
+                    )}
+                  </div>
                   <button onClick={() => setSavedIds(prev => new Set(prev).add(`corr-${index}`))} className={`text-lg transition-all ${savedIds.has(`corr-${index}`) ? 'text-amber-500' : 'text-slate-200 hover:text-indigo-600'}`}>💎</button>
                 </div>
                 <div className="space-y-3 mb-4">
@@ -245,7 +385,56 @@ const Review: React.FC<ReviewProps> = ({ analysis, language, iterations, allAdva
             })}
           </div>
         )}
+
+        {activeTab === 'history' && (
+          <div className="space-y-6 animate-in fade-in duration-500">
+            {[...iterations].reverse().map((it, idx) => {
+              const versionNumber = iterations.length - idx;
+              const isSelected = selectedIteration ? selectedIteration.id === it.id : idx === 0;
+              const itAnalysis = it.analysis;
+              return (
+                <div key={it.id} className={`bg-white p-6 md:p-10 rounded-[2rem] border shadow-sm space-y-6 ${isSelected ? 'border-indigo-200 ring-2 ring-indigo-500/10' : 'border-slate-100'}`}>
+                  <header className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${idx === 0 ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                        第 {versionNumber} 稿 V{versionNumber}
+                      </span>
+                      <span className="text-[10px] font-bold text-slate-400">{new Date(it.timestamp).toLocaleDateString('zh-CN', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{itAnalysis ? `${itAnalysis.corrections.length} 处修订` : '未分析草稿'}</span>
+                      {itAnalysis && <button
+                        onClick={() => { setSelectedIterationId(idx === 0 ? null : it.id); setFocusedCorrection(null); setActiveTab('overall'); }}
+                        className="text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline"
+                      >
+                        查看此稿 →
+                      </button>}
+                    </div>
+                  </header>
+                  {itAnalysis ? (
+                    <>
+                      <p className="text-base md:text-lg text-slate-800 leading-[2.5rem] serif-font" dangerouslySetInnerHTML={{ __html: renderManuscriptHtml(itAnalysis) }}></p>
+                      <p className="text-indigo-800/80 text-sm leading-relaxed serif-font italic bg-indigo-50/50 p-4 rounded-2xl">“ {itAnalysis.overallFeedback} ”</p>
+                    </>
+                  ) : (
+                    <p className="text-base md:text-lg text-slate-800 leading-[2.5rem] serif-font whitespace-pre-wrap">{it.text}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
+
+      {isShadowing && (
+        <ShadowingTrainer
+          text={weaveRubyMarkdown(analysis.modifiedText, analysis.readingPairs, language)}
+          language={language}
+          completedSentences={shadowedSentences}
+          onProgress={onShadowingProgress}
+          onClose={() => setIsShadowing(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,266 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { getAudioWithCache } from '../services/audioService';
+import { describeLLMError } from '../services/llm';
+import { ActiveRecording, isRecordingSupported, startRecording } from '../services/recordingService';
+import { decode, decodeAudioData } from '../utils/audioHelpers';
+import { renderRuby, splitSentences, toSpokenText } from '../utils/textHelpers';
+
+interface ShadowingTrainerProps {
+  /** The text to shadow, with ruby markup if it has any. */
+  text: string;
+  language: string;
+  completedSentences?: string[];
+  /** Receives every sentence completed so far, as spoken text, after each change. */
+  onProgress?: (completedSentences: string[]) => void;
+  onClose: () => void;
+}
+
+interface Take {
+  url: string;
+  durationMs: number;
+}
+
+// How long the learner gets to repeat a sentence, relative to the model's reading of it
+const REPEAT_TIME_FACTOR = 2;
+const REPEAT_TIME_EXTRA_MS = 1500;
+
+const ShadowingTrainer: React.FC<ShadowingTrainerProps> = ({ text, language, completedSentences = [], onProgress, onClose }) => {
+  const sentences = useMemo(() => splitSentences(text, language), [text, language]);
+  const [completed, setCompleted] = useState<Set<string>>(() => new Set(completedSentences));
+  const [activeIndex, setActiveIndex] = useState(() => {
+    const next = sentences.findIndex(s => !completedSentences.includes(toSpokenText(s)));
+    return next === -1 ? 0 : next;
+  });
+  const [phase, setPhase] = useState<'idle' | 'listening' | 'recording'>('idle');
+  const [playing, setPlaying] = useState<'model' | 'take' | null>(null);
+  const [takes, setTakes] = useState<Record<number, Take>>({});
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const canRecord = useMemo(() => isRecordingSupported(), []);
+
+  // Bumped by every action, so a superseded shadowing run stops at its next step
+  const runRef = useRef(0);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const takeAudioRef = useRef<HTMLAudioElement | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  const takeUrlsRef = useRef<string[]>([]);
+
+  const stopPlayback = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    takeAudioRef.current?.pause();
+    takeAudioRef.current = null;
+    setPlaying(null);
+  };
+
+  const cancelRun = () => {
+    runRef.current++;
+    stopPlayback();
+    recordingRef.current?.stop();
+    recordingRef.current = null;
+    setPhase('idle');
+  };
+
+  useEffect(() => () => {
+    runRef.current++;
+    sourceRef.current?.stop();
+    takeAudioRef.current?.pause();
+    recordingRef.current?.stop();
+    takeUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const startedAt = Date.now();
+    setRecordingSeconds(0);
+    const timer = setInterval(() => setRecordingSeconds(Math.floor((Date.now() - startedAt) / 1000)), 500);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  /**
+   * Plays the model reading of a sentence and resolves with its length once it ends or is stopped.
+   */
+  const playModel = async (sentence: string): Promise<number> => {
+    const base64Audio = await getAudioWithCache(toSpokenText(sentence), language);
+    if (!base64Audio) throw new Error('No audio for sentence');
+    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtx, 24000, 1);
+    const source = audioCtx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(audioCtx.destination);
+    sourceRef.current = source;
+    setPlaying('model');
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
+    if (sourceRef.current === source) {
+      sourceRef.current = null;
+      setPlaying(null);
+    }
+    audioCtx.close();
+    return audioBuffer.duration * 1000;
+  };
+
+  const handleShadow = async (index: number) => {
+    cancelRun();
+    const run = runRef.current;
+    setPhase('listening');
+    try {
+      const modelMs = await playModel(sentences[index]);
+      if (run !== runRef.current) return;
+      if (!canRecord) { setPhase('idle'); return; }
+
+      setPhase('recording');
+      const recording = await startRecording();
+      if (run !== runRef.current) { recording.stop(); return; }
+      recordingRef.current = recording;
+      const limit = setTimeout(() => recording.stop(), modelMs * REPEAT_TIME_FACTOR + REPEAT_TIME_EXTRA_MS);
+      const audio = await recording.finished;
+      clearTimeout(limit);
+      if (run !== runRef.current) return;
+      recordingRef.current = null;
+
+      const url = URL.createObjectURL(audio.blob);
+      takeUrlsRef.current.push(url);
+      setTakes(prev => ({ ...prev, [index]: { url, durationMs: audio.durationMs } }));
+      setPhase('idle');
+    } catch (e) {
+      if (run !== runRef.current) return;
+      setPhase('idle');
+      toast.error(e instanceof DOMException ? '无法使用麦克风，请检查浏览器权限。' : describeLLMError(e, '原声播放失败，请重试。'));
+    }
+  };
+
+  const handlePlayModel = async (index: number) => {
+    const wasPlaying = playing === 'model';
+    stopPlayback();
+    if (wasPlaying) return;
+    try {
+      await playModel(sentences[index]);
+    } catch (e) {
+      toast.error(describeLLMError(e, '原声播放失败，请重试。'));
+    }
+  };
+
+  const handlePlayTake = (index: number) => {
+    const wasPlaying = playing === 'take';
+    stopPlayback();
+    if (wasPlaying || !takes[index]) return;
+    const audio = new Audio(takes[index].url);
+    audio.onended = () => {
+      takeAudioRef.current = null;
+      setPlaying(null);
+    };
+    audio.play().catch(() => setPlaying(null));
+    takeAudioRef.current = audio;
+    setPlaying('take');
+  };
+
+  const handleSelect = (index: number) => {
+    if (index === activeIndex) return;
+    cancelRun();
+    setActiveIndex(index);
+  };
+
+  const handleComplete = (index: number) => {
+    cancelRun();
+    const next = new Set(completed).add(toSpokenText(sentences[index]));
+    setCompleted(next);
+    onProgress?.(Array.from(next));
+    const upcoming = sentences.findIndex((s, i) => i > index && !next.has(toSpokenText(s)));
+    if (upcoming !== -1) setActiveIndex(upcoming);
+  };
+
+  const doneCount = sentences.filter(s => completed.has(toSpokenText(s))).length;
+  const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => { cancelRun(); onClose(); }}></div>
+
+      <div className="relative w-full max-w-2xl bg-white rounded-[3rem] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 slide-in-from-bottom-10 duration-500 max-h-full">
+        <header className="p-8 border-b border-slate-50 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 serif-font">跟读训练 SHADOWING</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+              {canRecord ? '听一句，跟一句，再对比原声与录音' : '当前浏览器无法录音，仅可跟听原声'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{doneCount} / {sentences.length}</span>
+            <button onClick={() => { cancelRun(); onClose(); }} className="w-10 h-10 rounded-xl bg-slate-50 text-slate-400 hover:text-slate-900 flex items-center justify-center transition-colors">✕</button>
+          </div>
+        </header>
+
+        <div className="h-1 bg-slate-50 shrink-0">
+          <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${sentences.length ? (doneCount / sentences.length) * 100 : 0}%` }}></div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar p-6 md:p-8 space-y-3">
+          {sentences.length === 0 && (
+            <p className="text-center text-slate-400 text-xs italic py-12">没有可跟读的句子。</p>
+          )}
+          {sentences.map((sentence, index) => {
+            const isActive = index === activeIndex;
+            const isDone = completed.has(toSpokenText(sentence));
+            const take = takes[index];
+            return (
+              <div
+                key={index}
+                onClick={() => handleSelect(index)}
+                className={`rounded-3xl border-2 transition-all ${isActive ? 'border-indigo-600 bg-indigo-50/40 p-6' : 'border-slate-100 hover:border-slate-200 p-4 cursor-pointer'}`}
+              >
+                <div className="flex items-start space-x-4">
+                  <span className={`w-7 h-7 shrink-0 rounded-xl flex items-center justify-center text-[10px] font-black ${isDone ? 'bg-emerald-500 text-white' : isActive ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}>
+                    {isDone ? '✓' : index + 1}
+                  </span>
+                  <p className={`serif-font leading-[2.2] ${isActive ? 'text-lg text-slate-900' : 'text-base text-slate-500'}`} dangerouslySetInnerHTML={{ __html: renderRuby(sentence) }} />
+                </div>
+
+                {isActive && (
+                  <div className="mt-5 pl-11 flex flex-wrap items-center gap-2" onClick={e => e.stopPropagation()}>
+                    {phase === 'listening' ? (
+                      <button onClick={cancelRun} className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg">
+                        <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        <span>聆听中 LISTENING</span>
+                      </button>
+                    ) : phase === 'recording' ? (
+                      <button onClick={() => recordingRef.current?.stop()} className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-rose-500 text-white text-[10px] font-black uppercase tracking-widest shadow-lg shadow-rose-100 animate-pulse">
+                        <span>🎙️ {formatSeconds(recordingSeconds)}</span>
+                        <span>说完了 DONE</span>
+                      </button>
+                    ) : (
+                      <>
+                        <button onClick={() => handleShadow(index)} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest shadow-lg active:scale-95 transition-all">
+                          {take ? '↻ 重新跟读 RETRY' : '🎧 跟读 SHADOW'}
+                        </button>
+                        {take && (
+                          <>
+                            <button onClick={() => handlePlayModel(index)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${playing === 'model' ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:text-indigo-600'}`}>
+                              {playing === 'model' ? '⏹' : 'A'} 原声 MODEL
+                            </button>
+                            <button onClick={() => handlePlayTake(index)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${playing === 'take' ? 'bg-rose-500 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:text-rose-500'}`}>
+                              {playing === 'take' ? '⏹' : 'B'} 我的 MINE · {formatSeconds(Math.round(take.durationMs / 1000))}
+                            </button>
+                          </>
+                        )}
+                        {(take || !canRecord) && (
+                          <button onClick={() => handleComplete(index)} className="px-4 py-2 rounded-xl bg-emerald-500 text-white text-[10px] font-black uppercase tracking-widest shadow-lg shadow-emerald-100 active:scale-95 transition-all">
+                            ✓ {isDone ? '已完成 DONE' : '完成 NEXT'}
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShadowingTrainer;
@@ -3,12 +3,11 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Search, LayoutGrid, List, ChevronDown, ChevronUp, Filter, ArrowUpDown } from 'lucide-react';
 import { Tooltip } from 'react-tooltip';
 import { AdvancedVocab, PracticeRecord, ViewState, InspirationFragment } from '../types';
-import { generateDiaryAudio } from '../services/geminiService';
 import { getAudioWithCache } from '../services/audioService';
 import { decode, decodeAudioData } from '../utils/audioHelpers';
 import { renderRuby, stripRuby } from '../utils/textHelpers';
-import { db } from '../firebase';
-import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { languageFlag } from '../utils/languages';
+import { PageCursor, PracticePage } from '../services/repositories';
 
 interface VocabListViewProps {
   allAdvancedVocab: (AdvancedVocab & { language: string })[];
@@ -24,23 +23,16 @@ interface VocabListViewProps {
   onBulkUpdateLanguage?: (vocabIds: string[], language: string) => void;
   onLinkVocab?: (vocabIds: string[], parentId: string | null) => void;
   onMarkAsMastered?: (vocabId: string) => void;
+  onExportAnki?: (vocabIds: string[]) => void;
+  onLoadPractices?: (vocabId: string, cursor?: PageCursor | null) => Promise<PracticePage>;
   promotingFragmentId?: string | null;
 }
 
-const LANGUAGE_FLAGS: Record<string, string> = {
-  'English': '🇬🇧',
-  'Japanese': '🇯🇵',
-  'French': '🇫🇷',
-  'Spanish': '🇪🇸',
-  'German': '🇩🇪',
-};
-
 const ShardItem = React.memo(({ 
   f, 
   selectedShardIds, 
   toggleShardSelection, 
   onDeleteFragment, 
-  onPromoteToSeed, 
   onPromoteFragment, 
   onViewChange,
   promotingFragmentId,
@@ -55,7 +47,7 @@ const ShardItem = React.memo(({
   onPromoteFragment?: (id: string) => void, 
   onViewChange?: (view: ViewState, vocabId?: string, isPracticeActive?: boolean, prefill?: string) => void,
   promotingFragmentId?: string | null,
-  handlePlayAudio: (e: React.MouseEvent, text: string, id: string) => void,
+  handlePlayAudio: (e: React.MouseEvent, text: string, id: string, language: string) => void,
   playingAudioId: string | null
 }) => (
   <div key={f.id} className={`bg-white p-6 rounded-[2rem] border shadow-sm relative group flex flex-col h-full hover:shadow-xl transition-all ${selectedShardIds.has(f.id) ? 'border-indigo-200 ring-2 ring-indigo-500/10 bg-indigo-50/10' : 'border-slate-200'}`}>
@@ -88,7 +80,7 @@ const ShardItem = React.memo(({
        {f.usage && f.usage.trim() !== '' && (
          <div className="relative group/usage">
            <p className="text-[10px] text-slate-400 italic leading-relaxed border-l-2 border-slate-100 pl-3 serif-font" dangerouslySetInnerHTML={{ __html: renderRuby(f.usage) }}></p>
-           <button onClick={(e) => handlePlayAudio(e, f.usage || "", `frag-usage-${f.id}`)} className={`absolute top-0 right-0 p-1 rounded-lg transition-all ${playingAudioId === `frag-usage-${f.id}` ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-300 opacity-0 group-hover/usage:opacity-100'}`}>{playingAudioId === `frag-usage-${f.id}` ? '⏹' : '🎧'}</button>
+           <button onClick={(e) => handlePlayAudio(e, f.usage || "", `frag-usage-${f.id}`, f.language)} className={`absolute top-0 right-0 p-1 rounded-lg transition-all ${playingAudioId === `frag-usage-${f.id}` ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-300 opacity-0 group-hover/usage:opacity-100'}`}>{playingAudioId === `frag-usage-${f.id}` ? '⏹' : '🎧'}</button>
          </div>
        )}
      </div>
@@ -96,7 +88,7 @@ const ShardItem = React.memo(({
      <div className="mt-6 pt-4 border-t border-slate-50 flex flex-col space-y-3">
        <div className="flex items-center justify-between">
           <span className="text-[8px] font-black text-slate-300 uppercase tracking-tighter">Captured {new Date(f.timestamp).toLocaleDateString()}</span>
-          <button onClick={(e) => handlePlayAudio(e, f.content, `frag-content-${f.id}`)} className={`w-7 h-7 rounded-lg flex items-center justify-center transition-all ${playingAudioId === `frag-content-${f.id}` ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-300 hover:text-indigo-600'}`}>{playingAudioId === `frag-content-${f.id}` ? '⏹' : '🎧'}</button>
+          <button onClick={(e) => handlePlayAudio(e, f.content, `frag-content-${f.id}`, f.language)} className={`w-7 h-7 rounded-lg flex items-center justify-center transition-all ${playingAudioId === `frag-content-${f.id}` ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-300 hover:text-indigo-600'}`}>{playingAudioId === `frag-content-${f.id}` ? '⏹' : '🎧'}</button>
        </div>
        
        <div className="flex flex-col space-y-1.5">
@@ -134,7 +126,7 @@ const GemGridItem = React.memo(({
   gem: AdvancedVocab & { language: string },
   onViewChange: (view: ViewState, vocabId?: string) => void,
   onDeleteVocab?: (id: string) => void,
-  handlePlayAudio: (e: React.MouseEvent, text: string, id: string) => void,
+  handlePlayAudio: (e: React.MouseEvent, text: string, id: string, language: string) => void,
   playingAudioId: string | null,
   getMasteryTextStyle: (mastery: number | undefined) => string,
   onMarkAsMastered?: (id: string) => void
@@ -171,7 +163,7 @@ const GemGridItem = React.memo(({
         <div className={`text-[10px] font-black uppercase tracking-[0.1em] ${getMasteryTextStyle(gem.mastery)}`}>
           MASTERY {Number(gem.mastery || 0).toFixed(1)}
         </div>
-        <button onClick={(e) => handlePlayAudio(e, gem.word, gem.id)} className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${playingAudioId === gem.id ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-400 hover:text-indigo-600 hover:bg-white hover:shadow-md'}`}>{playingAudioId === gem.id ? '⏹' : '🎧'}</button>
+        <button onClick={(e) => handlePlayAudio(e, gem.word, gem.id, gem.language)} className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${playingAudioId === gem.id ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-400 hover:text-indigo-600 hover:bg-white hover:shadow-md'}`}>{playingAudioId === gem.id ? '⏹' : '🎧'}</button>
      </div>
   </div>
 ));
@@ -199,7 +191,7 @@ const GemRowItem = React.memo(({
   toggleVocabSelection: (id: string) => void,
   toggleGemExpansion: (id: string) => void,
   onViewChange: (view: ViewState, vocabId?: string) => void,
-  handlePlayAudio: (e: React.MouseEvent, text: string, id: string) => void,
+  handlePlayAudio: (e: React.MouseEvent, text: string, id: string, language: string) => void,
   playingAudioId: string | null,
   getMasteryTextStyle: (mastery: number | undefined) => string,
   loadingPractices: Set<string>,
@@ -222,7 +214,7 @@ const GemRowItem = React.memo(({
       </div>
       <div className="flex-1 flex items-center space-x-4 md:space-x-8">
         <div className="w-12 md:w-16 shrink-0 flex items-center space-x-2">
-          <span className="text-base">{LANGUAGE_FLAGS[gem.language] || '🌐'}</span>
+          <span className="text-base">{languageFlag(gem.language)}</span>
           {children.length > 0 && (
             <span className="bg-indigo-50 text-indigo-600 text-[8px] font-black px-1.5 py-0.5 rounded-full">+{children.length}</span>
           )}
@@ -242,7 +234,7 @@ const GemRowItem = React.memo(({
                 <span className="text-[10px] text-slate-400 font-mono tracking-wider">{gem.phonetic}</span>
               )}
             </div>
-            <button onClick={(e) => handlePlayAudio(e, gem.word, gem.id)} className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${playingAudioId === gem.id ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-200 hover:text-indigo-600'}`}>
+            <button onClick={(e) => handlePlayAudio(e, gem.word, gem.id, gem.language)} className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${playingAudioId === gem.id ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-200 hover:text-indigo-600'}`}>
               {playingAudioId === gem.id ? <span className="text-[8px]">⏹</span> : <span className="text-[10px]">🎧</span>}
             </button>
           </div>
@@ -329,7 +321,7 @@ const GemRowItem = React.memo(({
                         </p>
                       )}
                     </div>
-                    <button onClick={(e) => handlePlayAudio(e, p.betterVersion || p.sentence, `practice-${p.id}`)} className={`w-6 h-6 rounded-lg flex items-center justify-center transition-all opacity-0 group-hover/sentence:opacity-100 ${playingAudioId === `practice-${p.id}` ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-slate-300 hover:text-indigo-600 shadow-sm'}`}>
+                    <button onClick={(e) => handlePlayAudio(e, p.betterVersion || p.sentence, `practice-${p.id}`, gem.language)} className={`w-6 h-6 rounded-lg flex items-center justify-center transition-all opacity-0 group-hover/sentence:opacity-100 ${playingAudioId === `practice-${p.id}` ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-slate-300 hover:text-indigo-600 shadow-sm'}`}>
                       {playingAudioId === `practice-${p.id}` ? <span className="text-[8px]">⏹</span> : <span className="text-[10px]">🎧</span>}
                     </button>
                   </div>
@@ -378,6 +370,8 @@ const VocabListView: React.FC<VocabListViewProps> = ({
   onBulkUpdateLanguage,
   onLinkVocab,
   onMarkAsMastered,
+  onExportAnki,
+  onLoadPractices,
   promotingFragmentId
 }) => {
   const [activeTab, setActiveTab] = useState<'gems' | 'shards'>('gems');
@@ -461,16 +455,11 @@ const VocabListView: React.FC<VocabListViewProps> = ({
       return next;
     });
 
-    if (isExpanding && !gemPractices[id] && db) {
+    if (isExpanding && !gemPractices[id] && onLoadPractices) {
       setLoadingPractices(prev => new Set(prev).add(id));
       try {
-        const userId = localStorage.getItem('last_user_id');
-        if (userId) {
-          const practicesColRef = collection(db, 'users', userId, 'advancedVocab', id, 'practices');
-          const practicesSnapshot = await getDocs(query(practicesColRef, orderBy('timestamp', 'desc')));
-          const practices = practicesSnapshot.docs.map(pDoc => ({ ...pDoc.data(), id: pDoc.id })) as PracticeRecord[];
-          setGemPractices(prev => ({ ...prev, [id]: practices }));
-        }
+        const page = await onLoadPractices(id);
+        setGemPractices(prev => ({ ...prev, [id]: page.practices }));
       } catch (e) {
         console.error("Failed to fetch practices for gem:", id, e);
       } finally {
@@ -527,6 +516,15 @@ const VocabListView: React.FC<VocabListViewProps> = ({
     return allAdvancedVocab.filter(g => g.parentId === parentId);
   };
 
+  // The dictionary view lists parents only, but exporting it should include their children
+  const handleExportFiltered = () => {
+    const ids = new Set(filteredGems.map(g => g.id));
+    if (viewMode === 'dictionary' && !debouncedSearchQuery) {
+      allAdvancedVocab.forEach(g => { if (g.parentId && ids.has(g.parentId)) ids.add(g.id); });
+    }
+    onExportAnki?.(Array.from(ids));
+  };
+
   const filteredShards = useMemo(() => {
     let list = [...fragments];
     
@@ -572,7 +570,7 @@ const VocabListView: React.FC<VocabListViewProps> = ({
     return () => observer.disconnect();
   }, [activeTab]); // Only re-run when tab changes, visibleCount updates internally
 
-  const handlePlayAudio = async (e: React.MouseEvent, text: string, id: string) => {
+  const handlePlayAudio = async (e: React.MouseEvent, text: string, id: string, language: string) => {
     e.stopPropagation();
     if (!text) return;
     if (audioSourceRef.current) {
@@ -583,7 +581,7 @@ const VocabListView: React.FC<VocabListViewProps> = ({
     setPlayingAudioId(id);
     try {
       const cleanText = stripRuby(text);
-      const base64Audio = await getAudioWithCache(cleanText);
+      const base64Audio = await getAudioWithCache(cleanText, language);
       if (!base64Audio) { setPlayingAudioId(null); return; }
       const bytes = decode(base64Audio);
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -727,6 +725,17 @@ const VocabListView: React.FC<VocabListViewProps> = ({
               </div>
             )}
 
+            {activeTab === 'gems' && onExportAnki && (
+              <button
+                onClick={handleExportFiltered}
+                disabled={filteredGems.length === 0}
+                className="bg-white border border-slate-100 rounded-xl px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 shadow-sm hover:border-indigo-200 hover:text-indigo-600 disabled:opacity-40 transition-all shrink-0"
+                title="导出当前筛选结果为 Anki 牌组"
+              >
+                ⬇️ Anki
+              </button>
+            )}
+
             {/* Sort Dropdown */}
             <div className="relative shrink-0">
               <select 
@@ -773,7 +782,7 @@ const VocabListView: React.FC<VocabListViewProps> = ({
                         }`}
                       >
                         <div className="flex items-center space-x-3">
-                          <span className="text-base">{LANGUAGE_FLAGS[lang] || '🌐'}</span>
+                          <span className="text-base">{languageFlag(lang)}</span>
                           <span className="text-xs font-bold text-slate-700">{lang}</span>
                         </div>
                         <input 
@@ -912,6 +921,14 @@ const VocabListView: React.FC<VocabListViewProps> = ({
              >
                修改语种
              </button>
+             {onExportAnki && (
+               <button 
+                 onClick={() => onExportAnki(Array.from(selectedVocabIds))}
+                 className="bg-slate-800 text-white px-6 py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest shadow-xl shadow-slate-800/20 active:scale-95"
+               >
+                 导出 Anki
+               </button>
+             )}
              <button 
                onClick={() => setSelectedVocabIds(new Set())}
                className="text-slate-400 hover:text-white text-[9px] font-black uppercase tracking-widest px-4"
@@ -1035,7 +1052,7 @@ const VocabListView: React.FC<VocabListViewProps> = ({
                   onClick={() => handleBulkLanguageChange(lang)}
                   className="flex items-center space-x-3 p-4 rounded-2xl border border-slate-100 hover:bg-indigo-50 hover:border-indigo-100 transition-all group"
                 >
-                  <span className="text-xl group-hover:scale-110 transition-transform">{LANGUAGE_FLAGS[lang] || '🌐'}</span>
+                  <span className="text-xl group-hover:scale-110 transition-transform">{languageFlag(lang)}</span>
                   <span className="text-xs font-bold text-slate-700">{lang}</span>
                 </button>
               ))}
@@ -2,32 +2,23 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { AdvancedVocab, PracticeRecord } from '../types';
 import { generateDiaryAudio } from '../services/geminiService';
-import { db } from '../firebase';
-import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { PageCursor, PracticePage } from '../services/repositories';
 import { decode, decodeAudioData } from '../utils/audioHelpers';
 import { renderRuby as rubyUtil } from '../utils/textHelpers';
+import { languageFlag } from '../utils/languages';
 
 interface VocabPracticeDetailViewProps {
   selectedVocabId: string; 
   allAdvancedVocab: (AdvancedVocab & { language: string })[];
   onBackToPracticeHistory: () => void;
-  onDeletePractice?: (vocabId: string, practiceId: string) => void;
-  onBatchDeletePractices?: (vocabId: string, practiceIds: string[]) => void;
+  onDeletePractice?: (vocabId: string, practiceId: string) => void | Promise<void>;
+  onBatchDeletePractices?: (vocabId: string, practiceIds: string[]) => void | Promise<void>;
+  onLoadPractices: (vocabId: string, cursor?: PageCursor | null) => Promise<PracticePage>;
   onUpdateLanguage?: (vocabId: string, language: string) => void;
   onMarkAsMastered?: (vocabId: string) => void;
   preferredLanguages?: string[];
 }
 
-const LANGUAGE_FLAGS: Record<string, string> = {
-  'English': '🇬🇧',
-  'Japanese': '🇯🇵',
-  'French': '🇫🇷',
-  'Spanish': '🇪🇸',
-  'Chinese': '🇨🇳',
-  'Korean': '🇰🇷',
-  'German': '🇩🇪',
-};
-
 const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
   selectedVocabId,
   allAdvancedVocab,
@@ -35,6 +26,8 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
   onDeletePractice,
   onBatchDeletePractices,
   onUpdateLanguage,
+  onMarkAsMastered,
+  onLoadPractices,
   preferredLanguages = []
 }) => {
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
@@ -42,40 +35,55 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
   const [isLanguagePickerOpen, setIsLanguagePickerOpen] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [localPractices, setLocalPractices] = useState<PracticeRecord[]>([]);
+  const [practiceCursor, setPracticeCursor] = useState<PageCursor | null>(null);
+  const [hasMorePractices, setHasMorePractices] = useState(false);
   const [isLoadingPractices, setIsLoadingPractices] = useState(false);
+  const [isLoadingMorePractices, setIsLoadingMorePractices] = useState(false);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
   const currentVocab = useMemo(() => {
     return allAdvancedVocab.find(v => `${v.word}-${v.language}` === selectedVocabId || v.id === selectedVocabId);
   }, [selectedVocabId, allAdvancedVocab]);
 
+  const currentVocabId = currentVocab?.id;
+
   useEffect(() => {
-    const fetchPractices = async () => {
-      if (!currentVocab || !db) return;
-      
-      if (currentVocab.practices && currentVocab.practices.length > 0) {
-        setLocalPractices(currentVocab.practices);
-        return;
-      }
+    if (!currentVocabId) return;
+    let cancelled = false;
 
+    const fetchPractices = async () => {
       setIsLoadingPractices(true);
       try {
-        const userId = localStorage.getItem('last_user_id'); 
-        if (!userId) return;
-
-        const practicesColRef = collection(db, 'users', userId, 'advancedVocab', currentVocab.id, 'practices');
-        const practicesSnapshot = await getDocs(query(practicesColRef, orderBy('timestamp', 'desc')));
-        const practices = practicesSnapshot.docs.map(pDoc => ({ ...pDoc.data(), id: pDoc.id })) as PracticeRecord[];
-        setLocalPractices(practices);
+        const page = await onLoadPractices(currentVocabId);
+        if (cancelled) return;
+        setLocalPractices(page.practices);
+        setPracticeCursor(page.cursor);
+        setHasMorePractices(page.hasMore);
       } catch (e) {
         console.error("Failed to fetch practices:", e);
       } finally {
-        setIsLoadingPractices(false);
+        if (!cancelled) setIsLoadingPractices(false);
       }
     };
 
     fetchPractices();
-  }, [currentVocab]);
+    return () => { cancelled = true; };
+  }, [currentVocabId, onLoadPractices]);
+
+  const handleLoadMorePractices = async () => {
+    if (!currentVocabId || !hasMorePractices || isLoadingMorePractices) return;
+    setIsLoadingMorePractices(true);
+    try {
+      const page = await onLoadPractices(currentVocabId, practiceCursor);
+      setLocalPractices(prev => [...prev, ...page.practices.filter(p => !prev.some(existing => existing.id === p.id))]);
+      setPracticeCursor(page.cursor);
+      setHasMorePractices(page.hasMore);
+    } catch (e) {
+      console.error("Failed to fetch more practices:", e);
+    } finally {
+      setIsLoadingMorePractices(false);
+    }
+  };
 
   if (!currentVocab) {
     return (
@@ -109,7 +117,7 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
     setPlayingAudioId(id);
     try {
       const cleanText = stripRuby(text);
-      const base64Audio = await generateDiaryAudio(cleanText);
+      const base64Audio = await generateDiaryAudio(cleanText, currentVocab?.language);
       if (!base64Audio) { setPlayingAudioId(null); return; }
       const bytes = decode(base64Audio);
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -130,16 +138,19 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
     setSelectedIds(next);
   };
 
-  const handleDeleteSingle = (practiceId: string) => {
+  const handleDeleteSingle = async (practiceId: string) => {
     if (window.confirm("确定要移除这条打磨记录吗？")) {
-      onDeletePractice?.(currentVocab.id, practiceId);
+      await onDeletePractice?.(currentVocab.id, practiceId);
+      setLocalPractices(prev => prev.filter(p => p.id !== practiceId));
     }
   };
 
-  const handleBatchDelete = () => {
+  const handleBatchDelete = async () => {
     if (selectedIds.size === 0) return;
     if (window.confirm(`确定要批量移除选中的 ${selectedIds.size} 条打磨记录吗？`)) {
-      onBatchDeletePractices?.(currentVocab.id, Array.from(selectedIds));
+      const ids = new Set(selectedIds);
+      await onBatchDeletePractices?.(currentVocab.id, Array.from(ids));
+      setLocalPractices(prev => prev.filter(p => !ids.has(p.id)));
       setSelectedIds(new Set());
       setIsManageMode(false);
     }
@@ -170,9 +181,8 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
   };
 
   const sortedPractices = useMemo(() => {
-    if (localPractices.length > 0) return [...localPractices].sort((a, b) => b.timestamp - a.timestamp);
-    return currentVocab?.practices ? [...currentVocab.practices].sort((a, b) => b.timestamp - a.timestamp) : [];
-  }, [localPractices, currentVocab?.practices]);
+    return [...localPractices].sort((a, b) => b.timestamp - a.timestamp);
+  }, [localPractices]);
 
   return (
     <div className="flex flex-col h-full animate-in fade-in duration-500 overflow-hidden w-full relative p-4 md:p-8">
@@ -202,7 +212,7 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
              >
                  <span>{getMasteryIcon(currentVocab.mastery)} Mastery {Number(currentVocab.mastery || 0).toFixed(1)}</span>
                  <span>|</span>
-                 <span>{LANGUAGE_FLAGS[currentVocab.language] || '🌐'} {currentVocab.language}</span>
+                 <span>{languageFlag(currentVocab.language)} {currentVocab.language}</span>
                  <span className="text-[8px] opacity-40">▼</span>
              </button>
 
@@ -220,7 +230,7 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
                      }}
                      className={`w-full flex items-center space-x-3 p-3 rounded-xl transition-colors ${currentVocab.language === lang ? 'bg-indigo-50 text-indigo-600' : 'hover:bg-slate-50 text-slate-700'}`}
                    >
-                     <span className="text-base">{LANGUAGE_FLAGS[lang] || '🌐'}</span>
+                     <span className="text-base">{languageFlag(lang)}</span>
                      <span className="text-xs font-bold">{lang}</span>
                    </button>
                  ))}
@@ -352,6 +362,18 @@ const VocabPracticeDetailView: React.FC<VocabPracticeDetailViewProps> = ({
                   </div>
                 );
               })}
+
+              {hasMorePractices && (
+                <div className="pt-4 text-center">
+                  <button
+                    onClick={handleLoadMorePractices}
+                    disabled={isLoadingMorePractices}
+                    className="px-6 py-3 bg-white border border-slate-100 rounded-2xl text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 shadow-sm disabled:opacity-50 transition-all"
+                  >
+                    {isLoadingMorePractices ? '正在调取...' : '加载更早的足迹 LOAD OLDER'}
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="py-20 text-center bg-white border border-dashed border-slate-100 rounded-[2.5rem]">
@@ -0,0 +1,116 @@
+/**
+ * Golden-output check for the prompt registry. Runs each geminiService call against the
+ * fixture provider with fixed inputs and compares the prompt it sent and the post-processed
+ * result with prompts.golden.json.
+ *
+ *   npm run prompts:check               fails on any difference
+ *   npm run prompts:check -- --update   rewrites the golden file
+ *
+ * A prompt whose text changed while its version did not is always an error: bump the
+ * version in services/promptRegistry.ts first.
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import {
+  analyzeDiaryEntry, evaluateRetelling, getChatFollowUp, generateChatSummaryPrompt, validateVocabUsageStream,
+  parseVocabUsageResult, generatePracticeArtifact, generateWeavedArtifact, generateDailyMuses, retryEvaluationForGems,
+  enrichFragment, transcribeRetelling, judgeClozeAnswer
+} from '../services/geminiService';
+import { createFixtureProvider, LLMRequest, setLLMProvider } from '../services/llm';
+import { PromptId, promptVersion } from '../services/promptRegistry';
+
+interface GoldenCase {
+  name: string;
+  prompt: PromptId;
+  run: () => Promise<unknown>;
+}
+
+interface GoldenRecord {
+  version: string;
+  prompt: string;
+  output: unknown;
+}
+
+// npm runs scripts from the package root
+const GOLDEN_PATH = 'scripts/prompts.golden.json';
+
+const CASES: GoldenCase[] = [
+  { name: 'analysis-english', prompt: 'analysis', run: () => analyzeDiaryEntry('Yesterday I go to the park with my friend and we eat ice cream.', 'English') },
+  { name: 'analysis-japanese', prompt: 'analysis', run: () => analyzeDiaryEntry('昨日友達と公園に行きました。', 'Japanese') },
+  { name: 'retelling', prompt: 'retelling', run: () => evaluateRetelling('Le train est parti à huit heures.', 'Le train part à huit heures.', 'French') },
+  { name: 'chat', prompt: 'chat', run: () => getChatFollowUp([{ role: 'user', content: 'Hoy fui al mercado.' }], 'Spanish') },
+  { name: 'chatSummary', prompt: 'chatSummary', run: () => generateChatSummaryPrompt([{ role: 'ai', content: 'How was work?' }, { role: 'user', content: 'Busy, but I finished the report.' }], 'English') },
+  {
+    name: 'vocabUsage',
+    prompt: 'vocabUsage',
+    run: async () => {
+      let text = '';
+      for await (const chunk of validateVocabUsageStream([{ word: 'gemütlich', meaning: 'cosy' }], 'Das Café ist sehr gemütlich.', 'German')) text += chunk;
+      return parseVocabUsageResult(text);
+    }
+  },
+  { name: 'practiceArtifact', prompt: 'practiceArtifact', run: () => generatePracticeArtifact('Japanese', '駅, 電車', 'Beginner', '随机') },
+  { name: 'weavedArtifact', prompt: 'weavedArtifact', run: () => generateWeavedArtifact('English', [{ word: 'serendipity' }, { word: 'linger' }]) },
+  { name: 'muses', prompt: 'muses', run: () => generateDailyMuses('Italian') },
+  { name: 'gemRetry', prompt: 'gemRetry', run: () => retryEvaluationForGems([{ word: 'souvenir' }], 'French') },
+  { name: 'fragment', prompt: 'fragment', run: () => enrichFragment('take it with a grain of salt', 'English') },
+  { name: 'transcription', prompt: 'transcription', run: () => transcribeRetelling('AAAA', 'audio/webm', 'Korean') },
+  { name: 'clozeCheck', prompt: 'clozeCheck', run: () => judgeClozeAnswer('Ayer ___ al cine con mi hermana.', 'fui', 'voy', 'fue', 'Spanish') },
+];
+
+const describeRequest = (request: LLMRequest): string =>
+  [request.system, typeof request.prompt === 'string' ? request.prompt : JSON.stringify(request.prompt)].filter(Boolean).join('\n---\n');
+
+// What each call sent, in order
+const sent: string[] = [];
+const fixtures = createFixtureProvider();
+setLLMProvider({
+  ...fixtures,
+  generateJson: request => { sent.push(describeRequest(request)); return fixtures.generateJson(request); },
+  generateText: request => { sent.push(describeRequest(request)); return fixtures.generateText(request); },
+  streamText: request => { sent.push(describeRequest(request)); return fixtures.streamText(request); },
+  transcribeAudio: (audio, mimeType, options) => { sent.push(options?.prompt || ''); return fixtures.transcribeAudio(audio, mimeType, options); },
+});
+
+const run = async () => {
+  const update = process.argv.includes('--update');
+  const golden: Record<string, GoldenRecord> = existsSync(GOLDEN_PATH) ? JSON.parse(readFileSync(GOLDEN_PATH, 'utf8')) : {};
+  const actual: Record<string, GoldenRecord> = {};
+  const problems: string[] = [];
+
+  for (const goldenCase of CASES) {
+    sent.length = 0;
+    const output = await goldenCase.run();
+    const record: GoldenRecord = { version: promptVersion(goldenCase.prompt), prompt: sent.join('\n===\n'), output };
+    actual[goldenCase.name] = record;
+
+    const expected = golden[goldenCase.name];
+    if (!expected) {
+      problems.push(`${goldenCase.name}: no golden record`);
+    } else if (expected.prompt !== record.prompt && expected.version === record.version) {
+      problems.push(`${goldenCase.name}: prompt text changed but ${record.version} was not bumped`);
+    } else if (expected.version !== record.version || expected.prompt !== record.prompt) {
+      problems.push(`${goldenCase.name}: prompt changed (${expected.version} → ${record.version})`);
+    } else if (JSON.stringify(expected.output) !== JSON.stringify(record.output)) {
+      problems.push(`${goldenCase.name}: output changed`);
+    }
+  }
+
+  if (update) {
+    const unbumped = problems.filter(p => p.includes('was not bumped'));
+    if (unbumped.length > 0) {
+      console.error(unbumped.join('\n'));
+      process.exit(1);
+    }
+    writeFileSync(GOLDEN_PATH, JSON.stringify(actual, null, 2) + '\n');
+    console.log(`Wrote ${CASES.length} golden records.`);
+    return;
+  }
+  if (problems.length > 0) {
+    console.error(problems.join('\n'));
+    console.error('Run `npm run prompts:check -- --update` once the changes are intended.');
+    process.exit(1);
+  }
+  console.log(`${CASES.length} prompts match their golden records.`);
+};
+
+run();
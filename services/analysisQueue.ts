@@ -0,0 +1,81 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DiaryAnalysis } from '../types';
+import { getLocalDB, ANALYSIS_QUEUE_STORE } from './localDatabase';
+
+/**
+ * A diary entry whose analysis could not run yet, kept until it succeeds.
+ */
+export interface QueuedAnalysis {
+  id: string;
+  uid: string;
+  text: string;
+  language: string;
+  usedFragmentIds: string[];
+  /** Set when the text is a rewrite of an existing entry. */
+  iteratingEntryId?: string | null;
+  /** Set when the analysis succeeded but saving it failed, so a retry only saves. */
+  analysis?: DiaryAnalysis;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, ... capped at 30 minutes.
+ */
+export const retryDelay = (attempts: number): number =>
+  Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+
+/**
+ * Stores an analysis for later. Throws if IndexedDB is unavailable so the caller can fall back.
+ */
+export const enqueueAnalysis = async (
+  item: Pick<QueuedAnalysis, 'uid' | 'text' | 'language' | 'usedFragmentIds' | 'iteratingEntryId' | 'analysis'>,
+  lastError?: string
+): Promise<QueuedAnalysis> => {
+  const now = Date.now();
+  const queued: QueuedAnalysis = { ...item, id: uuidv4(), createdAt: now, attempts: 1, nextAttemptAt: now + retryDelay(1), lastError };
+  const db = await getLocalDB();
+  await db.put(ANALYSIS_QUEUE_STORE, queued);
+  return queued;
+};
+
+/**
+ * Queued analyses for a user, oldest first.
+ */
+export const listQueuedAnalyses = async (uid: string): Promise<QueuedAnalysis[]> => {
+  try {
+    const db = await getLocalDB();
+    const all: QueuedAnalysis[] = await db.getAll(ANALYSIS_QUEUE_STORE);
+    return all.filter(q => q.uid === uid).sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Failed to read analysis queue:', error);
+    return [];
+  }
+};
+
+export const recordFailedAttempt = async (item: QueuedAnalysis, lastError: string): Promise<void> => {
+  const attempts = item.attempts + 1;
+  const db = await getLocalDB();
+  await db.put(ANALYSIS_QUEUE_STORE, { ...item, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError });
+};
+
+/**
+ * Makes every queued analysis of a user due now, e.g. when connectivity returns.
+ */
+export const resetQueueBackoff = async (uid: string): Promise<void> => {
+  const db = await getLocalDB();
+  const now = Date.now();
+  for (const item of await listQueuedAnalyses(uid)) {
+    await db.put(ANALYSIS_QUEUE_STORE, { ...item, nextAttemptAt: now });
+  }
+};
+
+export const removeQueuedAnalysis = async (id: string): Promise<void> => {
+  const db = await getLocalDB();
+  await db.delete(ANALYSIS_QUEUE_STORE, id);
+};
@@ -0,0 +1,150 @@
+import { AdvancedVocab, PracticeRecord } from '../types';
+import { getCachedAudio } from './audioService';
+import { decode, pcmToWav } from '../utils/audioHelpers';
+import { getLanguage } from '../utils/languages';
+import { stripRuby, toAnkiFurigana } from '../utils/textHelpers';
+import { createZip, ZipFile } from '../utils/zipHelpers';
+
+export const ANKI_NOTE_TYPE = 'Linguist Diary Gem';
+export const ANKI_DECK_ROOT = 'Linguist Diary';
+
+const FIELDS = ['GUID', 'Word', 'Phonetic', 'Meaning', 'Usage', 'BetterVersion', 'Level', 'Language', 'Audio', 'UsageAudio', 'Deck', 'Tags'];
+
+const FRONT_TEMPLATE = `<div class="word">{{furigana:Word}}</div>
+{{Audio}}`;
+
+const BACK_TEMPLATE = `{{FrontSide}}
+<hr id=answer>
+{{#Phonetic}}<div class="phonetic">{{Phonetic}}</div>{{/Phonetic}}
+<div class="meaning">{{Meaning}}</div>
+{{#Usage}}<div class="usage">{{furigana:Usage}} {{UsageAudio}}</div>{{/Usage}}
+{{#BetterVersion}}<div class="polished">{{furigana:BetterVersion}}</div>{{/BetterVersion}}
+<div class="meta">{{Level}} · {{Language}}</div>`;
+
+const CARD_CSS = `.card { font-family: serif; font-size: 22px; text-align: center; color: #0f172a; }
+.word { font-size: 36px; font-weight: 900; }
+.phonetic { color: #6366f1; font-size: 16px; }
+.usage, .polished { font-size: 18px; margin-top: 12px; }
+.polished { color: #059669; }
+.meta { color: #94a3b8; font-size: 12px; margin-top: 16px; text-transform: uppercase; }`;
+
+const NOTE_TYPE_SPEC = `# ${ANKI_NOTE_TYPE}
+
+导入前请先在 Anki 中创建名为「${ANKI_NOTE_TYPE}」的笔记类型（工具 → 管理笔记类型 → 添加 → 基础），
+并按顺序设置以下字段：
+
+${FIELDS.filter(f => f !== 'GUID' && f !== 'Deck' && f !== 'Tags').map((f, i) => `${i + 1}. ${f}`).join('\n')}
+
+## 正面模板 Front Template
+
+${FRONT_TEMPLATE}
+
+## 背面模板 Back Template
+
+${BACK_TEMPLATE}
+
+## 样式 Styling
+
+${CARD_CSS}
+
+## 导入步骤 Import
+
+1. 将 media/ 文件夹中的所有文件复制到 Anki 的 collection.media 目录。
+2. 文件 → 导入，选择 deck.txt。分隔符、笔记类型、牌组与标签均由文件头自动识别。
+3. 每条笔记以珍宝 ID 作为 GUID，再次导入同一珍宝会更新原笔记而不会重复。
+`;
+
+/**
+ * Makes a value safe for one cell of an HTML-enabled Anki TSV.
+ */
+const toAnkiField = (value: string | undefined): string => {
+  if (!value) return '';
+  const html = value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+  return html.includes('"') ? `"${html.replace(/"/g, '""')}"` : html;
+};
+
+const toTag = (value: string) => value.trim().replace(/\s+/g, '_');
+
+const latestBetterVersion = (practices: PracticeRecord[]): string | undefined =>
+  [...practices].sort((a, b) => b.timestamp - a.timestamp).find(p => p.betterVersion)?.betterVersion;
+
+/**
+ * Looks up audio already generated for `text` in the language's voice. Nothing is
+ * synthesized during export.
+ */
+const cachedWav = async (text: string, language: string): Promise<Uint8Array | null> => {
+  const clean = stripRuby(text);
+  if (!clean.trim()) return null;
+  const base64Audio = await getCachedAudio(clean, getLanguage(language).ttsVoice);
+  return base64Audio ? pcmToWav(decode(base64Audio), 24000, 1) : null;
+};
+
+export interface AnkiPackage {
+  blob: Blob;
+  noteCount: number;
+  audioCount: number;
+}
+
+/**
+ * Builds a zip holding an Anki-importable TSV (deck.txt), the note type it expects
+ * (note-type.md) and any cached TTS audio under media/.
+ */
+export const buildAnkiPackage = async (
+  vocab: AdvancedVocab[],
+  loadPractices: (vocabId: string) => Promise<PracticeRecord[]>
+): Promise<AnkiPackage> => {
+  const media: ZipFile[] = [];
+  const rows: string[] = [];
+
+  for (const v of vocab) {
+    const practices = v.practices && v.practices.length > 0 ? v.practices : await loadPractices(v.id);
+
+    const sound = async (text: string, suffix: string): Promise<string> => {
+      const wav = await cachedWav(text, v.language);
+      if (!wav) return '';
+      const fileName = `linguist_${v.id}_${suffix}.wav`;
+      media.push({ name: `media/${fileName}`, data: wav });
+      return `[sound:${fileName}]`;
+    };
+
+    const language = v.language || 'Unknown';
+    const row = [
+      v.id,
+      toAnkiFurigana(v.word),
+      v.phonetic,
+      stripRuby(v.meaning),
+      toAnkiFurigana(v.usage),
+      toAnkiFurigana(latestBetterVersion(practices)),
+      v.level,
+      language,
+      await sound(v.word, 'word'),
+      v.usage ? await sound(v.usage, 'usage') : '',
+      `${ANKI_DECK_ROOT}::${language}`,
+      ['linguist-diary', `lang::${toTag(language)}`, `level::${toTag(v.level || 'Unknown')}`].join(' ')
+    ];
+    rows.push(row.map(toAnkiField).join('\t'));
+  }
+
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#notetype:${ANKI_NOTE_TYPE}`,
+    `#columns:${FIELDS.join('\t')}`,
+    '#guid column:1',
+    `#deck column:${FIELDS.indexOf('Deck') + 1}`,
+    `#tags column:${FIELDS.indexOf('Tags') + 1}`,
+  ];
+
+  const blob = createZip([
+    { name: 'deck.txt', data: [...header, ...rows].join('\n') + '\n' },
+    { name: 'note-type.md', data: NOTE_TYPE_SPEC },
+    ...media
+  ]);
+
+  return { blob, noteCount: rows.length, audioCount: media.length };
+};
@@ -1,26 +1,8 @@
 
-import { openDB, IDBPDatabase } from 'idb';
 import { generateDiaryAudio } from './geminiService';
+import { getLocalDB, AUDIO_STORE } from './localDatabase';
 import { decode, decodeAudioData } from '../utils/audioHelpers';
-
-const DB_NAME = 'linguist_audio_cache';
-const STORE_NAME = 'audio_blobs';
-const DB_VERSION = 1;
-
-let dbPromise: Promise<IDBPDatabase> | null = null;
-
-const getDB = () => {
-  if (!dbPromise) {
-    dbPromise = openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME);
-        }
-      },
-    });
-  }
-  return dbPromise;
-};
+import { getLanguage } from '../utils/languages';
 
 /**
  * Generates a unique key for the audio cache based on text and optional parameters
@@ -35,9 +17,9 @@ const generateKey = (text: string, voice?: string): string => {
  */
 export const cacheAudio = async (text: string, base64Data: string, voice?: string): Promise<void> => {
   try {
-    const db = await getDB();
+    const db = await getLocalDB();
     const key = generateKey(text, voice);
-    await db.put(STORE_NAME, base64Data, key);
+    await db.put(AUDIO_STORE, base64Data, key);
   } catch (error) {
     console.error('Failed to cache audio:', error);
   }
@@ -48,9 +30,9 @@ export const cacheAudio = async (text: string, base64Data: string, voice?: strin
  */
 export const getCachedAudio = async (text: string, voice?: string): Promise<string | null> => {
   try {
-    const db = await getDB();
+    const db = await getLocalDB();
     const key = generateKey(text, voice);
-    const data = await db.get(STORE_NAME, key);
+    const data = await db.get(AUDIO_STORE, key);
     return data || null;
   } catch (error) {
     console.error('Failed to get cached audio:', error);
@@ -63,27 +45,28 @@ export const getCachedAudio = async (text: string, voice?: string): Promise<stri
  */
 export const clearAudioCache = async (): Promise<void> => {
   try {
-    const db = await getDB();
-    await db.clear(STORE_NAME);
+    const db = await getLocalDB();
+    await db.clear(AUDIO_STORE);
   } catch (error) {
     console.error('Failed to clear audio cache:', error);
   }
 };
 
 /**
- * Gets audio data with caching
+ * Gets audio data with caching. With a language, it is spoken in that language's voice.
  */
-export const getAudioWithCache = async (text: string): Promise<string> => {
+export const getAudioWithCache = async (text: string, language?: string): Promise<string> => {
   if (!text) return "";
+  const voice = language ? getLanguage(language).ttsVoice : undefined;
   
-  const cached = await getCachedAudio(text);
+  const cached = await getCachedAudio(text, voice);
   if (cached) {
     return cached;
   }
 
-  const audioData = await generateDiaryAudio(text);
+  const audioData = await generateDiaryAudio(text, language);
   if (audioData) {
-    await cacheAudio(text, audioData);
+    await cacheAudio(text, audioData, voice);
   }
   return audioData;
 };
@@ -94,15 +77,15 @@ export const getAudioWithCache = async (text: string): Promise<string> => {
 export const playSmartSpeech = async (
   text: string, 
   language: string, 
-  id: string, 
+  _id: string, 
   onStart: () => void, 
   onEnd: () => void,
-  isLongText: boolean = false
+  _isLongText: boolean = false
 ): Promise<AudioBufferSourceNode | null> => {
   try {
     onStart();
     
-    const base64Audio = await getAudioWithCache(text);
+    const base64Audio = await getAudioWithCache(text, language);
     
     if (!base64Audio) {
       onEnd();
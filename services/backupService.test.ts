@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AdvancedVocab, DiaryAnalysis, RehearsalEvaluation } from '../types';
+import { exportBackupBundle, listAllEntries, parseBackupBundle, restoreBackupBundle } from './backupService';
+import { deleteRecording } from './recordingService';
+import { createMemoryRepositories } from './repositories/memoryRepository';
+
+vi.mock('./recordingService', () => ({ deleteRecording: vi.fn() }));
+
+const ANALYSIS: DiaryAnalysis = { modifiedText: 'I went home.', diffedText: '', corrections: [], advancedVocab: [], transitionSuggestions: [], overallFeedback: '' };
+
+const seedAccount = async () => {
+  const repos = createMemoryRepositories('source');
+  await repos.diary.addEntry({ timestamp: 1_700_000_000_000, date: '2023-11-14', originalText: 'I go home.', language: 'English', type: 'diary', analysis: ANALYSIS });
+  const parentId = repos.vocab.newId();
+  const childId = repos.vocab.newId();
+  await repos.vocab.saveVocabs([
+    { id: parentId, word: 'home', meaning: '家', usage: 'I went home.', level: 'Intermediate', language: 'English', timestamp: 1_700_000_000_000, mastery: 2 },
+    { id: childId, word: 'head home', meaning: '回家', usage: 'We headed home.', level: 'Advanced', language: 'English', timestamp: 1_700_000_000_001, mastery: 0, parentId },
+  ] as AdvancedVocab[], []);
+  await repos.vocab.addPractice(parentId, { id: 'p1', vocabId: parentId, sentence: 'I went home early.', feedback: 'Good', timestamp: 1_700_000_100_000, status: 'Perfect' });
+  await repos.fragments.addFragment({ content: 'on my way home', language: 'English', fragmentType: 'seed' });
+  return repos;
+};
+
+describe('backup round trip', () => {
+  it('restores everything it exported into an empty account', async () => {
+    const bundle = parseBackupBundle(JSON.stringify(await exportBackupBundle(await seedAccount())));
+    const target = createMemoryRepositories('target');
+
+    const summary = await restoreBackupBundle(target, bundle, 'replace');
+    expect(summary).toEqual({ entries: 1, vocab: 2, practices: 1, fragments: 1, skipped: 0 });
+
+    const [entry] = await listAllEntries(target);
+    expect(entry).toMatchObject({ originalText: 'I go home.', timestamp: 1_700_000_000_000, analysis: ANALYSIS });
+    const vocab = await target.vocab.listVocab();
+    const parent = vocab.find(v => v.word === 'home')!;
+    expect(vocab.find(v => v.word === 'head home')!.parentId).toBe(parent.id);
+    expect((await target.vocab.listPractices(parent.id)).map(p => p.sentence)).toEqual(['I went home early.']);
+  });
+
+  it('skips what the account already has when merging', async () => {
+    const source = await seedAccount();
+    const bundle = parseBackupBundle(JSON.stringify(await exportBackupBundle(source)));
+    const summary = await restoreBackupBundle(source, bundle, 'merge');
+    expect(summary).toMatchObject({ entries: 0, vocab: 0, fragments: 0, skipped: 4 });
+  });
+
+  it('carries the unanalysed first version of a rewritten draft', async () => {
+    const repos = createMemoryRepositories('source');
+    const entry = await repos.diary.addEntry({ timestamp: 1_700_000_000_000, date: '2023-11-14', originalText: 'I went home.', language: 'English', type: 'diary', analysis: ANALYSIS });
+    await repos.diary.addIteration(entry.id, { id: 'draft', text: 'I go home.', timestamp: 1_700_000_000_000 });
+    await repos.diary.addIteration(entry.id, { id: 'rewrite', text: 'I went home.', timestamp: 1_700_000_100_000, analysis: ANALYSIS });
+
+    const target = createMemoryRepositories('target');
+    await restoreBackupBundle(target, parseBackupBundle(JSON.stringify(await exportBackupBundle(repos))), 'replace');
+    const [restored] = await listAllEntries(target);
+    const iterations = await target.diary.listIterations(restored.id);
+    expect(iterations.map(it => [it.text, !!it.analysis])).toEqual([['I go home.', false], ['I went home.', true]]);
+  });
+
+  it('keeps the recordings of restored rehearsals when replacing', async () => {
+    const rehearsal = (recordingId: string) => ({ recording: { id: recordingId, mimeType: 'audio/webm', durationMs: 1000 } }) as RehearsalEvaluation;
+    const repos = createMemoryRepositories('source');
+    await repos.diary.addEntry({ timestamp: 1_700_000_000_000, date: '2023-11-14', originalText: 'Kept', language: 'English', type: 'rehearsal', rehearsal: rehearsal('kept') });
+    const bundle = await exportBackupBundle(repos);
+    await repos.diary.addEntry({ timestamp: 1_700_000_000_001, date: '2023-11-14', originalText: 'Dropped', language: 'English', type: 'rehearsal', rehearsal: rehearsal('dropped') });
+
+    await restoreBackupBundle(repos, bundle, 'replace');
+    expect(vi.mocked(deleteRecording).mock.calls).toEqual([['dropped']]);
+    expect((await listAllEntries(repos))[0].rehearsal?.recording?.id).toBe('kept');
+  });
+});
+
+describe('parseBackupBundle', () => {
+  const validBundle = async () => JSON.parse(JSON.stringify(await exportBackupBundle(await seedAccount())));
+
+  it('rejects records whose timestamps could not be written', async () => {
+    const badEntry = await validBundle();
+    badEntry.entries[0].timestamp = '2023-11-14';
+    expect(() => parseBackupBundle(JSON.stringify(badEntry))).toThrow('entries 第 1 条');
+
+    const badPractice = await validBundle();
+    badPractice.vocab.find((v: AdvancedVocab) => v.practices?.length).practices[0].timestamp = 1e20;
+    expect(() => parseBackupBundle(JSON.stringify(badPractice))).toThrow('vocab');
+
+    const badFragment = await validBundle();
+    badFragment.fragments[0].timestamp = null;
+    expect(() => parseBackupBundle(JSON.stringify(badFragment))).toThrow('fragments 第 1 条');
+  });
+
+  it('rejects gems without a word and lists that are not lists', async () => {
+    const noWord = await validBundle();
+    delete noWord.vocab[0].word;
+    expect(() => parseBackupBundle(JSON.stringify(noWord))).toThrow('vocab 第 1 条');
+
+    const noList = await validBundle();
+    noList.fragments = {};
+    expect(() => parseBackupBundle(JSON.stringify(noList))).toThrow('缺少 fragments');
+  });
+});
@@ -0,0 +1,265 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AdvancedVocab, DiaryEntry, DiaryIteration, InspirationFragment, PracticeRecord, UserProfile } from '../types';
+import { normalizeVocabWord } from '../utils/vocabHelpers';
+import { PageCursor, Repositories } from './repositories';
+import { deleteRecording } from './recordingService';
+
+export const BACKUP_FORMAT = 'linguist-diary-backup';
+export const BACKUP_VERSION = 1;
+
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Profile fields that travel with a backup. Membership and quota fields are
+ * deliberately left out so a bundle can never grant Pro access.
+ */
+export type BackupSettings = Partial<Pick<UserProfile, 'displayName' | 'photoURL' | 'iterationDay' | 'preferredLanguages' | 'practiceRetention'>>;
+
+export type BackupEntry = DiaryEntry & { iterations?: DiaryIteration[] };
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  settings: BackupSettings;
+  entries: BackupEntry[];
+  /** Gems with their complete practice history. */
+  vocab: AdvancedVocab[];
+  fragments: InspirationFragment[];
+}
+
+/**
+ * `merge` keeps existing data and skips records that are already present;
+ * `replace` wipes the account first.
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  entries: number;
+  vocab: number;
+  practices: number;
+  fragments: number;
+  skipped: number;
+}
+
+/**
+ * Every entry in the account, following the repository's pages to the end.
+ */
+export const listAllEntries = async (repos: Repositories): Promise<DiaryEntry[]> => {
+  const entries: DiaryEntry[] = [];
+  let cursor: PageCursor | null = null;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await repos.diary.listEntries(EXPORT_PAGE_SIZE, cursor);
+    entries.push(...page.entries);
+    cursor = page.cursor;
+    hasMore = page.hasMore;
+  }
+  return entries;
+};
+
+const pickSettings = (profile: Partial<UserProfile> | null): BackupSettings => {
+  const settings: BackupSettings = {};
+  if (!profile) return settings;
+  if (profile.displayName) settings.displayName = profile.displayName;
+  if (profile.photoURL) settings.photoURL = profile.photoURL;
+  if (typeof profile.iterationDay === 'number') settings.iterationDay = profile.iterationDay;
+  if (Array.isArray(profile.preferredLanguages)) settings.preferredLanguages = profile.preferredLanguages;
+  if (profile.practiceRetention && typeof profile.practiceRetention.value === 'number') settings.practiceRetention = profile.practiceRetention;
+  return settings;
+};
+
+/**
+ * Collects everything stored for the current account into a single bundle.
+ */
+export const exportBackupBundle = async (repos: Repositories): Promise<BackupBundle> => {
+  const entries = await listAllEntries(repos);
+  const entriesWithIterations = await Promise.all(entries.map(async entry => {
+    const iterations = await repos.diary.listIterations(entry.id);
+    return iterations.length > 0 ? { ...entry, iterations } : entry;
+  }));
+
+  const vocab = await repos.vocab.listVocab();
+  const vocabWithPractices = await Promise.all(vocab.map(async v => ({
+    ...v,
+    practices: await repos.vocab.listPractices(v.id)
+  })));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    settings: pickSettings(await repos.profile.getProfile()),
+    entries: entriesWithIterations,
+    vocab: vocabWithPractices,
+    fragments: await repos.fragments.listFragments()
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Firestore timestamps cover the years 1 to 9999; anything outside fails mid-import
+const MIN_TIMESTAMP = -62135596800000;
+const MAX_TIMESTAMP = 253402300799999;
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= MIN_TIMESTAMP && value <= MAX_TIMESTAMP;
+
+const isOptional = (value: unknown, isValid: (value: unknown) => boolean) => value === undefined || isValid(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isListOf = (value: unknown, isValid: (item: Record<string, any>) => boolean) =>
+  Array.isArray(value) && value.every(item => isRecord(item) && isValid(item));
+
+const isValidIteration = (it: Record<string, any>) =>
+  isString(it.text) && isTimestamp(it.timestamp) && isOptional(it.analysis, isRecord);
+
+const isValidPractice = (p: Record<string, any>) =>
+  isString(p.sentence) && isTimestamp(p.timestamp) && isString(p.status);
+
+const requireRecords = (bundle: Record<string, any>, field: string, isValid: (item: Record<string, any>) => boolean): Record<string, any>[] => {
+  const items = bundle[field];
+  if (!Array.isArray(items)) throw new Error(`备份文件缺少 ${field} 列表。`);
+  items.forEach((item, index) => {
+    if (!isRecord(item) || !isValid(item)) throw new Error(`备份文件中 ${field} 第 ${index + 1} 条记录已损坏。`);
+  });
+  return items;
+};
+
+/**
+ * Parses and validates an uploaded bundle, down to every iteration and practice record,
+ * so that nothing fails once writing has started. Throws an Error with a user-facing
+ * message when the file is not a backup this version understands.
+ */
+export const parseBackupBundle = (raw: string): BackupBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('文件不是有效的 JSON。');
+  }
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) throw new Error('这不是语言博物馆的备份文件。');
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) throw new Error('备份文件版本过新，请先更新应用。');
+
+  const entries = requireRecords(data, 'entries', e =>
+    isString(e.originalText) && isTimestamp(e.timestamp) && isOptional(e.language, isString) &&
+    isOptional(e.analysis, isRecord) && isOptional(e.iterations, items => isListOf(items, isValidIteration))
+  );
+  const vocab = requireRecords(data, 'vocab', v =>
+    isString(v.id) && isString(v.word) && isString(v.language) && isTimestamp(v.timestamp) &&
+    isOptional(v.parentId, isString) && isOptional(v.practices, items => isListOf(items, isValidPractice))
+  );
+  const fragments = requireRecords(data, 'fragments', f =>
+    isString(f.content) && isOptional(f.language, isString) && isOptional(f.timestamp, isTimestamp)
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+    settings: pickSettings(isRecord(data.settings) ? data.settings : null),
+    entries: entries as BackupEntry[],
+    vocab: vocab as AdvancedVocab[],
+    fragments: fragments as InspirationFragment[]
+  };
+};
+
+/**
+ * Deletes every record in the account. Recordings live in this browser only, so those
+ * in `keptRecordings` (still referenced by the entries about to be imported) stay.
+ */
+const clearAccount = async (repos: Repositories, keptRecordings: Set<string>) => {
+  for (const entry of await listAllEntries(repos)) {
+    await repos.diary.deleteEntry(entry.id);
+    const recordingId = entry.rehearsal?.recording?.id;
+    if (recordingId && !keptRecordings.has(recordingId)) await deleteRecording(recordingId);
+  }
+  for (const v of await repos.vocab.listVocab()) {
+    await repos.vocab.deleteVocab(v.id);
+  }
+  const fragments = await repos.fragments.listFragments();
+  if (fragments.length > 0) await repos.fragments.deleteFragments(fragments.map(f => f.id));
+};
+
+const entryKey = (e: Pick<DiaryEntry, 'timestamp' | 'originalText'>) => `${e.timestamp}|${e.originalText}`;
+const vocabKey = (v: Pick<AdvancedVocab, 'word' | 'language'>) => `${v.language}|${normalizeVocabWord(v.word)}`;
+const fragmentKey = (f: Pick<InspirationFragment, 'content' | 'language'>) => `${f.language}|${f.content.trim()}`;
+
+/**
+ * Writes a bundle into the current account. Every record gets a fresh id, and
+ * parent links and practice records are remapped to match. In `replace` mode the
+ * account is wiped only once every record has been prepared.
+ */
+export const restoreBackupBundle = async (repos: Repositories, bundle: BackupBundle, mode: ImportMode): Promise<ImportSummary> => {
+  const summary: ImportSummary = { entries: 0, vocab: 0, practices: 0, fragments: 0, skipped: 0 };
+
+  const [existingEntries, existingVocab, existingFragments] = mode === 'merge'
+    ? await Promise.all([listAllEntries(repos), repos.vocab.listVocab(), repos.fragments.listFragments()])
+    : [[], [], []];
+
+  // Entries and their iterations
+  const seenEntries = new Set(existingEntries.map(entryKey));
+  const entries: DiaryEntry[] = [];
+  const iterations: Record<string, DiaryIteration[]> = {};
+  for (const { iterations: entryIterations, ...entry } of bundle.entries) {
+    if (seenEntries.has(entryKey(entry))) { summary.skipped++; continue; }
+    seenEntries.add(entryKey(entry));
+    const id = uuidv4();
+    entries.push({ ...entry, id });
+    if (entryIterations && entryIterations.length > 0) {
+      iterations[id] = entryIterations.map(it => ({ ...it, id: uuidv4() }));
+    }
+  }
+
+  // Gems: duplicates collapse onto the gem already in the museum
+  const idMap = new Map<string, string>();
+  const existingByKey = new Map(existingVocab.map(v => [vocabKey(v), v.id]));
+  const freshVocab: AdvancedVocab[] = [];
+  for (const v of bundle.vocab) {
+    const existingId = existingByKey.get(vocabKey(v));
+    if (existingId) { idMap.set(v.id, existingId); summary.skipped++; continue; }
+    const id = repos.vocab.newId();
+    idMap.set(v.id, id);
+    existingByKey.set(vocabKey(v), id);
+    freshVocab.push({ ...v, id });
+  }
+  const vocab = freshVocab.map(v => {
+    const practices: PracticeRecord[] = (v.practices || []).map(p => ({ ...p, id: uuidv4(), vocabId: v.id }));
+    summary.practices += practices.length;
+    return { ...v, parentId: v.parentId ? idMap.get(v.parentId) : undefined, practices };
+  });
+
+  // Fragments
+  const seenFragments = new Set(existingFragments.map(fragmentKey));
+  const fragments: InspirationFragment[] = [];
+  for (const f of bundle.fragments) {
+    const fragment = { ...f, language: f.language || 'English', fragmentType: f.fragmentType || 'transient' } as InspirationFragment;
+    if (seenFragments.has(fragmentKey(fragment))) { summary.skipped++; continue; }
+    seenFragments.add(fragmentKey(fragment));
+    fragments.push({ ...fragment, id: uuidv4(), timestamp: typeof f.timestamp === 'number' ? f.timestamp : Date.now() });
+  }
+
+  if (mode === 'replace') {
+    await clearAccount(repos, new Set(entries.flatMap(e => e.rehearsal?.recording ? [e.rehearsal.recording.id] : [])));
+  }
+  await repos.diary.importEntries(entries, iterations);
+  await repos.vocab.importVocabs(vocab);
+  await repos.fragments.importFragments(fragments);
+
+  // In merge mode the current name and avatar win; languages are combined
+  if (mode === 'replace') {
+    if (Object.keys(bundle.settings).length > 0) await repos.profile.updateProfile(bundle.settings);
+  } else if (bundle.settings.preferredLanguages) {
+    // Without a saved choice every language is already enabled
+    const current = (await repos.profile.getProfile())?.preferredLanguages;
+    const merged = current ? Array.from(new Set([...current, ...bundle.settings.preferredLanguages])) : null;
+    if (current && merged && merged.length !== current.length) await repos.profile.updateProfile({ preferredLanguages: merged });
+  }
+
+  summary.entries = entries.length;
+  summary.vocab = vocab.length;
+  summary.fragments = fragments.length;
+  return summary;
+};
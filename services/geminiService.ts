@@ -1,483 +1,405 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { DiaryAnalysis, ChatMessage, RehearsalEvaluation, DiaryEntry } from "../types";
+import { DiaryAnalysis, ChatMessage, RehearsalEvaluation, DiaryEntry, LearnerProfile, VocabUsageResult, DailyMuse } from "../types";
 import { calculateDiff } from "../utils/diffHelper";
-import { weaveRubyMarkdown, stripRuby } from "../utils/textHelpers";
-
-const getAiInstance = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API key is missing.");
-  return new GoogleGenAI({ apiKey });
+import { weaveRubyMarkdown, stripRuby, completeReadingPairs } from "../utils/textHelpers";
+import { PartialJsonParser } from "../utils/partialJson";
+import { describeLearnerProfile } from "../utils/learnerProfile";
+import { locateCorrections } from "../utils/correctionSpans";
+import { getLanguage } from "../utils/languages";
+import { promptVersion, renderPrompt } from "./promptRegistry";
+import { generateValidatedJson, getLLMProvider, JsonSchema, LLMRequest, LLMResponseError, validateJsonText } from "./llm";
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    modifiedText: { type: 'string' },
+    overallFeedback: { type: 'string' },
+    readingPairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kanji: { type: 'string' },
+          reading: { type: 'string' }
+        },
+        required: ["kanji", "reading"]
+      }
+    },
+    corrections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          original: { type: 'string' },
+          improved: { type: 'string' },
+          explanation: { type: 'string' },
+          category: { type: 'string', enum: ['Grammar', 'Vocabulary', 'Style', 'Spelling'] }
+        },
+        required: ["original", "improved", "explanation", "category"]
+      }
+    },
+    advancedVocab: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          meaning: { type: 'string' },
+          usage: { type: 'string' },
+          phonetic: { type: 'string', description: "Phonetic transcription or IPA. For Japanese, use reading if not already in word." },
+          level: { type: 'string', enum: ['Intermediate', 'Advanced', 'Native'] }
+        },
+        required: ["word", "meaning", "usage", "level"]
+      }
+    },
+  },
+  required: ["modifiedText", "corrections", "advancedVocab", "overallFeedback"]
 };
 
-const isRetryableError = (error: any): boolean => {
-  const message = error?.message || "";
-  const status = error?.status || error?.code;
-  return (status === 500 || status === 429 || status === "UNKNOWN" || message.includes("xhr error") || message.includes("fetch"));
+const RETELLING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    accuracyScore: { type: 'number', minimum: 0, maximum: 100 },
+    qualityScore: { type: 'number', minimum: 0, maximum: 100 },
+    contentFeedback: { type: 'string' },
+    languageFeedback: { type: 'string' },
+    suggestedVersion: { type: 'string' },
+    recommendedGems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          meaning: { type: 'string' },
+          usage: { type: 'string' }
+        },
+        required: ["word", "meaning", "usage"]
+      }
+    }
+  },
+  required: ["accuracyScore", "qualityScore", "contentFeedback", "languageFeedback", "suggestedVersion"]
 };
 
-async function generateContentWrapper(contents: any, config: any, initialModel = 'gemini-3-flash-preview', maxRetries = 2, initialDelay = 1000) {
-  const ai = getAiInstance();
-  let lastError: any;
-  let currentModel = initialModel;
-
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      const response = await ai.models.generateContent({
-        model: currentModel as any,
-        contents,
-        config,
-      });
-      return response;
-    } catch (error: any) {
-      lastError = error;
-      const status = error?.status || error?.code;
-
-      if (status === 429 && currentModel === 'gemini-3-flash-preview') {
-        console.log('Model gemini-3-flash-preview failed, falling back to gemini-flash-lite-latest');
-        currentModel = 'gemini-flash-lite-latest'; 
+const VOCAB_USAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    isCorrect: { type: 'boolean', description: "True if ALL target words are used correctly and naturally." },
+    feedback: { type: 'string', description: "Overall feedback on the sentence and specific feedback for each target word." },
+    usageInsight: { type: 'string', description: "A concise summary of the user's usage pattern or common errors for these words (e.g., 'You often confuse this with X')." },
+    betterVersion: { type: 'string' },
+    keyPhrases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          phrase: { type: 'string' },
+          explanation: { type: 'string' }
+        },
+        required: ["phrase", "explanation"]
       }
-
-      if (!isRetryableError(error) || i === maxRetries - 1) throw error;
-      const delay = initialDelay * Math.pow(2, i);
-      await new Promise(resolve => setTimeout(resolve, delay));
     }
-  }
-  throw lastError;
-}
+  },
+  required: ["isCorrect", "feedback", "betterVersion"]
+};
 
-async function* generateContentStreamWrapper(contents: any, config: any, initialModel = 'gemini-3-flash-preview') {
-  const ai = getAiInstance();
-  
-  try {
-    const response = await ai.models.generateContentStream({
-      model: initialModel as any,
-      contents,
-      config,
-    });
-    for await (const chunk of response) {
-      yield chunk;
-    }
-  } catch (error: any) {
-    const status = error?.status || error?.code;
-    if (status === 429 && initialModel === 'gemini-3-flash-preview') {
-      console.log('Stream model gemini-3-flash-preview failed, falling back to gemini-flash-lite-latest');
-      const fallbackModel = 'gemini-flash-lite-latest';
-      const fallbackResponse = await ai.models.generateContentStream({
-        model: fallbackModel as any,
-        contents,
-        config,
-      });
-      for await (const chunk of fallbackResponse) {
-        yield chunk;
+const MUSES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    muses: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          prompt: { type: 'string' },
+          icon: { type: 'string', description: "A single emoji." }
+        },
+        required: ["title", "prompt"]
       }
-    } else {
-      throw error;
     }
-  }
-}
-
-const getAnalysisPrompt = (language: string, text: string, historyContext: string) => {
-  const japaneseInstruction = `3.  **Japanese Specifics**: For Japanese text, 'advancedVocab.word' and 'advancedVocab.usage' must use Furigana markdown format, e.g., [漢字](かんじ). Ensure 'readingPairs' is complete for all Kanji in the vocab. 'advancedVocab.meaning' must be plain text.`;
-  const defaultInstruction = `3.  **Vocabulary Formatting**: For 'advancedVocab.word' and 'advancedVocab.usage', present the terms and sentences as plain text without any special formatting.`;
-
-  return `You are an expert language tutor. Analyze the following text written in ${language}.
-Your task is to provide a comprehensive analysis based on the JSON schema.
-
-User's Text:
----
-${text}
----
-
-Recent Feedback Context (for personalization):
----
-${historyContext || 'No recent history.'}
----
-
-Key Instructions:
-1.  **Correction Style**: Only correct grammatical errors or unnatural phrasing. Preserve the user's original style and voice.
-2.  **Monolingual Definitions**: All explanations and definitions ('advancedVocab.meaning', 'corrections.explanation') must be in ${language}.
-${language === 'Japanese' ? japaneseInstruction : defaultInstruction}
+  },
+  required: ["muses"]
+};
 
-Produce only the JSON output that adheres to the provided schema.`;
+const CLOZE_CHECK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    isCorrect: { type: 'boolean', description: "True if the answer is a correct, natural way to fill the blank." },
+    feedback: { type: 'string' }
+  },
+  required: ["isCorrect", "feedback"]
 };
 
-export const analyzeDiaryEntry = async (text: string, language: string, history: DiaryEntry[] = []): Promise<DiaryAnalysis> => {
-  const historyContext = history.slice(0, 2).map(e => `- ${e.date}: ${e.analysis?.overallFeedback}`).join('\n');
-  const contents = getAnalysisPrompt(language, text, historyContext);
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 }, 
-    responseMimeType: "application/json",
-    responseSchema: {
-      type: Type.OBJECT,
-      properties: {
-        modifiedText: { type: Type.STRING },
-        overallFeedback: { type: Type.STRING },
-        readingPairs: { 
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              kanji: { type: Type.STRING },
-              reading: { type: Type.STRING }
-            },
-            required: ["kanji", "reading"]
-          }
-        },
-        corrections: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              original: { type: Type.STRING },
-              improved: { type: Type.STRING },
-              explanation: { type: Type.STRING },
-              category: { type: Type.STRING, enum: ['Grammar', 'Vocabulary', 'Style', 'Spelling'] }
-            },
-            required: ["original", "improved", "explanation", "category"]
-          }
+const GEM_RETRY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    correctedGems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          meaning: { type: 'string' },
+          usage: { type: 'string' }
         },
-        advancedVocab: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              word: { type: Type.STRING },
-              meaning: { type: Type.STRING },
-              usage: { type: Type.STRING },
-              phonetic: { type: Type.STRING, description: "Phonetic transcription or IPA. For Japanese, use reading if not already in word." },
-              level: { type: Type.STRING, enum: ['Intermediate', 'Advanced', 'Native'] }
-            },
-            required: ["word", "meaning", "usage", "level"]
-          }
-        },
-      },
-      required: ["modifiedText", "corrections", "advancedVocab", "overallFeedback"]
+        required: ["word", "meaning", "usage"]
+      }
     }
-  };
+  },
+  required: ["correctedGems"]
+};
+
+const FRAGMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    meaning: { type: 'string' },
+    usage: { type: 'string' }
+  },
+  required: ["meaning", "usage"]
+};
 
-  const response = await generateContentWrapper(contents, config);
-  const analysis = JSON.parse(response.text) as DiaryAnalysis;
+/**
+ * Every structured request goes through here: the response is repaired and checked
+ * against its schema, and asked for once more if it is still unusable.
+ */
+const requestJson = <T>(request: LLMRequest & { schema: JsonSchema }): Promise<T> =>
+  generateValidatedJson<T>(getLLMProvider(), request);
 
+/**
+ * Post-processing that needs the complete response: the prompt version, readings the model left
+ * out, furigana for Japanese gems, the diff against the original and where each correction sits in it.
+ */
+const finalizeAnalysis = (analysis: DiaryAnalysis, text: string, language: string, promptVersion: string): DiaryAnalysis => {
+  analysis.promptVersion = promptVersion;
+  const furigana = getLanguage(language).rubyScheme === 'furigana';
+  if (furigana) {
+    analysis.readingPairs = completeReadingPairs(analysis.modifiedText, analysis.readingPairs || []);
+  }
   if (analysis.readingPairs) {
     analysis.advancedVocab = analysis.advancedVocab.map(v => ({
       ...v,
-      word: language === 'Japanese' && !v.word.includes('[') ? weaveRubyMarkdown(v.word, analysis.readingPairs, 'Japanese') : v.word,
-      usage: language === 'Japanese' && !v.usage.includes('[') ? weaveRubyMarkdown(v.usage, analysis.readingPairs, 'Japanese') : v.usage,
+      word: furigana && !v.word.includes('[') ? weaveRubyMarkdown(v.word, analysis.readingPairs, language) : v.word,
+      usage: furigana && !v.usage.includes('[') ? weaveRubyMarkdown(v.usage, analysis.readingPairs, language) : v.usage,
       meaning: stripRuby(v.meaning)
     }));
   }
 
   analysis.diffedText = calculateDiff(text, analysis.modifiedText, language);
+  analysis.corrections = locateCorrections(analysis.diffedText, analysis.corrections || []);
   return analysis;
 };
 
 /**
- * Optimized for Token Efficiency and Surgical Precision
+ * Shapes a partially streamed response into a renderable DiaryAnalysis: missing fields
+ * become empty, and list items are only shown once they have their headline field.
  */
-export const analyzeDiaryEntryStream = async function* (text: string, language: string, history: DiaryEntry[] = []) {
-  const historyContext = history.slice(0, 2).map(e => `- ${e.date}: ${e.analysis?.overallFeedback}`).join('\n');
-  
-  const contents = getAnalysisPrompt(language, text, historyContext);
-
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 }, 
-    responseMimeType: "application/json",
-    responseSchema: {
-      type: Type.OBJECT,
-      properties: {
-        modifiedText: { type: Type.STRING },
-        overallFeedback: { type: Type.STRING },
-        readingPairs: { 
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              kanji: { type: Type.STRING },
-              reading: { type: Type.STRING }
-            },
-            required: ["kanji", "reading"]
-          }
-        },
-        corrections: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              original: { type: Type.STRING },
-              improved: { type: Type.STRING },
-              explanation: { type: Type.STRING },
-              category: { type: Type.STRING, enum: ['Grammar', 'Vocabulary', 'Style', 'Spelling'] }
-            },
-            required: ["original", "improved", "explanation", "category"]
-          }
-        },
-        advancedVocab: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              word: { type: Type.STRING },
-              meaning: { type: Type.STRING },
-              usage: { type: Type.STRING },
-              phonetic: { type: Type.STRING, description: "Phonetic transcription or IPA. For Japanese, use reading if not already in word." },
-              level: { type: Type.STRING, enum: ['Intermediate', 'Advanced', 'Native'] }
-            },
-            required: ["word", "meaning", "usage", "level"]
-          }
-        },
-              },
-      required: ["modifiedText", "corrections", "advancedVocab", "overallFeedback"]
-    }
+const toPartialAnalysis = (raw: any): DiaryAnalysis => {
+  const value = raw && typeof raw === 'object' ? raw : {};
+  const asString = (v: unknown) => typeof v === 'string' ? v : '';
+  const asList = (v: unknown): any[] => Array.isArray(v) ? v.filter(item => item && typeof item === 'object') : [];
+  return {
+    modifiedText: asString(value.modifiedText),
+    diffedText: '',
+    overallFeedback: asString(value.overallFeedback),
+    readingPairs: asList(value.readingPairs).filter(p => p.kanji && p.reading),
+    corrections: asList(value.corrections).filter(c => c.original).map(c => ({
+      original: asString(c.original),
+      improved: asString(c.improved),
+      explanation: asString(c.explanation),
+      category: c.category || 'Grammar'
+    })),
+    advancedVocab: asList(value.advancedVocab).filter(v => v.word).map(v => ({
+      ...v,
+      word: asString(v.word),
+      meaning: asString(v.meaning),
+      usage: asString(v.usage),
+      level: v.level || 'Intermediate'
+    })),
+    transitionSuggestions: []
   };
-
-  const responseStream = generateContentStreamWrapper(contents, config as any);
-
-  for await (const chunk of responseStream) {
-    yield chunk.text;
-  }
 };
 
-export const evaluateRetelling = async (source: string, retelling: string, language: string): Promise<RehearsalEvaluation> => {
-  const contents = `
-      You are a language evaluation expert. Your task is to compare a user's retelling of a source text and provide a detailed evaluation in ${language}.
+const getAnalysisPrompt = (text: string, language: string, history: DiaryEntry[], learnerProfile?: LearnerProfile | null) =>
+  renderPrompt('analysis', {
+    language,
+    text,
+    historyContext: history.slice(0, 2).map(e => `- ${e.date}: ${e.analysis?.overallFeedback}`).join('\n'),
+    profileContext: describeLearnerProfile(learnerProfile)
+  });
+
+const requestAnalysis = async (text: string, language: string, history: DiaryEntry[], learnerProfile: LearnerProfile | null | undefined, followUp: boolean): Promise<DiaryAnalysis> => {
+  const prompt = getAnalysisPrompt(text, language, history, learnerProfile);
+  const analysis = await requestJson<DiaryAnalysis>({
+    task: 'analysis',
+    prompt: prompt.text,
+    schema: ANALYSIS_SCHEMA,
+    input: { text, language },
+    followUp
+  });
+  return finalizeAnalysis(analysis, text, language, prompt.version);
+};
 
-      **Source Text:**
-      ---
-      ${source}
-      ---
+export const analyzeDiaryEntry = (text: string, language: string, history: DiaryEntry[] = [], learnerProfile?: LearnerProfile | null): Promise<DiaryAnalysis> =>
+  requestAnalysis(text, language, history, learnerProfile, false);
 
-      **User's Retelling:**
-      ---
-      ${retelling}
-      ---
+/**
+ * Optimized for Token Efficiency and Surgical Precision
+ */
+export const analyzeDiaryEntryStream = async function* (text: string, language: string, history: DiaryEntry[] = [], learnerProfile?: LearnerProfile | null) {
+  yield* getLLMProvider().streamText({
+    task: 'analysis',
+    prompt: getAnalysisPrompt(text, language, history, learnerProfile).text,
+    schema: ANALYSIS_SCHEMA,
+    input: { text, language }
+  });
+};
 
-      **Your Task:**
-      1.  **Score Accuracy (0-100):** How faithfully does the retelling capture the key information and meaning of the source?
-      2.  **Score Quality (0-100):** Evaluate the grammatical correctness, style, and naturalness of the user's language.
-      3.  **Provide Feedback:** Write two distinct feedback paragraphs in ${language}:
-          - **Content Feedback:** Comment on what the user did well and what they missed from the source text.
-          - **Language Feedback:** Comment on grammar, vocabulary, and style in the user's retelling.
-      4.  **Suggest an Improved Version:** Rewrite the user's retelling to be more accurate and natural. Preserve as much of the user's original phrasing as possible if it is already correct and natural.
-      5.  **Recommend Vocabulary (Gems):** Extract 3-5 key vocabulary words or phrases from your suggested version that would be beneficial for the user to learn. For each, provide the word, its meaning in ${language}, and a simple usage example.
+/**
+ * Streams an analysis, reporting a growing partial DiaryAnalysis after every chunk.
+ * Resolves to the finished analysis, post-processed exactly like analyzeDiaryEntry. A
+ * streamed response that is unusable even after repair is requested again without streaming.
+ */
+export const analyzeDiaryEntryProgressive = async (
+  text: string,
+  language: string,
+  history: DiaryEntry[] = [],
+  learnerProfile: LearnerProfile | null | undefined,
+  onPartial: (partial: DiaryAnalysis) => void
+): Promise<DiaryAnalysis> => {
+  const parser = new PartialJsonParser();
+  for await (const chunk of analyzeDiaryEntryStream(text, language, history, learnerProfile)) {
+    onPartial(toPartialAnalysis(parser.push(chunk)));
+  }
+  try {
+    const analysis = validateJsonText<DiaryAnalysis>(parser.text, 'analysis', ANALYSIS_SCHEMA);
+    return finalizeAnalysis(analysis, text, language, promptVersion('analysis'));
+  } catch (error) {
+    if (!(error instanceof LLMResponseError)) throw error;
+    // The stream broke off or came back incomplete: ask again without streaming, as part of the same analysis
+    console.warn('Streamed analysis unusable, asking again:', error.issues);
+    return requestAnalysis(text, language, history, learnerProfile, true);
+  }
+};
 
-      **Output MUST be valid JSON that adheres to the schema.**
-    `;
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 },
-    responseMimeType: "application/json",
-    responseSchema: {
-      type: Type.OBJECT,
-      properties: {
-        accuracyScore: { type: Type.NUMBER },
-        qualityScore: { type: Type.NUMBER },
-        contentFeedback: { type: Type.STRING },
-        languageFeedback: { type: Type.STRING },
-        suggestedVersion: { type: Type.STRING },
-        recommendedGems: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              word: { type: Type.STRING },
-              meaning: { type: Type.STRING },
-              usage: { type: Type.STRING }
-            },
-            required: ["word", "meaning", "usage"]
-          }
-        }
-      },
-      required: ["accuracyScore", "qualityScore", "contentFeedback", "languageFeedback", "suggestedVersion"]
-    }
-  };
-  const response = await generateContentWrapper(contents, config);
-  const result = JSON.parse(response.text) as RehearsalEvaluation;
+export const evaluateRetelling = async (source: string, retelling: string, language: string): Promise<RehearsalEvaluation> => {
+  const prompt = renderPrompt('retelling', { language, source, retelling });
+  const result = await requestJson<RehearsalEvaluation>({
+    task: 'retelling',
+    prompt: prompt.text,
+    schema: RETELLING_SCHEMA,
+    input: { source, retelling, language }
+  });
   result.diffedRetelling = calculateDiff(retelling, result.suggestedVersion, language);
+  result.promptVersion = prompt.version;
   return result;
 };
 
+/**
+ * Writes down a spoken retelling as said, mistakes included, so evaluateRetelling grades what the learner actually produced.
+ */
+export const transcribeRetelling = async (audio: string, mimeType: string, language: string): Promise<string> => {
+  return getLLMProvider().transcribeAudio(audio, mimeType, {
+    prompt: renderPrompt('transcription', { language }).text,
+    locale: getLanguage(language).locale,
+  });
+};
+
 export const getChatFollowUp = async (messages: ChatMessage[], language: string): Promise<string> => {
   const recentMessages = messages.slice(-6);
-  const contents = recentMessages.map(m => ({
-    role: m.role === 'ai' ? 'model' : 'user',
-    parts: [{ text: m.content }]
-  }));
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 },
-    systemInstruction: `You are a language tutor in ${language}. Short responses (max 2 sentences).`
-  };
-  const response = await generateContentWrapper(contents, config);
-  return response.text || "";
+  return getLLMProvider().generateText({
+    task: 'chat',
+    prompt: recentMessages.map(m => ({ role: m.role === 'ai' ? 'assistant' : 'user', content: m.content })),
+    system: renderPrompt('chat', { language }).text,
+    input: { language }
+  });
 };
 
 export const validateVocabUsageStream = async function* (words: { word: string, meaning: string, history?: string }[], sentence: string, language: string) {
   const wordsContext = words.map(w => `Word: "${w.word}" (Meaning: ${w.meaning})${w.history ? `. Past feedback: ${w.history}` : ''}`).join('\n');
   
-  const contents = `
-    Target Words:
-    ${wordsContext}
-
-    User's Sentence: "${sentence}"
-
-    Task:
-    1. Check if the user used the target words correctly and naturally in the sentence.
-    2. Provide feedback in ${language}.
-    3. If the user has a history of errors provided, check if they repeated them.
-    4. Suggest a better, more natural version of the sentence.
-    5. Extract 1-2 high-quality phrases or collocations from your suggested version as "keyPhrases".
-  `;
-
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 },
-    responseMimeType: "application/json",
-    responseSchema: {
-      type: Type.OBJECT,
-      properties: {
-        isCorrect: { type: Type.BOOLEAN, description: "True if ALL target words are used correctly and naturally." },
-        feedback: { type: Type.STRING, description: "Overall feedback on the sentence and specific feedback for each target word." },
-        usageInsight: { type: Type.STRING, description: "A concise summary of the user's usage pattern or common errors for these words (e.g., 'You often confuse this with X')." },
-        betterVersion: { type: Type.STRING },
-        keyPhrases: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              phrase: { type: Type.STRING },
-              explanation: { type: Type.STRING }
-            },
-            required: ["phrase", "explanation"]
-          }
-        }
-      },
-      required: ["isCorrect", "feedback", "betterVersion"]
-    }
-  };
-
-  const responseStream = generateContentStreamWrapper(contents, config as any);
-
-  for await (const chunk of responseStream) {
-    yield chunk.text;
-  }
+  yield* getLLMProvider().streamText({
+    task: 'vocabUsage',
+    prompt: renderPrompt('vocabUsage', { language, wordsContext, sentence }).text,
+    schema: VOCAB_USAGE_SCHEMA,
+    input: { words, sentence, language }
+  });
 };
 
-export const generatePracticeArtifact = async (language: string, keywords: string, difficultyId: string, topicLabel: string): Promise<string> => {
-  // Logic fix for 'Random' topic to ensure it doesn't just discuss 'randomness'
-  const effectiveTopic = topicLabel === '随机' 
-    ? "Pick a random, engaging topic suitable for a language learner, covering themes of daily life, travel, or work. Examples: describing a favorite local cafe, planning a weekend trip, discussing a recent project at work, talking about a hobby."
-    : `Topic: ${topicLabel}`;
-
-  const contents = `
-      You are a language content creator. Your task is to generate a short, engaging text based on the user's request.
-      
-      **Request Details:**
-      - **Topic:** ${effectiveTopic}
-      - **Language:** ${language}
-      - **Keywords to include:** ${keywords}
-      - **Difficulty Level:** ${difficultyId}
-
-      **Strict Output Requirements:**
-      1.  **Content Only:** Provide only the generated text, with no extra commentary, titles, or explanations.
-      2.  **Length Constraint (${difficultyId}):** 
-          - If Difficulty is 'Beginner', the text MUST be between 80 and 120 characters long.
-          - For other difficulties, aim for a concise paragraph (around 150-200 characters).
-      3.  **Japanese Formatting:** 
-          - If the language is Japanese, you MUST use HTML <ruby> tags for Furigana (e.g., <ruby>漢字<rt>かんじ</rt></ruby>).
-          - DO NOT use the format: 漢字(かんじ).
+/**
+ * Reads the complete text of validateVocabUsageStream. Throws LLMResponseError when it is unusable.
+ */
+export const parseVocabUsageResult = (text: string): VocabUsageResult =>
+  validateJsonText<VocabUsageResult>(text, 'vocabUsage', VOCAB_USAGE_SCHEMA);
 
-      Begin generating the text now.
-    `;
-  const config = { thinkingConfig: { thinkingBudget: 0 } };
-  const response = await generateContentWrapper(contents, config);
-  return response.text.trim();
+export const generatePracticeArtifact = async (language: string, keywords: string, difficultyId: string, topicLabel: string): Promise<string> => {
+  const text = await getLLMProvider().generateText({
+    task: 'practiceArtifact',
+    prompt: renderPrompt('practiceArtifact', { language, keywords, difficultyId, topicLabel }).text,
+    input: { language, keywords, difficultyId, topic: topicLabel }
+  });
+  return text.trim();
 };
 
 export const generateWeavedArtifact = async (language: string, gems: any[]): Promise<string> => {
-  const japaneseInstruction = `
-2.  **Japanese Formatting:** You MUST use HTML <ruby> tags for Furigana (e.g., <ruby>漢字<rt>かんじ</rt></ruby>). DO NOT use the format: 漢字(かんじ).`;
-
-  const contents = `You are a language content creator. Your task is to generate a short, engaging text in ${language} that naturally incorporates the following words: ${gems.map(g => g.word).join(', ')}.
-
-**Strict Output Requirements:**
-1.  **Content Only:** Provide only the generated ${language} text, with no extra commentary, titles, or explanations.
-${language === 'Japanese' ? japaneseInstruction : ''}
-
-Begin generating the text now.`;
-  const config = { thinkingConfig: { thinkingBudget: 0 } };
-  const response = await generateContentWrapper(contents, config);
-  return response.text.trim();
+  const text = await getLLMProvider().generateText({
+    task: 'weavedArtifact',
+    prompt: renderPrompt('weavedArtifact', { language, words: gems.map(g => g.word) }).text,
+    input: { language, words: gems }
+  });
+  return text.trim();
 };
 
-export const generateDailyMuses = async (language: string): Promise<any[]> => {
-  const contents = `3 prompts in ${language}. JSON [{id, title, prompt, icon}]`;
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 },
-    responseMimeType: "application/json"
-  };
-  const response = await generateContentWrapper(contents, config);
-  return JSON.parse(response.text);
+export const generateDailyMuses = async (language: string): Promise<DailyMuse[]> => {
+  const result = await requestJson<{ muses: DailyMuse[] }>({
+    task: 'muses',
+    prompt: renderPrompt('muses', { language }).text,
+    schema: MUSES_SCHEMA,
+    input: { language }
+  });
+  return result.muses.map((muse, i) => ({ ...muse, id: muse.id || `muse-${i + 1}`, icon: muse.icon || '✨' }));
 };
 
-export const generateDiaryAudio = async (text: string): Promise<string> => {
-  const contents = [{ parts: [{ text: `Say: ${text}` }] }];
-  const config = {
-    responseModalities: [Modality.AUDIO],
-    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-  };
-  const response = await generateContentWrapper(contents, config, "gemini-2.5-flash-preview-tts");
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+export const generateDiaryAudio = async (text: string, language?: string): Promise<string> => {
+  return getLLMProvider().synthesizeSpeech(text, language ? { voice: getLanguage(language).ttsVoice } : undefined);
 };
 
 export const generateChatSummaryPrompt = async (messages: ChatMessage[], language: string): Promise<string> => {
-  const contents = `Summary to 1-sentence prompt: ${messages.slice(-5).map(m => m.content).join(' ')}`;
-  const config = { thinkingConfig: { thinkingBudget: 0 } };
-  const response = await generateContentWrapper(contents, config);
-  return response.text || "";
+  const recent = messages.slice(-5);
+  return getLLMProvider().generateText({
+    task: 'chatSummary',
+    prompt: renderPrompt('chatSummary', { transcript: recent.map(m => m.content).join(' ') }).text,
+    input: { language, lastMessage: recent[recent.length - 1]?.content || '' }
+  });
 };
 
 export const retryEvaluationForGems = async (failedGems: { word: string; }[], language: string): Promise<{ word: string; meaning: string; usage: string; }[]> => {
-  const words = failedGems.map(g => g.word).join(', ');
-  const contents = `For the following list of words in ${language}, provide a concise meaning (in ${language}) and a simple usage example sentence for each: ${words}`;
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 },
-    responseMimeType: "application/json",
-    responseSchema: {
-      type: Type.OBJECT,
-      properties: {
-        correctedGems: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              word: { type: Type.STRING },
-              meaning: { type: Type.STRING },
-              usage: { type: Type.STRING }
-            },
-            required: ["word", "meaning", "usage"]
-          }
-        }
-      },
-      required: ["correctedGems"]
-    }
-  };
-  const response = await generateContentWrapper(contents, config);
-  const result = JSON.parse(response.text) as { correctedGems: { word: string; meaning: string; usage: string; }[] };
+  const result = await requestJson<{ correctedGems: { word: string; meaning: string; usage: string; }[] }>({
+    task: 'gemRetry',
+    prompt: renderPrompt('gemRetry', { language, words: failedGems.map(g => g.word) }).text,
+    schema: GEM_RETRY_SCHEMA,
+    input: { language, words: failedGems }
+  });
   return result.correctedGems;
 };
 
+/**
+ * Judges a cloze answer that is close to the expected phrase but not the same, in case it is an acceptable alternative.
+ */
+export const judgeClozeAnswer = async (sentence: string, expected: string, original: string, answer: string, language: string): Promise<{ isCorrect: boolean; feedback: string }> => {
+  return requestJson<{ isCorrect: boolean; feedback: string }>({
+    task: 'clozeCheck',
+    prompt: renderPrompt('clozeCheck', { language, sentence, expected, original, answer }).text,
+    schema: CLOZE_CHECK_SCHEMA,
+    input: { sentence, expected, original, answer, language }
+  });
+};
+
 export const enrichFragment = async (content: string, language: string): Promise<{ meaning: string, usage: string }> => {
-  const contents = `Fragment: "${content}". Meaning(CN), Usage(${language}).`;
-  const config = {
-    thinkingConfig: { thinkingBudget: 0 },
-    responseMimeType: "application/json",
-    responseSchema: {
-      type: Type.OBJECT,
-      properties: {
-        meaning: { type: Type.STRING },
-        usage: { type: Type.STRING }
-      },
-      required: ["meaning", "usage"]
-    }
-  };
-  const response = await generateContentWrapper(contents, config);
-  return JSON.parse(response.text);
+  return requestJson<{ meaning: string, usage: string }>({
+    task: 'fragment',
+    prompt: renderPrompt('fragment', { language, content }).text,
+    schema: FRAGMENT_SCHEMA,
+    input: { content, language }
+  });
 };
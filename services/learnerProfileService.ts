@@ -0,0 +1,45 @@
+import { Correction, LearnerProfile } from '../types';
+import { addCorrectionsToProfile, buildLearnerProfile } from '../utils/learnerProfile';
+import { listAllEntries } from './backupService';
+import { Repositories } from './repositories';
+
+/**
+ * Rebuilds the profiles for `languages` from every stored entry, in a single pass over the diary.
+ */
+export const rebuildLearnerProfiles = async (repos: Repositories, languages: string[]): Promise<Record<string, LearnerProfile>> => {
+  const entries = await listAllEntries(repos);
+  const profiles: Record<string, LearnerProfile> = {};
+  for (const language of languages) {
+    profiles[language] = buildLearnerProfile(language, entries);
+    await repos.learnerProfiles.saveLearnerProfile(profiles[language]);
+  }
+  return profiles;
+};
+
+/**
+ * Loads the stored profiles, building any that do not exist yet (e.g. for accounts that predate them).
+ */
+export const loadLearnerProfiles = async (repos: Repositories, languages: string[]): Promise<Record<string, LearnerProfile>> => {
+  const profiles: Record<string, LearnerProfile> = {};
+  const missing: string[] = [];
+  for (const language of languages) {
+    const profile = await repos.learnerProfiles.getLearnerProfile(language);
+    if (profile) profiles[language] = profile;
+    else missing.push(language);
+  }
+  return missing.length > 0 ? { ...profiles, ...await rebuildLearnerProfiles(repos, missing) } : profiles;
+};
+
+/**
+ * Adds a new entry's corrections to the stored profile. Call it after the entry has been saved:
+ * a profile built from scratch already includes that entry. When an analysis is replaced or
+ * removed, rebuild the profile instead, or its old corrections stay counted.
+ */
+export const recordCorrections = async (repos: Repositories, language: string, corrections: Correction[], timestamp: number = Date.now()): Promise<LearnerProfile> => {
+  const stored = await repos.learnerProfiles.getLearnerProfile(language);
+  if (!stored) return (await rebuildLearnerProfiles(repos, [language]))[language];
+
+  const profile = addCorrectionsToProfile(stored, corrections, timestamp);
+  await repos.learnerProfiles.saveLearnerProfile(profile);
+  return profile;
+};
@@ -0,0 +1,143 @@
+import { encode } from '../../utils/audioHelpers';
+import { estimateTokens, requestText } from './metering';
+import { parseJsonText } from './responseValidation';
+import { LLMProvider, LLMRequest, LLMTask, SpeechOptions, TranscriptionOptions } from './types';
+
+/**
+ * Builds the response for one task. Return a string for text tasks and a plain object for JSON tasks.
+ */
+export type Fixture = (request: LLMRequest) => unknown;
+
+export interface FixtureProviderOptions {
+  /** Overrides the built-in responses, task by task. */
+  fixtures?: Partial<Record<LLMTask, Fixture>>;
+  /** Overrides the built-in tone. Must resolve to base64 16-bit mono PCM at 24 kHz. */
+  speech?: (text: string) => string;
+  /** Overrides the built-in transcript, e.g. to replay what a test recording says. */
+  transcribe?: (audio: string, mimeType: string) => string;
+  /** Size of the chunks streamText yields. */
+  chunkSize?: number;
+}
+
+const DEMO_NOTE = '演示模式：这是离线生成的示例反馈，未连接 AI 服务。';
+const DEMO_TRANSCRIPT = '演示模式：录音已收到，这是离线生成的示例转写。';
+
+const str = (request: LLMRequest, key: string): string => String(request.input?.[key] ?? '');
+
+const words = (request: LLMRequest): string[] =>
+  ((request.input?.words as { word: string }[] | undefined) || []).map(w => w.word);
+
+const overlapScore = (source: string, attempt: string): number => {
+  const sourceChars = new Set(source.replace(/\s+/g, ''));
+  if (sourceChars.size === 0) return 0;
+  const attemptChars = new Set(attempt.replace(/\s+/g, ''));
+  const shared = [...sourceChars].filter(c => attemptChars.has(c)).length;
+  return Math.round((shared / sourceChars.size) * 100);
+};
+
+const DEFAULT_FIXTURES: Record<LLMTask, Fixture> = {
+  analysis: request => ({
+    modifiedText: str(request, 'text'),
+    overallFeedback: DEMO_NOTE,
+    readingPairs: [],
+    corrections: [],
+    advancedVocab: [],
+  }),
+  retelling: request => {
+    const score = overlapScore(str(request, 'source'), str(request, 'retelling'));
+    return {
+      accuracyScore: score,
+      qualityScore: score,
+      contentFeedback: DEMO_NOTE,
+      languageFeedback: DEMO_NOTE,
+      suggestedVersion: str(request, 'source'),
+      recommendedGems: [],
+    };
+  },
+  chat: () => DEMO_NOTE,
+  chatSummary: request => str(request, 'lastMessage'),
+  vocabUsage: request => {
+    const sentence = str(request, 'sentence');
+    return {
+      isCorrect: words(request).every(word => sentence.includes(word)),
+      feedback: DEMO_NOTE,
+      usageInsight: '',
+      betterVersion: sentence,
+      keyPhrases: [],
+    };
+  },
+  practiceArtifact: request => `${str(request, 'topic')}: ${str(request, 'keywords')}`,
+  weavedArtifact: request => words(request).join(' · '),
+  muses: () => ({
+    muses: [
+      { id: 'fixture-1', title: 'Today', prompt: 'What happened today?', icon: '☀️' },
+      { id: 'fixture-2', title: 'People', prompt: 'Who did you talk to recently?', icon: '💬' },
+      { id: 'fixture-3', title: 'Plans', prompt: 'What are you looking forward to?', icon: '🧭' },
+    ],
+  }),
+  gemRetry: request => ({
+    correctedGems: words(request).map(word => ({ word, meaning: DEMO_NOTE, usage: word })),
+  }),
+  fragment: request => ({ meaning: DEMO_NOTE, usage: str(request, 'content') }),
+  clozeCheck: request => ({
+    isCorrect: str(request, 'answer').trim().toLowerCase() === str(request, 'expected').trim().toLowerCase(),
+    feedback: DEMO_NOTE,
+  }),
+};
+
+/**
+ * A short, quiet 440 Hz tone whose length grows with the text, so playback paths have real audio to decode.
+ */
+const fixtureTone = (text: string): string => {
+  const sampleRate = 24000;
+  const samples = Math.round(sampleRate * Math.min(2, 0.2 + text.length * 0.02));
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) pcm[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 3000);
+  return encode(new Uint8Array(pcm.buffer));
+};
+
+/**
+ * Answers every request from fixtures, with no network. The same request always gets the
+ * same response, which keeps demo mode usable offline and makes automated tests repeatable.
+ */
+export const createFixtureProvider = (options: FixtureProviderOptions = {}): LLMProvider => {
+  const asText = (value: unknown): string => typeof value === 'string' ? value : JSON.stringify(value);
+  // Usage is estimated like a real backend's would be, so accounting works in demo mode
+  const respond = (request: LLMRequest): unknown => {
+    const value = (options.fixtures?.[request.task] || DEFAULT_FIXTURES[request.task])(request);
+    request.onUsage?.({ model: 'fixture', inputTokens: estimateTokens(requestText(request)), outputTokens: estimateTokens(asText(value)), estimated: true });
+    return value;
+  };
+  const chunkSize = options.chunkSize || 32;
+
+  return {
+    id: 'fixture',
+
+    async generateJson<T>(request: LLMRequest): Promise<T> {
+      const value = respond(request);
+      return (typeof value === 'string' ? parseJsonText(value, request.task) : structuredClone(value)) as T;
+    },
+
+    async generateText(request: LLMRequest): Promise<string> {
+      return asText(respond(request));
+    },
+
+    async *streamText(request: LLMRequest): AsyncGenerator<string> {
+      const text = asText(respond(request));
+      for (let i = 0; i < text.length; i += chunkSize) {
+        yield text.slice(i, i + chunkSize);
+      }
+    },
+
+    async synthesizeSpeech(text: string, speech?: SpeechOptions): Promise<string> {
+      speech?.onUsage?.({ model: 'fixture', inputTokens: estimateTokens(text), outputTokens: 0, estimated: true });
+      return (options.speech || fixtureTone)(text);
+    },
+
+    async transcribeAudio(audio: string, mimeType: string, transcription?: TranscriptionOptions): Promise<string> {
+      const transcript = options.transcribe ? options.transcribe(audio, mimeType) : DEMO_TRANSCRIPT;
+      transcription?.onUsage?.({ model: 'fixture', inputTokens: estimateTokens(transcription.prompt || ''), outputTokens: estimateTokens(transcript), estimated: true });
+      return transcript;
+    },
+  };
+};
@@ -0,0 +1,166 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Modality, Schema, Type } from "@google/genai";
+import { parseJsonText } from './responseValidation';
+import { JsonSchema, LLMMessage, LLMProvider, LLMRequest, LLMUsage, SpeechOptions, TranscriptionOptions } from './types';
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+  /** Used instead of `model` once the primary model is rate limited. */
+  fallbackModel?: string;
+  ttsModel?: string;
+  voiceName?: string;
+}
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_FALLBACK_MODEL = 'gemini-flash-lite-latest';
+const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const isRetryableError = (error: any): boolean => {
+  const message = error?.message || "";
+  const status = error?.status || error?.code;
+  return (status === 500 || status === 429 || status === "UNKNOWN" || message.includes("xhr error") || message.includes("fetch"));
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+  ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+  ...(schema.properties ? {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+  } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+});
+
+const toUsage = (metadata: GenerateContentResponseUsageMetadata | undefined, model: string): LLMUsage => ({
+  model,
+  inputTokens: metadata?.promptTokenCount || 0,
+  outputTokens: metadata?.candidatesTokenCount || 0,
+});
+
+const toContents = (prompt: string | LLMMessage[]) =>
+  typeof prompt === 'string'
+    ? prompt
+    : prompt.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+const toConfig = (request: LLMRequest, json: boolean) => ({
+  thinkingConfig: { thinkingBudget: 0 },
+  ...(request.system ? { systemInstruction: request.system } : {}),
+  ...(json || request.schema ? { responseMimeType: "application/json" } : {}),
+  ...(request.schema ? { responseSchema: toGeminiSchema(request.schema) } : {}),
+});
+
+/**
+ * Google Gemini through @google/genai. Retries transient failures and drops to the
+ * fallback model when the primary one is rate limited.
+ */
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): LLMProvider => {
+  const model = options.model || DEFAULT_MODEL;
+  const fallbackModel = options.fallbackModel || DEFAULT_FALLBACK_MODEL;
+  const ttsModel = options.ttsModel || DEFAULT_TTS_MODEL;
+
+  const getAiInstance = () => {
+    const apiKey = options.apiKey ?? process.env.API_KEY;
+    if (!apiKey) throw new Error("API key is missing.");
+    return new GoogleGenAI({ apiKey });
+  };
+
+  async function generateContentWrapper(contents: any, config: any, initialModel = model, maxRetries = 2, initialDelay = 1000) {
+    const ai = getAiInstance();
+    let lastError: any;
+    let currentModel = initialModel;
+
+    for (let i = 0; i < maxRetries; i++) {
+      try {
+        const response = await ai.models.generateContent({
+          model: currentModel,
+          contents,
+          config,
+        });
+        return { response, model: currentModel };
+      } catch (error: any) {
+        lastError = error;
+        const status = error?.status || error?.code;
+
+        if (status === 429 && currentModel === model && fallbackModel !== model) {
+          console.log(`Model ${model} failed, falling back to ${fallbackModel}`);
+          currentModel = fallbackModel;
+        }
+
+        if (!isRetryableError(error) || i === maxRetries - 1) throw error;
+        const delay = initialDelay * Math.pow(2, i);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+    throw lastError;
+  }
+
+  async function* generateContentStreamWrapper(contents: any, config: any) {
+    const ai = getAiInstance();
+
+    try {
+      const response = await ai.models.generateContentStream({ model, contents, config });
+      for await (const chunk of response) {
+        yield { chunk, model };
+      }
+    } catch (error: any) {
+      const status = error?.status || error?.code;
+      if (status === 429 && fallbackModel !== model) {
+        console.log(`Stream model ${model} failed, falling back to ${fallbackModel}`);
+        const fallbackResponse = await ai.models.generateContentStream({ model: fallbackModel, contents, config });
+        for await (const chunk of fallbackResponse) {
+          yield { chunk, model: fallbackModel };
+        }
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return {
+    id: 'gemini',
+
+    async generateJson<T>(request: LLMRequest): Promise<T> {
+      const { response, model } = await generateContentWrapper(toContents(request.prompt), toConfig(request, true));
+      request.onUsage?.(toUsage(response.usageMetadata, model));
+      return parseJsonText(response.text || '', request.task) as T;
+    },
+
+    async generateText(request: LLMRequest): Promise<string> {
+      const { response, model } = await generateContentWrapper(toContents(request.prompt), toConfig(request, false));
+      request.onUsage?.(toUsage(response.usageMetadata, model));
+      return response.text || "";
+    },
+
+    async *streamText(request: LLMRequest): AsyncGenerator<string> {
+      let usage: LLMUsage | null = null;
+      for await (const { chunk, model } of generateContentStreamWrapper(toContents(request.prompt), toConfig(request, false))) {
+        // Each chunk carries the running totals, so the last one counts
+        if (chunk.usageMetadata) usage = toUsage(chunk.usageMetadata, model);
+        if (chunk.text) yield chunk.text;
+      }
+      if (usage) request.onUsage?.(usage);
+    },
+
+    async synthesizeSpeech(text: string, speech?: SpeechOptions): Promise<string> {
+      const contents = [{ parts: [{ text: `Say: ${text}` }] }];
+      const config = {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: speech?.voice || options.voiceName || 'Kore' } } },
+      };
+      const { response, model } = await generateContentWrapper(contents, config, ttsModel);
+      speech?.onUsage?.(toUsage(response.usageMetadata, model));
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+    },
+
+    async transcribeAudio(audio: string, mimeType: string, transcription?: TranscriptionOptions): Promise<string> {
+      // Gemini listens to the recording itself, so the prompt alone tells it what to write down
+      const contents = [{ parts: [{ inlineData: { mimeType, data: audio } }, { text: transcription?.prompt || 'Transcribe this recording verbatim.' }] }];
+      const { response, model } = await generateContentWrapper(contents, { thinkingConfig: { thinkingBudget: 0 } });
+      transcription?.onUsage?.(toUsage(response.usageMetadata, model));
+      return (response.text || "").trim();
+    },
+  };
+};
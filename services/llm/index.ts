@@ -0,0 +1,60 @@
+import { createFixtureProvider } from './fixtureProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMProvider, LLMProviderId } from './types';
+
+export * from './types';
+export { createGeminiProvider } from './geminiProvider';
+export type { GeminiProviderOptions } from './geminiProvider';
+export { createOpenAICompatibleProvider, LLMHttpError } from './openAICompatibleProvider';
+export type { OpenAICompatibleProviderOptions } from './openAICompatibleProvider';
+export { createFixtureProvider } from './fixtureProvider';
+export { LLMResponseError, describeLLMError, parseJsonText, conformToSchema, validateJsonText, generateValidatedJson } from './responseValidation';
+export type { ConformResult } from './responseValidation';
+export { createMeteredProvider, estimateTokens, requestText } from './metering';
+export type { MeteredCall, UsageMeter } from './metering';
+export type { Fixture, FixtureProviderOptions } from './fixtureProvider';
+
+const configuredProviderId = (): LLMProviderId | null => {
+  const id = (process.env.LLM_PROVIDER || '').trim().toLowerCase();
+  return id === 'gemini' || id === 'openai' || id === 'fixture' ? id : null;
+};
+
+/**
+ * Picks the AI backend for a user. LLM_PROVIDER wins when set; otherwise demo accounts
+ * get offline fixtures and real accounts get Gemini.
+ */
+export const createLLMProvider = (isMock: boolean): LLMProvider => {
+  const id = configuredProviderId() || (isMock ? 'fixture' : 'gemini');
+  switch (id) {
+    case 'fixture':
+      return createFixtureProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.LLM_MODEL || '',
+        apiKey: process.env.LLM_API_KEY,
+        ttsModel: process.env.LLM_TTS_MODEL,
+        transcriptionModel: process.env.LLM_STT_MODEL,
+      });
+    default:
+      return createGeminiProvider({ model: process.env.LLM_MODEL || undefined });
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * The provider every call in geminiService goes through.
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) activeProvider = createLLMProvider(false);
+  return activeProvider;
+};
+
+/**
+ * Swaps the provider for subsequent calls, e.g. on sign-in or in tests.
+ */
+export const setLLMProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
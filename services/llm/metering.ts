@@ -0,0 +1,76 @@
+import { LLMProvider, LLMRequest, LLMTask, LLMUsage, SpeechOptions, TranscriptionOptions } from './types';
+
+/** A text task, speech synthesis or transcription. */
+export type MeteredCall = LLMTask | 'speech' | 'transcription';
+
+export interface UsageMeter {
+  /** Rejects to refuse the call, e.g. when its budget is used up. */
+  beforeCall(call: MeteredCall): Promise<void>;
+  /** `followUp` calls add their tokens but not a call. */
+  record(call: MeteredCall, usage: LLMUsage, followUp?: boolean): void;
+}
+
+/**
+ * About four characters per token, for backends that report no counts.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** Everything a request sends, for estimating its input tokens. */
+export const requestText = (request: LLMRequest): string =>
+  [request.system || '', ...(typeof request.prompt === 'string' ? [request.prompt] : request.prompt.map(m => m.content))].join('\n');
+
+/**
+ * Wraps a provider so every call is checked with `meter` before it is made and its usage
+ * is recorded once the backend reports it. Follow-up requests skip the check, so one user
+ * action uses one call of its budget. Usage callbacks on the request still fire.
+ */
+export const createMeteredProvider = (provider: LLMProvider, meter: UsageMeter): LLMProvider => {
+  const metered = async (request: LLMRequest): Promise<LLMRequest> => {
+    if (!request.followUp) await meter.beforeCall(request.task);
+    return {
+      ...request,
+      onUsage: usage => {
+        meter.record(request.task, usage, request.followUp);
+        request.onUsage?.(usage);
+      },
+    };
+  };
+
+  return {
+    id: provider.id,
+
+    async generateJson<T>(request: LLMRequest): Promise<T> {
+      return provider.generateJson<T>(await metered(request));
+    },
+
+    async generateText(request: LLMRequest): Promise<string> {
+      return provider.generateText(await metered(request));
+    },
+
+    async *streamText(request: LLMRequest): AsyncGenerator<string> {
+      yield* provider.streamText(await metered(request));
+    },
+
+    async synthesizeSpeech(text: string, speech?: SpeechOptions): Promise<string> {
+      await meter.beforeCall('speech');
+      return provider.synthesizeSpeech(text, {
+        ...speech,
+        onUsage: usage => {
+          meter.record('speech', usage);
+          speech?.onUsage?.(usage);
+        },
+      });
+    },
+
+    async transcribeAudio(audio: string, mimeType: string, transcription?: TranscriptionOptions): Promise<string> {
+      await meter.beforeCall('transcription');
+      return provider.transcribeAudio(audio, mimeType, {
+        ...transcription,
+        onUsage: usage => {
+          meter.record('transcription', usage);
+          transcription?.onUsage?.(usage);
+        },
+      });
+    },
+  };
+};
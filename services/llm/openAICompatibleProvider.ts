@@ -0,0 +1,169 @@
+import { decode, encode } from '../../utils/audioHelpers';
+import { parseJsonText } from './responseValidation';
+import { estimateTokens, requestText } from './metering';
+import { LLMMessage, LLMProvider, LLMRequest, LLMUsage, SpeechOptions, TranscriptionOptions } from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  /** e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Omitted from the request when empty, which is what most local servers expect. */
+  apiKey?: string;
+  /** Leave empty on servers without /audio/speech; speech then resolves to ''. */
+  ttsModel?: string;
+  voice?: string;
+  /** e.g. whisper-1. Leave empty on servers without /audio/transcriptions; transcription then fails. */
+  transcriptionModel?: string;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Carries the HTTP status so callers can tell rate limits and outages from bad requests,
+ * like the errors thrown by @google/genai.
+ */
+export class LLMHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'LLMHttpError';
+  }
+}
+
+const toMessages = (request: LLMRequest) => {
+  const messages: { role: 'system' | LLMMessage['role']; content: string }[] = [];
+  if (request.system) messages.push({ role: 'system', content: request.system });
+  if (typeof request.prompt === 'string') messages.push({ role: 'user', content: request.prompt });
+  else messages.push(...request.prompt);
+  return messages;
+};
+
+/**
+ * Reads an OpenAI `usage` object. Servers that leave it out get an estimate instead.
+ */
+const toUsage = (usage: any, request: LLMRequest, output: string, model: string): LLMUsage =>
+  usage && typeof usage.prompt_tokens === 'number'
+    ? { model, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 }
+    : { model, inputTokens: estimateTokens(requestText(request)), outputTokens: estimateTokens(output), estimated: true };
+
+const toResponseFormat = (request: LLMRequest, json: boolean) => {
+  if (request.schema) return { type: 'json_schema', json_schema: { name: request.task, schema: request.schema } };
+  return json ? { type: 'json_object' } : undefined;
+};
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself, or a local
+ * llama.cpp, Ollama, vLLM or LM Studio instance.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleProviderOptions): LLMProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const doFetch = options.fetchImpl || ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  const post = async (path: string, body: Record<string, unknown> | FormData): Promise<Response> => {
+    // FormData bodies set their own multipart Content-Type
+    const isForm = body instanceof FormData;
+    const response = await doFetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: isForm ? body : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMHttpError(`${path} failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+    }
+    return response;
+  };
+
+  const complete = async (request: LLMRequest, json: boolean): Promise<string> => {
+    const response = await post('/chat/completions', {
+      model: options.model,
+      messages: toMessages(request),
+      response_format: toResponseFormat(request, json),
+    });
+    const data = await response.json();
+    const content: string = data?.choices?.[0]?.message?.content || '';
+    request.onUsage?.(toUsage(data?.usage, request, content, options.model));
+    return content;
+  };
+
+  return {
+    id: 'openai',
+
+    async generateJson<T>(request: LLMRequest): Promise<T> {
+      // parseJsonText also drops the ```json fence some local models add despite response_format
+      return parseJsonText(await complete(request, true), request.task) as T;
+    },
+
+    async generateText(request: LLMRequest): Promise<string> {
+      return complete(request, false);
+    },
+
+    async *streamText(request: LLMRequest): AsyncGenerator<string> {
+      const response = await post('/chat/completions', {
+        model: options.model,
+        messages: toMessages(request),
+        response_format: toResponseFormat(request, false),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      if (!response.body) throw new LLMHttpError('/chat/completions returned no stream', response.status);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      let usage: any = null;
+      reading: while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.trim();
+          if (!payload.startsWith('data:')) continue;
+          const data = payload.slice(5).trim();
+          if (data === '[DONE]') break reading;
+          const parsed = JSON.parse(data);
+          // With include_usage, the last chunk before [DONE] has the totals and no choices
+          if (parsed?.usage) usage = parsed.usage;
+          const delta = parsed?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            yield delta;
+          }
+        }
+      }
+      request.onUsage?.(toUsage(usage, request, text, options.model));
+    },
+
+    async synthesizeSpeech(text: string, speech?: SpeechOptions): Promise<string> {
+      if (!options.ttsModel) return '';
+      const response = await post('/audio/speech', {
+        model: options.ttsModel,
+        input: text,
+        voice: options.voice || 'alloy',
+        response_format: 'pcm',
+      });
+      // The speech endpoint reports no usage
+      speech?.onUsage?.({ model: options.ttsModel, inputTokens: estimateTokens(text), outputTokens: 0, estimated: true });
+      return encode(new Uint8Array(await response.arrayBuffer()));
+    },
+
+    async transcribeAudio(audio: string, mimeType: string, transcription?: TranscriptionOptions): Promise<string> {
+      if (!options.transcriptionModel) throw new Error('No transcription model is configured.');
+      const form = new FormData();
+      form.append('file', new Blob([decode(audio).buffer as ArrayBuffer], { type: mimeType }), `recording.${mimeType.split(/[/;]/)[1] || 'webm'}`);
+      form.append('model', options.transcriptionModel);
+      // Whisper takes an ISO 639-1 language and a short prompt that steers spelling and style
+      if (transcription?.locale) form.append('language', transcription.locale.split('-')[0]);
+      if (transcription?.prompt) form.append('prompt', transcription.prompt);
+      const data = await (await post('/audio/transcriptions', form)).json();
+      const text: string = (data?.text || '').trim();
+      // The transcription endpoint reports no usage
+      transcription?.onUsage?.({ model: options.transcriptionModel, inputTokens: estimateTokens(transcription.prompt || ''), outputTokens: estimateTokens(text), estimated: true });
+      return text;
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider } from './fixtureProvider';
+import { conformToSchema, generateValidatedJson, LLMResponseError, parseJsonText } from './responseValidation';
+import { JsonSchema, LLMRequest } from './types';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 0, maximum: 100 },
+    level: { type: 'string', enum: ['Intermediate', 'Advanced', 'Native'] },
+    corrections: { type: 'array', items: { type: 'object', properties: { original: { type: 'string' } }, required: ['original'] } },
+    notes: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['score', 'corrections'],
+};
+
+describe('parseJsonText', () => {
+  it('reads JSON behind a fence or a sentence', () => {
+    expect(parseJsonText('```json\n{"a": 1}\n```', 'analysis')).toEqual({ a: 1 });
+    expect(parseJsonText('Here you go: [1, 2]', 'analysis')).toEqual([1, 2]);
+  });
+
+  it('treats output cut off mid-way as malformed', () => {
+    for (const text of ['{"score": 80, "corrections": [{"original": "go', '{"score": 80, "corrections": [', 'no json at all']) {
+      expect(() => parseJsonText(text, 'analysis')).toThrow(LLMResponseError);
+      try {
+        parseJsonText(text, 'analysis');
+      } catch (error) {
+        expect((error as LLMResponseError).kind).toBe('malformed');
+      }
+    }
+  });
+});
+
+describe('conformToSchema', () => {
+  it('repairs present fields that hold bad values', () => {
+    const { value, issues } = conformToSchema({ score: '140', level: 'advanced', corrections: [{ original: 'x' }, { other: 1 }] }, SCHEMA);
+    expect(issues).toEqual([]);
+    expect(value).toEqual({ score: 100, level: 'Advanced', corrections: [{ original: 'x' }], notes: [] });
+  });
+
+  it('reports missing required fields instead of filling them in', () => {
+    expect(conformToSchema({ score: 50 }, SCHEMA).issues).toEqual(['$.corrections is missing']);
+    expect(conformToSchema({ corrections: [] }, SCHEMA).issues).toEqual(['$.score is missing']);
+  });
+});
+
+describe('generateValidatedJson', () => {
+  const request = (): LLMRequest & { schema: JsonSchema } => ({ task: 'analysis', prompt: 'Analyse this.', schema: SCHEMA });
+
+  it('asks once more when the first response is unusable', async () => {
+    const fixture = vi.fn()
+      .mockReturnValueOnce('{"score": 80, "corrections": [')
+      .mockReturnValueOnce({ score: 80, corrections: [] });
+    const provider = createFixtureProvider({ fixtures: { analysis: fixture } });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(generateValidatedJson(provider, request())).resolves.toEqual({ score: 80, corrections: [], notes: [] });
+    expect(fixture).toHaveBeenCalledTimes(2);
+    expect(String(fixture.mock.calls[1][0].prompt)).toContain('could not be used');
+  });
+
+  it('gives up after the bounded re-ask', async () => {
+    const provider = createFixtureProvider({ fixtures: { analysis: () => ({ score: 80 }) } });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(generateValidatedJson(provider, request())).rejects.toMatchObject({ kind: 'invalid', issues: ['$.corrections is missing'] });
+  });
+});
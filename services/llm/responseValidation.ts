@@ -0,0 +1,157 @@
+import { JsonSchema, LLMProvider, LLMRequest, LLMTask } from './types';
+
+/**
+ * A structured response that was still unusable after repair. `malformed` means no JSON
+ * could be read from it, `invalid` that it did not match the request's schema.
+ */
+export class LLMResponseError extends Error {
+  constructor(public task: LLMTask, public kind: 'malformed' | 'invalid', public issues: string[]) {
+    super(`${task} response ${kind === 'malformed' ? 'is not JSON' : 'does not match its schema'}: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'LLMResponseError';
+  }
+
+  /** A message for the Chinese UI. */
+  get userMessage(): string {
+    return this.kind === 'malformed'
+      ? 'AI 返回的内容不完整，请重试。'
+      : 'AI 返回的内容缺少必要信息，请重试。';
+  }
+}
+
+/**
+ * The message to show for a failed AI call: the error's own `userMessage` when it has one,
+ * as unusable responses and used-up budgets do, and `fallback` for everything else.
+ */
+export const describeLLMError = (error: unknown, fallback: string): string => {
+  const userMessage = error instanceof Error ? (error as Error & { userMessage?: unknown }).userMessage : undefined;
+  return typeof userMessage === 'string' ? userMessage : fallback;
+};
+
+/**
+ * Parses a JSON response, tolerating a ```json fence or a sentence before the JSON. Output
+ * that was cut off mid-way is malformed rather than closed up, so the response is asked
+ * for again instead of passing with whatever fields it happened to reach.
+ */
+export const parseJsonText = (text: string, task: LLMTask): unknown => {
+  const fenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = fenced.search(/[[{]/);
+  const body = start > 0 ? fenced.slice(start) : fenced;
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new LLMResponseError(task, 'malformed', [`unreadable (${reason}): ${body.slice(0, 80)}`]);
+  }
+};
+
+export interface ConformResult {
+  value: unknown;
+  /** What could not be repaired, as JSON paths. Empty when the value is usable. */
+  issues: string[];
+}
+
+const matchEnum = (value: string, options: string[]): string =>
+  options.find(o => o === value) || options.find(o => o.toLowerCase() === value.trim().toLowerCase()) || options[0];
+
+/**
+ * Checks `value` against `schema` and repairs fields that are present but hold a bad value:
+ * numbers and booleans sent as strings are converted, numbers are clamped to minimum and
+ * maximum, an unknown enum value becomes the closest match or the first option, and array
+ * items that cannot be repaired are dropped. A missing required property is an issue; a
+ * missing optional array becomes empty. Unlisted properties are kept.
+ */
+export const conformToSchema = (value: unknown, schema: JsonSchema, path = '$'): ConformResult => {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return { value, issues: [`${path} is not an object`] };
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      const issues: string[] = [];
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const property = result[key];
+        if (property === undefined || property === null) {
+          if (schema.required?.includes(key)) issues.push(`${path}.${key} is missing`);
+          else if (propertySchema.type === 'array') result[key] = [];
+          else delete result[key];
+          continue;
+        }
+        const conformed = conformToSchema(property, propertySchema, `${path}.${key}`);
+        result[key] = conformed.value;
+        issues.push(...conformed.issues);
+      }
+      return { value: result, issues };
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return { value, issues: [`${path} is not an array`] };
+      if (!schema.items) return { value, issues: [] };
+      const items = value
+        .map((item, i) => conformToSchema(item, schema.items!, `${path}[${i}]`))
+        .filter(item => item.issues.length === 0)
+        .map(item => item.value);
+      return { value: items, issues: [] };
+    }
+    case 'string': {
+      if (typeof value === 'number' || typeof value === 'boolean') value = String(value);
+      if (typeof value !== 'string') return { value, issues: [`${path} is not a string`] };
+      return { value: schema.enum ? matchEnum(value, schema.enum) : value, issues: [] };
+    }
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return { value, issues: [`${path} is not a number`] };
+      let clamped = Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, number));
+      if (schema.type === 'integer') clamped = Math.round(clamped);
+      return { value: clamped, issues: [] };
+    }
+    case 'boolean': {
+      if (value === 'true' || value === 'false') value = value === 'true';
+      if (typeof value !== 'boolean') return { value, issues: [`${path} is not a boolean`] };
+      return { value, issues: [] };
+    }
+  }
+};
+
+/**
+ * Parses, repairs and validates a complete response text, e.g. the concatenated chunks of
+ * a stream. Throws LLMResponseError when it is unusable.
+ */
+export const validateJsonText = <T>(text: string, task: LLMTask, schema: JsonSchema): T => {
+  const { value, issues } = conformToSchema(parseJsonText(text, task), schema);
+  if (issues.length > 0) throw new LLMResponseError(task, 'invalid', issues);
+  return value as T;
+};
+
+/**
+ * Adds what was wrong with the last response to the request, so the model can fix it.
+ */
+const withCorrection = (request: LLMRequest, error: LLMResponseError): LLMRequest => {
+  const note = `Your previous response could not be used (${error.issues.slice(0, 5).join('; ')}). Reply again with only JSON that matches the schema.`;
+  return {
+    ...request,
+    followUp: true,
+    prompt: typeof request.prompt === 'string'
+      ? `${request.prompt}\n\n${note}`
+      : [...request.prompt, { role: 'user', content: note }],
+  };
+};
+
+/**
+ * generateJson with the response checked against `request.schema`. An unusable response
+ * is asked for again, up to `attempts` requests in total, before LLMResponseError is
+ * thrown. Transport errors are not retried here; the providers handle those.
+ */
+export const generateValidatedJson = async <T>(provider: LLMProvider, request: LLMRequest & { schema: JsonSchema }, attempts = 2): Promise<T> => {
+  let lastError: LLMResponseError | null = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      const raw = await provider.generateJson<unknown>(lastError ? withCorrection(request, lastError) : request);
+      const { value, issues } = conformToSchema(raw, request.schema);
+      if (issues.length === 0) return value as T;
+      lastError = new LLMResponseError(request.task, 'invalid', issues);
+    } catch (error) {
+      if (!(error instanceof LLMResponseError)) throw error;
+      lastError = error;
+    }
+    console.warn(`Unusable ${request.task} response (attempt ${attempt + 1}/${attempts}):`, lastError.issues);
+  }
+  throw lastError!;
+};
@@ -0,0 +1,91 @@
+/**
+ * A provider-neutral subset of JSON Schema. Each provider translates it into
+ * whatever its API expects for structured output.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  /** Bounds for numbers. Out-of-range values are clamped when the response is validated. */
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What a request is for. Fixture providers answer by task instead of reading the prompt.
+ */
+export type LLMTask =
+  | 'analysis'
+  | 'retelling'
+  | 'chat'
+  | 'chatSummary'
+  | 'vocabUsage'
+  | 'practiceArtifact'
+  | 'weavedArtifact'
+  | 'muses'
+  | 'gemRetry'
+  | 'fragment'
+  | 'clozeCheck';
+
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string | LLMMessage[];
+  system?: string;
+  /** Asks for JSON matching this schema. JSON requests without a schema get free-form JSON. */
+  schema?: JsonSchema;
+  /** The values the prompt was built from, so fixture providers can echo them back. */
+  input?: Record<string, unknown>;
+  /** Called once the call's token usage is known. */
+  onUsage?: (usage: LLMUsage) => void;
+  /**
+   * A re-ask or fallback made on behalf of a request already sent, e.g. after an unusable
+   * response. Its tokens are recorded, but it is not budget-checked or counted as a call.
+   */
+  followUp?: boolean;
+}
+
+export interface SpeechOptions {
+  /** A Gemini prebuilt voice name. Backends with their own voice names keep their configured voice. */
+  voice?: string;
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface TranscriptionOptions {
+  /** What to listen for and how to write it down, for backends that take instructions. */
+  prompt?: string;
+  /** The spoken language as a BCP 47 locale, e.g. 'ja-JP'. */
+  locale?: string;
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface LLMUsage {
+  /** The model that actually answered, which may be a fallback. */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** True when the backend reported no counts and they were estimated from the text. */
+  estimated?: boolean;
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  /** Resolves to the parsed JSON response. */
+  generateJson<T>(request: LLMRequest): Promise<T>;
+  generateText(request: LLMRequest): Promise<string>;
+  /** Yields the response text as it arrives. With a schema, the chunks concatenate to JSON. */
+  streamText(request: LLMRequest): AsyncGenerator<string>;
+  /** Speaks `text`. Resolves to base64 16-bit mono PCM at 24 kHz, or '' when nothing was produced. */
+  synthesizeSpeech(text: string, speech?: SpeechOptions): Promise<string>;
+  /** Writes down what is said in a recording. `audio` is base64 in the given container, e.g. audio/webm. */
+  transcribeAudio(audio: string, mimeType: string, options?: TranscriptionOptions): Promise<string>;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'fixture';
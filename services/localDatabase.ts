@@ -0,0 +1,34 @@
+import { openDB, IDBPDatabase } from 'idb';
+
+// The database predates the analysis queue, hence the audio-specific name
+const DB_NAME = 'linguist_audio_cache';
+const DB_VERSION = 3;
+
+export const AUDIO_STORE = 'audio_blobs';
+export const ANALYSIS_QUEUE_STORE = 'analysis_queue';
+export const RECORDING_STORE = 'retelling_recordings';
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+/**
+ * The browser-side IndexedDB shared by the audio cache, the offline analysis queue and
+ * recorded retellings.
+ */
+export const getLocalDB = () => {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE);
+        }
+        if (!db.objectStoreNames.contains(ANALYSIS_QUEUE_STORE)) {
+          db.createObjectStore(ANALYSIS_QUEUE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE);
+        }
+      },
+    });
+  }
+  return dbPromise;
+};
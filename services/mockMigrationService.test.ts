@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { AdvancedVocab, PracticeRecord } from '../types';
+import { DEMO_USER_ID, hasMockData, migrateMockData } from './mockMigrationService';
+import { createMemoryRepositories, MemoryStorage } from './repositories/memoryRepository';
+
+const gem = (id: string, patch: Partial<AdvancedVocab> = {}) =>
+  ({ id, word: 'head home', meaning: '回家', usage: '', level: 'Advanced', language: 'English', timestamp: 1, mastery: 1, ...patch }) as AdvancedVocab;
+
+const practice = (vocabId: string, timestamp: number, sentence: string): PracticeRecord =>
+  ({ id: `${vocabId}-${timestamp}`, vocabId, sentence, feedback: '', timestamp, status: 'Perfect' });
+
+describe('migrateMockData', () => {
+  it('merges a duplicate gem\'s practices and newer schedule into the account\'s gem', async () => {
+    const storage = new MemoryStorage();
+    const demo = createMemoryRepositories(DEMO_USER_ID, storage);
+    const demoSrs = { due: 5_000, interval: 6, ease: 2.6, reps: 2, lapses: 1, lastReviewed: 4_000 };
+    await demo.vocab.saveVocabs([gem('demo', { mastery: 3, srs: demoSrs, lastReviewTimestamp: 4_000 })], []);
+    await demo.vocab.addPractice('demo', practice('demo', 1_000, 'We headed home.'));
+    await demo.vocab.addPractice('demo', practice('demo', 4_000, 'They headed home late.'));
+
+    const target = createMemoryRepositories('account');
+    await target.vocab.saveVocabs([gem('mine', { srs: { ...demoSrs, lapses: 0, lastReviewed: 2_000 }, lastReviewTimestamp: 2_000 })], []);
+    await target.vocab.addPractice('mine', practice('mine', 1_000, 'We headed home.'));
+
+    const summary = await migrateMockData(target, storage);
+    expect(summary).toMatchObject({ vocab: 0, practices: 1, skipped: 1 });
+
+    const [merged] = await target.vocab.listVocab();
+    expect(merged).toMatchObject({ id: 'mine', mastery: 3, srs: demoSrs, lastReviewTimestamp: 4_000 });
+    expect((await target.vocab.listPractices('mine')).map(p => p.sentence)).toEqual(['They headed home late.', 'We headed home.']);
+    expect(hasMockData(storage)).toBe(false);
+  });
+
+  it('keeps the account\'s schedule when it was reviewed more recently', async () => {
+    const storage = new MemoryStorage();
+    const ownSrs = { due: 9_000, interval: 10, ease: 2.5, reps: 3, lapses: 0, lastReviewed: 8_000 };
+    await createMemoryRepositories(DEMO_USER_ID, storage).vocab.saveVocabs([gem('demo', { srs: { ...ownSrs, lastReviewed: 1_000 } })], []);
+    const target = createMemoryRepositories('account');
+    await target.vocab.saveVocabs([gem('mine', { mastery: 4, srs: ownSrs })], []);
+
+    await migrateMockData(target, storage);
+    expect((await target.vocab.listVocab())[0]).toMatchObject({ mastery: 4, srs: ownSrs });
+  });
+});
@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AdvancedVocab, DiaryEntry } from '../types';
+import { normalizeVocabWord } from '../utils/vocabHelpers';
+import { exportBackupBundle, restoreBackupBundle, ImportSummary } from './backupService';
+import { createLocalRepositories, KeyValueStorage, localStorageKeys, Repositories } from './repositories';
+
+/**
+ * The uid AuthView's demo login stores its data under.
+ */
+export const DEMO_USER_ID = 'demo_user';
+
+const dismissedKey = (uid: string) => `linguist_migration_dismissed_${uid}`;
+
+const vocabKey = (v: Pick<AdvancedVocab, 'word' | 'language'>) => `${v.language}|${normalizeVocabWord(v.word)}`;
+
+export interface MockMigrationPreview {
+  entries: number;
+  iterations: number;
+  vocab: number;
+  practices: number;
+  fragments: number;
+  /** Gems that already exist in the target account and will be merged into it. */
+  duplicateVocab: string[];
+  /** A few of the most recent entries, to help recognise the data. */
+  sampleEntries: Pick<DiaryEntry, 'id' | 'date' | 'originalText' | 'language'>[];
+}
+
+/**
+ * Whether the demo account left anything behind on this device.
+ */
+export const hasMockData = (storage: KeyValueStorage = localStorage): boolean => {
+  const keys = localStorageKeys(DEMO_USER_ID);
+  return [keys.entries, keys.vocab, keys.fragments].some(key => {
+    try {
+      const value = JSON.parse(storage.getItem(key) || '[]');
+      return Array.isArray(value) && value.length > 0;
+    } catch {
+      return false;
+    }
+  });
+};
+
+export const isMigrationDismissed = (uid: string, storage: KeyValueStorage = localStorage): boolean =>
+  storage.getItem(dismissedKey(uid)) === '1';
+
+/**
+ * Stops the first sign-in prompt from reappearing. The migration stays available from the profile page.
+ */
+export const dismissMigration = (uid: string, storage: KeyValueStorage = localStorage) => {
+  storage.setItem(dismissedKey(uid), '1');
+};
+
+/**
+ * Summarises what a migration into `target` would upload.
+ */
+export const previewMockMigration = async (target: Repositories, storage: KeyValueStorage = localStorage): Promise<MockMigrationPreview> => {
+  const bundle = await exportBackupBundle(createLocalRepositories(DEMO_USER_ID, storage));
+  const existing = new Set((await target.vocab.listVocab()).map(vocabKey));
+
+  return {
+    entries: bundle.entries.length,
+    iterations: bundle.entries.reduce((sum, e) => sum + (e.iterations?.length || 0), 0),
+    vocab: bundle.vocab.length,
+    practices: bundle.vocab.reduce((sum, v) => sum + (v.practices?.length || 0), 0),
+    fragments: bundle.fragments.length,
+    duplicateVocab: bundle.vocab.filter(v => existing.has(vocabKey(v))).map(v => v.word),
+    sampleEntries: bundle.entries.slice(0, 3).map(({ id, date, originalText, language }) => ({ id, date, originalText, language }))
+  };
+};
+
+/**
+ * Moves a demo gem's history onto the account's copy of the same gem: practice records the
+ * account lacks are added, and the schedule of whichever copy was reviewed last is kept.
+ * Resolves to the number of practice records added.
+ */
+const mergeDuplicateGem = async (target: Repositories, existing: AdvancedVocab, demo: AdvancedVocab): Promise<number> => {
+  const practiceKey = (p: { timestamp: number; sentence: string }) => `${p.timestamp}|${p.sentence}`;
+  const known = new Set((await target.vocab.listPractices(existing.id)).map(practiceKey));
+  const added = (demo.practices || []).filter(p => !known.has(practiceKey(p)));
+  for (const p of added) {
+    await target.vocab.addPractice(existing.id, { ...p, id: uuidv4(), vocabId: existing.id });
+  }
+
+  const patch: Partial<AdvancedVocab> = {};
+  if ((demo.mastery || 0) > (existing.mastery || 0)) patch.mastery = demo.mastery;
+  if ((demo.lastReviewTimestamp || 0) > (existing.lastReviewTimestamp || 0)) patch.lastReviewTimestamp = demo.lastReviewTimestamp;
+  if (demo.srs && (demo.srs.lastReviewed || 0) > (existing.srs?.lastReviewed || 0)) patch.srs = demo.srs;
+  if (Object.keys(patch).length > 0) await target.vocab.updateVocab(existing.id, patch);
+  return added.length;
+};
+
+/**
+ * Uploads the demo account's data into `target`, merging duplicate gems' history into the
+ * account's copy, then removes the local copy.
+ * The local data is only cleared once every write has succeeded.
+ */
+export const migrateMockData = async (target: Repositories, storage: KeyValueStorage = localStorage): Promise<ImportSummary> => {
+  const bundle = await exportBackupBundle(createLocalRepositories(DEMO_USER_ID, storage));
+  const existing = new Map((await target.vocab.listVocab()).map(v => [vocabKey(v), v]));
+  const summary = await restoreBackupBundle(target, bundle, 'merge');
+  for (const gem of bundle.vocab) {
+    const match = existing.get(vocabKey(gem));
+    if (match) summary.practices += await mergeDuplicateGem(target, match, gem);
+  }
+  Object.values(localStorageKeys(DEMO_USER_ID)).forEach(key => storage.removeItem(key));
+  return summary;
+};
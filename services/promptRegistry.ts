@@ -0,0 +1,241 @@
+import { DifficultyId, getLanguage } from "../utils/languages";
+
+/**
+ * The variables each prompt is rendered from.
+ */
+export interface PromptVariables {
+  analysis: { language: string; text: string; historyContext: string; profileContext: string };
+  retelling: { language: string; source: string; retelling: string };
+  chat: { language: string };
+  chatSummary: { transcript: string };
+  vocabUsage: { language: string; wordsContext: string; sentence: string };
+  practiceArtifact: { language: string; keywords: string; difficultyId: string; topicLabel: string };
+  weavedArtifact: { language: string; words: string[] };
+  muses: { language: string };
+  gemRetry: { language: string; words: string[] };
+  fragment: { language: string; content: string };
+  transcription: { language: string };
+  clozeCheck: { language: string; sentence: string; expected: string; original: string; answer: string };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<K extends PromptId> {
+  id: K;
+  /** Bump whenever the rendered text changes, so stored results can be traced to the prompt that produced them. */
+  version: number;
+  render: (variables: PromptVariables[K]) => string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  /** `id@version`, stamped on the records the response ends up in. */
+  version: string;
+}
+
+const analysisTemplate: PromptTemplate<'analysis'> = {
+  id: 'analysis',
+  version: 1,
+  render: ({ language, text, historyContext, profileContext }) => {
+    const japaneseInstruction = `3.  **Japanese Specifics**: For Japanese text, 'advancedVocab.word' and 'advancedVocab.usage' must use Furigana markdown format, e.g., [漢字](かんじ). Ensure 'readingPairs' is complete for all Kanji in the vocab. 'advancedVocab.meaning' must be plain text.`;
+    const defaultInstruction = `3.  **Vocabulary Formatting**: For 'advancedVocab.word' and 'advancedVocab.usage', present the terms and sentences as plain text without any special formatting.`;
+
+    return `You are an expert language tutor. Analyze the following text written in ${language}.
+Your task is to provide a comprehensive analysis based on the JSON schema.
+
+User's Text:
+---
+${text}
+---
+
+Recent Feedback Context (for personalization):
+---
+${historyContext || 'No recent history.'}
+---
+${profileContext ? `
+Learner's Recurring Error Patterns (watch for repeats and mention it in 'overallFeedback' when one is now avoided):
+---
+${profileContext}
+---
+` : ''}
+Key Instructions:
+1.  **Correction Style**: Only correct grammatical errors or unnatural phrasing. Preserve the user's original style and voice.
+2.  **Monolingual Definitions**: All explanations and definitions ('advancedVocab.meaning', 'corrections.explanation') must be in ${language}.
+${getLanguage(language).rubyScheme === 'furigana' ? japaneseInstruction : defaultInstruction}
+
+Produce only the JSON output that adheres to the provided schema.`;
+  },
+};
+
+const retellingTemplate: PromptTemplate<'retelling'> = {
+  id: 'retelling',
+  version: 1,
+  render: ({ language, source, retelling }) => `
+      You are a language evaluation expert. Your task is to compare a user's retelling of a source text and provide a detailed evaluation in ${language}.
+
+      **Source Text:**
+      ---
+      ${source}
+      ---
+
+      **User's Retelling:**
+      ---
+      ${retelling}
+      ---
+
+      **Your Task:**
+      1.  **Score Accuracy (0-100):** How faithfully does the retelling capture the key information and meaning of the source?
+      2.  **Score Quality (0-100):** Evaluate the grammatical correctness, style, and naturalness of the user's language.
+      3.  **Provide Feedback:** Write two distinct feedback paragraphs in ${language}:
+          - **Content Feedback:** Comment on what the user did well and what they missed from the source text.
+          - **Language Feedback:** Comment on grammar, vocabulary, and style in the user's retelling.
+      4.  **Suggest an Improved Version:** Rewrite the user's retelling to be more accurate and natural. Preserve as much of the user's original phrasing as possible if it is already correct and natural.
+      5.  **Recommend Vocabulary (Gems):** Extract 3-5 key vocabulary words or phrases from your suggested version that would be beneficial for the user to learn. For each, provide the word, its meaning in ${language}, and a simple usage example.
+
+      **Output MUST be valid JSON that adheres to the schema.**
+    `,
+};
+
+const chatTemplate: PromptTemplate<'chat'> = {
+  id: 'chat',
+  version: 1,
+  render: ({ language }) => `You are a language tutor in ${language}. Short responses (max 2 sentences).`,
+};
+
+const chatSummaryTemplate: PromptTemplate<'chatSummary'> = {
+  id: 'chatSummary',
+  version: 1,
+  render: ({ transcript }) => `Summary to 1-sentence prompt: ${transcript}`,
+};
+
+const vocabUsageTemplate: PromptTemplate<'vocabUsage'> = {
+  id: 'vocabUsage',
+  version: 1,
+  render: ({ language, wordsContext, sentence }) => `
+    Target Words:
+    ${wordsContext}
+
+    User's Sentence: "${sentence}"
+
+    Task:
+    1. Check if the user used the target words correctly and naturally in the sentence.
+    2. Provide feedback in ${language}.
+    3. If the user has a history of errors provided, check if they repeated them.
+    4. Suggest a better, more natural version of the sentence.
+    5. Extract 1-2 high-quality phrases or collocations from your suggested version as "keyPhrases".
+  `,
+};
+
+const practiceArtifactTemplate: PromptTemplate<'practiceArtifact'> = {
+  id: 'practiceArtifact',
+  version: 1,
+  render: ({ language, keywords, difficultyId, topicLabel }) => {
+    // Logic fix for 'Random' topic to ensure it doesn't just discuss 'randomness'
+    const effectiveTopic = topicLabel === '随机'
+      ? "Pick a random, engaging topic suitable for a language learner, covering themes of daily life, travel, or work. Examples: describing a favorite local cafe, planning a weekend trip, discussing a recent project at work, talking about a hobby."
+      : `Topic: ${topicLabel}`;
+
+    return `
+      You are a language content creator. Your task is to generate a short, engaging text based on the user's request.
+
+      **Request Details:**
+      - **Topic:** ${effectiveTopic}
+      - **Language:** ${language}
+      - **Keywords to include:** ${keywords}
+      - **Difficulty Level:** ${difficultyId} (${getLanguage(language).difficultyLabels[difficultyId as DifficultyId] || difficultyId})
+
+      **Strict Output Requirements:**
+      1.  **Content Only:** Provide only the generated text, with no extra commentary, titles, or explanations.
+      2.  **Length Constraint (${difficultyId}):**
+          - If Difficulty is 'Beginner', the text MUST be between 80 and 120 characters long.
+          - For other difficulties, aim for a concise paragraph (around 150-200 characters).
+${getLanguage(language).rubyScheme === 'furigana' ? `      3.  **Japanese Formatting:**
+          - You MUST use HTML <ruby> tags for Furigana (e.g., <ruby>漢字<rt>かんじ</rt></ruby>).
+          - DO NOT use the format: 漢字(かんじ).
+` : ''}
+      Begin generating the text now.
+    `;
+  },
+};
+
+const weavedArtifactTemplate: PromptTemplate<'weavedArtifact'> = {
+  id: 'weavedArtifact',
+  version: 1,
+  render: ({ language, words }) => {
+    const japaneseInstruction = `
+2.  **Japanese Formatting:** You MUST use HTML <ruby> tags for Furigana (e.g., <ruby>漢字<rt>かんじ</rt></ruby>). DO NOT use the format: 漢字(かんじ).`;
+
+    return `You are a language content creator. Your task is to generate a short, engaging text in ${language} that naturally incorporates the following words: ${words.join(', ')}.
+
+**Strict Output Requirements:**
+1.  **Content Only:** Provide only the generated ${language} text, with no extra commentary, titles, or explanations.
+${getLanguage(language).rubyScheme === 'furigana' ? japaneseInstruction : ''}
+
+Begin generating the text now.`;
+  },
+};
+
+const musesTemplate: PromptTemplate<'muses'> = {
+  id: 'muses',
+  version: 1,
+  render: ({ language }) => `3 diary writing prompts in ${language}, each with a short title and an emoji icon.`,
+};
+
+const gemRetryTemplate: PromptTemplate<'gemRetry'> = {
+  id: 'gemRetry',
+  version: 1,
+  render: ({ language, words }) =>
+    `For the following list of words in ${language}, provide a concise meaning (in ${language}) and a simple usage example sentence for each: ${words.join(', ')}`,
+};
+
+const fragmentTemplate: PromptTemplate<'fragment'> = {
+  id: 'fragment',
+  version: 1,
+  render: ({ language, content }) => `Fragment: "${content}". Meaning(CN), Usage(${language}).`,
+};
+
+const transcriptionTemplate: PromptTemplate<'transcription'> = {
+  id: 'transcription',
+  version: 1,
+  render: ({ language }) =>
+    `Transcribe this recording of a learner retelling a text in ${language}. Write down exactly what is said, keeping grammar mistakes and wrong words; do not correct, translate or comment. Leave out fillers like "um". Output only the transcript.`,
+};
+
+const clozeCheckTemplate: PromptTemplate<'clozeCheck'> = {
+  id: 'clozeCheck',
+  version: 1,
+  render: ({ language, sentence, expected, original, answer }) => `
+    A learner of ${language} is filling in the blank (___) in a sentence from their own corrected diary.
+
+    Sentence: "${sentence}"
+    Expected answer: "${expected}"
+    What the learner first wrote there, before correction: "${original}"
+    Learner's answer: "${answer}"
+
+    Task:
+    1. Decide whether the learner's answer is also correct and natural in the blank. Small typos that change the word, or repeating the original mistake, are not correct.
+    2. Give one or two sentences of feedback in ${language} explaining the difference from the expected answer.
+  `,
+};
+
+export const PROMPTS: { [K in PromptId]: PromptTemplate<K> } = {
+  analysis: analysisTemplate,
+  retelling: retellingTemplate,
+  chat: chatTemplate,
+  chatSummary: chatSummaryTemplate,
+  vocabUsage: vocabUsageTemplate,
+  practiceArtifact: practiceArtifactTemplate,
+  weavedArtifact: weavedArtifactTemplate,
+  muses: musesTemplate,
+  gemRetry: gemRetryTemplate,
+  fragment: fragmentTemplate,
+  transcription: transcriptionTemplate,
+  clozeCheck: clozeCheckTemplate,
+};
+
+export const promptVersion = (id: PromptId): string => `${id}@${PROMPTS[id].version}`;
+
+export const renderPrompt = <K extends PromptId>(id: K, variables: PromptVariables[K]): RenderedPrompt => ({
+  text: (PROMPTS[id] as PromptTemplate<K>).render(variables),
+  version: promptVersion(id),
+});
@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RetellingRecording } from '../types';
+import { encode } from '../utils/audioHelpers';
+import { getLocalDB, RECORDING_STORE } from './localDatabase';
+
+/** Recordings stop by themselves after this long. */
+export const MAX_RECORDING_MS = 3 * 60 * 1000;
+
+// In order of preference; Safari only records audio/mp4
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface RecordedAudio {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+export interface ActiveRecording {
+  /** Resolves once recording stops, by `stop()` or at MAX_RECORDING_MS. */
+  finished: Promise<RecordedAudio>;
+  stop(): void;
+}
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Starts recording from the microphone. Rejects when the browser cannot record or the
+ * user denies microphone access.
+ */
+export const startRecording = async (): Promise<ActiveRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  const finished = new Promise<RecordedAudio>((resolve, reject) => {
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      clearTimeout(limit);
+      // Releasing the tracks turns off the browser's microphone indicator
+      stream.getTracks().forEach(track => track.stop());
+      const type = recorder.mimeType || mimeType || 'audio/webm';
+      resolve({ blob: new Blob(chunks, { type }), mimeType: type, durationMs: Date.now() - startedAt });
+    };
+    recorder.onerror = () => {
+      clearTimeout(limit);
+      stream.getTracks().forEach(track => track.stop());
+      reject(new Error('Recording failed'));
+    };
+  });
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+  const limit = setTimeout(stop, MAX_RECORDING_MS);
+  recorder.start();
+
+  return { finished, stop };
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> =>
+  encode(new Uint8Array(await blob.arrayBuffer()));
+
+/**
+ * Stores a recorded retelling and returns the reference kept on its evaluation.
+ */
+export const saveRecording = async (audio: RecordedAudio): Promise<RetellingRecording> => {
+  const recording: RetellingRecording = { id: uuidv4(), mimeType: audio.mimeType, durationMs: audio.durationMs };
+  const db = await getLocalDB();
+  await db.put(RECORDING_STORE, audio.blob, recording.id);
+  return recording;
+};
+
+/**
+ * The audio of a stored recording, or null when it was made in another browser or the
+ * storage was cleared.
+ */
+export const getRecording = async (id: string): Promise<Blob | null> => {
+  try {
+    const db = await getLocalDB();
+    return (await db.get(RECORDING_STORE, id)) || null;
+  } catch (error) {
+    console.error('Failed to load recording:', error);
+    return null;
+  }
+};
+
+/**
+ * Removes a stored recording. Recordings are only referenced from their evaluation, so
+ * this is called whenever that evaluation's entry goes away. Missing recordings are ignored.
+ */
+export const deleteRecording = async (id: string): Promise<void> => {
+  try {
+    const db = await getLocalDB();
+    await db.delete(RECORDING_STORE, id);
+  } catch (error) {
+    console.error('Failed to delete recording:', error);
+  }
+};
@@ -0,0 +1,319 @@
+import {
+  Firestore,
+  Timestamp,
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+  QueryDocumentSnapshot,
+  WriteBatch,
+} from 'firebase/firestore';
+import { AdvancedVocab, DiaryEntry, DiaryIteration, InspirationFragment, LearnerProfile, PracticeRecord, UsagePeriod } from '../../types';
+import { retentionCutoff } from '../../utils/vocabHelpers';
+import { Repositories } from './types';
+
+/**
+ * Firestore rejects `undefined` field values, so drop them before writing.
+ */
+export const stripUndefined = <T extends object>(data: T): T => JSON.parse(JSON.stringify(data));
+
+const toMillis = (value: any): number => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (typeof value === 'number') return value;
+  return Date.now();
+};
+
+// Firestore caps a batch at 500 writes
+const BATCH_LIMIT = 450;
+
+const commitInChunks = async (db: Firestore, writes: ((batch: WriteBatch) => void)[]) => {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+/**
+ * Repositories backed by the users/{uid} document and its subcollections.
+ */
+export const createFirestoreRepositories = (db: Firestore, uid: string): Repositories => {
+  const userRef = doc(db, 'users', uid);
+  const entriesCol = collection(db, 'users', uid, 'diaryEntries');
+  const vocabCol = collection(db, 'users', uid, 'advancedVocab');
+  const fragmentsCol = collection(db, 'users', uid, 'fragments');
+
+  return {
+    diary: {
+      async listEntries(pageSize, cursor) {
+        const entriesQuery = cursor
+          ? query(entriesCol, orderBy('timestamp', 'desc'), startAfter(cursor as QueryDocumentSnapshot), limit(pageSize))
+          : query(entriesCol, orderBy('timestamp', 'desc'), limit(pageSize));
+        const snapshot = await getDocs(entriesQuery);
+        const entries = snapshot.docs.map(d => ({
+          ...d.data(),
+          id: d.id,
+          timestamp: toMillis(d.data().timestamp)
+        })) as DiaryEntry[];
+        return {
+          entries,
+          cursor: snapshot.docs[snapshot.docs.length - 1] || null,
+          hasMore: snapshot.docs.length === pageSize
+        };
+      },
+      async addEntry(entry) {
+        const docRef = await addDoc(entriesCol, { ...stripUndefined(entry), timestamp: serverTimestamp() });
+        return { ...entry, id: docRef.id } as DiaryEntry;
+      },
+      async updateEntry(id, patch) {
+        await updateDoc(doc(entriesCol, id), stripUndefined(patch));
+      },
+      async deleteEntry(id) {
+        // Subcollections are not removed with their parent document
+        const iterations = await getDocs(collection(entriesCol, id, 'iterations'));
+        const batch = writeBatch(db);
+        iterations.docs.forEach(d => batch.delete(d.ref));
+        batch.delete(doc(entriesCol, id));
+        await batch.commit();
+      },
+      async listIterations(entryId) {
+        const snapshot = await getDocs(query(collection(entriesCol, entryId, 'iterations'), orderBy('timestamp', 'asc')));
+        return snapshot.docs.map(d => ({ ...d.data(), id: d.id })) as DiaryIteration[];
+      },
+      async addIteration(entryId, iteration) {
+        const { id, ...data } = iteration;
+        await setDoc(doc(entriesCol, entryId, 'iterations', id), stripUndefined(data));
+      },
+      async importEntries(entries, iterations) {
+        const writes: ((batch: WriteBatch) => void)[] = [];
+        for (const entry of entries) {
+          const { id, ...data } = entry;
+          writes.push(batch => batch.set(doc(entriesCol, id), { ...stripUndefined(data), timestamp: Timestamp.fromMillis(entry.timestamp) }));
+          for (const iteration of iterations[id] || []) {
+            const { id: iterationId, ...iterationData } = iteration;
+            writes.push(batch => batch.set(doc(entriesCol, id, 'iterations', iterationId), stripUndefined(iterationData)));
+          }
+        }
+        await commitInChunks(db, writes);
+      },
+    },
+
+    vocab: {
+      newId: () => doc(vocabCol).id,
+      async listVocab() {
+        const snapshot = await getDocs(vocabCol);
+        return snapshot.docs.map(vDoc => ({
+          ...vDoc.data(),
+          id: vDoc.id,
+          timestamp: toMillis(vDoc.data().timestamp)
+        })) as AdvancedVocab[];
+      },
+      async saveVocabs(created, relinked) {
+        if (created.length === 0 && relinked.length === 0) return;
+        const batch = writeBatch(db);
+        for (const v of created) {
+          const { id, practices, ...data } = v;
+          batch.set(doc(vocabCol, id), { ...stripUndefined(data), timestamp: serverTimestamp() });
+        }
+        for (const r of relinked) {
+          batch.update(doc(vocabCol, r.id), { parentId: r.parentId });
+        }
+        await batch.commit();
+      },
+      async updateVocab(id, patch) {
+        // `parentId: undefined` means unlinking, which Firestore stores as null
+        const data: Record<string, any> = stripUndefined(patch);
+        if ('parentId' in patch && !patch.parentId) data.parentId = null;
+        await updateDoc(doc(vocabCol, id), data);
+      },
+      async updateVocabs(ids, patch) {
+        const data: Record<string, any> = stripUndefined(patch);
+        if ('parentId' in patch && !patch.parentId) data.parentId = null;
+        const batch = writeBatch(db);
+        ids.forEach(id => batch.update(doc(vocabCol, id), data));
+        await batch.commit();
+      },
+      async deleteVocab(id) {
+        // Subcollections are not removed with their parent document
+        const practices = await getDocs(collection(vocabCol, id, 'practices'));
+        await commitInChunks(db, [
+          ...practices.docs.map(p => (batch: WriteBatch) => batch.delete(p.ref)),
+          (batch: WriteBatch) => batch.delete(doc(vocabCol, id))
+        ]);
+      },
+      async addPractice(vocabId, record) {
+        // Stored under the record's own id, so deleting by the id held in state finds it
+        const { id, ...data } = record;
+        await setDoc(doc(collection(vocabCol, vocabId, 'practices'), id), { ...stripUndefined(data), timestamp: serverTimestamp() });
+      },
+      async deletePractices(vocabId, practiceIds) {
+        const batch = writeBatch(db);
+        practiceIds.forEach(pid => batch.delete(doc(vocabCol, vocabId, 'practices', pid)));
+        await batch.commit();
+      },
+      async listPractices(vocabId) {
+        const snapshot = await getDocs(query(collection(vocabCol, vocabId, 'practices'), orderBy('timestamp', 'desc')));
+        return snapshot.docs.map(pDoc => ({
+          ...pDoc.data(),
+          id: pDoc.id,
+          timestamp: toMillis(pDoc.data().timestamp)
+        })) as PracticeRecord[];
+      },
+      async listPracticePage(vocabId, pageSize, cursor) {
+        const practicesCol = collection(vocabCol, vocabId, 'practices');
+        const pageQuery = cursor
+          ? query(practicesCol, orderBy('timestamp', 'desc'), startAfter(cursor as QueryDocumentSnapshot), limit(pageSize))
+          : query(practicesCol, orderBy('timestamp', 'desc'), limit(pageSize));
+        const snapshot = await getDocs(pageQuery);
+        return {
+          practices: snapshot.docs.map(pDoc => ({
+            ...pDoc.data(),
+            id: pDoc.id,
+            timestamp: toMillis(pDoc.data().timestamp)
+          })) as PracticeRecord[],
+          cursor: snapshot.docs[snapshot.docs.length - 1] || null,
+          hasMore: snapshot.docs.length === pageSize
+        };
+      },
+      async prunePractices(vocabId, retention) {
+        const practicesCol = collection(vocabCol, vocabId, 'practices');
+        let expired: QueryDocumentSnapshot[] = [];
+        if (retention.mode === 'days') {
+          const cutoff = Timestamp.fromMillis(retentionCutoff(retention.value));
+          expired = (await getDocs(query(practicesCol, where('timestamp', '<', cutoff)))).docs;
+        } else if (retention.mode === 'count') {
+          const kept = await getDocs(query(practicesCol, orderBy('timestamp', 'desc'), limit(Math.max(1, retention.value))));
+          const lastKept = kept.docs[kept.docs.length - 1];
+          if (retention.value <= 0) expired = (await getDocs(practicesCol)).docs;
+          else if (lastKept && kept.docs.length === retention.value) {
+            expired = (await getDocs(query(practicesCol, orderBy('timestamp', 'desc'), startAfter(lastKept)))).docs;
+          }
+        }
+        await commitInChunks(db, expired.map(p => (batch: WriteBatch) => batch.delete(p.ref)));
+        return expired.map(p => p.id);
+      },
+      async importVocabs(vocab) {
+        const writes: ((batch: WriteBatch) => void)[] = [];
+        for (const v of vocab) {
+          const { id, practices, ...data } = v;
+          writes.push(batch => batch.set(doc(vocabCol, id), { ...stripUndefined(data), timestamp: Timestamp.fromMillis(v.timestamp) }));
+          for (const p of practices || []) {
+            const { id: practiceId, ...practiceData } = p;
+            writes.push(batch => batch.set(doc(vocabCol, id, 'practices', practiceId), { ...stripUndefined(practiceData), timestamp: Timestamp.fromMillis(p.timestamp) }));
+          }
+        }
+        await commitInChunks(db, writes);
+      },
+    },
+
+    fragments: {
+      async listFragments() {
+        const snapshot = await getDocs(query(fragmentsCol, orderBy('timestamp', 'desc')));
+        return snapshot.docs.map(d => ({
+          ...d.data(),
+          id: d.id,
+          timestamp: toMillis(d.data().timestamp),
+          fragmentType: d.data().fragmentType || 'transient'
+        })) as InspirationFragment[];
+      },
+      async addFragment(fragment) {
+        const docRef = await addDoc(fragmentsCol, { ...stripUndefined(fragment), timestamp: serverTimestamp() });
+        return { ...fragment, id: docRef.id, timestamp: Date.now() };
+      },
+      async updateFragment(id, patch) {
+        await updateDoc(doc(fragmentsCol, id), stripUndefined(patch));
+      },
+      async deleteFragments(ids) {
+        const batch = writeBatch(db);
+        ids.forEach(id => batch.delete(doc(fragmentsCol, id)));
+        await batch.commit();
+      },
+      async importFragments(fragments) {
+        await commitInChunks(db, fragments.map(f => {
+          const { id, ...data } = f;
+          return (batch: WriteBatch) => batch.set(doc(fragmentsCol, id), { ...stripUndefined(data), timestamp: Timestamp.fromMillis(f.timestamp) });
+        }));
+      },
+    },
+
+    profile: {
+      async getProfile() {
+        const snap = await getDoc(userRef);
+        return snap.exists() ? (snap.data().profile || null) : null;
+      },
+      async updateProfile(patch) {
+        await setDoc(userRef, { profile: stripUndefined(patch) }, { merge: true });
+      },
+      async activatePro(code) {
+        const codesQuery = query(
+          collection(db, 'activationCodes'),
+          where('code', '==', code.trim()),
+          where('status', '==', 'active')
+        );
+        const snapshot = await getDocs(codesQuery);
+        if (snapshot.empty) return null;
+
+        const codeDoc = snapshot.docs[0];
+        const codeData = codeDoc.data();
+
+        let durationDays = 30;
+        if (codeData.membershipType === 'pro_365d') durationDays = 365;
+        else if (codeData.membershipType === 'pro_7d') durationDays = 7;
+
+        const proData = { isPro: true, proExpiry: Date.now() + durationDays * 24 * 60 * 60 * 1000 };
+
+        const batch = writeBatch(db);
+        batch.update(codeDoc.ref, { status: 'used', usedBy: uid, usedAt: serverTimestamp() });
+        batch.set(userRef, { profile: proData }, { merge: true });
+        await batch.commit();
+        return proData;
+      },
+    },
+
+    learnerProfiles: {
+      async getLearnerProfile(language) {
+        const snap = await getDoc(doc(userRef, 'learnerProfiles', language));
+        return snap.exists() ? (snap.data() as LearnerProfile) : null;
+      },
+      async saveLearnerProfile(profile) {
+        await setDoc(doc(userRef, 'learnerProfiles', profile.language), stripUndefined(profile));
+      },
+    },
+
+    usage: {
+      async getUsage(periods) {
+        const snaps = await Promise.all(periods.map(period => getDoc(doc(userRef, 'usage', period))));
+        return snaps.map((snap, i) => snap.exists() ? (snap.data() as UsagePeriod) : { period: periods[i], features: {} });
+      },
+      async addUsage(periods, feature, delta) {
+        // increment() keeps totals right when several tabs record at once
+        const batch = writeBatch(db);
+        for (const period of periods) {
+          batch.set(doc(userRef, 'usage', period), {
+            period,
+            features: {
+              [feature]: {
+                calls: increment(delta.calls),
+                inputTokens: increment(delta.inputTokens),
+                outputTokens: increment(delta.outputTokens),
+                costUsd: increment(delta.costUsd),
+              },
+            },
+          }, { merge: true });
+        }
+        await batch.commit();
+      },
+    },
+  };
+};
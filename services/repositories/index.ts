@@ -0,0 +1,19 @@
+import { db } from '../../firebase';
+import { createFirestoreRepositories } from './firestoreRepository';
+import { createLocalRepositories } from './localRepository';
+import { Repositories } from './types';
+
+export * from './types';
+export { createLocalRepositories, localStorageKeys } from './localRepository';
+export type { KeyValueStorage } from './localRepository';
+export { createFirestoreRepositories } from './firestoreRepository';
+export { createMemoryRepositories, MemoryStorage } from './memoryRepository';
+
+/**
+ * Picks the storage backend for a user: Firestore for real accounts,
+ * localStorage for demo accounts or when Firebase is not configured.
+ */
+export const createRepositories = (uid: string, isMock: boolean): Repositories => {
+  if (!db || isMock) return createLocalRepositories(uid);
+  return createFirestoreRepositories(db, uid);
+};
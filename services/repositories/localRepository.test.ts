@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { AdvancedVocab, PracticeRecord } from '../../types';
+import { createMemoryRepositories } from './memoryRepository';
+
+const practice = (i: number): PracticeRecord => ({
+  id: `p${i}`,
+  vocabId: 'gem',
+  sentence: `Sentence ${i}`,
+  feedback: '',
+  timestamp: 1000 + i,
+  status: 'Perfect',
+});
+
+const withGem = async () => {
+  const repos = createMemoryRepositories();
+  await repos.vocab.saveVocabs([{ id: 'gem', word: 'gem', meaning: '', usage: '', level: 'Advanced', language: 'English', timestamp: 1, mastery: 0 } as AdvancedVocab], []);
+  return repos;
+};
+
+describe('local vocab repository', () => {
+  it('keeps every practice record until the retention policy prunes them', async () => {
+    const { vocab } = await withGem();
+    for (let i = 0; i < 80; i++) await vocab.addPractice('gem', practice(i));
+
+    const kept = await vocab.listPractices('gem');
+    expect(kept).toHaveLength(80);
+    expect(kept[0].id).toBe('p79');
+
+    expect(await vocab.prunePractices('gem', { mode: 'all', value: 0 })).toEqual([]);
+    expect(await vocab.prunePractices('gem', { mode: 'count', value: 30 })).toHaveLength(50);
+    expect((await vocab.listPractices('gem')).map(p => p.id)).toEqual(Array.from({ length: 30 }, (_, i) => `p${79 - i}`));
+  });
+
+  it('deletes single practice records', async () => {
+    const { vocab } = await withGem();
+    await vocab.addPractice('gem', practice(1));
+    await vocab.addPractice('gem', practice(2));
+    await vocab.deletePractices('gem', ['p2']);
+    expect((await vocab.listPractices('gem')).map(p => p.id)).toEqual(['p1']);
+  });
+});
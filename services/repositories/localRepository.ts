@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AdvancedVocab, DiaryEntry, DiaryIteration, InspirationFragment, LearnerProfile, UsagePeriod, UserProfile } from '../../types';
+import { addUsage } from '../../utils/usageAccounting';
+import { practicesOutsideRetention, prependPractice } from '../../utils/vocabHelpers';
+import { Repositories } from './types';
+
+const STATIC_PRO_CODES = ['MUSEUM2025', 'LINGUIST_PRO'];
+const PRO_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * The subset of the Web Storage API the local repositories rely on.
+ */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export const localStorageKeys = (uid: string) => ({
+  entries: `linguist_entries_${uid}`,
+  vocab: `linguist_vocab_${uid}`,
+  fragments: `linguist_fragments_${uid}`,
+  profile: `linguist_profile_${uid}`,
+  iterations: `linguist_iterations_${uid}`,
+  learnerProfiles: `linguist_learner_profiles_${uid}`,
+  usage: `linguist_usage_${uid}`,
+});
+
+/**
+ * Repositories backed by JSON blobs in a key-value store (localStorage for demo accounts
+ * and when Firebase is not configured).
+ */
+export const createLocalRepositories = (uid: string, storage: KeyValueStorage = localStorage): Repositories => {
+  const keys = localStorageKeys(uid);
+
+  const read = <T>(key: string, fallback: T): T => {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  };
+  const write = (key: string, value: unknown) => storage.setItem(key, JSON.stringify(value));
+
+  const newestFirst = <T extends { timestamp: number }>(items: T[]): T[] => [...items].sort((a, b) => b.timestamp - a.timestamp);
+
+  const mapVocab = (fn: (v: AdvancedVocab) => AdvancedVocab) => {
+    write(keys.vocab, read<AdvancedVocab[]>(keys.vocab, []).map(fn));
+  };
+
+  return {
+    diary: {
+      async listEntries() {
+        return { entries: read<DiaryEntry[]>(keys.entries, []), cursor: null, hasMore: false };
+      },
+      async addEntry(entry) {
+        const finalEntry = { ...entry, id: uuidv4() } as DiaryEntry;
+        write(keys.entries, [finalEntry, ...read<DiaryEntry[]>(keys.entries, [])]);
+        return finalEntry;
+      },
+      async updateEntry(id, patch) {
+        write(keys.entries, read<DiaryEntry[]>(keys.entries, []).map(e => e.id === id ? { ...e, ...patch } : e));
+      },
+      async deleteEntry(id) {
+        write(keys.entries, read<DiaryEntry[]>(keys.entries, []).filter(e => e.id !== id));
+        const { [id]: _removed, ...iterations } = read<Record<string, DiaryIteration[]>>(keys.iterations, {});
+        write(keys.iterations, iterations);
+      },
+      async listIterations(entryId) {
+        return read<Record<string, DiaryIteration[]>>(keys.iterations, {})[entryId] || [];
+      },
+      async addIteration(entryId, iteration) {
+        const iterations = read<Record<string, DiaryIteration[]>>(keys.iterations, {});
+        write(keys.iterations, { ...iterations, [entryId]: [...(iterations[entryId] || []), iteration] });
+      },
+      async importEntries(entries, iterations) {
+        write(keys.entries, newestFirst([...entries, ...read<DiaryEntry[]>(keys.entries, [])]));
+        write(keys.iterations, { ...read<Record<string, DiaryIteration[]>>(keys.iterations, {}), ...iterations });
+      },
+    },
+
+    vocab: {
+      newId: () => uuidv4(),
+      async listVocab() {
+        return read<AdvancedVocab[]>(keys.vocab, []);
+      },
+      async saveVocabs(created, relinked) {
+        const parents = new Map(relinked.map(r => [r.id, r.parentId]));
+        const current = read<AdvancedVocab[]>(keys.vocab, []).map(v => parents.has(v.id) ? { ...v, parentId: parents.get(v.id) } : v);
+        write(keys.vocab, [...created, ...current]);
+      },
+      async updateVocab(id, patch) {
+        mapVocab(v => v.id === id ? { ...v, ...patch } : v);
+      },
+      async updateVocabs(ids, patch) {
+        const idSet = new Set(ids);
+        mapVocab(v => idSet.has(v.id) ? { ...v, ...patch } : v);
+      },
+      async deleteVocab(id) {
+        write(keys.vocab, read<AdvancedVocab[]>(keys.vocab, []).filter(v => v.id !== id));
+      },
+      async addPractice(vocabId, record) {
+        mapVocab(v => v.id === vocabId ? { ...v, practices: prependPractice(v.practices, record) } : v);
+      },
+      async deletePractices(vocabId, practiceIds) {
+        const idSet = new Set(practiceIds);
+        mapVocab(v => v.id === vocabId ? { ...v, practices: v.practices?.filter(p => !idSet.has(p.id)) } : v);
+      },
+      async listPractices(vocabId) {
+        const vocab = read<AdvancedVocab[]>(keys.vocab, []).find(v => v.id === vocabId);
+        return newestFirst(vocab?.practices || []);
+      },
+      async listPracticePage(vocabId, pageSize, cursor) {
+        const vocab = read<AdvancedVocab[]>(keys.vocab, []).find(v => v.id === vocabId);
+        const all = newestFirst(vocab?.practices || []);
+        const offset = typeof cursor === 'number' ? cursor : 0;
+        const practices = all.slice(offset, offset + pageSize);
+        const hasMore = offset + pageSize < all.length;
+        return { practices, cursor: hasMore ? offset + pageSize : null, hasMore };
+      },
+      async prunePractices(vocabId, retention) {
+        const vocab = read<AdvancedVocab[]>(keys.vocab, []).find(v => v.id === vocabId);
+        const removed = new Set(practicesOutsideRetention(vocab?.practices || [], retention).map(p => p.id));
+        if (removed.size > 0) {
+          mapVocab(v => v.id === vocabId ? { ...v, practices: v.practices?.filter(p => !removed.has(p.id)) } : v);
+        }
+        return Array.from(removed);
+      },
+      async importVocabs(vocab) {
+        write(keys.vocab, [...vocab, ...read<AdvancedVocab[]>(keys.vocab, [])]);
+      },
+    },
+
+    fragments: {
+      async listFragments() {
+        return read<InspirationFragment[]>(keys.fragments, []);
+      },
+      async addFragment(fragment) {
+        const newFragment: InspirationFragment = { ...fragment, id: uuidv4(), timestamp: Date.now() };
+        write(keys.fragments, [newFragment, ...read<InspirationFragment[]>(keys.fragments, [])]);
+        return newFragment;
+      },
+      async updateFragment(id, patch) {
+        write(keys.fragments, read<InspirationFragment[]>(keys.fragments, []).map(f => f.id === id ? { ...f, ...patch } : f));
+      },
+      async deleteFragments(ids) {
+        const idSet = new Set(ids);
+        write(keys.fragments, read<InspirationFragment[]>(keys.fragments, []).filter(f => !idSet.has(f.id)));
+      },
+      async importFragments(fragments) {
+        write(keys.fragments, newestFirst([...fragments, ...read<InspirationFragment[]>(keys.fragments, [])]));
+      },
+    },
+
+    profile: {
+      async getProfile() {
+        return read<Partial<UserProfile> | null>(keys.profile, null);
+      },
+      async updateProfile(patch) {
+        write(keys.profile, { ...read<Partial<UserProfile>>(keys.profile, {}), ...patch });
+      },
+      async activatePro(code) {
+        if (!STATIC_PRO_CODES.includes(code.trim().toUpperCase())) return null;
+        const proData = { isPro: true, proExpiry: Date.now() + PRO_DURATION_MS };
+        write(keys.profile, { ...read<Partial<UserProfile>>(keys.profile, {}), ...proData });
+        return proData;
+      },
+    },
+
+    learnerProfiles: {
+      async getLearnerProfile(language) {
+        return read<Record<string, LearnerProfile>>(keys.learnerProfiles, {})[language] || null;
+      },
+      async saveLearnerProfile(profile) {
+        write(keys.learnerProfiles, { ...read<Record<string, LearnerProfile>>(keys.learnerProfiles, {}), [profile.language]: profile });
+      },
+    },
+
+    usage: {
+      async getUsage(periods) {
+        const stored = read<Record<string, UsagePeriod>>(keys.usage, {});
+        return periods.map(period => stored[period] || { period, features: {} });
+      },
+      async addUsage(periods, feature, delta) {
+        const stored = read<Record<string, UsagePeriod>>(keys.usage, {});
+        for (const period of periods) {
+          stored[period] = addUsage(stored[period] || { period, features: {} }, feature, delta);
+        }
+        write(keys.usage, stored);
+      },
+    },
+  };
+};
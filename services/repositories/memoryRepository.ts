@@ -0,0 +1,28 @@
+import { createLocalRepositories, KeyValueStorage } from './localRepository';
+import { Repositories } from './types';
+
+/**
+ * A throwaway key-value store with the same semantics as localStorage.
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private data = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+}
+
+/**
+ * In-memory repositories for tests: the local implementation over a private store,
+ * so nothing touches the browser's localStorage.
+ */
+export const createMemoryRepositories = (uid: string = 'memory_user', storage: KeyValueStorage = new MemoryStorage()): Repositories =>
+  createLocalRepositories(uid, storage);
@@ -0,0 +1,90 @@
+import { AdvancedVocab, DiaryEntry, DiaryIteration, InspirationFragment, LearnerProfile, PracticeRecord, PracticeRetention, UsageFeature, UsagePeriod, UsageTotals, UserProfile } from '../../types';
+
+export type NewDiaryEntry = Omit<DiaryEntry, 'id'>;
+export type NewFragment = Omit<InspirationFragment, 'id' | 'timestamp'>;
+
+/**
+ * Opaque pagination cursor. Only the repository that produced it knows its shape.
+ */
+export type PageCursor = unknown;
+
+export interface EntryPage {
+  entries: DiaryEntry[];
+  cursor: PageCursor | null;
+  hasMore: boolean;
+}
+
+export interface PracticePage {
+  practices: PracticeRecord[];
+  cursor: PageCursor | null;
+  hasMore: boolean;
+}
+
+export interface DiaryRepository {
+  listEntries(pageSize: number, cursor?: PageCursor | null): Promise<EntryPage>;
+  addEntry(entry: NewDiaryEntry): Promise<DiaryEntry>;
+  updateEntry(id: string, patch: Partial<DiaryEntry>): Promise<void>;
+  deleteEntry(id: string): Promise<void>;
+  /** Every saved version of an entry, oldest first. */
+  listIterations(entryId: string): Promise<DiaryIteration[]>;
+  addIteration(entryId: string, iteration: DiaryIteration): Promise<void>;
+  /** Writes complete entries and their iterations as-is, keeping ids and timestamps. */
+  importEntries(entries: DiaryEntry[], iterations: Record<string, DiaryIteration[]>): Promise<void>;
+}
+
+export interface VocabRepository {
+  /** Generates an id for a gem that has not been written yet. */
+  newId(): string;
+  listVocab(): Promise<AdvancedVocab[]>;
+  /** Writes new gems and re-parents existing ones in a single batch. */
+  saveVocabs(created: AdvancedVocab[], relinked: { id: string; parentId: string }[]): Promise<void>;
+  updateVocab(id: string, patch: Partial<AdvancedVocab>): Promise<void>;
+  updateVocabs(ids: string[], patch: Partial<AdvancedVocab>): Promise<void>;
+  deleteVocab(id: string): Promise<void>;
+  addPractice(vocabId: string, record: PracticeRecord): Promise<void>;
+  deletePractices(vocabId: string, practiceIds: string[]): Promise<void>;
+  /** The full practice history of a gem, newest first. */
+  listPractices(vocabId: string): Promise<PracticeRecord[]>;
+  /** One page of a gem's practice history, newest first. */
+  listPracticePage(vocabId: string, pageSize: number, cursor?: PageCursor | null): Promise<PracticePage>;
+  /** Deletes the records that fall outside `retention`. Resolves to the removed ids. */
+  prunePractices(vocabId: string, retention: PracticeRetention): Promise<string[]>;
+  /** Writes complete gems, including their practice history, keeping ids and timestamps. */
+  importVocabs(vocab: AdvancedVocab[]): Promise<void>;
+}
+
+export interface FragmentRepository {
+  listFragments(): Promise<InspirationFragment[]>;
+  addFragment(fragment: NewFragment): Promise<InspirationFragment>;
+  updateFragment(id: string, patch: Partial<InspirationFragment>): Promise<void>;
+  deleteFragments(ids: string[]): Promise<void>;
+  importFragments(fragments: InspirationFragment[]): Promise<void>;
+}
+
+export interface ProfileRepository {
+  getProfile(): Promise<Partial<UserProfile> | null>;
+  updateProfile(patch: Partial<UserProfile>): Promise<void>;
+  /** Redeems an activation code. Resolves to the Pro fields to apply, or null if the code is invalid. */
+  activatePro(code: string): Promise<Pick<UserProfile, 'isPro' | 'proExpiry'> | null>;
+}
+
+export interface LearnerProfileRepository {
+  getLearnerProfile(language: string): Promise<LearnerProfile | null>;
+  saveLearnerProfile(profile: LearnerProfile): Promise<void>;
+}
+
+export interface UsageRepository {
+  /** The stored totals for each of `periods`; periods with no usage come back empty. */
+  getUsage(periods: string[]): Promise<UsagePeriod[]>;
+  /** Adds `delta` to `feature` in every one of `periods`. */
+  addUsage(periods: string[], feature: UsageFeature, delta: UsageTotals): Promise<void>;
+}
+
+export interface Repositories {
+  diary: DiaryRepository;
+  vocab: VocabRepository;
+  fragments: FragmentRepository;
+  profile: ProfileRepository;
+  learnerProfiles: LearnerProfileRepository;
+  usage: UsageRepository;
+}
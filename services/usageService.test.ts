@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider } from './llm/fixtureProvider';
+import { createMeteredProvider } from './llm/metering';
+import { generateValidatedJson } from './llm/responseValidation';
+import { JsonSchema } from './llm/types';
+import { createMemoryRepositories } from './repositories/memoryRepository';
+import { BudgetExceededError, createUsageTracker } from './usageService';
+import { usagePeriods } from '../utils/usageAccounting';
+
+const SCHEMA: JsonSchema = { type: 'object', properties: { muses: { type: 'array', items: { type: 'string' } } }, required: ['muses'] };
+
+describe('usage tracker', () => {
+  it('counts a re-asked request as one call but records both responses’ tokens', async () => {
+    const tracker = createUsageTracker(createMemoryRepositories().usage, () => 'free');
+    await tracker.load();
+    const fixture = vi.fn().mockReturnValueOnce({}).mockReturnValueOnce({ muses: ['a walk'] });
+    const provider = createMeteredProvider(createFixtureProvider({ fixtures: { muses: fixture } }), tracker);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await generateValidatedJson(provider, { task: 'muses', prompt: 'Suggest a topic.', schema: SCHEMA });
+    expect(fixture).toHaveBeenCalledTimes(2);
+    const totals = tracker.snapshot().day.features.chat!;
+    expect(totals.calls).toBe(1);
+    expect(totals.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('checks budgets against the stored totals, not the empty ones before load', async () => {
+    const repos = createMemoryRepositories();
+    const { day, month } = usagePeriods();
+    await repos.usage.addUsage([day, month], 'analysis', { calls: 2, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+    const tracker = createUsageTracker(repos.usage, () => 'free');
+    const provider = createMeteredProvider(createFixtureProvider(), tracker);
+
+    const call = provider.generateJson({ task: 'analysis', prompt: 'Analyse this.', input: { text: 'Hi', language: 'English' } });
+    await tracker.load();
+    await expect(call).rejects.toBeInstanceOf(BudgetExceededError);
+  });
+});
@@ -0,0 +1,129 @@
+import { UsageFeature, UsagePeriod, UsageTotals } from '../types';
+import { addUsage, BudgetOverrun, estimateCost, exceededBudget, USAGE_FEATURES, usagePeriods, UsagePlan } from '../utils/usageAccounting';
+import { LLMUsage, MeteredCall, UsageMeter } from './llm';
+import { UsageRepository } from './repositories';
+
+/**
+ * The feature each kind of AI call is accounted and budgeted under.
+ */
+export const FEATURE_OF_CALL: Record<MeteredCall, UsageFeature> = {
+  analysis: 'analysis',
+  retelling: 'rehearsal',
+  practiceArtifact: 'rehearsal',
+  weavedArtifact: 'rehearsal',
+  gemRetry: 'rehearsal',
+  transcription: 'rehearsal',
+  chat: 'chat',
+  chatSummary: 'chat',
+  muses: 'chat',
+  vocabUsage: 'practice',
+  clozeCheck: 'practice',
+  fragment: 'fragment',
+  speech: 'speech',
+};
+
+/**
+ * Thrown instead of making a call whose feature has used up its budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(public overrun: BudgetOverrun) {
+    super(`${overrun.feature} budget of ${overrun.limit} per ${overrun.period} is used up`);
+    this.name = 'BudgetExceededError';
+  }
+
+  /** A message for the Chinese UI. */
+  get userMessage(): string {
+    const label = USAGE_FEATURES.find(f => f.id === this.overrun.feature)?.label || this.overrun.feature;
+    return this.overrun.period === 'day'
+      ? `今日「${label}」次数已用完（${this.overrun.limit} 次），明天再来吧。`
+      : `本月「${label}」额度已用完，下月自动恢复。`;
+  }
+}
+
+export interface UsageSnapshot {
+  day: UsagePeriod;
+  month: UsagePeriod;
+}
+
+export interface UsageTracker extends UsageMeter {
+  /** Reads the current day's and month's totals from storage. */
+  load(): Promise<void>;
+  /** Resolves once `load` has finished, successfully or not. */
+  ready(): Promise<void>;
+  snapshot(): UsageSnapshot;
+  /** The budget `feature` has used up, or null if it can still be used. */
+  overrun(feature: UsageFeature): BudgetOverrun | null;
+}
+
+/**
+ * Keeps the current day's and month's usage in memory and writes every recorded call through
+ * to `repository`. Calls wait for `load`, so a budget is never checked against empty totals.
+ * `onChange` receives each new snapshot.
+ */
+export const createUsageTracker = (
+  repository: UsageRepository,
+  getPlan: () => UsagePlan,
+  onChange: (snapshot: UsageSnapshot) => void = () => {}
+): UsageTracker => {
+  let day: UsagePeriod = { period: usagePeriods().day, features: {} };
+  let month: UsagePeriod = { period: usagePeriods().month, features: {} };
+  let markLoaded: () => void = () => {};
+  const loaded = new Promise<void>(resolve => { markLoaded = resolve; });
+
+  // Totals restart when the calendar day or month does
+  const rollOver = () => {
+    const periods = usagePeriods();
+    if (day.period !== periods.day) day = { period: periods.day, features: {} };
+    if (month.period !== periods.month) month = { period: periods.month, features: {} };
+  };
+
+  const overrun = (feature: UsageFeature) => {
+    rollOver();
+    return exceededBudget(day, month, feature, getPlan());
+  };
+
+  return {
+    async load() {
+      try {
+        const periods = usagePeriods();
+        [day, month] = await repository.getUsage([periods.day, periods.month]);
+        onChange({ day, month });
+      } finally {
+        markLoaded();
+      }
+    },
+
+    ready() {
+      return loaded;
+    },
+
+    snapshot() {
+      rollOver();
+      return { day, month };
+    },
+
+    overrun,
+
+    async beforeCall(call) {
+      await loaded;
+      const exceeded = overrun(FEATURE_OF_CALL[call]);
+      if (exceeded) throw new BudgetExceededError(exceeded);
+    },
+
+    record(call, usage: LLMUsage, followUp = false) {
+      rollOver();
+      const feature = FEATURE_OF_CALL[call];
+      const delta: UsageTotals = {
+        calls: followUp ? 0 : 1,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd: estimateCost(usage.model, usage.inputTokens, usage.outputTokens),
+      };
+      day = addUsage(day, feature, delta);
+      month = addUsage(month, feature, delta);
+      onChange({ day, month });
+      repository.addUsage([day.period, month.period], feature, delta)
+        .catch(e => console.error("Failed to record usage:", e));
+    },
+  };
+};
@@ -1,14 +1,25 @@
 
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
 export interface Correction {
   original: string;
   improved: string;
   explanation: string;
   category: 'Grammar' | 'Vocabulary' | 'Style' | 'Spelling';
+  /** Where the correction applies in the text the user wrote. */
+  originalSpan?: TextSpan;
+  /** The same place in DiaryAnalysis.diffedText, including insertions made there. */
+  diffSpan?: TextSpan;
 }
 
 export interface ReadingPair {
   kanji: string;
   reading: string;
+  /** Set when the reading was filled in from the bundled dictionary rather than returned by the model. */
+  source?: 'local';
 }
 
 export interface AdvancedVocab {
@@ -24,9 +35,19 @@ export interface AdvancedVocab {
   practices?: PracticeRecord[];
   aiSummary?: string; 
   lastReviewTimestamp?: number;
+  srs?: SrsState;
   timestamp: number;
 }
 
+export interface SrsState {
+  due: number;
+  interval: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  lastReviewed?: number;
+}
+
 export interface TransitionSuggestion {
   word: string;
   explanation: string;
@@ -41,6 +62,8 @@ export interface DiaryAnalysis {
   transitionSuggestions: TransitionSuggestion[];
   overallFeedback: string;
   readingPairs?: ReadingPair[]; 
+  /** The prompt that produced this analysis, as `id@version` from the prompt registry. */
+  promptVersion?: string;
 }
 
 export interface PracticeRecord {
@@ -54,6 +77,14 @@ export interface PracticeRecord {
   vocabId: string;
 }
 
+export interface VocabUsageResult {
+  isCorrect: boolean;
+  feedback: string;
+  usageInsight?: string;
+  betterVersion: string;
+  keyPhrases: { phrase: string; explanation: string }[];
+}
+
 export interface InspirationFragment {
   id: string;
   content: string;
@@ -64,13 +95,26 @@ export interface InspirationFragment {
   fragmentType: 'transient' | 'seed';
 }
 
-export type ViewState = 'dashboard' | 'editor' | 'review' | 'history' | 'chat' | 'vocab_list' | 'vocab_practice' | 'vocab_practice_detail' | 'rehearsal' | 'rehearsal_report' | 'profile';
+export type ViewState = 'dashboard' | 'editor' | 'review' | 'history' | 'chat' | 'vocab_list' | 'vocab_practice' | 'vocab_practice_detail' | 'rehearsal' | 'rehearsal_report' | 'rehearsal_trends' | 'cloze_practice' | 'profile';
 
 export interface ChatMessage {
   role: 'ai' | 'user';
   content: string;
 }
 
+export interface DailyMuse {
+  id: string;
+  title: string;
+  prompt: string;
+  icon: string;
+}
+
+export interface PracticeRetention {
+  mode: 'all' | 'count' | 'days';
+  /** Records to keep in `count` mode, days to keep in `days` mode. */
+  value: number;
+}
+
 export interface UserProfile {
   displayName: string;
   photoURL: string;
@@ -78,8 +122,28 @@ export interface UserProfile {
   preferredLanguages?: string[];
   isPro?: boolean;
   proExpiry?: number;
-  dailyUsageCount?: number;
-  lastUsageDate?: string;
+  practiceRetention?: PracticeRetention;
+}
+
+/**
+ * A kind of mistake the learner keeps making, aggregated from AI corrections.
+ */
+export interface ErrorPattern {
+  key: string;
+  label: string;
+  category: Correction['category'];
+  count: number;
+  /** Occurrences per calendar month, keyed YYYY-MM. */
+  monthly: Record<string, number>;
+  lastSeen: number;
+  examples: { original: string; improved: string }[];
+}
+
+export interface LearnerProfile {
+  language: string;
+  patterns: ErrorPattern[];
+  correctionCount: number;
+  updatedAt: number;
 }
 
 export interface DiaryEntry {
@@ -92,13 +156,47 @@ export interface DiaryEntry {
   analysis?: DiaryAnalysis;
   rehearsal?: RehearsalEvaluation;
   iterationCount?: number;
+  lastIteratedAt?: number;
+  /** Shadowing of the corrected text, or of the source text for rehearsals. */
+  shadowing?: ShadowingProgress;
+  /** Review state of the entry's corrections practised as cloze drills. */
+  clozeReviews?: ClozeReview[];
+}
+
+/**
+ * Which sentences have been shadowed. Sentences are stored as spoken text, so progress
+ * survives a re-analysis for every sentence that did not change.
+ */
+export interface ShadowingProgress {
+  completedSentences: string[];
+  updatedAt: number;
+}
+
+/**
+ * A correction that has been practised as a cloze drill. It is identified by its text rather
+ * than its index, so the state survives a re-analysis that keeps the correction.
+ */
+export interface ClozeReview {
+  original: string;
+  improved: string;
+  srs: SrsState;
 }
 
 export interface DiaryIteration {
   id: string;
   text: string;
   timestamp: number;
-  analysis: DiaryAnalysis;
+  /** Missing on the first version of a draft that was rewritten before it was ever analysed. */
+  analysis?: DiaryAnalysis;
+}
+
+/**
+ * A spoken retelling. The audio itself stays in the IndexedDB of the browser that recorded it.
+ */
+export interface RetellingRecording {
+  id: string;
+  mimeType: string;
+  durationMs: number;
 }
 
 export interface RehearsalEvaluation {
@@ -111,4 +209,36 @@ export interface RehearsalEvaluation {
   sourceText?: string;
   userRetelling?: string;
   recommendedGems?: { word: string; meaning: string; usage: string; }[];
+  /** The prompt that produced this evaluation, as `id@version` from the prompt registry. */
+  promptVersion?: string;
+  /** Set when the retelling was spoken; `userRetelling` is then its transcript. */
+  recording?: RetellingRecording;
+  mode?: 'normal' | 'weave' | 'dictation';
+  /** The difficulty id the source was generated at, e.g. 'Intermediate'. Unset for weave mode and older rehearsals. */
+  difficulty?: string;
+  /** The topic id the source was generated on, e.g. 'Travel'. Unset for weave mode and older rehearsals. */
+  topic?: string;
+}
+
+/** A finished rehearsal, with what App needs to save it as an entry. */
+export interface RehearsalResult extends RehearsalEvaluation {
+  timestamp: number;
+  sourceText: string;
+  language: string;
+}
+
+/** What an AI call is spent on, for usage accounting and budgets. */
+export type UsageFeature = 'analysis' | 'rehearsal' | 'chat' | 'practice' | 'fragment' | 'speech';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** AI usage in one day (`YYYY-MM-DD`) or month (`YYYY-MM`), by feature. */
+export interface UsagePeriod {
+  period: string;
+  features: Partial<Record<UsageFeature, UsageTotals>>;
 }
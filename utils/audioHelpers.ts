@@ -16,6 +16,20 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Encodes a Uint8Array into a base64 string.
+ * @param bytes The binary data to encode.
+ * @returns The base64 encoded string.
+ */
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 /**
  * Decodes raw PCM audio data (Uint8Array) into an AudioBuffer.
  * This function handles raw PCM bytes which do not contain header information.
@@ -48,4 +62,37 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+
+/**
+ * Wraps raw 16-bit PCM audio in a WAV container so it can be saved as a standalone file.
+ *
+ * @param pcm The raw PCM audio data as a Uint8Array.
+ * @param sampleRate The sample rate of the audio data (e.g., 24000).
+ * @param numChannels The number of audio channels (e.g., 1 for mono).
+ * @returns The WAV file bytes.
+ */
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels: number): Uint8Array {
+  const bytesPerSample = 2;
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+  return wav;
+}
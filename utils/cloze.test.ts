@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Correction, DiaryEntry } from '../types';
+import { buildClozeItems, buildClozeQueue, checkClozeAnswer, ClozeItem, withClozeReview } from './cloze';
+import { scheduleReview } from './srsScheduler';
+
+const correction = (original: string, improved: string): Correction => ({ original, improved, explanation: '', category: 'Grammar' });
+
+const entry = (language: string, modifiedText: string, corrections: Correction[], extra: Partial<DiaryEntry> = {}): DiaryEntry => ({
+  id: 'entry-1',
+  timestamp: 1,
+  date: '2026-10-01',
+  originalText: '',
+  language,
+  type: 'diary',
+  analysis: { modifiedText, diffedText: '', corrections, advancedVocab: [], transitionSuggestions: [], overallFeedback: '' },
+  ...extra,
+});
+
+describe('buildClozeItems', () => {
+  it('blanks the improved phrase in the sentence that holds it', () => {
+    const items = buildClozeItems([entry('English', 'Yesterday I went to the park. We ate ice cream!', [
+      correction('go', 'went'),
+      correction('eat', 'ate ice cream'),
+    ])]);
+    expect(items.map(i => [i.before, i.answer, i.after])).toEqual([
+      ['Yesterday I ', 'went', ' to the park.'],
+      ['We ', 'ate ice cream', '!'],
+    ]);
+  });
+
+  it('matches whole words only in spaced languages', () => {
+    const [item] = buildClozeItems([entry('English', 'Yesterday I had a dog.', [correction('an', 'a')])]);
+    expect([item.before, item.after]).toEqual(['Yesterday I had ', ' dog.']);
+  });
+
+  it('matches inside words in unspaced languages', () => {
+    const [item] = buildClozeItems([entry('Japanese', '昨日友達と公園に行きました。', [correction('行きます', '行きました')])]);
+    expect([item.before, item.answer, item.after]).toEqual(['昨日友達と公園に', '行きました', '。']);
+  });
+
+  it('leaves out corrections that are not in the text or change only punctuation', () => {
+    expect(buildClozeItems([entry('English', 'I went home.', [correction('x', 'not there'), correction('home.', 'home!')])])).toEqual([]);
+  });
+});
+
+describe('checkClozeAnswer', () => {
+  const [item] = buildClozeItems([entry('English', 'Yesterday I went to the park.', [correction('go', 'went')])]);
+
+  it('ignores case and punctuation', () => {
+    expect(checkClozeAnswer('Went.', item)).toBe('correct');
+  });
+
+  it('sends close answers to the AI and rejects the original mistake', () => {
+    const [long] = buildClozeItems([entry('English', 'We ate ice cream.', [correction('eat', 'ate ice cream')])]);
+    expect(checkClozeAnswer('Ate  ice cream!', long)).toBe('correct');
+    expect(checkClozeAnswer('ate an ice cream', long)).toBe('near');
+    expect(checkClozeAnswer('go', item)).toBe('wrong');
+    expect(checkClozeAnswer('', item)).toBe('wrong');
+  });
+});
+
+describe('cloze scheduling', () => {
+  const NOW = new Date(2026, 9, 19, 12).getTime();
+  const text = 'Yesterday I went to the park. We ate ice cream.';
+  const corrections = [correction('go', 'went'), correction('eat', 'ate ice cream')];
+
+  it('replaces the stored state of a practised item', () => {
+    const [item] = buildClozeItems([entry('English', text, corrections)]);
+    const once = withClozeReview(undefined, item, scheduleReview(undefined, 'again', NOW));
+    const twice = withClozeReview(once, item, scheduleReview(once[0].srs, 'again', NOW));
+    expect(twice).toHaveLength(1);
+    expect(twice[0]).toMatchObject({ original: 'go', improved: 'went' });
+    expect(twice[0].srs.lapses).toBe(2);
+  });
+
+  it('puts the most missed items first and holds back items not yet due', () => {
+    const [went, ate]: ClozeItem[] = buildClozeItems([entry('English', text, corrections)]);
+    const reviews = withClozeReview(
+      withClozeReview(undefined, went, { ...scheduleReview(undefined, 'again', NOW), lapses: 3 }),
+      ate, scheduleReview(undefined, 'good', NOW)
+    );
+    const items = buildClozeItems([entry('English', text, corrections, { clozeReviews: reviews })]);
+    expect(buildClozeQueue(items, NOW).map(i => i.answer)).toEqual([]);
+    expect(buildClozeQueue(items, NOW + 24 * 60 * 60 * 1000).map(i => i.answer)).toEqual(['went', 'ate ice cream']);
+  });
+});
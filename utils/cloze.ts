@@ -0,0 +1,149 @@
+import { ClozeReview, Correction, DiaryEntry, SrsState } from '../types';
+import { startOfDay } from './srsScheduler';
+import { splitSentences, toSpokenText } from './textHelpers';
+import { getLanguage } from './languages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Items in one cloze session. */
+export const CLOZE_SESSION_SIZE = 10;
+
+/** Answers at least this similar to the expected phrase, without matching it, are judged by the AI. */
+export const NEAR_MISS_SIMILARITY = 0.6;
+
+export interface ClozeItem {
+  entryId: string;
+  entryDate: string;
+  language: string;
+  /** The corrected sentence around the blank. */
+  before: string;
+  after: string;
+  /** The improved phrase that was blanked. */
+  answer: string;
+  /** What the learner originally wrote in its place. */
+  original: string;
+  explanation: string;
+  category: Correction['category'];
+  srs?: SrsState;
+}
+
+export type ClozeVerdict = 'correct' | 'near' | 'wrong';
+
+const LETTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Where `phrase` occurs in `sentence`, or -1. In spaced languages only whole words match,
+ * so a short phrase like "a" is not found inside another word.
+ */
+const findPhrase = (sentence: string, phrase: string, spaced: boolean): number => {
+  for (let at = sentence.indexOf(phrase); at !== -1; at = sentence.indexOf(phrase, at + 1)) {
+    if (!spaced) return at;
+    const before = sentence[at - 1] || '';
+    const after = sentence[at + phrase.length] || '';
+    if (!(LETTER.test(before) && LETTER.test(phrase[0])) && !(LETTER.test(after) && LETTER.test(phrase[phrase.length - 1]))) return at;
+  }
+  return -1;
+};
+
+/**
+ * The cloze items in the corrections of `entries`. Each blanks an improved phrase in the
+ * sentence of the corrected text that contains it; corrections not found in a single
+ * sentence are left out.
+ */
+export const buildClozeItems = (entries: DiaryEntry[]): ClozeItem[] =>
+  entries.flatMap(entry => {
+    const analysis = entry.analysis;
+    if (!analysis?.corrections?.length) return [];
+    const { spaced } = getLanguage(entry.language);
+    const sentences = splitSentences(analysis.modifiedText, entry.language).map(toSpokenText);
+    return analysis.corrections.flatMap(correction => {
+      const answer = toSpokenText(correction.improved).trim();
+      const original = toSpokenText(correction.original).trim();
+      if (!answer || normalizeAnswer(answer) === normalizeAnswer(original)) return [];
+      const sentence = sentences.find(s => findPhrase(s, answer, spaced) !== -1);
+      if (!sentence) return [];
+      const at = findPhrase(sentence, answer, spaced);
+      return [{
+        entryId: entry.id,
+        entryDate: entry.date,
+        language: entry.language,
+        before: sentence.slice(0, at),
+        after: sentence.slice(at + answer.length),
+        answer,
+        original,
+        explanation: correction.explanation,
+        category: correction.category,
+        srs: findClozeReview(entry.clozeReviews, { original, improved: answer })?.srs,
+      }];
+    });
+  });
+
+const findClozeReview = (reviews: ClozeReview[] | undefined, pair: { original: string; improved: string }): ClozeReview | undefined =>
+  reviews?.find(r => r.original === pair.original && r.improved === pair.improved);
+
+/**
+ * Items never practised are due immediately; the rest when their schedule says so.
+ */
+export const isClozeDue = (item: ClozeItem, now: number = Date.now()): boolean =>
+  !item.srs || item.srs.due < startOfDay(now) + DAY_MS;
+
+/**
+ * The items for one session: those missed most often first, so trouble spots keep coming back,
+ * then the most overdue, then items never practised.
+ */
+export const buildClozeQueue = (items: ClozeItem[], now: number = Date.now(), size: number = CLOZE_SESSION_SIZE): ClozeItem[] => {
+  const due = items.filter(item => isClozeDue(item, now));
+  const scheduled = due.filter(item => item.srs).sort((a, b) =>
+    b.srs!.lapses - a.srs!.lapses || a.srs!.due - b.srs!.due
+  );
+  const fresh = due.filter(item => !item.srs);
+  return [...scheduled, ...fresh].slice(0, size);
+};
+
+/**
+ * Case, punctuation, spacing and full-width forms do not count.
+ */
+export const normalizeAnswer = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const editDistance = (a: string[], b: string[]): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  a.forEach((charA, i) => {
+    const current = [i + 1];
+    b.forEach((charB, j) => {
+      current.push(Math.min(previous[j + 1] + 1, current[j] + 1, previous[j] + (charA === charB ? 0 : 1)));
+    });
+    previous = current;
+  });
+  return previous[b.length];
+};
+
+/**
+ * 1 for identical texts down to 0 for nothing in common, by character edit distance.
+ */
+export const answerSimilarity = (answer: string, expected: string): number => {
+  const a = Array.from(normalizeAnswer(answer));
+  const b = Array.from(normalizeAnswer(expected));
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+};
+
+/**
+ * Checks an answer without the AI. Near misses may still be an acceptable alternative,
+ * which only the AI can tell; writing the original mistake again is always wrong.
+ */
+export const checkClozeAnswer = (answer: string, item: ClozeItem): ClozeVerdict => {
+  const typed = normalizeAnswer(answer);
+  if (!typed) return 'wrong';
+  if (typed === normalizeAnswer(item.answer)) return 'correct';
+  if (typed === normalizeAnswer(item.original)) return 'wrong';
+  return answerSimilarity(answer, item.answer) >= NEAR_MISS_SIMILARITY ? 'near' : 'wrong';
+};
+
+/**
+ * `reviews` with the state of `item` replaced by `srs`.
+ */
+export const withClozeReview = (reviews: ClozeReview[] | undefined, item: ClozeItem, srs: SrsState): ClozeReview[] => {
+  const pair = { original: item.original, improved: item.answer };
+  return [...(reviews || []).filter(r => r !== findClozeReview(reviews, pair)), { ...pair, srs }];
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Correction } from '../types';
+import { locateCorrections } from './correctionSpans';
+
+const correction = (original: string, improved: string): Correction => ({ original, improved, explanation: '', category: 'Grammar' });
+
+/** The original text is everything the diff kept or removed. */
+const originalOf = (diffedText: string) => diffedText.replace(/<add>.*?<\/add>/g, '').replace(/<\/?rem>/g, '');
+
+const slices = (diffedText: string, located: Correction[]) => located.map(c => ({
+  original: c.originalSpan && originalOf(diffedText).slice(c.originalSpan.start, c.originalSpan.end),
+  diff: c.diffSpan && diffedText.slice(c.diffSpan.start, c.diffSpan.end),
+}));
+
+describe('locateCorrections', () => {
+  it('spans the phrase in the original and its whole change in the diff', () => {
+    const diffed = 'I <rem>go</rem><add>went</add> to school.';
+    expect(slices(diffed, locateCorrections(diffed, [correction('go', 'went')]))).toEqual([
+      { original: 'go', diff: '<rem>go</rem><add>went</add>' },
+    ]);
+  });
+
+  it('takes an insertion right after the phrase along with it', () => {
+    const diffed = 'We went to <add>the </add>park<add> yesterday</add>.';
+    const [located] = locateCorrections(diffed, [correction('park', 'the park yesterday')]);
+    expect(diffed.slice(located.diffSpan!.start, located.diffSpan!.end)).toBe('park<add> yesterday</add>');
+  });
+
+  it('picks the occurrence the diff changed among repeated phrases', () => {
+    const diffed = 'the cat and <rem>the</rem><add>a</add> dog';
+    const [located] = locateCorrections(diffed, [correction('the', 'a')]);
+    expect(located.originalSpan).toEqual({ start: 12, end: 15 });
+  });
+
+  it('gives repeated corrections of the same phrase their own occurrences, in order', () => {
+    const diffed = '<rem>go</rem><add>went</add> home and <rem>go</rem><add>went</add> out';
+    const starts = locateCorrections(diffed, [correction('go', 'went'), correction('go', 'went')]).map(c => c.originalSpan?.start);
+    expect(starts).toEqual([0, 12]);
+  });
+
+  it('never cuts through ruby markup', () => {
+    const diffed = '[昨日](きのう)<rem>学校へ行く</rem><add>学校に行った</add>。';
+    const [located] = locateCorrections(diffed, [correction('昨日', '昨日')]);
+    expect(located.originalSpan).toEqual({ start: 0, end: '[昨日](きのう)'.length });
+  });
+
+  it('matches case-insensitively and leaves unknown phrases without spans', () => {
+    const diffed = '<rem>Yesterday</rem><add>yesterday</add> I walked.';
+    const [found, missing] = locateCorrections(diffed, [correction('yesterday', 'Yesterday'), correction('ran', 'run')]);
+    expect(found.originalSpan).toEqual({ start: 0, end: 9 });
+    expect(missing.originalSpan).toBeUndefined();
+    expect(missing.diffSpan).toBeUndefined();
+  });
+});
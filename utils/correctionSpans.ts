@@ -0,0 +1,110 @@
+import { Correction, TextSpan } from '../types';
+import { parseDiffMarkup } from './diffHelper';
+import { stripRuby } from './textHelpers';
+
+/**
+ * The text with `[base](reading)` markup reduced to its base, plus the raw span each
+ * plain character came from. Characters of a ruby base map to the whole block, so
+ * spans never cut through markup.
+ */
+const toPlain = (raw: string): { plain: string; units: TextSpan[] } => {
+  let plain = '';
+  const units: TextSpan[] = [];
+  const ruby = /\[(.*?)\]\(.*?\)/g;
+  let last = 0;
+  const pushRaw = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      plain += raw[i];
+      units.push({ start: i, end: i + 1 });
+    }
+  };
+  let match: RegExpExecArray | null;
+  while ((match = ruby.exec(raw))) {
+    pushRaw(last, match.index);
+    for (const char of match[1]) {
+      plain += char;
+      units.push({ start: match.index, end: ruby.lastIndex });
+    }
+    last = ruby.lastIndex;
+  }
+  pushRaw(last, raw.length);
+  return { plain, units };
+};
+
+const occurrences = (haystack: string, needle: string): number[] => {
+  const found: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) found.push(i);
+  return found;
+};
+
+/**
+ * Resolves each correction to where it applies: `originalSpan` in the text the user wrote
+ * and `diffSpan` in diffedText. Corrections are matched in order. Among repeated phrases,
+ * the occurrence the diff actually changed wins. Corrections that cannot be found are returned without spans.
+ */
+export const locateCorrections = (diffedText: string, corrections: Correction[]): Correction[] => {
+  const runs = parseDiffMarkup(diffedText);
+
+  // The original text is everything the diff kept or removed
+  let original = '';
+  const originalToDiff: number[] = [];
+  const changed: boolean[] = [];
+  for (const run of runs) {
+    if (run.type === 'add') {
+      if (changed.length > 0) changed[changed.length - 1] = true;
+      continue;
+    }
+    for (let i = 0; i < run.text.length; i++) {
+      original += run.text[i];
+      originalToDiff.push(run.start + i);
+      changed.push(run.type === 'rem');
+    }
+  }
+
+  const { plain, units } = toPlain(original);
+  const lowerPlain = plain.toLowerCase();
+  const claimed: TextSpan[] = [];
+  let cursor = 0;
+
+  return corrections.map(correction => {
+    const needle = stripRuby(correction.original).trim();
+    if (!needle) return correction;
+    let starts = occurrences(plain, needle);
+    if (starts.length === 0) starts = occurrences(lowerPlain, needle.toLowerCase());
+
+    const candidates = starts
+      .map(start => ({ start, end: start + needle.length }))
+      .filter(c => !claimed.some(span => c.start < span.end && span.start < c.end));
+    if (candidates.length === 0) return correction;
+
+    const touchesChange = (c: TextSpan) => {
+      for (let i = units[c.start].start; i < units[c.end - 1].end; i++) if (changed[i]) return true;
+      return false;
+    };
+    const pick =
+      candidates.find(c => c.start >= cursor && touchesChange(c)) ||
+      candidates.find(touchesChange) ||
+      candidates.find(c => c.start >= cursor) ||
+      candidates[0];
+
+    claimed.push(pick);
+    cursor = pick.end;
+
+    const originalSpan = { start: units[pick.start].start, end: units[pick.end - 1].end };
+    let diffStart = originalToDiff[originalSpan.start];
+    let diffEnd = originalToDiff[originalSpan.end - 1] + 1;
+
+    // An insertion right after the phrase belongs to it, e.g. "went to park" → "went to park<add> yesterday</add>"
+    const nextRun = runs.find(run => run.start > diffEnd && run.type !== 'eq');
+    const between = diffedText.slice(diffEnd, nextRun?.start);
+    if (nextRun?.type === 'add' && /^(<\/(add|rem)>)?<add>$/.test(between)) diffEnd = nextRun.end;
+
+    // Start and end on whole tags when the span lines up with a run boundary
+    const opening = diffedText.slice(0, diffStart).match(/<(add|rem)>$/);
+    if (opening) diffStart -= opening[0].length;
+    const closing = diffedText.slice(diffEnd).match(/^<\/(add|rem)>/);
+    if (closing) diffEnd += closing[0].length;
+
+    return { ...correction, originalSpan, diffSpan: { start: diffStart, end: diffEnd } };
+  });
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { scoreDictation } from './dictation';
+
+describe('scoreDictation', () => {
+  it('does not grade punctuation or letter case', () => {
+    const result = scoreDictation(['"Don\'t go," she said. It\'s late!'], ['dont go she said its late'], 'English');
+    expect(result.accuracy).toBe(100);
+    expect(result.missedWords).toEqual([]);
+    expect(result.sentences[0].diff).not.toMatch(/<add>|<rem>/);
+  });
+
+  it('does not grade Japanese punctuation', () => {
+    expect(scoreDictation(['「公園に行きました。」'], ['公園に行きました'], 'Japanese').accuracy).toBe(100);
+  });
+
+  it('gives partial credit for a misspelt word and lists missed words once', () => {
+    const result = scoreDictation(['I walked home.', 'Home is far.'], ['I walk home', 'is far'], 'English');
+    // 9 of 11 letters in the first sentence, 5 of 9 in the second
+    expect(result.accuracy).toBe(70);
+    expect(result.missedWords.map(w => w.word)).toEqual(['walked', 'Home']);
+  });
+
+  it('counts extra typed words against the score', () => {
+    expect(scoreDictation(['We ate cake.'], ['We ate the cake'], 'English').accuracy).toBeLessThan(100);
+  });
+});
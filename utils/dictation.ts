@@ -0,0 +1,90 @@
+import { calculateDiff, DiffSegment, parseDiffMarkup, refineDiffSegments, renderDiffMarkup } from './diffHelper';
+import { splitSentences, toSpokenText } from './textHelpers';
+
+/** How many times each sentence can be played, the first time included. */
+export const DICTATION_PLAYS_PER_SENTENCE = 3;
+
+export interface DictationSentenceResult {
+  /** The sentence as spoken, which is what the learner is graded against. */
+  sentence: string;
+  typed: string;
+  /** `<add>/<rem>` markup from the typed text to the sentence: `add` is what was missed, `rem` what was misheard. */
+  diff: string;
+}
+
+export interface DictationResult {
+  /** Letters and digits of the source typed correctly, less those typed in excess, 0 to 100. */
+  accuracy: number;
+  sentences: DictationSentenceResult[];
+  /** Source words that were missed or misheard, each with the sentence it is from. */
+  missedWords: { word: string; sentence: string }[];
+}
+
+/**
+ * The sentences a dictation of `source` plays, as spoken text.
+ */
+export const dictationSentences = (source: string, language: string): string[] =>
+  splitSentences(source, language).map(toSpokenText);
+
+/**
+ * The text as graded: punctuation is dropped, as in cloze answers, so a missing full stop
+ * or apostrophe neither costs accuracy nor turns its word into a mistake. Case is kept for display.
+ */
+const withoutPunctuation = (text: string): string =>
+  text.normalize('NFKC').replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const GRADED = /[\p{L}\p{N}]/gu;
+const gradedLength = (text: string) => (text.match(GRADED) || []).length;
+
+/** The graded characters of a changed word that were nonetheless right, e.g. "walk" of walk → walked. */
+const matchedInside = (segment: DiffSegment) =>
+  (segment.parts || []).filter(part => part.type === 'eq').reduce((sum, part) => sum + gradedLength(part.text), 0);
+
+/**
+ * Letter case is not graded: a rem/add pair that differs only in case becomes equal text,
+ * in the source's spelling.
+ */
+const ignoreCase = (segments: DiffSegment[]): DiffSegment[] =>
+  segments.reduce<DiffSegment[]>((result, segment) => {
+    const previous = result[result.length - 1];
+    const paired = previous && previous.type !== 'eq' && segment.type !== 'eq' && previous.type !== segment.type;
+    if (paired && previous.text.trim().toLowerCase() === segment.text.trim().toLowerCase()) {
+      result[result.length - 1] = { type: 'eq', text: previous.type === 'add' ? previous.text : segment.text };
+    } else {
+      result.push(segment);
+    }
+    return result;
+  }, []);
+
+/**
+ * Grades a dictation sentence by sentence. Punctuation and letter case are not graded.
+ */
+export const scoreDictation = (sentences: string[], typed: string[], language: string): DictationResult => {
+  let matched = 0;
+  let total = 0;
+  const missedWords: DictationResult['missedWords'] = [];
+  const seen = new Set<string>();
+
+  const results = sentences.map((sentence, i) => {
+    const answer = (typed[i] || '').trim();
+    const segments = ignoreCase(parseDiffMarkup(calculateDiff(withoutPunctuation(answer), withoutPunctuation(sentence), language)));
+    total += gradedLength(sentence);
+    // Character-level parts give partial credit for a word that was almost right
+    refineDiffSegments(segments, { charLevel: true }).forEach(segment => {
+      const length = gradedLength(segment.text);
+      if (segment.type === 'eq') matched += length;
+      if (segment.type === 'add') matched += matchedInside(segment);
+      if (segment.type === 'rem') total += length - matchedInside(segment);
+    });
+    segments.filter(segment => segment.type === 'add').forEach(segment => {
+      segment.text.split(/\s+/).filter(Boolean).forEach(word => {
+        if (seen.has(word.toLowerCase())) return;
+        seen.add(word.toLowerCase());
+        missedWords.push({ word, sentence });
+      });
+    });
+    return { sentence, typed: answer, diff: renderDiffMarkup(segments) };
+  });
+
+  return { accuracy: total === 0 ? 0 : Math.round((matched / total) * 100), sentences: results, missedWords };
+};
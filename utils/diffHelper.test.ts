@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiff, diffSegments, DiffSegment, parseDiffMarkup } from './diffHelper';
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean);
+
+/** Length of the longest common subsequence of two word lists, by dynamic programming. */
+const lcsLength = (a: string[], b: string[]): number => {
+  let previous = new Array(b.length + 1).fill(0);
+  for (const wordA of a) {
+    const current = [0];
+    b.forEach((wordB, j) => current.push(wordA === wordB ? previous[j] + 1 : Math.max(previous[j + 1], current[j])));
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const keptWords = (segments: DiffSegment[]) =>
+  segments.filter(s => s.type === 'eq').reduce((sum, s) => sum + words(s.text).length, 0);
+
+const side = (segments: DiffSegment[], type: 'rem' | 'add') =>
+  segments.filter(s => s.type !== type).map(s => s.text).join('');
+
+// A small deterministic generator, so failures can be reproduced
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+};
+
+const randomText = (next: () => number, vocabulary: string[]) =>
+  Array.from({ length: 1 + Math.floor(next() * 12) }, () => vocabulary[Math.floor(next() * vocabulary.length)])
+    .map((word, i) => (i > 0 ? (next() < 0.2 ? '  ' : ' ') : '') + word)
+    .join('');
+
+describe('diffSegments', () => {
+  it('keeps the longest run of words in common', () => {
+    const segments = diffSegments('a a b b b d c e', 'e c a d c c');
+    expect(keptWords(segments)).toBe(3);
+    expect(segments.filter(s => s.type === 'eq').map(s => s.text.trim()).filter(Boolean)).toEqual(['a', 'd c']);
+  });
+
+  it('keeps as many words as a longest common subsequence on random texts', () => {
+    const next = random(42);
+    for (let run = 0; run < 300; run++) {
+      const before = randomText(next, ['a', 'b', 'c', 'd', 'e']);
+      const after = randomText(next, ['a', 'b', 'c', 'd', 'e']);
+      const segments = diffSegments(before, after);
+      expect(keptWords(segments), `${before} → ${after}`).toBe(lcsLength(words(before), words(after)));
+      expect(side(segments, 'add')).toBe(before);
+      expect(side(segments, 'rem')).toBe(after);
+    }
+  });
+
+  it('leaves unchanged spacing out of the changes', () => {
+    expect(calculateDiff('I go to school.', 'I went to school.')).toBe('I <rem>go</rem><add>went</add> to school.');
+    expect(calculateDiff('We ate the cake.', 'We ate cake.')).toBe('We ate <rem>the </rem>cake.');
+    expect(calculateDiff('to the park', 'into a park')).toBe('<rem>to</rem><add>into</add> <rem>the</rem><add>a</add> park');
+  });
+
+  it('pairs word-for-word replacements in Japanese', () => {
+    const segments = parseDiffMarkup(calculateDiff('公園に行きました。', '公園へ行った。', 'Japanese'));
+    expect(segments.filter(s => s.type !== 'eq').map(s => `${s.type}:${s.text}`)).toEqual(['rem:に', 'add:へ', 'rem:行きました', 'add:行った']);
+  });
+
+  it('breaks a misspelt word down into characters', () => {
+    const [, rem, add] = diffSegments('I recieve it', 'I receive it', 'English', { charLevel: true });
+    expect(rem.parts?.map(p => p.text).join('')).toBe('recieve');
+    expect(add.parts?.map(p => p.text).join('')).toBe('receive');
+    expect(rem.parts?.filter(p => p.type === 'rem')).toHaveLength(1);
+  });
+});
@@ -1,81 +1,415 @@
+import { getLanguage } from './languages';
+
+export type DiffType = 'eq' | 'add' | 'rem';
+
+export interface DiffPart {
+  type: DiffType;
+  text: string;
+}
+
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+  /** Character-level breakdown of a changed word, set on a rem/add pair that mostly overlaps. */
+  parts?: DiffPart[];
+  /** Shared by the rem and add halves of a phrase that was moved rather than rewritten. */
+  moveId?: number;
+}
+
+/** A segment parsed back out of `<add>/<rem>` markup, with the offsets of its text in that markup. */
+export interface LocatedDiffSegment extends DiffSegment {
+  start: number;
+  end: number;
+}
+
+export interface DiffOptions {
+  /** Break changed words down into character edits. */
+  charLevel?: boolean;
+  /** Pair up removed and added copies of the same phrase as a move. */
+  detectMoves?: boolean;
+}
+
+const MAX_CHAR_DIFF_LENGTH = 32;
+const MIN_MOVE_LENGTH = 4;
+
+const KANA = /[\u3040-\u30ff\uff66-\uff9f]/;
+const HIRAGANA_ONLY = /^[\u3040-\u309f]+$/;
+
+/** Particles stay tokens of their own, so は → が reads as a particle swap rather than a rewritten word. */
+const JAPANESE_PARTICLES = new Set([
+  'は', 'が', 'を', 'に', 'で', 'へ', 'と', 'も', 'の', 'や', 'か', 'ね', 'よ', 'な',
+  'から', 'まで', 'より', 'では', 'には', 'とは', 'でも', 'への', 'との', 'での', 'にも', 'けど', 'ので', 'のに',
+]);
+
+const segmenters: Record<string, any> = {};
 
 /**
- * Word-level diffing utility.
- * Treats [Kanji](reading) as atomic units to prevent breaking furigana.
- * Splits text into words, punctuation, and special tokens for a more readable diff.
+ * Splits a run of CJK characters into words with Intl.Segmenter. Without it, the run
+ * splits wherever the script changes between kanji, hiragana and katakana.
  */
-export function calculateDiff(oldStr: string, newStr: string, language: string = 'English'): string {
-  if (!oldStr) return `<add>${newStr || ''}</add>`;
-  if (!newStr) return `<rem>${oldStr || ''}</rem>`;
+const segmentCjk = (run: string, locale: string, granularity: 'word' | 'grapheme'): string[] => {
+  const Segmenter = (Intl as any).Segmenter;
+  if (!Segmenter) return run.match(/[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff々〆]+|[\u3040-\u309f]+|[\u30a0-\u30ff\uff66-\uff9f]+|./gs) || [];
+  const key = `${locale}:${granularity}`;
+  if (!segmenters[key]) segmenters[key] = new Segmenter(locale, { granularity });
+  return Array.from(segmenters[key].segment(run) as Iterable<{ segment: string }>, s => s.segment);
+};
+
+/**
+ * Attaches inflections and auxiliaries to the word before them (行き + まし + た → 行きました),
+ * leaving particles and punctuation as separate tokens.
+ */
+const groupJapanese = (tokens: string[]): string[] =>
+  tokens.reduce<string[]>((grouped, token) => {
+    const previous = grouped[grouped.length - 1];
+    const attaches = previous !== undefined && HIRAGANA_ONLY.test(token) && !JAPANESE_PARTICLES.has(token) &&
+      !JAPANESE_PARTICLES.has(previous) && (previous.startsWith('[') || /[\u30a0-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff々〆]/.test(previous));
+    if (attaches) grouped[grouped.length - 1] += token;
+    else grouped.push(token);
+    return grouped;
+  }, []);
+
+/**
+ * Splits text into diff tokens, treating [Kanji](reading) as atomic units to prevent breaking furigana.
+ * Words, runs of whitespace and single other characters (punctuation) are tokens. CJK text is segmented
+ * into words whatever the language argument, so a Japanese note in an English diary still diffs by word.
+ */
+const tokenize = (text: string, language: string): string[] => {
+  const info = getLanguage(language);
+  const cjk = info.script === 'Jpan' || info.script === 'Hans';
+  const locale = KANA.test(text) ? 'ja' : cjk ? info.locale : 'zh';
+  const granularity = cjk ? info.segmenterGranularity : 'word';
+  const chunks = /(\[.*?\]\(.*?\))|([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f々〆]+)|([\p{L}\p{N}_']+)|(\s+)|(.)/gsu;
+  const tokens: string[] = [];
+  for (const match of text.matchAll(chunks)) {
+    if (match[2]) tokens.push(...segmentCjk(match[2], locale, granularity));
+    else tokens.push(match[0]);
+  }
+  return locale.startsWith('ja') ? groupJapanese(tokens) : tokens;
+};
 
-  const tokenize = (text: string) => {
-    // This regex matches:
-    // 1. Furigana blocks: [Kanji](reading)
-    // 2. Sequences of word characters (for English, etc.)
-    // 3. Sequences of CJK characters (for Japanese, Chinese, etc.)
-    // 4. Sequences of whitespace
-    // 5. Single non-word, non-whitespace characters (punctuation)
-    const regex = /(\[.*?\]\(.*?\))|([\w']+)|(\s+)|(.)/g;
-    return text.match(regex) || [];
+/**
+ * Myers' O((N+M)D) diff in linear space: find the middle snake of the edit graph,
+ * then recurse on either side of it. Works on interned token ids.
+ */
+const myers = (a: Int32Array, b: Int32Array): { type: DiffType; count: number }[] => {
+  const ops: { type: DiffType; count: number }[] = [];
+  const emit = (type: DiffType, count: number) => {
+    if (count <= 0) return;
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.count += count;
+    else ops.push({ type, count });
   };
 
-  const a = tokenize(oldStr);
-  const b = tokenize(newStr);
-  const n = a.length;
-  const m = b.length;
+  const bisect = (aLo: number, aHi: number, bLo: number, bHi: number): [number, number] | null => {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD;
+    const size = 2 * maxD + 2;
+    const forward = new Int32Array(size).fill(-1);
+    const backward = new Int32Array(size).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+    const delta = n - m;
+    const frontOverlaps = delta % 2 !== 0;
+    let k1Start = 0, k1End = 0, k2Start = 0, k2End = 0;
 
-  // LCS using dynamic programming
-  const dp = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+    for (let d = 0; d < maxD; d++) {
+      for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+        const i1 = offset + k1;
+        let x1 = k1 === -d || (k1 !== d && forward[i1 - 1] < forward[i1 + 1]) ? forward[i1 + 1] : forward[i1 - 1] + 1;
+        let y1 = x1 - k1;
+        while (x1 < n && y1 < m && a[aLo + x1] === b[bLo + y1]) { x1++; y1++; }
+        forward[i1] = x1;
+        if (x1 > n) k1End += 2;
+        else if (y1 > m) k1Start += 2;
+        else if (frontOverlaps) {
+          const i2 = offset + delta - k1;
+          if (i2 >= 0 && i2 < size && backward[i2] !== -1 && x1 >= n - backward[i2]) return [x1, y1];
+        }
+      }
+      for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+        const i2 = offset + k2;
+        let x2 = k2 === -d || (k2 !== d && backward[i2 - 1] < backward[i2 + 1]) ? backward[i2 + 1] : backward[i2 - 1] + 1;
+        let y2 = x2 - k2;
+        while (x2 < n && y2 < m && a[aHi - x2 - 1] === b[bHi - y2 - 1]) { x2++; y2++; }
+        backward[i2] = x2;
+        if (x2 > n) k2End += 2;
+        else if (y2 > m) k2Start += 2;
+        else if (!frontOverlaps) {
+          const i1 = offset + delta - k2;
+          if (i1 >= 0 && i1 < size && forward[i1] !== -1) {
+            const x1 = forward[i1];
+            if (x1 >= n - x2) return [x1, offset + x1 - i1];
+          }
+        }
+      }
+    }
+    return null;
+  };
+
+  const diffRange = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+    let prefix = 0;
+    while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) prefix++;
+    let suffix = 0;
+    while (aHi - suffix > aLo + prefix && bHi - suffix > bLo + prefix && a[aHi - suffix - 1] === b[bHi - suffix - 1]) suffix++;
 
-  for (let i = 1; i <= n; i++) {
-    for (let j = 1; j <= m; j++) {
-      if (a[i - 1] === b[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
+    emit('eq', prefix);
+    aLo += prefix; bLo += prefix;
+    aHi -= suffix; bHi -= suffix;
+
+    if (aLo === aHi) emit('add', bHi - bLo);
+    else if (bLo === bHi) emit('rem', aHi - aLo);
+    else {
+      const split = bisect(aLo, aHi, bLo, bHi);
+      if (split) {
+        diffRange(aLo, aLo + split[0], bLo, bLo + split[1]);
+        diffRange(aLo + split[0], aHi, bLo + split[1], bHi);
       } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+        emit('rem', aHi - aLo);
+        emit('add', bHi - bLo);
       }
     }
-  }
+    emit('eq', suffix);
+  };
 
-  // Backtracking to find the edit path
-  let res: { type: 'add' | 'rem' | 'eq', val: string }[] = [];
-  let i = n, j = m;
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && a[i - 1] === b[j - 1]) {
-      res.unshift({ type: 'eq', val: a[i - 1] });
-      i--; j--;
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      res.unshift({ type: 'add', val: b[j - 1] });
-      j--;
-    } else if (i > 0) { // Guard against i becoming negative
-      res.unshift({ type: 'rem', val: a[i - 1] });
-      i--;
-    }
+  diffRange(0, a.length, 0, b.length);
+  return ops;
+};
+
+const internTokens = (a: string[], b: string[]): [Int32Array, Int32Array] => {
+  const ids = new Map<string, number>();
+  const intern = (tokens: string[]) => Int32Array.from(tokens, t => {
+    let id = ids.get(t);
+    if (id === undefined) { id = ids.size; ids.set(t, id); }
+    return id;
+  });
+  return [intern(a), intern(b)];
+};
+
+/**
+ * Diffs two token lists into merged segments, every token counting. Used for the
+ * characters of a changed word.
+ */
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  let i = 0, j = 0;
+  return myers(...internTokens(a, b)).map(({ type, count }) => {
+    const tokens = type === 'add' ? b.slice(j, j + count) : a.slice(i, i + count);
+    if (type !== 'add') i += count;
+    if (type !== 'rem') j += count;
+    return { type, text: tokens.join('') };
+  });
+};
+
+interface WordUnit {
+  word: string;
+  /** The whitespace that follows the word. */
+  space: string;
+}
+
+const WHITESPACE = /^\s+$/;
+
+/**
+ * Groups tokens into words, each carrying the whitespace after it. `lead` is the whitespace before the first word.
+ */
+const toWordUnits = (tokens: string[]): { lead: string; units: WordUnit[] } => {
+  let lead = '';
+  const units: WordUnit[] = [];
+  for (const token of tokens) {
+    if (!WHITESPACE.test(token)) units.push({ word: token, space: '' });
+    else if (units.length > 0) units[units.length - 1].space += token;
+    else lead += token;
   }
+  return { lead, units };
+};
 
-  // Formatting and merging consecutive same-type segments
-  let finalHtml = '';
-  let lastType: 'add' | 'rem' | 'eq' | null = null;
-  let buffer = '';
-
-  const flush = () => {
-    if (!buffer) return;
-    if (lastType === 'add') finalHtml += `<add>${buffer}</add>`;
-    else if (lastType === 'rem') finalHtml += `<rem>${buffer}</rem>`;
-    else finalHtml += buffer;
-    buffer = '';
+/**
+ * Diffs two token lists word by word. Only words and punctuation are compared, so the
+ * result keeps the most words in common; whitespace is attached afterwards and marked
+ * changed only where it differs. A replacement with as many words on each side is split
+ * into word-for-word pairs, e.g. に行きました → へ行った as に→へ and 行きました→行った.
+ */
+const diffWords = (a: string[], b: string[]): DiffSegment[] => {
+  const before = toWordUnits(a);
+  const after = toWordUnits(b);
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffType, text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type && type === 'eq') last.text += text;
+    else segments.push({ type, text });
+  };
+  const pushSpace = (from: string, to: string) => {
+    if (from === to) push('eq', from);
+    else { push('rem', from); push('add', to); }
   };
+  const joinUnits = (units: WordUnit[]) => units.map((u, k) => u.word + (k < units.length - 1 ? u.space : '')).join('');
 
-  for (const token of res) {
-    if (token.type !== lastType) {
-      flush();
-      lastType = token.type;
+  pushSpace(before.lead, after.lead);
+  const ops = myers(...internTokens(before.units.map(u => u.word), after.units.map(u => u.word)));
+  let i = 0, j = 0;
+  for (let k = 0; k < ops.length; k++) {
+    const { type, count } = ops[k];
+    const next = ops[k + 1];
+    if (type === 'eq') {
+      for (let t = 0; t < count; t++, i++, j++) {
+        push('eq', before.units[i].word);
+        pushSpace(before.units[i].space, after.units[j].space);
+      }
+    } else if (type === 'rem' && next?.type === 'add' && count > 1 && count === next.count) {
+      for (let t = 0; t < count; t++, i++, j++) {
+        segments.push({ type: 'rem', text: before.units[i].word }, { type: 'add', text: after.units[j].word });
+        pushSpace(before.units[i].space, after.units[j].space);
+      }
+      k++;
+    } else if (type === 'rem' && next?.type === 'add') {
+      const removed = before.units.slice(i, i += count);
+      const added = after.units.slice(j, j += next.count);
+      segments.push({ type: 'rem', text: joinUnits(removed) }, { type: 'add', text: joinUnits(added) });
+      pushSpace(removed[removed.length - 1].space, added[added.length - 1].space);
+      k++;
+    } else if (type === 'rem') {
+      segments.push({ type: 'rem', text: before.units.slice(i, i += count).map(u => u.word + u.space).join('') });
+    } else {
+      segments.push({ type: 'add', text: after.units.slice(j, j += count).map(u => u.word + u.space).join('') });
     }
-    buffer += token.val;
   }
-  flush();
+  return segments;
+};
+
+const mergeParts = (parts: DiffPart[]): DiffPart[] =>
+  parts.reduce<DiffPart[]>((merged, { type, text }) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === type) last.text += text;
+    else merged.push({ type, text });
+    return merged;
+  }, []);
+
+const isSingleWord = (text: string) => text.length <= MAX_CHAR_DIFF_LENGTH && !/\s/.test(text.trim()) && !text.includes('[');
+
+/**
+ * Adds character-level parts to adjacent rem/add pairs of single words, e.g. "recieve" → "receive",
+ * when at least half of the characters survive. Unrelated replacements like "go" → "went" are left whole.
+ */
+const addCharDiffs = <T extends DiffSegment>(segments: T[]): T[] => {
+  const result = segments.map(s => ({ ...s }));
+  for (let i = 0; i + 1 < result.length; i++) {
+    const rem = result[i].type === 'rem' ? result[i] : result[i + 1].type === 'rem' ? result[i + 1] : null;
+    const add = result[i].type === 'add' ? result[i] : result[i + 1].type === 'add' ? result[i + 1] : null;
+    if (!rem || !add || rem === add || !isSingleWord(rem.text) || !isSingleWord(add.text)) continue;
+
+    const chars = diffTokens(Array.from(rem.text), Array.from(add.text));
+    const kept = chars.filter(c => c.type === 'eq').reduce((sum, c) => sum + c.text.length, 0);
+    if (kept * 2 < Math.max(rem.text.length, add.text.length)) continue;
+
+    rem.parts = mergeParts(chars.filter(c => c.type !== 'add'));
+    add.parts = mergeParts(chars.filter(c => c.type !== 'rem'));
+    i++;
+  }
+  return result;
+};
+
+/**
+ * Marks a removed phrase and an identical added phrase elsewhere as one move.
+ */
+const markMoves = <T extends DiffSegment>(segments: T[]): T[] => {
+  const result = segments.map(s => ({ ...s }));
+  const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+  let nextId = 0;
+
+  result.forEach((rem, i) => {
+    if (rem.type !== 'rem' || rem.moveId !== undefined) return;
+    const key = normalize(rem.text);
+    if (key.replace(/\s/g, '').length < MIN_MOVE_LENGTH) return;
+    const add = result.find((s, j) => s.type === 'add' && s.moveId === undefined && Math.abs(i - j) > 1 && normalize(s.text) === key);
+    if (!add) return;
+    rem.moveId = nextId;
+    add.moveId = nextId;
+    delete rem.parts;
+    delete add.parts;
+    nextId++;
+  });
+  return result;
+};
+
+/**
+ * Applies the optional refinements to segments from diffSegments or parseDiffMarkup.
+ */
+export const refineDiffSegments = <T extends DiffSegment>(segments: T[], options: DiffOptions = {}): T[] => {
+  let result = segments;
+  if (options.charLevel) result = addCharDiffs(result);
+  if (options.detectMoves) result = markMoves(result);
+  return result;
+};
+
+/**
+ * Word-level diff of two texts as typed segments.
+ */
+export const diffSegments = (oldStr: string, newStr: string, language: string = 'English', options: DiffOptions = {}): DiffSegment[] => {
+  const segments = diffWords(tokenize(oldStr || '', language), tokenize(newStr || '', language)).filter(s => s.text);
+  return refineDiffSegments(segments, options);
+};
+
+/**
+ * Serializes segments to the `<add>…</add>` / `<rem>…</rem>` markup stored on entries.
+ */
+export const renderDiffMarkup = (segments: DiffSegment[]): string =>
+  segments
+    .map(s => s.type === 'eq' ? s.text : `<${s.type}>${s.text}</${s.type}>`)
+    .join('')
+    .replace(/<(add|rem)><\/\1>/g, '');
+
+/**
+ * Reads stored `<add>/<rem>` markup back into segments.
+ */
+export const parseDiffMarkup = (markup: string): LocatedDiffSegment[] => {
+  const segments: LocatedDiffSegment[] = [];
+  const tag = /<(add|rem)>([\s\S]*?)<\/\1>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(markup))) {
+    if (match.index > last) segments.push({ type: 'eq', text: markup.slice(last, match.index), start: last, end: match.index });
+    const start = match.index + match[1].length + 2;
+    segments.push({ type: match[1] as 'add' | 'rem', text: match[2], start, end: start + match[2].length });
+    last = tag.lastIndex;
+  }
+  if (last < markup.length) segments.push({ type: 'eq', text: markup.slice(last), start: last, end: markup.length });
+  return segments;
+};
 
-  // Final cleanup: remove potential empty tags
-  return finalHtml.replace(/<(add|rem)><\/\1>/g, '');
+export interface DiffHtmlClasses {
+  add: string;
+  rem: string;
+  /** The original position of a moved phrase. Falls back to `rem`. */
+  moveFrom?: string;
+  /** The new position of a moved phrase. Falls back to `add`. */
+  moveTo?: string;
+  /** The characters that changed inside a word. Without it, parts are not shown. */
+  char?: string;
+}
+
+/**
+ * Renders segments as HTML spans. `format` turns raw segment text into HTML, e.g. to render ruby.
+ */
+export const renderDiffHtml = (segments: DiffSegment[], classes: DiffHtmlClasses, format: (text: string) => string = text => text): string =>
+  segments.map(segment => {
+    if (segment.type === 'eq') return format(segment.text);
+    const moved = segment.moveId !== undefined;
+    const className = moved
+      ? (segment.type === 'rem' ? classes.moveFrom : classes.moveTo) || classes[segment.type]
+      : classes[segment.type];
+    const inner = segment.parts && classes.char
+      ? segment.parts.map(p => p.type === 'eq' ? format(p.text) : `<span class="${classes.char}">${format(p.text)}</span>`).join('')
+      : format(segment.text);
+    return `<span class="${className}"${moved ? ` data-move="${segment.moveId}"` : ''}>${inner}</span>`;
+  }).join('');
+
+/**
+ * Word-level diff as `<add>/<rem>` markup.
+ */
+export function calculateDiff(oldStr: string, newStr: string, language: string = 'English'): string {
+  if (!oldStr) return `<add>${newStr || ''}</add>`;
+  if (!newStr) return `<rem>${oldStr || ''}</rem>`;
+  return renderDiffMarkup(diffSegments(oldStr, newStr, language));
 }
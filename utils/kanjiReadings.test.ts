@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { KANJI_READINGS, WORD_READINGS } from './kanjiReadings';
+import { alignReading, checkReadingPair, completeReadingPairs, lookupReading, validateReadingPairs, weaveRubyMarkdown } from './textHelpers';
+
+describe('bundled readings', () => {
+  it('parses on and kun readings for each kanji', () => {
+    expect(KANJI_READINGS['食']).toEqual({ on: ['しょく'], kun: ['た', 'く'] });
+    expect(KANJI_READINGS['校']).toEqual({ on: ['こう'], kun: [] });
+  });
+
+  it('looks up whole words first, then kanji by kanji', () => {
+    expect(lookupReading('昨日')).toBe(WORD_READINGS['昨日']);
+    expect(lookupReading('電車')).toBe('でんしゃ');
+    expect(lookupReading('山')).toBe('やま');
+    expect(lookupReading('食べる')).toBe('たべる');
+  });
+});
+
+describe('alignReading', () => {
+  it('keeps okurigana outside the brackets', () => {
+    expect(alignReading('食べる', 'たべる')).toBe('[食](た)べる');
+    expect(alignReading('食べる', 'のむ')).toBeNull();
+  });
+});
+
+describe('checkReadingPair', () => {
+  it('accepts readings composed from the dictionary, with sound changes', () => {
+    expect(checkReadingPair({ kanji: '公園', reading: 'こうえん' })).toBeNull();
+    expect(checkReadingPair({ kanji: '学校', reading: 'がっこう' })).toBeNull();
+    expect(checkReadingPair({ kanji: '東京', reading: 'トウキョウ' })).toBeNull();
+  });
+
+  it('flags readings the dictionary disagrees with', () => {
+    expect(checkReadingPair({ kanji: '電車', reading: 'でんき' })).toEqual({ kanji: '電車', reading: 'でんき', reason: 'dictionary', expected: 'でんしゃ' });
+  });
+
+  it('flags readings whose okurigana do not match', () => {
+    expect(checkReadingPair({ kanji: '食べる', reading: 'たべた' })).toMatchObject({ reason: 'okurigana', expected: 'たべる' });
+  });
+
+  it('skips pairs filled in locally and text without kanji', () => {
+    expect(validateReadingPairs([
+      { kanji: '電車', reading: 'でんき', source: 'local' },
+      { kanji: 'ひらがな', reading: 'ひらがな' },
+      { kanji: '電車', reading: 'でんき' },
+    ])).toHaveLength(1);
+  });
+});
+
+describe('filling in readings', () => {
+  it('adds dictionary readings for words the model left out', () => {
+    const pairs = completeReadingPairs('友達と公園に行った。', [{ kanji: '公園', reading: 'こうえん' }]);
+    expect(pairs).toContainEqual({ kanji: '友達', reading: 'ともだち', source: 'local' });
+    expect(pairs.filter(p => p.kanji === '公園')).toEqual([{ kanji: '公園', reading: 'こうえん' }]);
+  });
+
+  it('reuses the reading of a kanji run for inflected forms', () => {
+    expect(weaveRubyMarkdown('公園に行きました。', [{ kanji: '行く', reading: 'いく' }])).toBe('[公園](こうえん)に[行](い)きました。');
+  });
+
+  it('leaves languages without furigana alone', () => {
+    expect(weaveRubyMarkdown('我去了公园。', [], 'Chinese')).toBe('我去了公园。');
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * A small bundled reading dictionary for checking and filling in furigana locally.
+ * Each line is `kanji:on readings|kun readings`. The first on reading is the one used in
+ * compounds and the first kun reading the one used on its own. Kun readings are stems,
+ * without okurigana.
+ */
+const KANJI_TABLE = `
+一:いち,いつ|ひと
+二:に|ふた
+三:さん|み
+四:し|よん,よ
+五:ご|いつ
+六:ろく|む
+七:しち|なな
+八:はち|や
+九:きゅう,く|ここの
+十:じゅう,じっ|とお
+百:ひゃく|
+千:せん|ち
+万:まん,ばん|
+円:えん|まる
+年:ねん|とし
+月:げつ,がつ|つき
+日:にち,じつ|ひ,か
+時:じ|とき
+分:ぶん,ふん|わ
+半:はん|なか
+週:しゅう|
+今:こん,きん|いま
+毎:まい|
+午:ご|
+前:ぜん|まえ
+後:ご,こう|あと,うし,のち
+朝:ちょう|あさ
+昼:ちゅう|ひる
+夜:や|よる,よ
+晩:ばん|
+夕:せき|ゆう
+末:まつ|すえ
+方:ほう|かた
+上:じょう|うえ,うわ,あ,のぼ
+下:か,げ|した,しも,さ,くだ,お
+中:ちゅう|なか
+外:がい,げ|そと,ほか
+右:う,ゆう|みぎ
+左:さ|ひだり
+東:とう|ひがし
+西:せい,さい|にし
+南:なん|みなみ
+北:ほく|きた
+人:じん,にん|ひと
+男:だん,なん|おとこ
+女:じょ,にょ|おんな,め
+子:し,す|こ
+父:ふ|ちち
+母:ぼ|はは
+友:ゆう|とも
+達:たつ|
+家:か,け|いえ,や
+族:ぞく|
+兄:きょう,けい|あに
+姉:し|あね
+弟:てい,だい|おとうと
+妹:まい|いもうと
+私:し|わたし,わたくし
+彼:ひ|かれ,かの
+先:せん|さき
+生:せい,しょう|い,う,なま,は
+学:がく|まな
+校:こう|
+大:だい,たい|おお
+小:しょう|ちい,こ,お
+高:こう|たか
+安:あん|やす
+新:しん|あたら,あら,にい
+古:こ|ふる
+長:ちょう|なが
+白:はく|しろ
+赤:せき|あか
+青:せい|あお
+黒:こく|くろ
+色:しょく,しき|いろ
+山:さん|やま
+川:せん|かわ
+田:でん|た
+木:もく,ぼく|き
+林:りん|はやし
+森:しん|もり
+花:か|はな
+葉:よう|は
+天:てん|あめ,あま
+気:き,け|
+雨:う|あめ,あま
+雪:せつ|ゆき
+風:ふう,ふ|かぜ
+空:くう|そら,あ,から
+海:かい|うみ
+水:すい|みず
+火:か|ひ
+金:きん,こん|かね
+土:ど,と|つち
+石:せき|いし
+池:ち|いけ
+星:せい|ほし
+光:こう|ひかり,ひか
+春:しゅん|はる
+夏:か|なつ
+秋:しゅう|あき
+冬:とう|ふゆ
+暑:しょ|あつ
+寒:かん|さむ
+熱:ねつ|あつ
+冷:れい|つめ,ひ,さ
+温:おん|あたた
+晴:せい|は
+曇:どん|くも
+本:ほん|
+語:ご|かた
+話:わ|はな,はなし
+言:げん,ごん|い,こと
+読:どく|よ
+書:しょ|か
+聞:ぶん,もん|き
+見:けん|み
+食:しょく|た,く
+飲:いん|の
+行:こう,ぎょう|い,ゆ,おこな
+来:らい|く,き,こ
+帰:き|かえ
+出:しゅつ|で,だ
+入:にゅう|はい,い
+休:きゅう|やす
+買:ばい|か
+売:ばい|う
+会:かい,え|あ
+社:しゃ|やしろ
+員:いん|
+店:てん|みせ
+駅:えき|
+車:しゃ|くるま
+電:でん|
+道:どう|みち
+路:ろ|じ
+橋:きょう|はし
+国:こく|くに
+町:ちょう|まち
+村:そん|むら
+市:し|いち
+京:きょう|
+都:と,つ|みやこ
+旅:りょ|たび
+部:ぶ|
+屋:おく|や
+室:しつ|
+場:じょう|ば
+所:しょ|ところ,どころ
+公:こう|おおやけ
+園:えん|その
+図:ず,と|はか
+館:かん|
+銀:ぎん|
+名:めい,みょう|な
+何:か|なに,なん
+手:しゅ|て
+足:そく|あし
+目:もく|め
+口:こう|くち
+耳:じ|みみ
+頭:とう,ず|あたま
+顔:がん|かお
+体:たい|からだ
+心:しん|こころ
+思:し|おも
+考:こう|かんが
+感:かん|
+知:ち|し
+覚:かく|おぼ,さ
+忘:ぼう|わす
+持:じ|も
+待:たい|ま
+作:さく,さ|つく
+使:し|つか
+住:じゅう|す
+働:どう|はたら
+勉:べん|
+強:きょう|つよ
+教:きょう|おし
+習:しゅう|なら
+練:れん|ね
+復:ふく|
+始:し|はじ
+終:しゅう|お
+初:しょ|はじ,はつ
+最:さい|もっと
+次:じ|つぎ
+回:かい|まわ
+度:ど|たび
+昨:さく|
+映:えい|うつ
+画:が,かく|
+写:しゃ|うつ
+真:しん|ま
+楽:がく,らく|たの
+音:おん|おと,ね
+好:こう|す,この
+元:げん,がん|もと
+病:びょう|やまい
+院:いん|
+医:い|
+者:しゃ|もの
+薬:やく|くすり
+疲:ひ|つか
+痛:つう|いた
+仕:し|つか
+事:じ|こと
+料:りょう|
+理:り|
+茶:ちゃ,さ|
+肉:にく|
+魚:ぎょ|さかな,うお
+米:べい,まい|こめ
+物:ぶつ,もつ|もの
+品:ひん|しな
+近:きん|ちか
+遠:えん|とお
+早:そう|はや
+速:そく|はや
+遅:ち|おそ,おく
+急:きゅう|いそ
+明:めい,みょう|あか,あ
+暗:あん|くら
+多:た|おお
+少:しょう|すく,すこ
+同:どう|おな
+自:じ,し|みずか
+世:せ,せい|よ
+界:かい|
+曜:よう|
+和:わ|
+洋:よう|
+服:ふく|
+着:ちゃく|き,つ
+寝:しん|ね
+起:き|お
+歩:ほ|ある,あゆ
+走:そう|はし
+泳:えい|およ
+乗:じょう|の
+降:こう|お,ふ
+開:かい|あ,ひら
+閉:へい|し,と
+意:い|
+味:み|あじ
+答:とう|こた
+問:もん|と
+題:だい|
+試:し|ため,こころ
+験:けん|
+紙:し|かみ
+送:そう|おく
+届:|とど
+文:ぶん,もん|ふみ
+字:じ|
+漢:かん|
+英:えい|
+犬:けん|いぬ
+猫:びょう|ねこ
+鳥:ちょう|とり
+特:とく|
+別:べつ|わか
+便:べん,びん|たよ
+利:り|き
+有:ゆう,う|あ
+無:む,ぶ|な
+不:ふ,ぶ|
+必:ひつ|かなら
+要:よう|い
+結:けつ|むす
+婚:こん|
+活:かつ|
+動:どう|うご
+運:うん|はこ
+転:てん|ころ
+計:けい|はか
+予:よ|
+定:てい,じょう|さだ
+約:やく|
+束:そく|たば
+夢:む|ゆめ
+愛:あい|
+恋:れん|こい
+悲:ひ|かな
+怒:ど|おこ,いか
+笑:しょう|わら,え
+泣:きゅう|な
+喜:き|よろこ
+幸:こう|しあわ,さいわ
+連:れん|つ
+絡:らく|
+申:しん|もう
+込:|こ
+受:じゅ|う
+取:しゅ|と
+付:ふ|つ
+決:けつ|き
+経:けい|へ
+準:じゅん|
+備:び|そな
+掃:そう|は
+除:じょ|のぞ
+洗:せん|あら
+伝:でん|つた
+説:せつ|と
+表:ひょう|おもて,あらわ
+現:げん|あらわ
+変:へん|か
+化:か,け|ば
+成:せい|な
+失:しつ|うしな
+勝:しょう|か
+負:ふ|ま,お
+点:てん|
+数:すう|かず,かぞ
+`;
+
+export interface KanjiReadings {
+  on: string[];
+  kun: string[];
+}
+
+export const KANJI_READINGS: Record<string, KanjiReadings> = Object.fromEntries(
+  KANJI_TABLE.trim().split('\n').map(line => {
+    const [kanji, readings] = line.split(':');
+    const [on, kun] = readings.split('|').map(list => list ? list.split(',') : []);
+    return [kanji, { on, kun }];
+  })
+);
+
+/**
+ * Words read as a whole (jukujikun), or whose reading does not follow from their kanji's
+ * first readings, e.g. sound changes like 学校 (がく + こう → がっこう).
+ */
+export const WORD_READINGS: Record<string, string> = {
+  今日: 'きょう',
+  明日: 'あした',
+  昨日: 'きのう',
+  今年: 'ことし',
+  今朝: 'けさ',
+  明後日: 'あさって',
+  一昨日: 'おととい',
+  一人: 'ひとり',
+  二人: 'ふたり',
+  一日: 'ついたち',
+  二日: 'ふつか',
+  三日: 'みっか',
+  四日: 'よっか',
+  五日: 'いつか',
+  八日: 'ようか',
+  十日: 'とおか',
+  二十歳: 'はたち',
+  大人: 'おとな',
+  日本: 'にほん',
+  日本語: 'にほんご',
+  時計: 'とけい',
+  眼鏡: 'めがね',
+  上手: 'じょうず',
+  下手: 'へた',
+  部屋: 'へや',
+  友達: 'ともだち',
+  果物: 'くだもの',
+  景色: 'けしき',
+  土産: 'みやげ',
+  風邪: 'かぜ',
+  真面目: 'まじめ',
+  素敵: 'すてき',
+  美味しい: 'おいしい',
+  一緒: 'いっしょ',
+  一番: 'いちばん',
+  大丈夫: 'だいじょうぶ',
+  学校: 'がっこう',
+  結婚: 'けっこん',
+  出発: 'しゅっぱつ',
+  日記: 'にっき',
+  雑誌: 'ざっし',
+  切手: 'きって',
+  切符: 'きっぷ',
+  人々: 'ひとびと',
+  時々: 'ときどき',
+  色々: 'いろいろ',
+  我々: 'われわれ',
+  山々: 'やまやま',
+  毎日: 'まいにち',
+  今晩: 'こんばん',
+  仕事: 'しごと',
+  旅行: 'りょこう',
+  家族: 'かぞく',
+  勉強: 'べんきょう',
+  料理: 'りょうり',
+  映画: 'えいが',
+  天気: 'てんき',
+  元気: 'げんき',
+  電車: 'でんしゃ',
+  時間: 'じかん',
+  週末: 'しゅうまつ',
+  海外: 'かいがい',
+  先生: 'せんせい',
+  学生: 'がくせい',
+  紅葉: 'こうよう',
+  買い物: 'かいもの',
+  一生懸命: 'いっしょうけんめい',
+};
@@ -0,0 +1,43 @@
+/**
+ * Character n-gram profiles for telling Latin-script languages apart, most frequent first.
+ * Spaces mark word boundaries, so " th" is "th" at the start of a word. The last entries
+ * are letters that are rare in the other languages.
+ */
+export const NGRAM_PROFILES: Record<string, string[]> = {
+  English: [
+    ' th', 'the', 'he ', ' an', 'nd ', 'and', 'ed ', ' to', 'ing', 'ng ', ' of', 'of ', ' i ', 'to ', ' in', 'er ',
+    'is ', 'in ', ' a ', 'ion', 'at ', ' it', 'hat', 'tha', ' wa', 'was', 're ', 'on ', 'es ', ' he', 'ent', 'for',
+    ' my', 'my ', ' we', 'ly ', ' be', 'her', 'tio', 'ter', 'you', ' yo', 'ou ', 'll ', 've ', 'ith', 'wit', ' so',
+    'day', ' wh', 'ght', 'w',
+  ],
+  French: [
+    ' de', 'es ', 'de ', 'le ', ' le', 'ent', 'nt ', ' la', 'la ', 'on ', 're ', ' et', 'et ', ' pa', 'les', ' l\'',
+    'que', ' qu', 'ue ', 'ion', ' un', 'ns ', 'ais', 'our', ' co', 'ait', ' po', 'est', ' je', 'je ', ' j\'', 'men',
+    ' ce', ' en', 'en ', 'ous', 'ai ', 'des', ' d\'', 'une', 'par', 'qui', 'eur', ' à ', 'ans', 'pas', 'été', 'é ',
+    'ç', 'è', 'ê', 'œ', 'ù',
+  ],
+  Spanish: [
+    ' de', 'de ', 'os ', ' la', 'la ', 'es ', ' qu', 'que', 'ue ', 'el ', ' el', 'en ', ' en', 'as ', ' co', ' lo',
+    'ado', 'do ', ' y ', 'to ', ' se', 'ar ', 'con', 'nte', ' pa', 'por', ' po', 'los', 'ra ', 'una', ' un', 'est',
+    'par', ' me', 'mi ', ' mi', 'hoy', 'fue', 'aba', 'ía ', 'ió', 'ción', 'muy', ' mu', 'ero', 'amo', 'ñ', '¿', '¡',
+    'á', 'í', 'ó', 'ú',
+  ],
+  German: [
+    'en ', 'er ', 'ch ', ' de', 'der', 'die', ' di', 'ie ', 'ein', ' ei', 'ich', 'sch', 'und', ' un', 'nd ', 'cht',
+    ' ic', 'te ', 'den', ' da', 'gen', 'ine', 'ist', 'nde', 'che', 'ung', 'das', ' au', ' we', 'ten', 'ber', 'ge ',
+    'mit', ' mi', 'auf', 'sie', ' si', 'nic', 'ht ', 'eit', 'hab', 'war', ' zu', 'zu ', 'bei', 'ach', 'ß', 'ä', 'ö',
+    'ü',
+  ],
+  Italian: [
+    ' di', 'di ', ' la', 'la ', 'to ', 're ', 'no ', 'ne ', ' co', 'che', ' ch', 'he ', 'ell', 'lla', ' il', 'il ',
+    'one', 'ato', ' pe', 'per', 'ent', 'nte', ' de', 'del', ' un', 'con', 'zio', 'ta ', 'io ', ' no', 'non', 'ere',
+    'sta', 'ono', 'are', ' e ', 'ho ', ' ho', 'gli', 'mol', 'olt', 'lto', ' è ', 'ndo', 'ava', 'ri ', 'tti', 'zz',
+    'ì', 'ò', 'à ',
+  ],
+};
+
+/**
+ * Characters and words common in Chinese but rare in Japanese: simplified forms and
+ * function words, for telling kana-less Han text apart.
+ */
+export const CHINESE_MARKERS = '的了是我你他她们这那在有不就都也很吗呢吧说个过还没么对时会来为着给让从';
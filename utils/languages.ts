@@ -0,0 +1,114 @@
+export type DifficultyId = 'Beginner' | 'Intermediate' | 'Advanced';
+
+export interface LanguageInfo {
+  /** The id stored on entries, vocab and preferences, and used in prompts. */
+  code: string;
+  /** The language's own name, e.g. 日本語. */
+  label: string;
+  /** The name shown in the Chinese UI, e.g. 日语. */
+  nameZh: string;
+  flag: string;
+  /** BCP 47 locale for Intl APIs. */
+  locale: string;
+  /** ISO 15924 script code. */
+  script: 'Latn' | 'Jpan' | 'Hans' | 'Kore';
+  /** Whether words are separated by spaces. */
+  spaced: boolean;
+  /** What Intl.Segmenter should split on to find words. */
+  segmenterGranularity: 'word' | 'grapheme';
+  /** Prebuilt TTS voice that reads this language well. */
+  ttsVoice: string;
+  /** How readings are annotated above the text, if at all. */
+  rubyScheme: 'furigana' | 'pinyin' | null;
+  direction: 'ltr' | 'rtl';
+  /** Chat openers by time of day. */
+  starters: { morning: string; day: string; evening: string; night: string };
+  /** The level each difficulty corresponds to on the language's usual scale. */
+  difficultyLabels: Record<DifficultyId, string>;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  {
+    code: 'English', label: 'English', nameZh: '英语', flag: '🇬🇧',
+    locale: 'en-GB', script: 'Latn', spaced: true, segmenterGranularity: 'word',
+    ttsVoice: 'Kore', rubyScheme: null, direction: 'ltr',
+    starters: { morning: "Good morning! What's your goal?", day: "How's your day?", evening: "Good evening. Thoughts?", night: "Quiet night, isn't it?" },
+    difficultyLabels: { Beginner: 'CEFR A2', Intermediate: 'CEFR B1–B2', Advanced: 'CEFR C1' },
+  },
+  {
+    code: 'Japanese', label: '日本語', nameZh: '日语', flag: '🇯🇵',
+    locale: 'ja-JP', script: 'Jpan', spaced: false, segmenterGranularity: 'word',
+    ttsVoice: 'Kore', rubyScheme: 'furigana', direction: 'ltr',
+    starters: { morning: "おはようございます！", day: "こんにちは！", evening: "こんばんは。", night: "おやすみなさい。" },
+    difficultyLabels: { Beginner: 'JLPT N5–N4', Intermediate: 'JLPT N3', Advanced: 'JLPT N2–N1' },
+  },
+  {
+    code: 'French', label: 'Français', nameZh: '法语', flag: '🇫🇷',
+    locale: 'fr-FR', script: 'Latn', spaced: true, segmenterGranularity: 'word',
+    ttsVoice: 'Aoede', rubyScheme: null, direction: 'ltr',
+    starters: { morning: "Bonjour !", day: "Salut !", evening: "Bonsoir.", night: "Bonne nuit." },
+    difficultyLabels: { Beginner: 'DELF A2', Intermediate: 'DELF B1–B2', Advanced: 'DALF C1' },
+  },
+  {
+    code: 'Spanish', label: 'Español', nameZh: '西语', flag: '🇪🇸',
+    locale: 'es-ES', script: 'Latn', spaced: true, segmenterGranularity: 'word',
+    ttsVoice: 'Puck', rubyScheme: null, direction: 'ltr',
+    starters: { morning: "¡Buenos días!", day: "¡Hola!", evening: "Buenas noches.", night: "Buenas noches." },
+    difficultyLabels: { Beginner: 'DELE A2', Intermediate: 'DELE B1–B2', Advanced: 'DELE C1' },
+  },
+  {
+    code: 'German', label: 'Deutsch', nameZh: '德语', flag: '🇩🇪',
+    locale: 'de-DE', script: 'Latn', spaced: true, segmenterGranularity: 'word',
+    ttsVoice: 'Charon', rubyScheme: null, direction: 'ltr',
+    starters: { morning: "Guten Morgen!", day: "Hallo!", evening: "Guten Abend.", night: "Gute Nacht." },
+    difficultyLabels: { Beginner: 'Goethe A2', Intermediate: 'Goethe B1–B2', Advanced: 'Goethe C1' },
+  },
+  {
+    code: 'Italian', label: 'Italiano', nameZh: '意语', flag: '🇮🇹',
+    locale: 'it-IT', script: 'Latn', spaced: true, segmenterGranularity: 'word',
+    ttsVoice: 'Aoede', rubyScheme: null, direction: 'ltr',
+    starters: { morning: "Buongiorno!", day: "Ciao!", evening: "Buonasera.", night: "Buonanotte." },
+    difficultyLabels: { Beginner: 'CILS A2', Intermediate: 'CILS B1–B2', Advanced: 'CILS C1' },
+  },
+  {
+    code: 'Chinese', label: '中文', nameZh: '中文', flag: '🇨🇳',
+    locale: 'zh-CN', script: 'Hans', spaced: false, segmenterGranularity: 'word',
+    ttsVoice: 'Kore', rubyScheme: 'pinyin', direction: 'ltr',
+    starters: { morning: "早上好！", day: "你好！", evening: "晚上好。", night: "晚安。" },
+    difficultyLabels: { Beginner: 'HSK 2–3', Intermediate: 'HSK 4', Advanced: 'HSK 5–6' },
+  },
+  {
+    code: 'Korean', label: '한국어', nameZh: '韩语', flag: '🇰🇷',
+    locale: 'ko-KR', script: 'Kore', spaced: true, segmenterGranularity: 'word',
+    ttsVoice: 'Kore', rubyScheme: null, direction: 'ltr',
+    starters: { morning: "좋은 아침이에요!", day: "안녕하세요!", evening: "좋은 저녁이에요.", night: "안녕히 주무세요." },
+    difficultyLabels: { Beginner: 'TOPIK 1–2', Intermediate: 'TOPIK 3–4', Advanced: 'TOPIK 5–6' },
+  },
+];
+
+/** The languages a new account starts with. */
+export const DEFAULT_LANGUAGES = ['English', 'Japanese', 'French', 'Spanish', 'German'];
+
+const BY_CODE = new Map(LANGUAGES.map(l => [l.code, l]));
+
+/**
+ * The registry entry for `code`. Codes it does not know (e.g. from an old backup) get a
+ * plain, spaced, left-to-right entry so callers never have to check.
+ */
+export const getLanguage = (code: string): LanguageInfo =>
+  BY_CODE.get(code) || {
+    ...LANGUAGES[0],
+    code,
+    label: code,
+    nameZh: code,
+    flag: '🌐',
+    locale: 'und',
+    difficultyLabels: { Beginner: 'A2', Intermediate: 'B1–B2', Advanced: 'C1' },
+  };
+
+export const languageFlag = (code: string): string => getLanguage(code).flag;
+
+/**
+ * The registry entries for `codes`, in registry order.
+ */
+export const languagesFor = (codes: string[]): LanguageInfo[] => LANGUAGES.filter(l => codes.includes(l.code));
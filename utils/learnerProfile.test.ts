@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Correction, DiaryEntry, ErrorPattern } from '../types';
+import { addCorrectionsToProfile, buildLearnerProfile, classifyCorrection, describeLearnerProfile, emptyLearnerProfile, patternTrend } from './learnerProfile';
+
+const correction = (original: string, improved: string, category: Correction['category'] = 'Grammar'): Correction => ({ original, improved, explanation: '', category });
+
+const entry = (id: string, timestamp: number, corrections: Correction[], language = 'English'): DiaryEntry => ({
+  id,
+  timestamp,
+  date: '',
+  originalText: '',
+  language,
+  type: 'diary',
+  analysis: { modifiedText: '', diffedText: '', corrections, advancedVocab: [], transitionSuggestions: [], overallFeedback: '' },
+});
+
+describe('classifyCorrection', () => {
+  it('groups closed word classes together', () => {
+    expect(classifyCorrection(correction('went to park', 'went to the park'), 'English')).toEqual({ key: 'missing:冠词', label: '漏用冠词' });
+    expect(classifyCorrection(correction('a apple', 'an apple'), 'English')).toEqual({ key: 'misuse:冠词', label: '冠词误用' });
+    expect(classifyCorrection(correction('arrived to Paris', 'arrived in Paris'), 'English')).toEqual({ key: 'misuse:介词', label: '介词误用' });
+    expect(classifyCorrection(correction('公園へ行った', '公園に行った'), 'Japanese')).toEqual({ key: 'misuse:助词', label: '助词误用' });
+  });
+
+  it('names short swaps, omissions and extras by their words', () => {
+    expect(classifyCorrection(correction('make a mistake', 'do a mistake'), 'English')).toEqual({ key: 'swap:make>do', label: '「make」→「do」' });
+    expect(classifyCorrection(correction('very very good', 'very good'), 'English')).toEqual({ key: 'extra:very', label: '多余「very」' });
+    expect(classifyCorrection(correction('I happy', 'I am happy'), 'English')).toEqual({ key: 'missing:am', label: '漏用「am」' });
+  });
+
+  it('ignores case, punctuation and ruby markup', () => {
+    expect(classifyCorrection(correction('The cat.', 'the cats!'), 'English').key).toBe('swap:cat>cats');
+    expect(classifyCorrection(correction('[行](い)く', '[行](い)った'), 'Japanese').key).toBe('swap:く>った');
+  });
+
+  it('falls back to the category for larger rewrites', () => {
+    expect(classifyCorrection(correction('I think that it is good', 'In my view it works well', 'Style'), 'English')).toEqual({ key: 'other:Style', label: '文体（其他）' });
+  });
+});
+
+describe('learner profile', () => {
+  const october = new Date(2026, 9, 10).getTime();
+  const september = new Date(2026, 8, 10).getTime();
+
+  it('counts each pattern with its months, most frequent first', () => {
+    const profile = buildLearnerProfile('English', [
+      entry('b', october, [correction('go to park', 'go to the park'), correction('make a cake', 'bake a cake')]),
+      entry('a', september, [correction('in a sunny day', 'on a sunny day'), correction('a apple', 'the apple')]),
+      entry('c', october, [correction('x', 'y')], 'French'),
+    ]);
+    expect(profile.correctionCount).toBe(4);
+    // Ties go to the pattern seen most recently
+    expect(profile.patterns.map(p => p.key)).toEqual(['missing:冠词', 'swap:make>bake', 'misuse:介词', 'misuse:冠词']);
+    expect(profile.patterns.find(p => p.key === 'misuse:冠词')!.monthly).toEqual({ '2026-09': 1 });
+  });
+
+  it('builds the same profile incrementally as from scratch', () => {
+    const entries = [entry('a', september, [correction('a apple', 'an apple')]), entry('b', october, [correction('a egg', 'an egg')])];
+    const incremental = entries.reduce((profile, e) => addCorrectionsToProfile(profile, e.analysis!.corrections, e.timestamp), emptyLearnerProfile('English'));
+    expect(incremental.patterns).toEqual(buildLearnerProfile('English', entries).patterns);
+    expect(incremental.patterns[0].examples.map(e => e.original)).toEqual(['a egg', 'a apple']);
+  });
+
+  it('compares this month with last month', () => {
+    const pattern = { key: 'k', label: 'l', category: 'Grammar', count: 6, monthly: { '2026-09': 4, '2026-10': 2 }, lastSeen: october, examples: [] } as ErrorPattern;
+    expect(patternTrend(pattern, october)).toEqual({ thisMonth: 2, lastMonth: 4, change: -50 });
+    expect(patternTrend(pattern, september)).toEqual({ thisMonth: 4, lastMonth: 0, change: null });
+    expect(patternTrend(pattern, new Date(2027, 0, 5).getTime())).toEqual({ thisMonth: 0, lastMonth: 0, change: null });
+  });
+
+  it('describes only recurring patterns for the prompt', () => {
+    const profile = buildLearnerProfile('English', [
+      entry('a', october, [correction('a apple', 'an apple'), correction('a egg', 'an egg'), correction('make a cake', 'bake a cake')]),
+    ]);
+    expect(describeLearnerProfile(profile, 5, october)).toBe('- 冠词误用 [Grammar]: 2 times in total, 2 this month. e.g. "a egg" → "an egg"');
+    expect(describeLearnerProfile(null)).toBe('');
+  });
+});
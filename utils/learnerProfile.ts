@@ -0,0 +1,169 @@
+import { Correction, DiaryEntry, ErrorPattern, LearnerProfile } from '../types';
+import { getLanguage } from './languages';
+import { stripRuby } from './textHelpers';
+
+const MAX_EXAMPLES = 3;
+const MAX_PATTERNS = 60;
+
+const CATEGORY_LABELS: Record<Correction['category'], string> = {
+  Grammar: '语法',
+  Vocabulary: '词汇',
+  Style: '文体',
+  Spelling: '拼写',
+};
+
+/**
+ * Closed word classes worth tracking as a whole, so "the", "a" and "an" all count towards one pattern.
+ */
+const WORD_GROUPS: Record<string, Record<string, string[]>> = {
+  English: {
+    冠词: ['a', 'an', 'the'],
+    介词: ['in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'into', 'about', 'over'],
+  },
+  French: {
+    冠词: ['le', 'la', 'les', "l'", 'un', 'une', 'des', 'du'],
+    介词: ['à', 'au', 'aux', 'de', 'en', 'dans', 'sur', 'pour', 'avec', 'par', 'chez'],
+  },
+  Spanish: {
+    冠词: ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas'],
+    介词: ['a', 'al', 'de', 'del', 'en', 'con', 'por', 'para', 'sobre'],
+  },
+  German: {
+    冠词: ['der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'eines'],
+    介词: ['in', 'im', 'an', 'am', 'auf', 'zu', 'zum', 'zur', 'mit', 'von', 'vom', 'für', 'bei', 'nach', 'aus'],
+  },
+  Japanese: {
+    助词: ['は', 'が', 'を', 'に', 'で', 'へ', 'と', 'も', 'の', 'から', 'まで', 'より'],
+  },
+};
+
+export const monthKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const tokenize = (text: string, language: string): string[] => {
+  const clean = stripRuby(text).toLowerCase();
+  if (!getLanguage(language).spaced) return Array.from(clean.replace(/[\s、。，．！？「」]/g, ''));
+  return clean.split(/\s+/).map(t => t.replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '')).filter(Boolean);
+};
+
+/**
+ * The tokens that differ once the shared prefix and suffix are trimmed off.
+ */
+const changedTokens = (original: string[], improved: string[]) => {
+  let start = 0;
+  while (start < original.length && start < improved.length && original[start] === improved[start]) start++;
+  let end = 0;
+  while (
+    end < original.length - start && end < improved.length - start &&
+    original[original.length - 1 - end] === improved[improved.length - 1 - end]
+  ) end++;
+  return { removed: original.slice(start, original.length - end), added: improved.slice(start, improved.length - end) };
+};
+
+const groupOf = (tokens: string[], language: string): string | null => {
+  if (tokens.length === 0) return null;
+  const joined = tokens.join(!getLanguage(language).spaced ? '' : ' ');
+  const groups = WORD_GROUPS[language] || {};
+  return Object.keys(groups).find(group => groups[group].includes(joined)) || null;
+};
+
+/**
+ * Names the mistake behind a correction, e.g. "漏用冠词" or "「make」→「do」".
+ * Anything without a recognisable shape falls back to its category.
+ */
+export const classifyCorrection = (correction: Correction, language: string): { key: string; label: string } => {
+  const separator = !getLanguage(language).spaced ? '' : ' ';
+  const { removed, added } = changedTokens(tokenize(correction.original, language), tokenize(correction.improved, language));
+  const removedGroup = groupOf(removed, language);
+  const addedGroup = groupOf(added, language);
+  const quote = (tokens: string[]) => `「${tokens.join(separator)}」`;
+
+  if (removed.length === 0 && added.length > 0 && added.length <= 2) {
+    return addedGroup ? { key: `missing:${addedGroup}`, label: `漏用${addedGroup}` } : { key: `missing:${added.join(separator)}`, label: `漏用${quote(added)}` };
+  }
+  if (added.length === 0 && removed.length > 0 && removed.length <= 2) {
+    return removedGroup ? { key: `extra:${removedGroup}`, label: `多余${removedGroup}` } : { key: `extra:${removed.join(separator)}`, label: `多余${quote(removed)}` };
+  }
+  if (removedGroup && removedGroup === addedGroup) {
+    return { key: `misuse:${removedGroup}`, label: `${removedGroup}误用` };
+  }
+  const shortEnough = !getLanguage(language).spaced ? 4 : 2;
+  if (removed.length > 0 && added.length > 0 && removed.length <= shortEnough && added.length <= shortEnough) {
+    return { key: `swap:${removed.join(separator)}>${added.join(separator)}`, label: `${quote(removed)}→${quote(added)}` };
+  }
+  return { key: `other:${correction.category}`, label: `${CATEGORY_LABELS[correction.category] || correction.category}（其他）` };
+};
+
+export const emptyLearnerProfile = (language: string): LearnerProfile => ({
+  language,
+  patterns: [],
+  correctionCount: 0,
+  updatedAt: Date.now(),
+});
+
+/**
+ * Folds one analysis' corrections into a profile. Only the most frequent patterns are kept.
+ */
+export const addCorrectionsToProfile = (profile: LearnerProfile, corrections: Correction[], timestamp: number): LearnerProfile => {
+  const patterns = new Map(profile.patterns.map(p => [p.key, { ...p, monthly: { ...p.monthly }, examples: [...p.examples] }]));
+  const month = monthKey(timestamp);
+
+  for (const correction of corrections) {
+    if (!correction?.original && !correction?.improved) continue;
+    const { key, label } = classifyCorrection(correction, profile.language);
+    const pattern: ErrorPattern = patterns.get(key) || { key, label, category: correction.category, count: 0, monthly: {}, lastSeen: 0, examples: [] };
+    pattern.count++;
+    pattern.monthly[month] = (pattern.monthly[month] || 0) + 1;
+    pattern.lastSeen = Math.max(pattern.lastSeen, timestamp);
+    pattern.examples = [{ original: correction.original, improved: correction.improved }, ...pattern.examples].slice(0, MAX_EXAMPLES);
+    patterns.set(key, pattern);
+  }
+
+  return {
+    ...profile,
+    patterns: Array.from(patterns.values()).sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen).slice(0, MAX_PATTERNS),
+    correctionCount: profile.correctionCount + corrections.length,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * Builds a profile from scratch out of every analysed entry in `language`.
+ */
+export const buildLearnerProfile = (language: string, entries: DiaryEntry[]): LearnerProfile =>
+  entries
+    .filter(e => e.language === language && e.analysis?.corrections?.length)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .reduce((profile, e) => addCorrectionsToProfile(profile, e.analysis!.corrections, e.lastIteratedAt || e.timestamp), emptyLearnerProfile(language));
+
+export interface PatternTrend {
+  thisMonth: number;
+  lastMonth: number;
+  /** Percentage change from last month, or null when there is nothing to compare with. */
+  change: number | null;
+}
+
+export const patternTrend = (pattern: ErrorPattern, now: number = Date.now()): PatternTrend => {
+  const current = new Date(now);
+  const thisMonth = pattern.monthly[monthKey(now)] || 0;
+  const lastMonth = pattern.monthly[monthKey(new Date(current.getFullYear(), current.getMonth() - 1, 1).getTime())] || 0;
+  return { thisMonth, lastMonth, change: lastMonth > 0 ? Math.round(((thisMonth - lastMonth) / lastMonth) * 100) : null };
+};
+
+/**
+ * The recurring patterns as prompt context, most frequent first.
+ */
+export const describeLearnerProfile = (profile: LearnerProfile | null | undefined, limit = 5, now: number = Date.now()): string => {
+  if (!profile) return '';
+  return profile.patterns
+    .filter(p => p.count >= 2)
+    .slice(0, limit)
+    .map(p => {
+      const trend = patternTrend(p, now);
+      const example = p.examples[0] ? ` e.g. "${stripRuby(p.examples[0].original)}" → "${stripRuby(p.examples[0].improved)}"` : '';
+      return `- ${p.label} [${p.category}]: ${p.count} times in total, ${trend.thisMonth} this month.${example}`;
+    })
+    .join('\n');
+};
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PartialJsonParser } from './partialJson';
+
+const DOCUMENT = JSON.stringify({
+  modifiedText: 'Café "au lait" — naïve\nline two 😀',
+  score: -12.5e1,
+  ok: true,
+  missing: null,
+  corrections: [
+    { original: 'go', improved: 'went', tags: [] },
+    { original: 'a\\b', improved: 'été', nested: { deep: [1, [2, 3], { x: false }] } },
+  ],
+}, null, 2);
+
+const feed = (text: string, sizes: number[]) => {
+  const parser = new PartialJsonParser();
+  let snapshot: unknown;
+  for (let i = 0, n = 0; i < text.length; n++) {
+    const size = sizes[n % sizes.length];
+    snapshot = parser.push(text.slice(i, i + size));
+    i += size;
+  }
+  return { parser, snapshot };
+};
+
+describe('PartialJsonParser', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('ends with the parsed document however the text is chunked', () => {
+    for (const sizes of [[1], [2, 5], [7, 1, 3], [DOCUMENT.length]]) {
+      const { parser, snapshot } = feed(DOCUMENT, sizes);
+      expect(snapshot).toEqual(JSON.parse(DOCUMENT));
+      expect(parser.text).toBe(DOCUMENT);
+    }
+  });
+
+  it('includes a string value while it arrives but not a half-read key or scalar', () => {
+    const parser = new PartialJsonParser();
+    expect(parser.push('')).toBeUndefined();
+    expect(parser.push('{"feedback": "Nice wo')).toEqual({ feedback: 'Nice wo' });
+    expect(parser.push('rk", "sco')).toEqual({ feedback: 'Nice work' });
+    expect(parser.push('re": 8')).toEqual({ feedback: 'Nice work' });
+    expect(parser.push('5, "list": [tr')).toEqual({ feedback: 'Nice work', score: 85, list: [] });
+    expect(parser.push('ue, {"a": ')).toEqual({ feedback: 'Nice work', score: 85, list: [true, {}] });
+  });
+
+  it('waits for an escape sequence to complete', () => {
+    const parser = new PartialJsonParser();
+    expect(parser.push('["caf\\u00')).toEqual(['caf']);
+    expect(parser.push('e9 \\')).toEqual(['café ']);
+    expect(parser.push('"ok"]')).toEqual(['café "ok']);
+  });
+
+  it('decodes each part of the text once instead of re-parsing the buffer', () => {
+    const parse = vi.spyOn(JSON, 'parse');
+    feed(DOCUMENT, [1]);
+    const parsedChars = parse.mock.calls.reduce((sum, [text]) => sum + String(text).length, 0);
+    // Each decoded piece is wrapped in quotes, so allow three characters per piece
+    expect(parsedChars).toBeLessThan(DOCUMENT.length * 4);
+  });
+});
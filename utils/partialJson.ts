@@ -0,0 +1,188 @@
+type Container = Record<string, unknown> | unknown[];
+
+interface Frame {
+  container: Container;
+  /** What the next significant character is expected to be. */
+  expect: 'key' | 'colon' | 'value' | 'comma';
+  /** The key the next value of an object goes under. */
+  key?: string;
+}
+
+/** Where a value sits in its container; null for the top-level value. */
+type Slot = { container: Container; key: string | number } | null;
+
+const WHITESPACE = /\s/;
+const SCALAR_END = /[\s,\]}]/;
+
+/**
+ * Decodes the inside of a JSON string. Control characters that JSON does not allow are
+ * kept as they are rather than failing the whole snapshot.
+ */
+const decodeStringPart = (raw: string): string => {
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Reads a JSON document as it streams in and exposes the largest value the text so far
+ * describes. The value is built up while scanning, so each chunk is scanned and decoded
+ * once and no push re-reads earlier text. Truncated keys, numbers and literals are left
+ * out until they complete, while a string value that is still arriving is included as far
+ * as it goes. The snapshot grows in place: copy it to keep an earlier state.
+ */
+export class PartialJsonParser {
+  private buffer = '';
+  private pos = 0;
+  private stack: Frame[] = [];
+  private root: unknown = undefined;
+  private inString = false;
+  private stringIsKey = false;
+  private stringSlot: Slot = null;
+  /** The current string decoded up to `decodedTo`. */
+  private decoded = '';
+  private decodedTo = 0;
+  private escapeStart = -1;
+  private unicodeLeft = 0;
+  private scalarStart = -1;
+
+  /**
+   * Appends a chunk and resolves to the current snapshot, or undefined before anything is readable.
+   */
+  push(chunk: string): unknown {
+    this.buffer += chunk;
+    this.scan();
+    if (this.inString && !this.stringIsKey) {
+      // Stop short of an escape sequence that has not fully arrived
+      this.setSlot(this.stringSlot, this.decodeString(this.escapeStart >= 0 ? this.escapeStart : this.buffer.length));
+    }
+    return this.root;
+  }
+
+  /** The full text received so far. */
+  get text(): string {
+    return this.buffer;
+  }
+
+  value(): unknown {
+    return this.root;
+  }
+
+  private decodeString(end: number): string {
+    if (end > this.decodedTo) {
+      this.decoded += decodeStringPart(this.buffer.slice(this.decodedTo, end));
+      this.decodedTo = end;
+    }
+    return this.decoded;
+  }
+
+  /** Adds a value to the container being read, or makes it the top-level value. */
+  private attach(value: unknown): Slot {
+    const top = this.stack[this.stack.length - 1];
+    if (!top) {
+      this.root = value;
+      return null;
+    }
+    if (Array.isArray(top.container)) {
+      top.container.push(value);
+      return { container: top.container, key: top.container.length - 1 };
+    }
+    // A value without a key is malformed; leave it out
+    if (top.key === undefined) return { container: {}, key: '' };
+    top.container[top.key] = value;
+    return { container: top.container, key: top.key };
+  }
+
+  private setSlot(slot: Slot, value: unknown) {
+    if (!slot) this.root = value;
+    else (slot.container as Record<string | number, unknown>)[slot.key] = value;
+  }
+
+  private valueDone() {
+    const top = this.stack[this.stack.length - 1];
+    if (top) top.expect = 'comma';
+  }
+
+  private openContainer(container: Container, expect: Frame['expect']) {
+    this.attach(container);
+    this.stack.push({ container, expect });
+  }
+
+  private scan() {
+    const buffer = this.buffer;
+    for (let i = this.pos; i < buffer.length; i++) {
+      const c = buffer[i];
+
+      if (this.inString) {
+        if (this.unicodeLeft > 0) {
+          if (--this.unicodeLeft === 0) this.escapeStart = -1;
+        } else if (this.escapeStart >= 0) {
+          if (c === 'u') this.unicodeLeft = 4;
+          else this.escapeStart = -1;
+        } else if (c === '\\') {
+          this.escapeStart = i;
+        } else if (c === '"') {
+          this.inString = false;
+          const text = this.decodeString(i);
+          const top = this.stack[this.stack.length - 1];
+          if (this.stringIsKey) {
+            top.key = text;
+            top.expect = 'colon';
+          } else {
+            this.setSlot(this.stringSlot, text);
+            this.valueDone();
+          }
+        }
+        continue;
+      }
+
+      if (this.scalarStart >= 0) {
+        if (!SCALAR_END.test(c)) continue;
+        try {
+          this.attach(JSON.parse(buffer.slice(this.scalarStart, i)));
+        } catch {
+          // Not a number or literal; leave it out
+        }
+        this.scalarStart = -1;
+        this.valueDone();
+      }
+
+      if (WHITESPACE.test(c)) continue;
+      const top = this.stack[this.stack.length - 1];
+      switch (c) {
+        case '{':
+          this.openContainer({}, 'key');
+          break;
+        case '[':
+          this.openContainer([], 'value');
+          break;
+        case '}':
+        case ']':
+          this.stack.pop();
+          this.valueDone();
+          break;
+        case ':':
+          if (top) top.expect = 'value';
+          break;
+        case ',':
+          if (top) {
+            top.expect = Array.isArray(top.container) ? 'value' : 'key';
+            top.key = undefined;
+          }
+          break;
+        case '"':
+          this.inString = true;
+          this.stringIsKey = !!top && !Array.isArray(top.container) && top.expect === 'key';
+          this.decoded = '';
+          this.decodedTo = i + 1;
+          if (!this.stringIsKey) this.stringSlot = this.attach('');
+          break;
+        default:
+          this.scalarStart = i;
+      }
+    }
+    this.pos = buffer.length;
+  }
+}
@@ -0,0 +1,18 @@
+import { DifficultyId } from './languages';
+
+/** The difficulties a rehearsal source can be generated at. */
+export const DIFFICULTIES: { id: DifficultyId; label: string; icon: string }[] = [
+  { id: 'Beginner', label: '初级', icon: '🌱' },
+  { id: 'Intermediate', label: '中级', icon: '🌿' },
+  { id: 'Advanced', label: '高级', icon: '🌳' },
+];
+
+/** The topics a rehearsal source can be generated on. */
+export const TOPICS = [
+  { id: 'Random', label: '随机', icon: '🎲' },
+  { id: 'Daily', label: '生活', icon: '🏠' },
+  { id: 'Travel', label: '旅行', icon: '✈️' },
+  { id: 'Work', label: '职场', icon: '💼' },
+  { id: 'Culture', label: '文化', icon: '🎨' },
+  { id: 'News', label: '新闻', icon: '🌍' },
+];
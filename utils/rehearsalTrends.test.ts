@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry, RehearsalEvaluation } from '../types';
+import { groupTrends, personalBests, rehearsalPoints, withRollingAverages } from './rehearsalTrends';
+
+const rehearsal = (id: string, timestamp: number, accuracyScore: number, qualityScore: number, extra: Partial<RehearsalEvaluation> = {}, language = 'English'): DiaryEntry => ({
+  id,
+  timestamp,
+  date: '',
+  originalText: '',
+  language,
+  type: 'rehearsal',
+  rehearsal: { accuracyScore, qualityScore, ...extra } as RehearsalEvaluation,
+});
+
+describe('rehearsalPoints', () => {
+  it('keeps scored rehearsals only, oldest first, with rounded scores', () => {
+    const points = rehearsalPoints([
+      rehearsal('b', 2, 80.4, 70.6, { difficulty: 'Advanced', topic: 'Travel' }),
+      rehearsal('a', 1, 60, 50),
+      rehearsal('unscored', 3, NaN, 50),
+      { ...rehearsal('diary', 4, 90, 90), type: 'diary' },
+    ]);
+    expect(points).toEqual([
+      { entryId: 'a', timestamp: 1, language: 'English', difficulty: null, topic: null, accuracy: 60, quality: 50 },
+      { entryId: 'b', timestamp: 2, language: 'English', difficulty: 'Advanced', topic: 'Travel', accuracy: 80, quality: 71 },
+    ]);
+  });
+});
+
+describe('trends', () => {
+  const points = rehearsalPoints([
+    rehearsal('1', 1, 50, 40, { difficulty: 'Beginner' }),
+    rehearsal('2', 2, 70, 80, { difficulty: 'Advanced' }, 'French'),
+    rehearsal('3', 3, 70, 60, { difficulty: 'Advanced' }),
+    rehearsal('4', 4, 90, 75),
+  ]);
+
+  it('averages the trailing window at each point', () => {
+    expect(withRollingAverages(points, 3).map(p => [p.accuracyAverage, p.qualityAverage])).toEqual([
+      [50, 40],
+      [60, 60],
+      [63.3, 60],
+      [76.7, 71.7],
+    ]);
+  });
+
+  it('picks the best of each score, the earliest on a tie', () => {
+    const tied = rehearsalPoints([rehearsal('1', 1, 90, 40), rehearsal('2', 2, 90, 80)]);
+    expect(personalBests(tied)).toMatchObject({ accuracy: { entryId: '1' }, quality: { entryId: '2' } });
+    expect(personalBests([])).toEqual({ accuracy: null, quality: null });
+  });
+
+  it('groups by a dimension, most practised first, with unrecorded values together', () => {
+    expect(groupTrends(points, 'difficulty')).toEqual([
+      { key: 'Advanced', count: 2, averageAccuracy: 70, averageQuality: 70, bestAccuracy: 70, bestQuality: 80 },
+      { key: 'Beginner', count: 1, averageAccuracy: 50, averageQuality: 40, bestAccuracy: 50, bestQuality: 40 },
+      { key: null, count: 1, averageAccuracy: 90, averageQuality: 75, bestAccuracy: 90, bestQuality: 75 },
+    ]);
+    expect(groupTrends(points, 'language').map(g => [g.key, g.count])).toEqual([['English', 3], ['French', 1]]);
+  });
+});
@@ -0,0 +1,92 @@
+import { DiaryEntry } from '../types';
+
+/** Rehearsals each rolling average covers. */
+export const ROLLING_WINDOW = 5;
+
+export interface RehearsalPoint {
+  entryId: string;
+  timestamp: number;
+  language: string;
+  /** Difficulty id, or null for weave-mode and older rehearsals. */
+  difficulty: string | null;
+  /** Topic id, or null for weave-mode and older rehearsals. */
+  topic: string | null;
+  accuracy: number;
+  quality: number;
+}
+
+export interface TrendPoint extends RehearsalPoint {
+  /** Means of the last ROLLING_WINDOW rehearsals up to and including this one. */
+  accuracyAverage: number;
+  qualityAverage: number;
+}
+
+export type TrendDimension = 'language' | 'difficulty' | 'topic';
+
+export interface TrendGroup {
+  /** The value of the dimension, or null for rehearsals that did not record it. */
+  key: string | null;
+  count: number;
+  averageAccuracy: number;
+  averageQuality: number;
+  bestAccuracy: number;
+  bestQuality: number;
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * The scored rehearsals among `entries`, oldest first.
+ */
+export const rehearsalPoints = (entries: DiaryEntry[]): RehearsalPoint[] =>
+  entries
+    .filter(e => e.type === 'rehearsal' && e.rehearsal && Number.isFinite(e.rehearsal.accuracyScore) && Number.isFinite(e.rehearsal.qualityScore))
+    .map(e => ({
+      entryId: e.id,
+      timestamp: e.timestamp,
+      language: e.language,
+      difficulty: e.rehearsal!.difficulty || null,
+      topic: e.rehearsal!.topic || null,
+      accuracy: Math.round(e.rehearsal!.accuracyScore),
+      quality: Math.round(e.rehearsal!.qualityScore),
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Adds a trailing rolling average of both scores to each point. Points must be oldest first.
+ */
+export const withRollingAverages = (points: RehearsalPoint[], window: number = ROLLING_WINDOW): TrendPoint[] =>
+  points.map((point, i) => {
+    const recent = points.slice(Math.max(0, i - window + 1), i + 1);
+    return {
+      ...point,
+      accuracyAverage: round(mean(recent.map(p => p.accuracy))),
+      qualityAverage: round(mean(recent.map(p => p.quality))),
+    };
+  });
+
+/**
+ * The highest-scoring rehearsal for each score. The earliest one wins a tie, as the first to reach it.
+ */
+export const personalBests = (points: RehearsalPoint[]): { accuracy: RehearsalPoint | null; quality: RehearsalPoint | null } => {
+  const best = (score: (p: RehearsalPoint) => number) =>
+    points.reduce<RehearsalPoint | null>((top, p) => !top || score(p) > score(top) ? p : top, null);
+  return { accuracy: best(p => p.accuracy), quality: best(p => p.quality) };
+};
+
+/**
+ * Averages and bests per value of `dimension`, most practised first.
+ */
+export const groupTrends = (points: RehearsalPoint[], dimension: TrendDimension): TrendGroup[] => {
+  const groups = new Map<string | null, RehearsalPoint[]>();
+  points.forEach(p => groups.set(p[dimension], [...(groups.get(p[dimension]) || []), p]));
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    count: group.length,
+    averageAccuracy: round(mean(group.map(p => p.accuracy))),
+    averageQuality: round(mean(group.map(p => p.quality))),
+    bestAccuracy: Math.max(...group.map(p => p.accuracy)),
+    bestQuality: Math.max(...group.map(p => p.quality)),
+  })).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { AdvancedVocab } from '../types';
+import { buildReviewQueue, createSrsState, forecastDue, gradeFromPractice, isCardDue, scheduleReview, startOfDay } from './srsScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 15, 30).getTime();
+
+const gem = (id: string, extra: Partial<AdvancedVocab> = {}): AdvancedVocab => ({
+  id,
+  word: id,
+  meaning: '',
+  usage: '',
+  level: 'Intermediate',
+  language: 'English',
+  timestamp: NOW - DAY_MS,
+  mastery: 0,
+  ...extra,
+} as AdvancedVocab);
+
+describe('scheduleReview', () => {
+  it('steps a new card through 1 and 6 days before multiplying by the ease', () => {
+    const first = scheduleReview(undefined, 'good', NOW);
+    expect(first.interval).toBe(1);
+    expect(first.due).toBe(startOfDay(NOW) + DAY_MS);
+
+    const second = scheduleReview(first, 'good', NOW);
+    expect(second.interval).toBe(6);
+
+    const third = scheduleReview(second, 'good', NOW);
+    expect(third.interval).toBe(Math.round(6 * third.ease));
+    expect(third.reps).toBe(3);
+  });
+
+  it('resets the streak and counts a lapse on again', () => {
+    const learned = scheduleReview(scheduleReview(undefined, 'good', NOW), 'good', NOW);
+    const lapsed = scheduleReview(learned, 'again', NOW);
+    expect(lapsed.reps).toBe(0);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.interval).toBe(1);
+    expect(lapsed.ease).toBeLessThan(learned.ease);
+  });
+
+  it('never lets the ease drop below the SM-2 floor', () => {
+    let state = createSrsState(NOW);
+    for (let i = 0; i < 20; i++) state = scheduleReview(state, 'again', NOW);
+    expect(state.ease).toBeCloseTo(1.3);
+  });
+});
+
+describe('gradeFromPractice', () => {
+  it('grades a failed sentence as a lapse', () => {
+    expect(gradeFromPractice('Perfect')).toBe('good');
+    expect(gradeFromPractice('Polished')).toBe('again');
+    const learned = scheduleReview(scheduleReview(undefined, 'good', NOW), 'good', NOW);
+    const lapsed = scheduleReview(learned, gradeFromPractice('Polished'), NOW);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.interval).toBeLessThan(learned.interval);
+  });
+});
+
+describe('review queue', () => {
+  it('treats unscheduled gems as due and mastered gems as done', () => {
+    expect(isCardDue(gem('new'), NOW)).toBe(true);
+    expect(isCardDue(gem('mastered', { mastery: 5 }), NOW)).toBe(false);
+    expect(isCardDue(gem('later', { srs: { ...createSrsState(NOW), due: NOW + 3 * DAY_MS } }), NOW)).toBe(false);
+  });
+
+  it('puts the most overdue cards first, then new ones', () => {
+    const slightly = gem('slightly', { srs: { ...createSrsState(), due: NOW - DAY_MS, interval: 10 } });
+    const badly = gem('badly', { srs: { ...createSrsState(), due: NOW - 5 * DAY_MS, interval: 2 } });
+    const fresh = gem('fresh');
+    expect(buildReviewQueue([fresh, slightly, badly], NOW).map(v => v.id)).toEqual(['badly', 'slightly', 'fresh']);
+  });
+
+  it('forecasts overdue cards into today', () => {
+    const overdue = gem('overdue', { srs: { ...createSrsState(), due: NOW - 4 * DAY_MS } });
+    const inTwoDays = gem('soon', { srs: { ...createSrsState(), due: NOW + 2 * DAY_MS } });
+    const counts = forecastDue([overdue, inTwoDays, gem('new')], 3, NOW).map(b => b.count);
+    expect(counts).toEqual([2, 0, 1]);
+  });
+});
@@ -0,0 +1,112 @@
+import { AdvancedVocab, PracticeRecord, SrsState } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * SM-2 quality score (0-5) for each grade. Anything below 3 counts as a lapse.
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+/**
+ * Start of the local day containing `timestamp`.
+ */
+export const startOfDay = (timestamp: number): number => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const createSrsState = (now: number = Date.now()): SrsState => ({
+  due: now,
+  interval: 0,
+  ease: DEFAULT_EASE,
+  reps: 0,
+  lapses: 0
+});
+
+/**
+ * Applies one SM-2 review to a card and returns its next state.
+ * Intervals are in days; a lapse resets the repetition streak and schedules the card for tomorrow.
+ */
+export const scheduleReview = (state: SrsState | undefined, grade: ReviewGrade, now: number = Date.now()): SrsState => {
+  const current = state || createSrsState(now);
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, current.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return {
+      due: startOfDay(now) + DAY_MS,
+      interval: 1,
+      ease,
+      reps: 0,
+      lapses: current.lapses + 1,
+      lastReviewed: now
+    };
+  }
+
+  const reps = current.reps + 1;
+  let interval: number;
+  if (reps === 1) interval = 1;
+  else if (reps === 2) interval = 6;
+  else interval = Math.round(current.interval * ease);
+  if (grade === 'hard') interval = Math.max(1, Math.round(interval * 0.8));
+  if (grade === 'easy') interval = Math.round(interval * 1.3);
+
+  return {
+    due: startOfDay(now) + interval * DAY_MS,
+    interval,
+    ease,
+    reps,
+    lapses: current.lapses,
+    lastReviewed: now
+  };
+};
+
+/**
+ * Maps a sentence-practice outcome onto a review grade. A `Polished` record is what the
+ * practice stores when the sentence was judged incorrect (mastery drops), so it is a lapse.
+ */
+export const gradeFromPractice = (status: PracticeRecord['status']): ReviewGrade => status === 'Perfect' ? 'good' : 'again';
+
+/**
+ * Gems that were never scheduled are treated as new cards, due immediately.
+ */
+export const isCardDue = (vocab: AdvancedVocab, now: number = Date.now()): boolean => {
+  if ((vocab.mastery || 0) >= 5) return false;
+  if (!vocab.srs) return true;
+  return vocab.srs.due < startOfDay(now) + DAY_MS;
+};
+
+/**
+ * Cards due by the end of today: overdue cards first (most overdue relative to their interval),
+ * then never-reviewed cards by age.
+ */
+export const buildReviewQueue = (vocab: AdvancedVocab[], now: number = Date.now()): AdvancedVocab[] => {
+  const due = vocab.filter(v => isCardDue(v, now));
+  const scheduled = due.filter(v => v.srs).sort((a, b) => {
+    const overdueA = (now - a.srs!.due) / Math.max(a.srs!.interval, 1);
+    const overdueB = (now - b.srs!.due) / Math.max(b.srs!.interval, 1);
+    return overdueB - overdueA;
+  });
+  const fresh = due.filter(v => !v.srs).sort((a, b) => (a.lastReviewTimestamp || a.timestamp) - (b.lastReviewTimestamp || b.timestamp));
+  return [...scheduled, ...fresh];
+};
+
+/**
+ * Number of cards due on each of the next `days` days. Day 0 includes everything already overdue.
+ */
+export const forecastDue = (vocab: AdvancedVocab[], days: number = 7, now: number = Date.now()): { date: number; count: number }[] => {
+  const today = startOfDay(now);
+  const buckets = Array.from({ length: days }, (_, i) => ({ date: today + i * DAY_MS, count: 0 }));
+  vocab.forEach(v => {
+    if ((v.mastery || 0) >= 5) return;
+    const due = v.srs ? v.srs.due : now;
+    const offset = Math.max(0, Math.floor((startOfDay(due) - today) / DAY_MS));
+    if (offset < days) buckets[offset].count++;
+  });
+  return buckets;
+};
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CONFIDENT_DETECTION, detectLanguageScores, splitSentences } from './textHelpers';
+
+describe('splitSentences', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('does not end a sentence at a title', () => {
+    expect(splitSentences('Dr. Smith went home. Mrs. Lee met him on St. John Street.', 'English'))
+      .toEqual(['Dr. Smith went home.', 'Mrs. Lee met him on St. John Street.']);
+  });
+
+  it('splits line by line', () => {
+    expect(splitSentences('今日は晴れ。散歩した\n\n楽しかった！', 'Japanese')).toEqual(['今日は晴れ。', '散歩した', '楽しかった！']);
+  });
+
+  it('falls back to punctuation without Intl.Segmenter', () => {
+    vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+    expect(splitSentences('Dr. Smith went home. He slept!', 'English')).toEqual(['Dr. Smith went home.', 'He slept!']);
+  });
+});
+
+describe('detectLanguageScores', () => {
+  const SAMPLES: Record<string, string> = {
+    English: 'Yesterday I went to the market with my friends and we bought some fresh bread.',
+    French: "Hier je suis allé au marché avec mes amis et nous avons acheté du pain frais.",
+    Spanish: 'Ayer fui al mercado con mis amigos y compramos un poco de pan fresco.',
+    German: 'Gestern bin ich mit meinen Freunden auf den Markt gegangen und wir haben frisches Brot gekauft.',
+    Italian: 'Ieri sono andato al mercato con i miei amici e abbiamo comprato del pane fresco.',
+    Japanese: '昨日は友達と市場に行って、新しいパンを買いました。',
+    Chinese: '昨天我和朋友们去了市场，我们买了一些新鲜的面包。',
+    Korean: '어제 친구들과 시장에 가서 신선한 빵을 샀어요.',
+  };
+
+  it.each(Object.entries(SAMPLES))('recognises a full sentence of %s with confidence', (language, text) => {
+    const detection = detectLanguageScores(text);
+    expect(detection.language).toBe(language);
+    expect(detection.confidence).toBeGreaterThanOrEqual(CONFIDENT_DETECTION);
+  });
+
+  it('ranks every candidate with scores summing to 1', () => {
+    const { candidates } = detectLanguageScores(SAMPLES.French);
+    expect(candidates[0].language).toBe('French');
+    expect(candidates.map(c => c.score)).toEqual([...candidates.map(c => c.score)].sort((a, b) => b - a));
+    expect(candidates.reduce((sum, c) => sum + c.score, 0)).toBeCloseTo(1);
+  });
+
+  it('is unsure about short or empty text', () => {
+    expect(detectLanguageScores('Hola').confidence).toBeLessThan(CONFIDENT_DETECTION);
+    expect(detectLanguageScores('東京大学').confidence).toBeLessThan(CONFIDENT_DETECTION);
+    expect(detectLanguageScores('123 !!').confidence).toBe(0);
+  });
+});
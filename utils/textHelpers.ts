@@ -1,5 +1,8 @@
 
 import { ReadingPair } from '../types';
+import { KANJI_READINGS, WORD_READINGS } from './kanjiReadings';
+import { CHINESE_MARKERS, NGRAM_PROFILES } from './languageProfiles';
+import { getLanguage, LANGUAGES } from './languages';
 
 /**
  * Renders text containing `[Kanji](furigana)` syntax into HTML `<ruby>` tags.
@@ -18,57 +21,250 @@ export const stripRuby = (text: string | null | undefined): string => {
 };
 
 /**
- * Helper to check if a character is Japanese Kana (Hiragana or Katakana).
+ * What a voice should read: ruby in `[Kanji](furigana)` or `<ruby>` form reduced to the base text.
  */
-const isKana = (char: string): boolean => {
-  return /[\u3040-\u309f\u30a0-\u30ff]/.test(char);
+export const toSpokenText = (text: string | null | undefined): string =>
+  stripRuby(text).replace(/<rt>.*?<\/rt>/g, '').replace(/<[^>]+>/g, '').trim();
+
+/**
+ * Converts `[Kanji](furigana)` syntax into Anki's `Kanji[furigana]` furigana syntax.
+ * Anki reads the base text back to the previous space, so each ruby group is preceded by one.
+ */
+export const toAnkiFurigana = (text: string | null | undefined): string => {
+  if (!text) return '';
+  return text.replace(/\[(.*?)\]\((.*?)\)/g, ' $1[$2]').trim();
+};
+
+const KANJI_CHARS = '\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff々〆ヶ';
+const KANJI = new RegExp(`[${KANJI_CHARS}]`);
+const KANJI_RUNS = new RegExp(`[${KANJI_CHARS}]+`, 'g');
+const RUNS = new RegExp(`[${KANJI_CHARS}]+|[^${KANJI_CHARS}]+`, 'g');
+
+const VOICED: Record<string, string> = {
+  か: 'が', き: 'ぎ', く: 'ぐ', け: 'げ', こ: 'ご', さ: 'ざ', し: 'じ', す: 'ず', せ: 'ぜ', そ: 'ぞ',
+  た: 'だ', ち: 'ぢ', つ: 'づ', て: 'で', と: 'ど', は: 'ば', ひ: 'び', ふ: 'ぶ', へ: 'べ', ほ: 'ぼ',
+};
+const SEMI_VOICED: Record<string, string> = { は: 'ぱ', ひ: 'ぴ', ふ: 'ぷ', へ: 'ぺ', ほ: 'ぽ' };
+
+/**
+ * Converts katakana to hiragana, leaving everything else as is.
+ */
+export const toHiragana = (text: string): string =>
+  text.replace(/[\u30a1-\u30f6]/g, c => String.fromCharCode(c.charCodeAt(0) - 0x60));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Lines a reading up with a word's kana, so each kanji run gets its own reading:
+ * 申し込み / もうしこみ → 申(もう) し 込(こ) み. Null when the kana in the word do not appear in the reading.
+ */
+const alignParts = (word: string, reading: string): { text: string; reading?: string }[] | null => {
+  const runs = word.match(RUNS) || [];
+  const pattern = runs.map(run => KANJI.test(run) ? '(.+?)' : escapeRegExp(toHiragana(run))).join('');
+  const match = toHiragana(reading).match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+  let group = 1;
+  return runs.map(run => KANJI.test(run) ? { text: run, reading: match[group++] } : { text: run });
+};
+
+/**
+ * `[Kanji](reading)` markup for a word, with okurigana and other kana left outside the brackets.
+ * Null when the reading does not fit the word.
+ */
+export const alignReading = (word: string, reading: string): string | null => {
+  const parts = alignParts(word, reading);
+  return parts && parts.map(p => p.reading ? `[${p.text}](${p.reading})` : p.text).join('');
+};
+
+/**
+ * A reading from the bundled dictionary: whole words first, then kanji by kanji,
+ * using the first on reading inside compounds and the first kun reading on its own.
+ */
+export const lookupReading = (word: string): string | null => {
+  if (WORD_READINGS[word]) return WORD_READINGS[word];
+  let reading = '';
+  for (const run of word.match(RUNS) || []) {
+    if (!KANJI.test(run)) { reading += toHiragana(run); continue; }
+    if (WORD_READINGS[run]) { reading += WORD_READINGS[run]; continue; }
+    const chars = Array.from(run);
+    const entries = chars.map((c, i) => KANJI_READINGS[c === '々' ? chars[i - 1] : c]);
+    if (entries.some(e => !e)) return null;
+    reading += chars.length === 1
+      ? entries[0].kun[0] || entries[0].on[0]
+      : entries.map(e => e.on[0] || e.kun[0]).join('');
+  }
+  return reading || null;
+};
+
+/**
+ * Whether `reading` can be spelt out of the word's kana and its kanji's dictionary readings,
+ * allowing for rendaku (voicing after the first kanji) and gemination (がく + こう → がっこう).
+ * Kanji missing from the dictionary match anything, which makes the result 'unknown'.
+ */
+const composesTo = (chars: string[], reading: string, ci = 0, ri = 0): 'ok' | 'unknown' | 'fail' => {
+  if (ci === chars.length) return ri === reading.length ? 'ok' : 'fail';
+  const char = chars[ci];
+  if (!KANJI.test(char)) return toHiragana(char) === reading[ri] ? composesTo(chars, reading, ci + 1, ri + 1) : 'fail';
+
+  const entry = KANJI_READINGS[char === '々' ? chars[ci - 1] : char];
+  if (!entry) {
+    for (let end = ri + 1; end <= Math.min(reading.length, ri + 4); end++) {
+      if (composesTo(chars, reading, ci + 1, end) !== 'fail') return 'unknown';
+    }
+    return 'fail';
+  }
+
+  const variants = new Set<string>();
+  [...entry.on, ...entry.kun].forEach(r => {
+    variants.add(r);
+    if (ci > 0 && VOICED[r[0]]) variants.add(VOICED[r[0]] + r.slice(1));
+    if (ci > 0 && SEMI_VOICED[r[0]]) variants.add(SEMI_VOICED[r[0]] + r.slice(1));
+    if (ci < chars.length - 1 && /[つちくき]$/.test(r)) variants.add(r.slice(0, -1) + 'っ');
+  });
+  let best: 'unknown' | 'fail' = 'fail';
+  for (const variant of variants) {
+    if (!reading.startsWith(variant, ri)) continue;
+    const result = composesTo(chars, reading, ci + 1, ri + variant.length);
+    if (result === 'ok') return 'ok';
+    if (result === 'unknown') best = 'unknown';
+  }
+  return best;
+};
+
+export interface ReadingIssue {
+  kanji: string;
+  reading: string;
+  /** 'okurigana': the kana in the word are not in the reading. 'dictionary': the reading disagrees with the dictionary. */
+  reason: 'okurigana' | 'dictionary';
+  /** What the dictionary would read it as, when it knows. */
+  expected?: string;
+}
+
+/**
+ * Checks a reading pair against the bundled dictionary. Words with kanji the dictionary
+ * does not know are only checked for okurigana.
+ */
+export const checkReadingPair = (pair: ReadingPair): ReadingIssue | null => {
+  if (!KANJI.test(pair.kanji)) return null;
+  const reading = toHiragana(pair.reading.trim());
+  if (!alignParts(pair.kanji, reading)) return { kanji: pair.kanji, reading: pair.reading, reason: 'okurigana', expected: lookupReading(pair.kanji) || undefined };
+
+  const known = WORD_READINGS[pair.kanji];
+  if (known === reading) return null;
+  const chars = Array.from(pair.kanji);
+  if (composesTo(chars, reading) !== 'fail') return null;
+  if (!known && chars.some(c => KANJI.test(c) && c !== '々' && !KANJI_READINGS[c])) return null;
+  return { kanji: pair.kanji, reading: pair.reading, reason: 'dictionary', expected: known || lookupReading(pair.kanji) || undefined };
+};
+
+/**
+ * The model-supplied pairs that look wrong. Pairs filled in locally are not checked.
+ */
+export const validateReadingPairs = (readingPairs: ReadingPair[] = []): ReadingIssue[] =>
+  readingPairs
+    .filter(pair => pair.source !== 'local' && pair.kanji && pair.reading)
+    .map(checkReadingPair)
+    .filter((issue): issue is ReadingIssue => issue !== null);
+
+// Fallback for browsers without Intl.Segmenter: a run ending in sentence punctuation and any closing quotes
+const SENTENCE = /[^.!?。！？]+(?:[.!?。！？]+["'”’」』)]*|$)/g;
+
+// Titles and abbreviations whose full stop does not end the sentence. Neither the segmenter
+// nor the fallback knows them, so "Dr. Smith" would otherwise be split after "Dr."
+const ABBREVIATION = /(?:^|[\s("'“‘])(?:Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|Mt|vs|cf|Nr|Sra|Srta)\.$/i;
+
+/** Joins each piece that ends in an abbreviation to the piece after it. */
+const joinAbbreviations = (pieces: string[]): string[] =>
+  pieces.reduce<string[]>((sentences, piece) => {
+    const last = sentences[sentences.length - 1];
+    if (last !== undefined && ABBREVIATION.test(last.trimEnd())) sentences[sentences.length - 1] = last + piece;
+    else sentences.push(piece);
+    return sentences;
+  }, []);
+
+/**
+ * Splits text into sentences, line by line, at the language's sentence boundaries. Ruby
+ * markup is kept, so each sentence can be displayed as it was written.
+ */
+export const splitSentences = (text: string, language: string): string[] => {
+  const Segmenter = (Intl as any).Segmenter;
+  const segmenter = Segmenter ? new Segmenter(getLanguage(language).locale, { granularity: 'sentence' }) : null;
+  return text.split(/\n+/).flatMap(line => joinAbbreviations(
+    segmenter
+      ? Array.from(segmenter.segment(line) as Iterable<{ segment: string }>, s => s.segment)
+      : line.match(SENTENCE) || []
+  )).map(sentence => sentence.trim()).filter(sentence => toSpokenText(sentence).length > 0);
+};
+
+const segmentJapanese = (text: string): string[] | null => {
+  if (!(Intl as any).Segmenter) return null;
+  const segmenter = new (Intl as any).Segmenter('ja', { granularity: 'word' });
+  return Array.from(segmenter.segment(text) as Iterable<{ segment: string }>, s => s.segment);
+};
+
+/**
+ * Readings for each kanji run, taken from the pairs, e.g. 行 → い from 行く / いく.
+ * Lets inflected forms the model did not list (行きました) reuse the reading.
+ */
+const runReadingsFrom = (readingPairs: ReadingPair[]): Record<string, string> => {
+  const runReadings: Record<string, string> = {};
+  readingPairs.forEach(pair => {
+    alignParts(pair.kanji, pair.reading)?.forEach(part => {
+      if (part.reading && !runReadings[part.text]) runReadings[part.text] = part.reading;
+    });
+  });
+  return runReadings;
+};
+
+/**
+ * Adds dictionary readings for the words in `text` that have kanji but no reading from the model.
+ */
+export const completeReadingPairs = (text: string, readingPairs: ReadingPair[] = []): ReadingPair[] => {
+  const segments = segmentJapanese(text);
+  if (!segments) return readingPairs;
+  const known = new Set(readingPairs.map(p => p.kanji));
+  const runReadings = runReadingsFrom(readingPairs);
+  const added: ReadingPair[] = [];
+
+  for (const segment of segments) {
+    if (!KANJI.test(segment) || known.has(segment)) continue;
+    if ((segment.match(KANJI_RUNS) || []).every(run => runReadings[run])) continue;
+    const reading = lookupReading(segment);
+    if (!reading) continue;
+    known.add(segment);
+    added.push({ kanji: segment, reading, source: 'local' });
+  }
+  return added.length > 0 ? [...readingPairs, ...added] : readingPairs;
 };
 
 /**
  * Dynamically weaves furigana into a text based on a reading map.
  * Returns the format [Kanji](Reading) suitable for later rendering or storage.
+ * Words missing from the map fall back to the readings of their kanji runs, then to the bundled dictionary.
  */
 export const weaveRubyMarkdown = (text: string, readingPairs?: ReadingPair[], language: string = 'Japanese'): string => {
-  if (!readingPairs || readingPairs.length === 0 || language !== 'Japanese') {
+  if (getLanguage(language).rubyScheme !== 'furigana') {
     return text;
   }
 
+  const segments = segmentJapanese(text);
+  if (!segments) return text;
+
   const readingMap: Record<string, string> = {};
-  readingPairs.forEach(pair => {
+  (readingPairs || []).forEach(pair => {
     readingMap[pair.kanji] = pair.reading;
   });
+  const runReadings = runReadingsFrom(readingPairs || []);
 
-  if (!(Intl as any).Segmenter) return text;
-
-  const segmenter = new (Intl as any).Segmenter('ja', { granularity: 'word' });
-  const segments = segmenter.segment(text);
-  let result = '';
-
-  for (const { segment } of segments) {
+  return segments.map(segment => {
+    if (!KANJI.test(segment)) return segment;
     const reading = readingMap[segment];
-    if (reading && segment !== reading) {
-      let i = segment.length - 1;
-      let j = reading.length - 1;
-      
-      while (i >= 0 && j >= 0 && segment[i] === reading[j] && isKana(segment[i])) {
-        i--;
-        j--;
-      }
-      
-      const kanjiPart = segment.substring(0, i + 1);
-      const readingPart = reading.substring(0, j + 1);
-      const suffix = segment.substring(i + 1);
-
-      if (kanjiPart === "") {
-        result += segment;
-      } else {
-        result += `[${kanjiPart}](${readingPart})${suffix}`;
-      }
-    } else {
-      result += segment;
-    }
-  }
-  return result;
+    if (reading) return alignReading(segment, reading) || `[${segment}](${reading})`;
+    return segment.replace(KANJI_RUNS, run => {
+      const runReading = runReadings[run] || lookupReading(run);
+      return runReading ? `[${run}](${runReading})` : run;
+    });
+  }).join('');
 };
 
 /**
@@ -79,15 +275,88 @@ export const weaveRuby = (text: string, readingPairs?: ReadingPair[], language:
   return renderRuby(markdown);
 };
 
+export interface LanguageDetection {
+  language: string;
+  /** 0 to 1. Below CONFIDENT_DETECTION the text is too short or too mixed to be sure. */
+  confidence: number;
+  /** Every language considered, best first, with scores summing to 1. */
+  candidates: { language: string; score: number }[];
+}
+
+/** The confidence above which callers may act on a detection without asking. */
+export const CONFIDENT_DETECTION = 0.6;
+
+const normalizeScores = (scores: Record<string, number>) => {
+  const total = Object.values(scores).reduce((sum, v) => sum + v, 0) || 1;
+  return Object.entries(scores)
+    .map(([language, score]) => ({ language, score: score / total }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Ranks the Latin-script languages by how often their characteristic n-grams occur.
+ */
+const scoreLatin = (text: string): Record<string, number> => {
+  const padded = ` ${text.toLowerCase().replace(/[^\p{L}'\s]+/gu, ' ').replace(/\s+/g, ' ')} `;
+  const scores: Record<string, number> = {};
+  LANGUAGES.filter(l => l.script === 'Latn' && NGRAM_PROFILES[l.code]).forEach(({ code }) => {
+    const profile = NGRAM_PROFILES[code];
+    scores[code] = profile.reduce((sum, gram, rank) => {
+      let count = 0;
+      for (let i = padded.indexOf(gram); i !== -1; i = padded.indexOf(gram, i + 1)) count++;
+      // Distinctive letters at the end of each profile count as much as the top n-grams
+      const weight = gram.trim().length === 1 ? 1 : 1 - rank / profile.length;
+      return sum + count * weight;
+    }, 0);
+  });
+  return scores;
+};
+
 /**
- * Simple language detection based on character sets.
+ * Offline language detection. The script decides between Korean, Japanese, Chinese and
+ * Latin-script text. Kana make text Japanese, and Han text without kana is scored on
+ * Chinese-only characters. Latin text is scored on character n-grams. Covers every
+ * language in the registry.
  */
-export const detectLanguage = (text: string): string => {
-  if (!text) return 'English';
-  // Check for Japanese characters (Hiragana, Katakana, or Kanji)
-  const japaneseRegex = /[\u3040-\u309f\u30a0-\u30ff\u4e00-\u9faf]/;
-  if (japaneseRegex.test(text)) {
-    return 'Japanese';
+export const detectLanguageScores = (text: string): LanguageDetection => {
+  const count = (pattern: RegExp) => (text.match(pattern) || []).length;
+  const hangul = count(/[가-힯ᄀ-ᇿ㄰-㆏]/g);
+  const kana = count(/[぀-ゟ゠-ヿ]/g);
+  const han = count(/[㐀-䶿一-鿿]/g);
+  const latin = count(/\p{Script=Latin}/gu);
+  const total = hangul + kana + han + latin;
+  if (total === 0) return { language: 'English', confidence: 0, candidates: [{ language: 'English', score: 1 }] };
+
+  // Short texts are less certain whatever they score
+  const lengthFactor = (n: number, enough: number) => Math.min(1, 0.4 + 0.6 * (n / enough));
+
+  if (hangul / total > 0.5) {
+    return { language: 'Korean', confidence: lengthFactor(hangul, 4) * (hangul / total), candidates: [{ language: 'Korean', score: 1 }] };
   }
-  return 'English';
+
+  if ((kana + han) / total > 0.5) {
+    if (kana > 0) {
+      const confidence = lengthFactor(kana + han, 6) * Math.min(1, 0.7 + kana / (kana + han));
+      return { language: 'Japanese', confidence, candidates: normalizeScores({ Japanese: kana + han, Chinese: han * 0.1 }) };
+    }
+    const markers = Array.from(text).filter(c => CHINESE_MARKERS.includes(c)).length;
+    // Without markers, lean towards Japanese: kana-less Japanese is usually a short name like 東京大学
+    const chinese = 1 + markers * 3;
+    const japanese = 1.5;
+    const candidates = normalizeScores({ Chinese: chinese, Japanese: japanese });
+    const margin = (candidates[0].score - candidates[1].score) / candidates[0].score;
+    return { language: candidates[0].language, confidence: lengthFactor(han, 8) * Math.max(margin, 0.3), candidates };
+  }
+
+  const candidates = normalizeScores(scoreLatin(text));
+  if (!candidates.length || candidates[0].score === 0) return { language: 'English', confidence: 0, candidates: [{ language: 'English', score: 1 }] };
+  const [best, second] = candidates;
+  const margin = second ? (best.score - second.score) / best.score : 1;
+  // Margins between related languages are naturally small, so a 50% lead counts as certain
+  return { language: best.language, confidence: lengthFactor(latin, 40) * Math.min(1, margin * 2), candidates };
 };
+
+/**
+ * The most likely language of `text`, without the confidence.
+ */
+export const detectLanguage = (text: string): string => detectLanguageScores(text).language;
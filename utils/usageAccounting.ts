@@ -0,0 +1,108 @@
+import { UsageFeature, UsagePeriod, UsageTotals } from '../types';
+
+export const USAGE_FEATURES: { id: UsageFeature; label: string }[] = [
+  { id: 'analysis', label: '日记校对' },
+  { id: 'rehearsal', label: '复述演练' },
+  { id: 'chat', label: '对话灵感' },
+  { id: 'practice', label: '珍宝打磨' },
+  { id: 'fragment', label: '碎片补全' },
+  { id: 'speech', label: '语音朗读' },
+];
+
+/**
+ * List prices in USD per million tokens. Models not listed here (local servers, fixtures)
+ * cost nothing.
+ */
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o-mini-tts': { input: 0.6, output: 12 },
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = MODEL_PRICES[model];
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+};
+
+export type UsagePlan = 'free' | 'pro';
+
+export interface UsageBudget {
+  /** Calls per calendar day. */
+  dailyCalls?: number;
+  /** Input plus output tokens per calendar month. */
+  monthlyTokens?: number;
+}
+
+/**
+ * Per-feature budgets. A feature without an entry, or a limit left out, is unlimited.
+ */
+export const USAGE_BUDGETS: Record<UsagePlan, Partial<Record<UsageFeature, UsageBudget>>> = {
+  free: {
+    analysis: { dailyCalls: 2 },
+    rehearsal: { dailyCalls: 10, monthlyTokens: 500_000 },
+    chat: { dailyCalls: 40, monthlyTokens: 500_000 },
+    practice: { dailyCalls: 30, monthlyTokens: 300_000 },
+    fragment: { dailyCalls: 20 },
+    speech: { dailyCalls: 30 },
+  },
+  pro: {
+    analysis: { monthlyTokens: 5_000_000 },
+    rehearsal: { monthlyTokens: 3_000_000 },
+    chat: { monthlyTokens: 3_000_000 },
+    practice: { monthlyTokens: 2_000_000 },
+    speech: { dailyCalls: 300 },
+  },
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * The keys of the local calendar day and month `now` falls in.
+ */
+export const usagePeriods = (now: Date = new Date()): { day: string; month: string } => {
+  const month = `${now.getFullYear()}-${pad(now.getMonth() + 1)}`;
+  return { day: `${month}-${pad(now.getDate())}`, month };
+};
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+export const addUsage = (period: UsagePeriod, feature: UsageFeature, delta: UsageTotals): UsagePeriod => {
+  const current = period.features[feature] || emptyTotals();
+  return {
+    ...period,
+    features: {
+      ...period.features,
+      [feature]: {
+        calls: current.calls + delta.calls,
+        inputTokens: current.inputTokens + delta.inputTokens,
+        outputTokens: current.outputTokens + delta.outputTokens,
+        costUsd: current.costUsd + delta.costUsd,
+      },
+    },
+  };
+};
+
+export interface BudgetOverrun {
+  feature: UsageFeature;
+  period: 'day' | 'month';
+  limit: number;
+}
+
+/**
+ * The first budget `feature` has used up, or null if another call is allowed.
+ */
+export const exceededBudget = (day: UsagePeriod, month: UsagePeriod, feature: UsageFeature, plan: UsagePlan): BudgetOverrun | null => {
+  const budget = USAGE_BUDGETS[plan][feature];
+  if (!budget) return null;
+  const today = day.features[feature] || emptyTotals();
+  const thisMonth = month.features[feature] || emptyTotals();
+  if (budget.dailyCalls !== undefined && today.calls >= budget.dailyCalls) {
+    return { feature, period: 'day', limit: budget.dailyCalls };
+  }
+  if (budget.monthlyTokens !== undefined && thisMonth.inputTokens + thisMonth.outputTokens >= budget.monthlyTokens) {
+    return { feature, period: 'month', limit: budget.monthlyTokens };
+  }
+  return null;
+};
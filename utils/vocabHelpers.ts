@@ -0,0 +1,118 @@
+import { AdvancedVocab, PracticeRecord, PracticeRetention } from '../types';
+import { stripRuby } from './textHelpers';
+
+/**
+ * Normalizes a vocab word for duplicate detection: ruby markup stripped, trimmed, lower-cased.
+ */
+export const normalizeVocabWord = (word: string): string => stripRuby(word).trim().toLowerCase();
+
+/**
+ * Finds the longest existing gem of the same language that is contained in `word`.
+ * e.g. "take a break" is linked under "break".
+ */
+export const findParentVocab = (existing: AdvancedVocab[], word: string, language: string): AdvancedVocab | undefined => {
+  const cleanWord = normalizeVocabWord(word);
+  return existing
+    .filter(v => v.language === language)
+    .filter(v => {
+      const cleanExisting = normalizeVocabWord(v.word);
+      return cleanWord.includes(cleanExisting) && cleanWord !== cleanExisting;
+    })
+    .sort((a, b) => stripRuby(b.word).length - stripRuby(a.word).length)[0];
+};
+
+export const isDuplicateVocab = (existing: AdvancedVocab[], word: string, language: string): boolean => {
+  const normalized = normalizeVocabWord(word);
+  return existing.some(v => normalizeVocabWord(v.word) === normalized && v.language === language);
+};
+
+export interface VocabInsertionPlan {
+  created: AdvancedVocab[];
+  relinked: { id: string; parentId: string }[];
+  next: AdvancedVocab[];
+}
+
+/**
+ * Plans the insertion of new gems into an existing collection:
+ * skips duplicates, links each new gem under its closest parent, and re-parents
+ * orphaned existing gems that turn out to be extensions of a new gem.
+ * Items are processed in order, so gems added earlier in the batch can parent later ones.
+ */
+export const planVocabInsertion = (
+  existing: AdvancedVocab[],
+  incoming: Omit<AdvancedVocab, 'id' | 'mastery' | 'practices'>[],
+  newId: () => string
+): VocabInsertionPlan => {
+  let next = [...existing];
+  const created: AdvancedVocab[] = [];
+  const relinked = new Map<string, string>();
+
+  for (const v of incoming) {
+    if (isDuplicateVocab(next, v.word, v.language)) continue;
+
+    const cleanWord = normalizeVocabWord(v.word);
+    const parentId = findParentVocab(next, v.word, v.language)?.id;
+    const newVocab: AdvancedVocab = { ...v, id: newId(), mastery: 0, practices: [], timestamp: v.timestamp || Date.now(), parentId };
+
+    next = next.map(ov => {
+      if (ov.language === v.language && !ov.parentId) {
+        const cleanExisting = normalizeVocabWord(ov.word);
+        if (cleanExisting.includes(cleanWord) && cleanExisting !== cleanWord) {
+          relinked.set(ov.id, newVocab.id);
+          return { ...ov, parentId: newVocab.id };
+        }
+      }
+      return ov;
+    });
+    next = [newVocab, ...next];
+    created.push(newVocab);
+  }
+
+  // Gems created in this batch already carry their final parentId
+  const createdIds = new Set(created.map(v => v.id));
+  const finalCreated = created.map(c => next.find(v => v.id === c.id) || c);
+
+  return {
+    created: finalCreated,
+    relinked: Array.from(relinked.entries())
+      .filter(([id]) => !createdIds.has(id))
+      .map(([id, parentId]) => ({ id, parentId })),
+    next
+  };
+};
+
+export const DEFAULT_PRACTICE_RETENTION: PracticeRetention = { mode: 'all', value: 0 };
+
+/** Practice records kept on a gem in memory. Older ones are paged in from the repository. */
+export const RECENT_PRACTICES_KEPT = 5;
+
+/**
+ * Adds a practice record to the front of a newest-first list, keeping at most `keep` records
+ * when given. Stores keep every record; only the retention policy trims them.
+ */
+export const prependPractice = (practices: PracticeRecord[] = [], record: PracticeRecord, keep?: number): PracticeRecord[] =>
+  [record, ...practices].slice(0, keep);
+
+/**
+ * Oldest timestamp kept by a `days` retention policy.
+ */
+export const retentionCutoff = (days: number, now: number = Date.now()): number => now - days * 24 * 60 * 60 * 1000;
+
+/**
+ * The practice records a retention policy would remove.
+ */
+export const practicesOutsideRetention = (practices: PracticeRecord[], retention: PracticeRetention, now: number = Date.now()): PracticeRecord[] => {
+  if (retention.mode === 'count') {
+    return [...practices].sort((a, b) => b.timestamp - a.timestamp).slice(Math.max(0, retention.value));
+  }
+  if (retention.mode === 'days') {
+    const cutoff = retentionCutoff(retention.value, now);
+    return practices.filter(p => p.timestamp < cutoff);
+  }
+  return [];
+};
+
+/**
+ * Practicing a child phrase gives its parent gem a small mastery boost.
+ */
+export const boostParentMastery = (mastery: number = 0): number => Math.min(5, Number((mastery + 0.2).toFixed(2)));
@@ -8,6 +8,12 @@ export default defineConfig({
   define: {
     // 这里的映射必须与 GitHub Secrets 以及 App.tsx 中的引用一一对应
     'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ''),
+    'process.env.LLM_PROVIDER': JSON.stringify(process.env.LLM_PROVIDER || ''),
+    'process.env.LLM_BASE_URL': JSON.stringify(process.env.LLM_BASE_URL || ''),
+    'process.env.LLM_MODEL': JSON.stringify(process.env.LLM_MODEL || ''),
+    'process.env.LLM_API_KEY': JSON.stringify(process.env.LLM_API_KEY || ''),
+    'process.env.LLM_TTS_MODEL': JSON.stringify(process.env.LLM_TTS_MODEL || ''),
+    'process.env.LLM_STT_MODEL': JSON.stringify(process.env.LLM_STT_MODEL || ''),
     'process.env.FIREBASE_API_KEY': JSON.stringify(process.env.VITE_FIREBASE_API_KEY || ''),
     'process.env.FIREBASE_AUTH_DOMAIN': JSON.stringify(process.env.VITE_FIREBASE_AUTH_DOMAIN || ''),
     'process.env.FIREBASE_PROJECT_ID': JSON.stringify(process.env.VITE_FIREBASE_PROJECT_ID || ''),